@@ -0,0 +1,169 @@
+// api/_lib/dnsRecords.ts
+// Typed DNS collection for scan endpoints (records, CAA lookup, DNSSEC presence, dangling CNAME hints)
+
+import { Resolver } from "dns/promises";
+import { baseDomain } from "../../src/lib/domains.js";
+
+export type MxRecord = { exchange: string; priority: number };
+export type CaaRecord = { critical: number; tag: string; value: string };
+export type SoaRecord = {
+  nsname: string;
+  hostmaster: string;
+  serial: number;
+  refresh: number;
+  retry: number;
+  expire: number;
+  minttl: number;
+};
+
+export type DnsReport = {
+  name: string; // scanned hostname
+  zone: string; // registrable domain (MX/NS/SOA/SPF/DMARC live here)
+  a: string[];
+  aaaa: string[];
+  cname: string[];
+  mx: MxRecord[];
+  ns: string[];
+  txt: string[];
+  soa: SoaRecord | null;
+  caa: CaaRecord[];
+  caaName: string | null; // where the relevant CAA set was found (closest ancestor)
+  dnssec: { signed: boolean; validated: boolean } | null; // null = lookup failed
+  dangling: { target: string; reason: string } | null;
+  spf: string | null;
+  dmarc: string | null;
+};
+
+// Services where a CNAME to an unclaimed resource can be taken over
+const TAKEOVER_SUFFIXES = [
+  "s3.amazonaws.com",
+  "cloudfront.net",
+  "elasticbeanstalk.com",
+  "herokuapp.com",
+  "herokudns.com",
+  "github.io",
+  "azurewebsites.net",
+  "cloudapp.net",
+  "trafficmanager.net",
+  "blob.core.windows.net",
+  "netlify.app",
+  "vercel.app",
+  "pantheonsite.io",
+  "ghost.io",
+  "myshopify.com",
+  "surge.sh",
+  "fastly.net"
+];
+
+const resolver = new Resolver({ timeout: 3000, tries: 2 });
+
+async function safe<T>(p: Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await p;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function resolveTxt(name: string): Promise<string[]> {
+  const rows = await safe(resolver.resolveTxt(name), [] as string[][]);
+  return rows.map((chunks) => chunks.join(""));
+}
+
+export async function resolveMx(name: string): Promise<MxRecord[]> {
+  const rows = await safe(resolver.resolveMx(name), [] as MxRecord[]);
+  return rows.sort((x, y) => x.priority - y.priority);
+}
+
+// RFC 8659: the relevant CAA set is the one on the closest name (walking up to the zone)
+async function findCaa(hostname: string, zone: string) {
+  const labels = hostname.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const name = labels.slice(i).join(".");
+    const records = await safe(resolver.resolveCaa(name), []);
+    if (records.length) {
+      return {
+        caaName: name,
+        caa: records.map((r) => {
+          const [tag, value] = Object.entries(r).find(([k]) => k !== "critical") || ["", ""];
+          return { critical: r.critical, tag, value: String(value) };
+        })
+      };
+    }
+    if (name === zone) break;
+  }
+  return { caaName: null, caa: [] as CaaRecord[] };
+}
+
+// Node's resolver cannot query DS/DNSKEY, so ask a DNS-over-HTTPS resolver (AD flag = validated)
+async function checkDnssec(zone: string): Promise<DnsReport["dnssec"]> {
+  try {
+    const r = await fetch(`https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(zone)}&type=DS`, {
+      headers: { Accept: "application/dns-json" },
+      signal: AbortSignal.timeout(4000)
+    });
+    if (!r.ok) return null;
+    const json = (await r.json()) as { AD?: boolean; Answer?: { type: number }[] };
+    return {
+      signed: (json.Answer || []).some((a) => a.type === 43),
+      validated: Boolean(json.AD)
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function checkDangling(cname: string[]): Promise<DnsReport["dangling"]> {
+  const target = cname[cname.length - 1];
+  if (!target) return null;
+
+  const [v4, v6] = await Promise.all([
+    safe(resolver.resolve4(target), [] as string[]),
+    safe(resolver.resolve6(target), [] as string[])
+  ]);
+  if (v4.length || v6.length) return null;
+
+  const service = TAKEOVER_SUFFIXES.find((s) => target === s || target.endsWith(`.${s}`));
+  return {
+    target,
+    reason: service
+      ? `CNAME points to ${service} but the target does not resolve (possible subdomain takeover)`
+      : "CNAME target does not resolve"
+  };
+}
+
+export async function collectDnsRecords(hostname: string): Promise<DnsReport> {
+  const name = hostname.toLowerCase();
+  const zone = baseDomain(name);
+
+  const [a, aaaa, cname, mx, ns, txt, soa, caa, dnssec, dmarcTxt] = await Promise.all([
+    safe(resolver.resolve4(name), [] as string[]),
+    safe(resolver.resolve6(name), [] as string[]),
+    safe(resolver.resolveCname(name), [] as string[]),
+    resolveMx(zone),
+    safe(resolver.resolveNs(zone), [] as string[]),
+    resolveTxt(zone),
+    safe(resolver.resolveSoa(zone), null as SoaRecord | null),
+    findCaa(name, zone),
+    checkDnssec(zone),
+    resolveTxt(`_dmarc.${zone}`)
+  ]);
+
+  return {
+    name,
+    zone,
+    a,
+    aaaa,
+    cname,
+    mx,
+    ns,
+    txt,
+    soa,
+    caa: caa.caa,
+    caaName: caa.caaName,
+    dnssec,
+    dangling: cname.length ? await checkDangling(cname) : null,
+    spf: txt.find((t) => /^v=spf1\b/i.test(t)) || null,
+    dmarc: dmarcTxt.find((t) => /^v=DMARC1\b/i.test(t)) || null
+  };
+}
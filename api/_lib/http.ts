@@ -0,0 +1,314 @@
+// api/_lib/http.ts
+// Raw HTTP(S) requests for scan endpoints: SSRF-guarded, TLS details, redirect following
+
+import https from "https";
+import http from "http";
+import tls from "tls";
+import { URL } from "url";
+import type { IncomingHttpHeaders, IncomingMessage } from "http";
+import { assertTargetAllowed, pinnedLookup } from "./targetPolicy.js";
+import { baseDomain } from "../../src/lib/domains.js";
+
+export type Certificate = {
+  issuer: string;
+  fingerprint: string; // SHA-256, identifies rotations between scans
+  validFrom: string;
+  validTo: string;
+  expired: boolean;
+  daysRemaining: number;
+};
+
+export type TlsInfo = {
+  protocol: string | null;
+  cipher: { name: string; standardName: string; version: string } | null;
+  keyType: "RSA" | "EC" | "Unknown";
+  keySize: number | null;
+  curve: string | null;
+  signatureAlgorithm: string | null;
+  subject: string;
+  san: string[];
+  hostnameMatch: boolean;
+  chain: { subject: string; issuer: string; validTo: string }[];
+  chainDepth: number;
+  authorized: boolean;
+  authorizationError: string | null;
+  selfSigned: boolean;
+};
+
+export type HopResponse = {
+  statusCode: number;
+  headers: IncomingHttpHeaders;
+  certificate: Certificate | null;
+  tls: TlsInfo | null;
+  body: string; // first BODY_LIMIT bytes of an HTML (or readBody) GET response, "" otherwise
+};
+
+// invalid-location / unsupported-scheme hops end the chain: the Location cannot be followed
+export type RedirectFlag = "downgrade" | "cross-domain" | "invalid-location" | "unsupported-scheme";
+
+export type RedirectHop = {
+  url: string;
+  statusCode: number;
+  location: string | null;
+  headers: IncomingHttpHeaders;
+  flags: RedirectFlag[];
+};
+
+function readCertificate(url: URL, resp: IncomingMessage): Certificate | null {
+  if (url.protocol !== "https:" || !(resp.socket instanceof tls.TLSSocket)) return null;
+
+  const cert = resp.socket.getPeerCertificate();
+  if (!cert?.valid_to) return null;
+
+  const validTo = new Date(cert.valid_to);
+  return {
+    issuer: cert.issuer?.O || "Unknown",
+    fingerprint: cert.fingerprint256 || "",
+    validFrom: cert.valid_from,
+    validTo: cert.valid_to,
+    expired: validTo.getTime() < Date.now(),
+    daysRemaining: Math.ceil(
+      (validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
+    )
+  };
+}
+
+const SIGNATURE_OIDS: Record<string, string> = {
+  "1.2.840.113549.1.1.4": "md5WithRSAEncryption",
+  "1.2.840.113549.1.1.5": "sha1WithRSAEncryption",
+  "1.2.840.113549.1.1.10": "RSASSA-PSS",
+  "1.2.840.113549.1.1.11": "sha256WithRSAEncryption",
+  "1.2.840.113549.1.1.12": "sha384WithRSAEncryption",
+  "1.2.840.113549.1.1.13": "sha512WithRSAEncryption",
+  "1.2.840.10045.4.1": "ecdsa-with-SHA1",
+  "1.2.840.10045.4.3.2": "ecdsa-with-SHA256",
+  "1.2.840.10045.4.3.3": "ecdsa-with-SHA384",
+  "1.2.840.10045.4.3.4": "ecdsa-with-SHA512",
+  "1.3.101.112": "Ed25519",
+  "1.3.101.113": "Ed448"
+};
+
+// Minimal DER walk: Certificate ::= SEQUENCE { tbsCertificate, signatureAlgorithm, signature }
+function readSignatureAlgorithm(der: Buffer): string | null {
+  try {
+    const readHeader = (pos: number) => {
+      let len = der[pos + 1];
+      let offset = pos + 2;
+      if (len & 0x80) {
+        const bytes = len & 0x7f;
+        len = 0;
+        for (let i = 0; i < bytes; i++) len = (len << 8) | der[offset + i];
+        offset += bytes;
+      }
+      return { tag: der[pos], start: offset, end: offset + len };
+    };
+
+    const cert = readHeader(0);
+    const tbs = readHeader(cert.start);
+    const algSeq = readHeader(tbs.end);
+    const oid = readHeader(algSeq.start);
+    if (oid.tag !== 0x06) return null;
+
+    const bytes = der.subarray(oid.start, oid.end);
+    const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+    let value = 0;
+    for (let i = 1; i < bytes.length; i++) {
+      value = (value << 7) | (bytes[i] & 0x7f);
+      if (!(bytes[i] & 0x80)) {
+        parts.push(value);
+        value = 0;
+      }
+    }
+    const dotted = parts.join(".");
+    return SIGNATURE_OIDS[dotted] || dotted;
+  } catch {
+    return null;
+  }
+}
+
+function readTls(url: URL, resp: IncomingMessage): TlsInfo | null {
+  if (url.protocol !== "https:" || !(resp.socket instanceof tls.TLSSocket)) return null;
+
+  const socket = resp.socket;
+  const cert = socket.getPeerCertificate(true);
+  if (!cert || !cert.raw) return null;
+
+  // Walk the presented chain (the root points back at itself)
+  const chain: TlsInfo["chain"] = [];
+  const seen = new Set<string>();
+  let node: tls.DetailedPeerCertificate | undefined = cert;
+  while (node && node.raw && !seen.has(node.fingerprint256)) {
+    seen.add(node.fingerprint256);
+    chain.push({
+      subject: node.subject?.CN || node.subject?.O || "Unknown",
+      issuer: node.issuer?.CN || node.issuer?.O || "Unknown",
+      validTo: node.valid_to
+    });
+    node = node.issuerCertificate;
+  }
+
+  const cipher = socket.getCipher();
+  const authorizationError = socket.authorizationError ? String(socket.authorizationError) : null;
+  const keyType = cert.modulus ? "RSA" : cert.asn1Curve || cert.nistCurve ? "EC" : "Unknown";
+
+  return {
+    protocol: socket.getProtocol(),
+    cipher: cipher ? { name: cipher.name, standardName: cipher.standardName, version: cipher.version } : null,
+    keyType,
+    keySize: cert.bits || null,
+    curve: cert.nistCurve || cert.asn1Curve || null,
+    signatureAlgorithm: readSignatureAlgorithm(cert.raw),
+    subject: cert.subject?.CN || "Unknown",
+    san: (cert.subjectaltname || "")
+      .split(",")
+      .map((s) => s.trim().replace(/^(DNS|IP Address):/, ""))
+      .filter(Boolean),
+    hostnameMatch: !tls.checkServerIdentity(url.hostname, cert),
+    chain,
+    chainDepth: chain.length,
+    authorized: socket.authorized,
+    authorizationError,
+    selfSigned:
+      authorizationError === "DEPTH_ZERO_SELF_SIGNED_CERT" ||
+      authorizationError === "SELF_SIGNED_CERT_IN_CHAIN"
+  };
+}
+
+// Enough HTML for fingerprinting (<head>, early <script> tags) without buffering whole pages
+const BODY_LIMIT = 64 * 1024;
+
+export async function requestOnce(
+  url: URL,
+  method = "GET",
+  extraHeaders: Record<string, string> = {},
+  options: { readBody?: boolean } = {}
+): Promise<HopResponse> {
+  // SSRF guard: vet the target (again for every redirect hop) and pin the connection to it
+  const target = await assertTargetAllowed(url);
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+
+    const request = client.request(
+      {
+        hostname: url.hostname,
+        port: url.port || (url.protocol === "https:" ? 443 : 80),
+        path: `${url.pathname || "/"}${url.search || ""}`,
+        method,
+        rejectUnauthorized: false,
+        agent: false, // fresh handshake per hop (resumed sessions hide the peer certificate)
+        lookup: pinnedLookup(target),
+        headers: {
+          "User-Agent": "PascoAI-WebSecurity/1.0",
+          Accept: "*/*",
+          Connection: "close", // 🔑 prevents hanging
+          ...extraHeaders
+        },
+        timeout: 10000 // 🔑 hard safety
+      },
+      (resp) => {
+        // Read the certificate while the socket is still open
+        const certificate = readCertificate(url, resp);
+        const tlsInfo = readTls(url, resp);
+
+        const keepBody =
+          method === "GET" && (options.readBody || /html/i.test(String(resp.headers["content-type"] || "")));
+        const chunks: Buffer[] = [];
+        let size = 0;
+        resp.on("data", (chunk: Buffer) => {
+          if (!keepBody || size >= BODY_LIMIT) return;
+          chunks.push(chunk);
+          size += chunk.length;
+        });
+
+        // 🔑 Drain response (VERY IMPORTANT)
+        resp.resume();
+        resp.once("end", () => {
+          resolve({
+            statusCode: resp.statusCode || 0,
+            headers: resp.headers,
+            certificate,
+            tls: tlsInfo,
+            body: Buffer.concat(chunks).subarray(0, BODY_LIMIT).toString("utf8")
+          });
+        });
+      }
+    );
+
+    request.on("timeout", () => {
+      request.destroy(Object.assign(new Error("Target timed out"), { status: 504 }));
+    });
+
+    request.on("error", reject);
+
+    request.end();
+  });
+}
+
+function isRedirect(statusCode: number) {
+  return [301, 302, 303, 307, 308].includes(statusCode);
+}
+
+function parseLocation(location: string, base: URL) {
+  try {
+    return new URL(location, base);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follow 3xx responses up to maxRedirects, recording every hop.
+ * The last entry is the final response unless the limit was reached or a
+ * Location could not be followed (malformed, or not http/https).
+ */
+export async function followRedirects(url: URL, maxRedirects: number) {
+  const chain: RedirectHop[] = [];
+  let current = url;
+  let resp = await requestOnce(current);
+  let redirectLimitReached = false;
+  let redirectStopped = false;
+
+  while (isRedirect(resp.statusCode) && resp.headers.location) {
+    const next = parseLocation(resp.headers.location, current);
+    const flags: RedirectFlag[] = [];
+    if (!next) flags.push("invalid-location");
+    else if (next.protocol !== "http:" && next.protocol !== "https:") flags.push("unsupported-scheme");
+    else {
+      if (current.protocol === "https:" && next.protocol === "http:") flags.push("downgrade");
+      if (baseDomain(current.hostname) !== baseDomain(next.hostname)) flags.push("cross-domain");
+    }
+
+    chain.push({
+      url: current.href,
+      statusCode: resp.statusCode,
+      location: next?.href ?? resp.headers.location,
+      headers: resp.headers,
+      flags
+    });
+
+    if (!next || flags.includes("unsupported-scheme")) {
+      redirectStopped = true;
+      break;
+    }
+    if (chain.length > maxRedirects) {
+      redirectLimitReached = true;
+      break;
+    }
+
+    current = next;
+    resp = await requestOnce(current);
+  }
+
+  if (!redirectLimitReached && !redirectStopped) {
+    chain.push({
+      url: current.href,
+      statusCode: resp.statusCode,
+      location: null,
+      headers: resp.headers,
+      flags: []
+    });
+  }
+
+  return { chain, finalUrl: current, response: resp, redirectLimitReached };
+}
@@ -0,0 +1,126 @@
+// api/_lib/jobRunner.ts
+// Executes scheduled scans: due-job sweep, single runs and alert evaluation.
+// startScheduler() keeps an in-process timer in the long-running local server;
+// /api/jobs?action=tick runs the same sweep on demand.
+
+import { randomUUID } from "crypto";
+import { scanTarget } from "./scanTarget.js";
+import { updateStore, readStore } from "./jobStore.js";
+import { nextRunAt } from "../../src/lib/schedule.js";
+import { diffSnapshots, snapshotFromScan } from "../../src/lib/scanDiff.js";
+import type { JobAlert, JobAlertKind, JobRun, ScheduledTarget } from "../../src/lib/jobs.js";
+
+const DEFAULT_TICK_MS = 60_000;
+
+function computeAlerts(target: ScheduledTarget, run: JobRun, previous: JobRun | undefined) {
+  const out: { kind: JobAlertKind; message: string }[] = [];
+
+  if (run.error) {
+    out.push({ kind: "scan-failed", message: `Scheduled scan failed: ${run.error}` });
+    return out;
+  }
+
+  const result = run.result!;
+  const days = result.context?.tls?.daysRemaining;
+  if (target.alerts.certExpiryDays != null && days != null && days <= target.alerts.certExpiryDays) {
+    out.push({
+      kind: "cert-expiry",
+      message: days < 0 ? `Certificate expired ${-days} days ago` : `Certificate expires in ${days} days`
+    });
+  }
+
+  if (target.alerts.gradeDrop && previous?.result) {
+    const diff = diffSnapshots(snapshotFromScan(previous.result), snapshotFromScan(result));
+    if (diff.gradeDrop) {
+      out.push({
+        kind: "grade-drop",
+        message: `Grade dropped from ${diff.from.grade} to ${diff.to.grade} (${diff.from.score} → ${diff.to.score})`
+      });
+    }
+  }
+
+  return out;
+}
+
+export async function runJob(targetId: string, now = new Date()): Promise<JobRun> {
+  const target = (await readStore()).targets.find((t) => t.id === targetId);
+  if (!target) throw Object.assign(new Error("Scheduled target not found"), { status: 404 });
+
+  const started = Date.now();
+  let result: JobRun["result"] = null;
+  let error: string | null = null;
+  try {
+    result = await scanTarget(target.target);
+  } catch (err) {
+    error = (err as Error)?.message || "scan failed";
+  }
+
+  const run: JobRun = {
+    targetId,
+    startedAt: now.toISOString(),
+    durationMs: Date.now() - started,
+    result,
+    error
+  };
+
+  await updateStore((data) => {
+    const current = data.targets.find((t) => t.id === targetId);
+    if (!current) return; // deleted while the scan was running
+
+    const history = data.runs[targetId] || [];
+    const previous = history.find((r) => r.result);
+
+    for (const alert of computeAlerts(current, run, previous)) {
+      // One open alert per kind and target until it is acknowledged
+      const open = data.alerts.some((a) => a.targetId === targetId && a.kind === alert.kind && !a.acknowledged);
+      if (open) continue;
+      const entry: JobAlert = {
+        id: randomUUID(),
+        targetId,
+        target: current.target,
+        createdAt: run.startedAt,
+        acknowledged: false,
+        ...alert
+      };
+      data.alerts.unshift(entry);
+    }
+
+    data.runs[targetId] = [run, ...history];
+    current.lastRunAt = run.startedAt;
+    current.lastError = run.error;
+    current.nextRunAt = nextRunAt(current.schedule, now)?.toISOString() ?? null;
+  });
+
+  return run;
+}
+
+let sweeping = false;
+
+/** Run every enabled target whose next run is due, one at a time. */
+export async function runDueJobs(now = new Date()) {
+  if (sweeping) return { ran: [] as string[], skipped: true };
+  sweeping = true;
+  try {
+    const { targets } = await readStore();
+    const due = targets.filter((t) => t.enabled && t.nextRunAt && new Date(t.nextRunAt).getTime() <= now.getTime());
+    for (const t of due) await runJob(t.id, now);
+    return { ran: due.map((t) => t.id), skipped: false };
+  } finally {
+    sweeping = false;
+  }
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+export function startScheduler(intervalMs = DEFAULT_TICK_MS) {
+  if (timer) return;
+  timer = setInterval(() => {
+    runDueJobs().catch((err) => console.error("[jobs] sweep failed:", err));
+  }, intervalMs);
+  timer.unref?.();
+}
+
+export function stopScheduler() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
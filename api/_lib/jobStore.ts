@@ -0,0 +1,70 @@
+// api/_lib/jobStore.ts
+// File-based store for scheduled targets, their run history and raised alerts.
+// Only meaningful for a long-running local process: serverless instances have no
+// durable, shared disk, so the jobs API refuses to run when deployed (see isDeployed).
+//
+// Env overrides:
+//   PASCO_JOBS_FILE   path of the JSON store (default .pasco/jobs.json)
+
+import fs from "fs/promises";
+import path from "path";
+import type { JobAlert, JobRun, ScheduledTarget } from "../../src/lib/jobs.js";
+
+export type JobStoreData = {
+  targets: ScheduledTarget[];
+  runs: Record<string, JobRun[]>; // targetId -> newest first
+  alerts: JobAlert[]; // newest first
+};
+
+const MAX_RUNS_PER_TARGET = 20;
+const MAX_ALERTS = 200;
+
+// Preview/production deployments, as opposed to `vercel dev` or a plain Node process
+export function isDeployed() {
+  return process.env.VERCEL_ENV === "production" || process.env.VERCEL_ENV === "preview";
+}
+
+export function storePath() {
+  return path.resolve(process.env.PASCO_JOBS_FILE || path.join(".pasco", "jobs.json"));
+}
+
+function empty(): JobStoreData {
+  return { targets: [], runs: {}, alerts: [] };
+}
+
+export async function readStore(): Promise<JobStoreData> {
+  try {
+    const raw = JSON.parse(await fs.readFile(storePath(), "utf8"));
+    return { ...empty(), ...raw };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return empty();
+    throw err;
+  }
+}
+
+async function writeStore(data: JobStoreData) {
+  const file = storePath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write-then-rename so a crash never leaves a truncated store behind
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+  await fs.rename(tmp, file);
+}
+
+// Serialize read-modify-write cycles within this process
+let queue: Promise<unknown> = Promise.resolve();
+
+export function updateStore<T>(fn: (data: JobStoreData) => T | Promise<T>): Promise<T> {
+  const next = queue.then(async () => {
+    const data = await readStore();
+    const out = await fn(data);
+    data.alerts = data.alerts.slice(0, MAX_ALERTS);
+    for (const id of Object.keys(data.runs)) {
+      data.runs[id] = data.runs[id].slice(0, MAX_RUNS_PER_TARGET);
+    }
+    await writeStore(data);
+    return out;
+  });
+  queue = next.catch(() => undefined);
+  return next;
+}
@@ -0,0 +1,438 @@
+// api/_lib/mailAuth.ts
+// Mail-domain authentication checks for /api/email-auth: fetches MX, SPF (with include
+// expansion and lookup counting), DMARC, MTA-STS (record + HTTPS policy), TLS-RPT and BIMI.
+
+import { URL } from "url";
+import { resolveMx, resolveTxt } from "./dnsRecords.js";
+import { baseDomain } from "../../src/lib/domains.js";
+import { requestOnce } from "./http.js";
+import {
+  MAIL_AUTH_PENALTY,
+  type BimiResult,
+  type DmarcPolicy,
+  type DmarcResult,
+  type DomainAuth,
+  type MailAuthFinding,
+  type MtaStsPolicy,
+  type MtaStsResult,
+  type SpfMechanism,
+  type SpfNode,
+  type SpfQualifier,
+  type SpfResult,
+  type TlsRptResult
+} from "../../src/lib/mailAuth.js";
+
+const SPF_LOOKUP_LIMIT = 10;
+const SPF_VOID_LIMIT = 2;
+const SPF_MAX_DEPTH = 10;
+const SPF_MECHANISMS = ["all", "include", "a", "mx", "ptr", "ip4", "ip6", "exists"];
+const SPF_LOOKUP_TERMS = ["include", "a", "mx", "ptr", "exists"];
+
+/* ---------------- Record parsing ---------------- */
+
+// "v=DMARC1; p=reject; rua=mailto:a@x" -> { v: "DMARC1", p: "reject", rua: "mailto:a@x" }
+function parseTags(record: string) {
+  const tags: Record<string, string> = {};
+  for (const part of record.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq < 0) continue;
+    tags[part.slice(0, eq).trim().toLowerCase()] = part.slice(eq + 1).trim();
+  }
+  return tags;
+}
+
+function splitUris(value: string | undefined) {
+  return (value || "")
+    .split(",")
+    .map((u) => u.trim().replace(/!\d+[kmgt]?$/i, "")) // drop DMARC size limits
+    .filter(Boolean);
+}
+
+export function parseSpf(record: string) {
+  const mechanisms: SpfMechanism[] = [];
+  const modifiers: Record<string, string> = {};
+  const unknown: string[] = [];
+
+  for (const term of record.trim().split(/\s+/).slice(1)) {
+    const modifier = term.match(/^([a-z][a-z0-9_.-]*)=(.*)$/i);
+    if (modifier) {
+      modifiers[modifier[1].toLowerCase()] = modifier[2];
+      continue;
+    }
+
+    const m = term.match(/^([+\-~?]?)([a-z0-9]+)(.*)$/i);
+    const type = m?.[2].toLowerCase();
+    if (!m || !type || !SPF_MECHANISMS.includes(type)) {
+      unknown.push(term);
+      continue;
+    }
+    mechanisms.push({
+      qualifier: (m[1] || "+") as SpfQualifier,
+      type,
+      value: m[3].startsWith(":") ? m[3].slice(1) : m[3] || null
+    });
+  }
+
+  return {
+    mechanisms,
+    redirect: modifiers.redirect?.toLowerCase() || null,
+    unknown
+  };
+}
+
+function readDmarcPolicy(value: string | undefined): DmarcPolicy | null {
+  const v = value?.toLowerCase();
+  return v === "none" || v === "quarantine" || v === "reject" ? v : null;
+}
+
+export function parseDmarc(record: string, source: string): DmarcResult {
+  const tags = parseTags(record);
+  const errors: string[] = [];
+
+  const policy = readDmarcPolicy(tags.p);
+  if (!tags.p) errors.push("Missing required p= tag");
+  else if (!policy) errors.push(`Unknown policy p=${tags.p}`);
+
+  const pct = tags.pct === undefined ? 100 : Number(tags.pct);
+  if (!Number.isInteger(pct) || pct < 0 || pct > 100) errors.push(`Invalid pct=${tags.pct}`);
+
+  return {
+    record,
+    source,
+    policy,
+    subdomainPolicy: readDmarcPolicy(tags.sp) || policy,
+    pct: Number.isInteger(pct) ? Math.max(0, Math.min(100, pct)) : 100,
+    rua: splitUris(tags.rua),
+    ruf: splitUris(tags.ruf),
+    adkim: tags.adkim?.toLowerCase() === "s" ? "s" : "r",
+    aspf: tags.aspf?.toLowerCase() === "s" ? "s" : "r",
+    errors
+  };
+}
+
+// RFC 8461 policy file: "key: value" lines, mx may repeat
+export function parseMtaStsPolicy(text: string): MtaStsPolicy {
+  const policy: MtaStsPolicy = { version: null, mode: null, mx: [], maxAge: null };
+  for (const line of text.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    if (key === "version") policy.version = value;
+    if (key === "mode" && (value === "enforce" || value === "testing" || value === "none")) policy.mode = value;
+    if (key === "mx" && value) policy.mx.push(value.toLowerCase());
+    if (key === "max_age" && /^\d+$/.test(value)) policy.maxAge = Number(value);
+  }
+  return policy;
+}
+
+// "*.example.com" matches exactly one extra label, as in RFC 8461 section 4.1
+function mxMatches(pattern: string, host: string) {
+  if (!pattern.startsWith("*.")) return pattern === host;
+  const rest = host.slice(host.indexOf(".") + 1);
+  return host.includes(".") && rest === pattern.slice(2);
+}
+
+/* ---------------- SPF expansion ---------------- */
+
+type SpfWalk = { lookups: number; voidLookups: number; visited: Set<string> };
+
+async function fetchSpfRecords(domain: string) {
+  return (await resolveTxt(domain)).filter((t) => /^v=spf1(\s|$)/i.test(t));
+}
+
+async function expandSpf(domain: string, walk: SpfWalk, depth: number, records?: string[]): Promise<SpfNode> {
+  const node: SpfNode = { domain, record: null, mechanisms: [], all: null, redirect: null, includes: [], error: null };
+
+  if (walk.visited.has(domain)) {
+    node.error = "Include loop";
+    return node;
+  }
+  walk.visited.add(domain);
+
+  const found = records || (await fetchSpfRecords(domain));
+  if (!found.length) {
+    walk.voidLookups++;
+    node.error = "No SPF record";
+    return node;
+  }
+  if (found.length > 1) node.error = "Multiple SPF records";
+
+  const parsed = parseSpf(found[0]);
+  node.record = found[0];
+  node.mechanisms = parsed.mechanisms;
+  node.all = parsed.mechanisms.find((m) => m.type === "all")?.qualifier || null;
+  node.redirect = parsed.redirect;
+  if (parsed.unknown.length) node.error = `Unknown terms: ${parsed.unknown.join(" ")}`;
+
+  // Targets with macros (%{d} ...) depend on the connecting client and cannot be expanded here
+  const expandable = (target: string | null) =>
+    Boolean(target) && !target!.includes("%") && walk.lookups <= SPF_LOOKUP_LIMIT && depth < SPF_MAX_DEPTH;
+
+  for (const m of parsed.mechanisms) {
+    if (!SPF_LOOKUP_TERMS.includes(m.type)) continue;
+    walk.lookups++;
+    if (m.type === "include" && expandable(m.value)) {
+      node.includes.push(await expandSpf(m.value!.toLowerCase(), walk, depth + 1));
+    }
+  }
+
+  // redirect= only applies when the record has no "all"
+  if (parsed.redirect && !node.all) {
+    walk.lookups++;
+    if (expandable(parsed.redirect)) {
+      node.includes.push(await expandSpf(parsed.redirect, walk, depth + 1));
+    }
+  }
+
+  return node;
+}
+
+function effectiveAll(node: SpfNode | undefined): SpfQualifier | null {
+  if (!node) return null;
+  if (node.all || !node.redirect) return node.all;
+  return effectiveAll(node.includes.find((n) => n.domain === node.redirect));
+}
+
+function flattenSpf(node: SpfNode): SpfNode[] {
+  return [node, ...node.includes.flatMap(flattenSpf)];
+}
+
+async function checkSpf(domain: string): Promise<SpfResult> {
+  const records = await fetchSpfRecords(domain);
+  if (!records.length) {
+    return { record: null, recordCount: 0, tree: null, lookups: 0, voidLookups: 0, all: null };
+  }
+
+  const walk: SpfWalk = { lookups: 0, voidLookups: 0, visited: new Set() };
+  const tree = await expandSpf(domain, walk, 0, records);
+
+  return {
+    record: records[0],
+    recordCount: records.length,
+    tree,
+    lookups: walk.lookups,
+    voidLookups: walk.voidLookups,
+    all: effectiveAll(tree)
+  };
+}
+
+/* ---------------- Other records ---------------- */
+
+async function checkDmarc(domain: string): Promise<DmarcResult> {
+  const lookup = async (name: string) =>
+    (await resolveTxt(`_dmarc.${name}`)).filter((t) => /^v=DMARC1\s*(;|$)/i.test(t));
+
+  // RFC 7489 section 6.6.3: fall back to the organizational domain
+  let source = domain;
+  let records = await lookup(domain);
+  const org = baseDomain(domain);
+  if (!records.length && org !== domain) {
+    source = org;
+    records = await lookup(org);
+  }
+
+  if (!records.length) {
+    return {
+      record: null,
+      source: null,
+      policy: null,
+      subdomainPolicy: null,
+      pct: 100,
+      rua: [],
+      ruf: [],
+      adkim: "r",
+      aspf: "r",
+      errors: []
+    };
+  }
+
+  const result = parseDmarc(records[0], `_dmarc.${source}`);
+  if (records.length > 1) result.errors.push("Multiple DMARC records (receivers will ignore them all)");
+  // Subdomains inherit sp= from the organizational record
+  if (source !== domain) result.policy = result.subdomainPolicy;
+  return result;
+}
+
+async function checkMtaSts(domain: string, mx: string[]): Promise<MtaStsResult> {
+  const record = (await resolveTxt(`_mta-sts.${domain}`)).find((t) => /^v=STSv1\s*(;|$)/i.test(t)) || null;
+  const result: MtaStsResult = {
+    record,
+    id: record ? parseTags(record).id || null : null,
+    policy: null,
+    policyError: null,
+    uncoveredMx: []
+  };
+  if (!record) return result;
+
+  // The policy host goes through the same SSRF policy as every other outbound request
+  try {
+    const resp = await requestOnce(
+      new URL(`https://mta-sts.${domain}/.well-known/mta-sts.txt`),
+      "GET",
+      { Accept: "text/plain" },
+      { readBody: true }
+    );
+    if (resp.statusCode !== 200) {
+      result.policyError = `Policy host answered HTTP ${resp.statusCode}`;
+    } else if (!resp.tls?.authorized) {
+      result.policyError = `Policy host certificate is not trusted (${resp.tls?.authorizationError || "unknown error"})`;
+    } else if (!/^text\/plain/i.test(String(resp.headers["content-type"] || ""))) {
+      result.policyError = "Policy is not served as text/plain";
+    } else {
+      result.policy = parseMtaStsPolicy(resp.body);
+    }
+  } catch (err) {
+    result.policyError = (err as Error)?.message || "Policy fetch failed";
+  }
+
+  if (result.policy) {
+    const patterns = result.policy.mx;
+    result.uncoveredMx = mx.filter((host) => !patterns.some((p) => mxMatches(p, host)));
+  }
+  return result;
+}
+
+async function checkTlsRpt(domain: string): Promise<TlsRptResult> {
+  const record = (await resolveTxt(`_smtp._tls.${domain}`)).find((t) => /^v=TLSRPTv1\s*(;|$)/i.test(t)) || null;
+  return { record, rua: record ? splitUris(parseTags(record).rua) : [] };
+}
+
+async function checkBimi(domain: string): Promise<BimiResult> {
+  const record = (await resolveTxt(`default._bimi.${domain}`)).find((t) => /^v=BIMI1\s*(;|$)/i.test(t)) || null;
+  const tags = record ? parseTags(record) : {};
+  return { record, logo: tags.l || null, authority: tags.a || null };
+}
+
+/* ---------------- Findings ---------------- */
+
+function buildFindings(auth: Omit<DomainAuth, "findings" | "score" | "checkedAt">): MailAuthFinding[] {
+  const findings: MailAuthFinding[] = [];
+  const add = (f: MailAuthFinding) => findings.push(f);
+  const { spf, dmarc, mtaSts, tlsRpt, bimi } = auth;
+
+  // MX
+  if (auth.nullMx) {
+    add({ id: "mx-null", record: "mx", severity: "info", title: "Domain does not accept mail", detail: "A null MX record (RFC 7505) is published." });
+  } else if (!auth.mx.length) {
+    add({ id: "mx-missing", record: "mx", severity: "medium", title: "No MX records", detail: "Senders fall back to the domain's A record, which is rarely intended." });
+  }
+
+  // SPF
+  if (!spf.record) {
+    add({ id: "spf-missing", record: "spf", severity: "high", title: "No SPF record", detail: "Any server can claim to send mail for this domain." });
+  } else {
+    if (spf.recordCount > 1) {
+      add({ id: "spf-multiple", record: "spf", severity: "high", title: "Multiple SPF records", detail: `${spf.recordCount} v=spf1 records are published; SPF evaluation returns permerror.` });
+    }
+    if (spf.lookups > SPF_LOOKUP_LIMIT) {
+      add({ id: "spf-lookup-limit", record: "spf", severity: "high", title: "SPF exceeds the DNS lookup limit", detail: `${spf.lookups} DNS-querying terms (limit ${SPF_LOOKUP_LIMIT}); receivers return permerror.` });
+    } else if (spf.lookups >= SPF_LOOKUP_LIMIT - 1) {
+      add({ id: "spf-lookup-near-limit", record: "spf", severity: "low", title: "SPF is close to the DNS lookup limit", detail: `${spf.lookups} of ${SPF_LOOKUP_LIMIT} lookups used.` });
+    }
+    if (spf.voidLookups > SPF_VOID_LIMIT) {
+      add({ id: "spf-void-lookups", record: "spf", severity: "medium", title: "Too many void SPF lookups", detail: `${spf.voidLookups} included domains publish no SPF record (limit ${SPF_VOID_LIMIT}).` });
+    }
+    for (const node of spf.tree ? flattenSpf(spf.tree).slice(1) : []) {
+      if (node.error) {
+        add({ id: "spf-include-error", record: "spf", severity: "medium", title: `SPF include ${node.domain} is broken`, detail: node.error });
+      }
+    }
+    if (spf.tree?.mechanisms.some((m) => m.type === "ptr")) {
+      add({ id: "spf-ptr", record: "spf", severity: "low", title: "SPF uses the deprecated ptr mechanism", detail: "ptr is slow, unreliable and ignored by some receivers." });
+    }
+    if (spf.all === "+") {
+      add({ id: "spf-pass-all", record: "spf", severity: "critical", title: "SPF allows every sender (+all)", detail: "The record authorizes the whole internet to send as this domain." });
+    } else if (spf.all === "?" || spf.all === null) {
+      add({ id: "spf-neutral-all", record: "spf", severity: "medium", title: "SPF ends without a fail policy", detail: `${spf.all === "?" ? "?all" : "No all mechanism"} leaves unlisted senders neutral.` });
+    } else if (spf.all === "~") {
+      add({ id: "spf-softfail", record: "spf", severity: "low", title: "SPF uses softfail (~all)", detail: "Unlisted senders are marked, not rejected; rely on DMARC for enforcement." });
+    }
+  }
+
+  // DMARC
+  if (!dmarc.record) {
+    add({ id: "dmarc-missing", record: "dmarc", severity: "high", title: "No DMARC record", detail: "Receivers have no policy for mail failing SPF/DKIM alignment." });
+  } else {
+    for (const e of dmarc.errors) {
+      add({ id: "dmarc-invalid", record: "dmarc", severity: "medium", title: "DMARC record is invalid", detail: e });
+    }
+    if (dmarc.policy === "none") {
+      add({ id: "dmarc-monitor-only", record: "dmarc", severity: "medium", title: "DMARC policy is monitor-only (p=none)", detail: "Spoofed mail is reported but still delivered." });
+    } else if (dmarc.policy && dmarc.pct < 100) {
+      add({ id: "dmarc-partial", record: "dmarc", severity: "low", title: `DMARC applies to ${dmarc.pct}% of mail`, detail: "The remaining failing mail is treated one policy level lower." });
+    }
+    if (dmarc.policy && dmarc.policy !== "none" && dmarc.subdomainPolicy === "none") {
+      add({ id: "dmarc-subdomains-open", record: "dmarc", severity: "low", title: "Subdomains are not protected (sp=none)", detail: "Attackers can spoof any subdomain." });
+    }
+    if (!dmarc.rua.length) {
+      add({ id: "dmarc-no-reports", record: "dmarc", severity: "low", title: "No DMARC aggregate reporting (rua)", detail: "Spoofing attempts and misconfigured senders go unnoticed." });
+    }
+  }
+
+  // MTA-STS / TLS-RPT
+  if (!mtaSts.record) {
+    add({ id: "mta-sts-missing", record: "mta-sts", severity: "low", title: "No MTA-STS policy", detail: "Inbound SMTP TLS can be downgraded by an on-path attacker." });
+  } else if (!mtaSts.policy) {
+    add({ id: "mta-sts-policy-error", record: "mta-sts", severity: "medium", title: "MTA-STS policy could not be fetched", detail: mtaSts.policyError || "Unknown error" });
+  } else {
+    if (mtaSts.policy.mode !== "enforce") {
+      add({ id: "mta-sts-not-enforced", record: "mta-sts", severity: "low", title: `MTA-STS mode is ${mtaSts.policy.mode || "missing"}`, detail: "Senders report TLS failures but still deliver." });
+    }
+    if (mtaSts.uncoveredMx.length) {
+      add({
+        id: "mta-sts-mx-mismatch",
+        record: "mta-sts",
+        severity: mtaSts.policy.mode === "enforce" ? "high" : "medium",
+        title: "MX hosts missing from the MTA-STS policy",
+        detail: `${mtaSts.uncoveredMx.join(", ")} ${mtaSts.policy.mode === "enforce" ? "will be refused by" : "do not match"} the policy's mx entries.`
+      });
+    }
+    if (mtaSts.policy.maxAge !== null && mtaSts.policy.maxAge < 86400) {
+      add({ id: "mta-sts-short-max-age", record: "mta-sts", severity: "info", title: "Short MTA-STS max_age", detail: `${mtaSts.policy.maxAge}s; at least a week is recommended once stable.` });
+    }
+  }
+  if (!tlsRpt.record) {
+    add({ id: "tls-rpt-missing", record: "tls-rpt", severity: mtaSts.record ? "low" : "info", title: "No TLS-RPT record", detail: "SMTP TLS delivery failures are not reported to the domain owner." });
+  }
+
+  // BIMI
+  if (bimi.record) {
+    const enforced = dmarc.policy === "quarantine" || dmarc.policy === "reject";
+    if (!enforced || dmarc.pct < 100) {
+      add({ id: "bimi-dmarc-not-enforced", record: "bimi", severity: "medium", title: "BIMI requires an enforced DMARC policy", detail: "Mailbox providers ignore BIMI unless DMARC is quarantine/reject at pct=100." });
+    }
+    if (bimi.logo && !bimi.logo.startsWith("https://")) {
+      add({ id: "bimi-logo-insecure", record: "bimi", severity: "low", title: "BIMI logo is not served over HTTPS", detail: bimi.logo });
+    }
+  }
+
+  return findings;
+}
+
+export async function checkMailDomain(input: string): Promise<DomainAuth> {
+  const domain = input.trim().toLowerCase().replace(/\.$/, "");
+  const mxRecords = await resolveMx(domain);
+  const nullMx = mxRecords.length === 1 && mxRecords[0].exchange === "";
+  const mx = nullMx ? [] : mxRecords;
+  const mxHosts = mx.map((r) => r.exchange.toLowerCase().replace(/\.$/, ""));
+
+  const [spf, dmarc, mtaSts, tlsRpt, bimi] = await Promise.all([
+    checkSpf(domain),
+    checkDmarc(domain),
+    checkMtaSts(domain, mxHosts),
+    checkTlsRpt(domain),
+    checkBimi(domain)
+  ]);
+
+  const auth = { domain, mx, nullMx, spf, dmarc, mtaSts, tlsRpt, bimi };
+  const findings = buildFindings(auth);
+  const penalty = findings.reduce((sum, f) => sum + MAIL_AUTH_PENALTY[f.severity], 0);
+
+  return {
+    ...auth,
+    findings,
+    score: Math.max(0, 100 - penalty),
+    checkedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,131 @@
+// api/_lib/scanTarget.ts
+// Server-side Scanner run (policy check, DNS, redirects, TLS, ports), shared by
+// /api/scan and the scheduled job runner.
+
+import net from "net";
+import dns from "dns/promises";
+import { URL } from "url";
+import { assertTargetAllowed } from "./targetPolicy.js";
+import { followRedirects } from "./http.js";
+import { fingerprint } from "../../src/lib/fingerprint.js";
+import {
+  evaluateScan,
+  SCAN_PORTS,
+  type PortState,
+  type RealScanResult,
+  type ScanContext
+} from "../../src/lib/scanner.js";
+
+const MAX_REDIRECTS = 5;
+const PORT_TIMEOUT_MS = 2500;
+
+type PolicyError = Error & { body?: { code?: string; reason?: string } };
+
+// Plain TCP connect (no payload) against the address the policy already vetted
+function checkPort(address: string, port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: address, port, timeout: PORT_TIMEOUT_MS });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.once("connect", () => done(true));
+    socket.once("timeout", () => done(false));
+    socket.once("error", () => done(false));
+  });
+}
+
+async function scanPorts(address: string): Promise<PortState[]> {
+  return Promise.all(
+    SCAN_PORTS.map(async ({ port, service }) => ({
+      port,
+      service,
+      open: await checkPort(address, port)
+    }))
+  );
+}
+
+function flattenHeaders(headers: Record<string, string | string[] | undefined>) {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers)) {
+    if (v !== undefined) out[k.toLowerCase()] = Array.isArray(v) ? v.join(", ") : String(v);
+  }
+  return out;
+}
+
+export async function scanTarget(target: string): Promise<RealScanResult> {
+  const url = new URL(
+    target.startsWith("http://") || target.startsWith("https://")
+      ? target
+      : `https://${target}`
+  );
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+  const ctx: ScanContext = {
+    target: host,
+    url: url.href,
+    addresses: [],
+    reachable: false,
+    error: null,
+    statusCode: null,
+    finalUrl: null,
+    https: false,
+    headers: {},
+    cookies: [],
+    tls: null,
+    ports: [],
+    technologies: []
+  };
+
+  // Policy first: blocked targets get a 403, an unresolvable name is a finding
+  let vetted;
+  try {
+    vetted = await assertTargetAllowed(url);
+  } catch (err) {
+    if ((err as PolicyError)?.body?.reason !== "unresolvable") throw err;
+  }
+
+  if (vetted) {
+    ctx.addresses = net.isIP(host)
+      ? [host]
+      : (await dns.lookup(host, { all: true }).catch(() => [])).map((a) => a.address);
+    if (!ctx.addresses.length) ctx.addresses = [vetted.address];
+
+    const [fetched, ports] = await Promise.all([
+      followRedirects(url, MAX_REDIRECTS).catch((err: PolicyError) => {
+        // Redirects into a blocked range are refused, not an outage
+        if (err?.body?.code === "TARGET_BLOCKED") throw err;
+        ctx.error = err?.message || "request failed";
+        return null;
+      }),
+      scanPorts(vetted.address)
+    ]);
+
+    ctx.ports = ports;
+
+    if (fetched) {
+      const { finalUrl, response } = fetched;
+      ctx.reachable = true;
+      ctx.statusCode = response.statusCode;
+      ctx.finalUrl = finalUrl.href;
+      ctx.https = finalUrl.protocol === "https:";
+      ctx.headers = flattenHeaders(response.headers);
+      ctx.cookies = response.headers["set-cookie"] || [];
+      ctx.technologies = fingerprint({ headers: response.headers, html: response.body });
+      ctx.tls = response.tls
+        ? {
+            protocol: response.tls.protocol,
+            authorized: response.tls.authorized,
+            authorizationError: response.tls.authorizationError,
+            hostnameMatch: response.tls.hostnameMatch,
+            daysRemaining: response.certificate?.daysRemaining ?? null,
+            issuer: response.certificate?.issuer ?? null,
+            validTo: response.certificate?.validTo ?? null,
+            fingerprint: response.certificate?.fingerprint || null
+          }
+        : null;
+    }
+  }
+
+  return evaluateScan(ctx);
+}
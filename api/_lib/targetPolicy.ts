@@ -0,0 +1,167 @@
+// api/_lib/targetPolicy.ts
+// Outbound target policy shared by the scanning endpoints (SSRF guard).
+//
+// Env overrides:
+//   PASCO_ALLOWED_PORTS     comma list, default "80,443,8080,8443"
+//   PASCO_TARGET_ALLOWLIST  comma list of hostnames (suffix match), IPs or CIDRs
+//                           that may resolve to private ranges (internal lab targets);
+//                           malformed entries are skipped with a warning
+
+import net from "net";
+import dns from "dns/promises";
+import type { LookupFunction } from "net";
+import { URL } from "url";
+
+export type BlockReason = "scheme" | "port" | "private-address" | "unresolvable";
+
+export type TargetBlocked = {
+  error: string;
+  code: "TARGET_BLOCKED";
+  reason: BlockReason;
+  host: string;
+  address?: string;
+};
+
+export type ResolvedTarget = {
+  address: string;
+  family: 4 | 6;
+};
+
+const DEFAULT_PORTS = [80, 443, 8080, 8443];
+const ALLOWED_SCHEMES = ["http:", "https:"];
+
+// Private, loopback, link-local (incl. cloud metadata), CGNAT, multicast and reserved ranges
+const BLOCKED_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"]
+];
+
+const blockedList = new net.BlockList();
+for (const [address, prefix, type] of BLOCKED_RANGES) {
+  blockedList.addSubnet(address, prefix, type);
+}
+
+function readAllowlist() {
+  const hosts: string[] = [];
+  const ips = new net.BlockList();
+
+  for (const entry of (process.env.PASCO_TARGET_ALLOWLIST || "").split(",")) {
+    const e = entry.trim().toLowerCase();
+    if (!e) continue;
+
+    const [ip, prefix, ...rest] = e.split("/");
+    const type = net.isIPv6(ip) ? "ipv6" : "ipv4";
+    if (net.isIP(ip) && prefix !== undefined) {
+      const bits = Number(prefix);
+      if (rest.length || !/^\d+$/.test(prefix) || bits > (type === "ipv6" ? 128 : 32)) {
+        warnInvalidEntry(e);
+        continue;
+      }
+      ips.addSubnet(ip, bits, type);
+    } else if (net.isIP(ip)) ips.addAddress(ip, type);
+    else if (e.includes("/")) warnInvalidEntry(e);
+    else hosts.push(e.replace(/^\*?\./, ""));
+  }
+
+  return { hosts, ips };
+}
+
+// The allowlist is re-read per request; report each bad entry once instead of every time
+const warnedEntries = new Set<string>();
+
+function warnInvalidEntry(entry: string) {
+  if (warnedEntries.has(entry)) return;
+  warnedEntries.add(entry);
+  console.warn(`[target-policy] ignoring invalid PASCO_TARGET_ALLOWLIST entry: ${entry}`);
+}
+
+function readAllowedPorts(): number[] {
+  const raw = process.env.PASCO_ALLOWED_PORTS;
+  if (!raw) return DEFAULT_PORTS;
+  const ports = raw
+    .split(",")
+    .map((p) => Number(p.trim()))
+    .filter((p) => Number.isInteger(p) && p > 0 && p < 65536);
+  return ports.length ? ports : DEFAULT_PORTS;
+}
+
+export function isBlockedAddress(address: string) {
+  return blockedList.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+function blocked(message: string, reason: BlockReason, host: string, address?: string) {
+  const body: TargetBlocked = { error: message, code: "TARGET_BLOCKED", reason, host, address };
+  return Object.assign(new Error(message), { status: 403, body });
+}
+
+/**
+ * Validate scheme/port, resolve the hostname and reject internal addresses.
+ * Returns the vetted address so the caller can pin the connection to it
+ * (see pinnedLookup) instead of resolving a second time.
+ */
+export async function assertTargetAllowed(url: URL): Promise<ResolvedTarget> {
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+  if (!ALLOWED_SCHEMES.includes(url.protocol)) {
+    throw blocked(`Scheme ${url.protocol} is not allowed`, "scheme", host);
+  }
+
+  const port = Number(url.port || (url.protocol === "https:" ? 443 : 80));
+  if (!readAllowedPorts().includes(port)) {
+    throw blocked(`Port ${port} is not allowed`, "port", host);
+  }
+
+  let addresses: { address: string; family: number }[];
+  if (net.isIP(host)) {
+    addresses = [{ address: host, family: net.isIPv6(host) ? 6 : 4 }];
+  } else {
+    addresses = await dns.lookup(host, { all: true }).catch(() => []);
+  }
+
+  if (!addresses.length) {
+    throw blocked(`Could not resolve ${host}`, "unresolvable", host);
+  }
+
+  const allow = readAllowlist();
+  const hostAllowed = allow.hosts.some((h) => host === h || host.endsWith(`.${h}`));
+
+  for (const a of addresses) {
+    const ipAllowed = allow.ips.check(a.address, a.family === 6 ? "ipv6" : "ipv4");
+    if (isBlockedAddress(a.address) && !hostAllowed && !ipAllowed) {
+      throw blocked(
+        `Target ${host} resolves to an internal address (${a.address})`,
+        "private-address",
+        host,
+        a.address
+      );
+    }
+  }
+
+  return { address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+/** DNS lookup override that always answers with the vetted address (no rebinding). */
+export function pinnedLookup(target: ResolvedTarget): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options?.all) {
+      callback(null, [{ address: target.address, family: target.family }]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import { URL } from "url";
+import type { IncomingMessage, ServerResponse } from "http";
+import { checkMailDomain } from "./_lib/mailAuth.js";
+import { isMailDomain } from "../src/lib/mailAuth.js";
+
+export default async function handler(
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  res.setHeader("Content-Type", "application/json");
+
+  try {
+    const reqUrl = new URL(req.url || "", "http://localhost");
+    // Accept a full address too ("user@example.com" -> "example.com")
+    const domain = (reqUrl.searchParams.get("domain") || "").trim().split("@").pop() || "";
+
+    if (!domain) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "Domain is required" }));
+      return;
+    }
+    if (!isMailDomain(domain)) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: `Invalid domain: ${domain}` }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify(await checkMailDomain(domain)));
+  } catch (err) {
+    const { status, body } = (err || {}) as { status?: number; body?: unknown };
+    res.statusCode = status || 500;
+    res.end(JSON.stringify(body || { error: err instanceof Error ? err.message : String(err) }));
+  }
+}
@@ -0,0 +1,168 @@
+import { randomUUID } from "crypto";
+import { URL } from "url";
+import type { IncomingMessage, ServerResponse } from "http";
+import { assertTargetAllowed } from "./_lib/targetPolicy.js";
+import { isDeployed, readStore, updateStore } from "./_lib/jobStore.js";
+import { runDueJobs, runJob, startScheduler } from "./_lib/jobRunner.js";
+import { nextRunAt, validateSchedule, type Schedule } from "../src/lib/schedule.js";
+import { grade } from "../src/lib/webSecurity.js";
+import type { AlertRules, JobsOverview, ScheduledTarget } from "../src/lib/jobs.js";
+
+// Sweep due jobs from this process; deployments refuse the API instead (see handler)
+if (!isDeployed() && process.env.PASCO_SCHEDULER !== "off") startScheduler();
+
+type Body = {
+  action?: string;
+  id?: string;
+  ids?: string[];
+  target?: string;
+  schedule?: Schedule;
+  alerts?: Partial<AlertRules>;
+  enabled?: boolean;
+};
+
+const DEPLOYED_UNAVAILABLE =
+  "Scheduled scans are not available on this deployment: they need a long-running server with local storage " +
+  "(vercel dev or a self-hosted Node process)";
+
+function badRequest(message: string) {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+async function readBody(req: IncomingMessage): Promise<Body> {
+  // Vercel pre-parses JSON bodies; plain Node hands over the stream
+  const parsed = (req as IncomingMessage & { body?: unknown }).body;
+  if (parsed && typeof parsed === "object") return parsed as Body;
+
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    throw badRequest("Invalid JSON body");
+  }
+}
+
+function normalizeAlerts(alerts: Body["alerts"]): AlertRules {
+  const days = alerts?.certExpiryDays;
+  return {
+    certExpiryDays: days == null ? null : Math.max(0, Math.min(365, Math.floor(Number(days) || 0))),
+    gradeDrop: alerts?.gradeDrop !== false
+  };
+}
+
+async function saveTarget(body: Body) {
+  const target = (body.target || "").trim();
+  if (!target) throw badRequest("Target is required");
+  if (!body.schedule) throw badRequest("Schedule is required");
+  try {
+    validateSchedule(body.schedule);
+  } catch (err) {
+    throw badRequest((err as Error).message);
+  }
+
+  await assertTargetAllowed(
+    new URL(target.startsWith("http://") || target.startsWith("https://") ? target : `https://${target}`)
+  );
+
+  const now = new Date();
+  return updateStore((data) => {
+    const existing = body.id ? data.targets.find((t) => t.id === body.id) : undefined;
+    if (body.id && !existing) throw Object.assign(new Error("Scheduled target not found"), { status: 404 });
+
+    const next: ScheduledTarget = {
+      id: existing?.id || randomUUID(),
+      target,
+      schedule: body.schedule!,
+      alerts: normalizeAlerts(body.alerts),
+      enabled: body.enabled !== false,
+      createdAt: existing?.createdAt || now.toISOString(),
+      lastRunAt: existing?.lastRunAt || null,
+      nextRunAt: nextRunAt(body.schedule!, now)?.toISOString() ?? null,
+      lastError: existing?.lastError || null
+    };
+
+    if (existing) data.targets[data.targets.indexOf(existing)] = next;
+    else data.targets.push(next);
+    return next;
+  });
+}
+
+async function overview(): Promise<JobsOverview> {
+  const data = await readStore();
+  const latest: JobsOverview["latest"] = {};
+  for (const t of data.targets) {
+    const run = (data.runs[t.id] || []).find((r) => r.result);
+    latest[t.id] = run?.result
+      ? { score: run.result.score, grade: grade(run.result.score), scannedAt: run.result.scannedAt }
+      : null;
+  }
+  return { targets: data.targets, alerts: data.alerts, latest };
+}
+
+export default async function handler(
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  res.setHeader("Content-Type", "application/json");
+
+  try {
+    const reqUrl = new URL(req.url || "", "http://localhost");
+    const id = reqUrl.searchParams.get("id");
+    let payload: unknown;
+
+    // The store is a local JSON file and the scheduler an in-process timer; on serverless
+    // instances both would silently lose targets, history and alerts between invocations
+    if (isDeployed()) {
+      throw Object.assign(new Error(DEPLOYED_UNAVAILABLE), { status: 501 });
+    }
+
+    if (reqUrl.searchParams.get("action") === "tick") {
+      // Optional shared secret for external triggers: "Authorization: Bearer $CRON_SECRET"
+      const secret = process.env.CRON_SECRET;
+      if (secret && req.headers.authorization !== `Bearer ${secret}`) {
+        throw Object.assign(new Error("Unauthorized"), { status: 401 });
+      }
+      payload = await runDueJobs();
+    } else if (req.method === "GET") {
+      payload = id ? { runs: (await readStore()).runs[id] || [] } : await overview();
+    } else if (req.method === "DELETE") {
+      if (!id) throw badRequest("id is required");
+      await updateStore((data) => {
+        data.targets = data.targets.filter((t) => t.id !== id);
+        data.alerts = data.alerts.filter((a) => a.targetId !== id);
+        delete data.runs[id];
+      });
+      payload = { ok: true };
+    } else if (req.method === "POST") {
+      const body = await readBody(req);
+      switch (body.action) {
+        case "save":
+          payload = { target: await saveTarget(body) };
+          break;
+        case "run":
+          if (!body.id) throw badRequest("id is required");
+          payload = { run: await runJob(body.id) };
+          break;
+        case "ack":
+          await updateStore((data) => {
+            const ids = new Set(body.ids || []);
+            for (const a of data.alerts) if (ids.has(a.id)) a.acknowledged = true;
+          });
+          payload = { ok: true };
+          break;
+        default:
+          throw badRequest(`Unknown action "${body.action}"`);
+      }
+    } else {
+      throw Object.assign(new Error("Method not allowed"), { status: 405 });
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify(payload));
+  } catch (err) {
+    const { status, body } = (err || {}) as { status?: number; body?: unknown };
+    res.statusCode = status || 500;
+    res.end(JSON.stringify(body || { error: err instanceof Error ? err.message : String(err) }));
+  }
+}
@@ -0,0 +1,28 @@
+import { URL } from "url";
+import type { IncomingMessage, ServerResponse } from "http";
+import { scanTarget } from "./_lib/scanTarget.js";
+
+export default async function handler(
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  res.setHeader("Content-Type", "application/json");
+
+  try {
+    const reqUrl = new URL(req.url || "", "http://localhost");
+    const target = reqUrl.searchParams.get("target");
+
+    if (!target) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: "Target is required" }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify(await scanTarget(target)));
+  } catch (err) {
+    const { status, body } = (err || {}) as { status?: number; body?: unknown };
+    res.statusCode = status || 500;
+    res.end(JSON.stringify(body || { error: err instanceof Error ? err.message : String(err) }));
+  }
+}
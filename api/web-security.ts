@@ -1,9 +1,86 @@
-import https from "https";
-import http from "http";
-import tls from "tls";
 import { URL } from "url";
-import dns from "dns/promises";
-import type { IncomingMessage, ServerResponse } from "http";
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "http";
+import { collectDnsRecords } from "./_lib/dnsRecords.js";
+import { followRedirects, requestOnce } from "./_lib/http.js";
+import { fingerprint } from "../src/lib/fingerprint.js";
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const HARD_MAX_REDIRECTS = 10;
+
+type ExposureProbe = {
+  options: {
+    statusCode: number;
+    allow: string;
+    cors: {
+      allowOrigin: string | null;
+      allowCredentials: boolean;
+      allowMethods: string | null;
+      reflectsOrigin: boolean;
+    };
+  } | null;
+  paths: { path: string; statusCode: number | null; exists: boolean }[];
+  catchAll: boolean; // server answers 200 for a random path, so "exists" is unreliable
+};
+
+const PROBE_ORIGIN = "https://pasco-probe.invalid";
+const PROBE_PATHS = ["/.well-known/security.txt", "/robots.txt", "/.git/HEAD"];
+
+// Status-only existence check (HEAD, falling back to a drained GET when HEAD is refused)
+async function probePath(base: URL, path: string): Promise<number | null> {
+  const url = new URL(path, base);
+  try {
+    const head = await requestOnce(url, "HEAD");
+    if (head.statusCode !== 405 && head.statusCode !== 501) return head.statusCode;
+    return (await requestOnce(url, "GET")).statusCode;
+  } catch {
+    return null;
+  }
+}
+
+async function probeExposure(base: URL): Promise<ExposureProbe> {
+  const randomPath = `/pasco-${Math.random().toString(36).slice(2, 10)}`;
+
+  const [options, randomStatus, ...pathStatuses] = await Promise.all([
+    requestOnce(base, "OPTIONS", {
+      Origin: PROBE_ORIGIN,
+      "Access-Control-Request-Method": "GET"
+    }).catch(() => null),
+    probePath(base, randomPath),
+    ...PROBE_PATHS.map((p) => probePath(base, p))
+  ]);
+
+  const header = (h: IncomingHttpHeaders, key: string) => {
+    const v = h[key];
+    return v === undefined ? null : Array.isArray(v) ? v.join(", ") : String(v);
+  };
+
+  return {
+    options: options
+      ? {
+          statusCode: options.statusCode,
+          allow: header(options.headers, "allow") || "",
+          cors: {
+            allowOrigin: header(options.headers, "access-control-allow-origin"),
+            allowCredentials: header(options.headers, "access-control-allow-credentials") === "true",
+            allowMethods: header(options.headers, "access-control-allow-methods"),
+            reflectsOrigin: header(options.headers, "access-control-allow-origin") === PROBE_ORIGIN
+          }
+        }
+      : null,
+    paths: PROBE_PATHS.map((path, i) => ({
+      path,
+      statusCode: pathStatuses[i],
+      exists: pathStatuses[i] === 200
+    })),
+    catchAll: randomStatus === 200
+  };
+}
+
+function readMaxRedirects(raw: string | null) {
+  const n = Number(raw);
+  if (raw === null || !Number.isFinite(n)) return DEFAULT_MAX_REDIRECTS;
+  return Math.max(0, Math.min(HARD_MAX_REDIRECTS, Math.floor(n)));
+}
 
 export default async function handler(
   req: IncomingMessage,
@@ -14,6 +91,7 @@ export default async function handler(
   try {
     const reqUrl = new URL(req.url || "", "http://localhost");
     const target = reqUrl.searchParams.get("url");
+    const maxRedirects = readMaxRedirects(reqUrl.searchParams.get("maxRedirects"));
 
     if (!target) {
       res.statusCode = 400;
@@ -27,90 +105,38 @@ export default async function handler(
         : `https://${target}`
     );
 
-    const client = url.protocol === "https:" ? https : http;
-
-    const request = client.request(
-      {
-        hostname: url.hostname,
-        port: url.port || (url.protocol === "https:" ? 443 : 80),
-        path: `${url.pathname || "/"}${url.search || ""}`,
-        method: "GET",
-        rejectUnauthorized: false,
-        headers: {
-          "User-Agent": "PascoAI-WebSecurity/1.0",
-          Accept: "*/*",
-          Connection: "close" // 🔑 prevents hanging
-        },
-        timeout: 10000 // 🔑 hard safety
-      },
-      async (resp) => {
-        // 🔑 Drain response (VERY IMPORTANT)
-        resp.resume();
-
-        resp.once("end", async () => {
-          // TLS certificate
-          let certificate: null | {
-            issuer: string;
-            validFrom: string;
-            validTo: string;
-            expired: boolean;
-            daysRemaining: number;
-          } = null;
-
-          if (url.protocol === "https:" && resp.socket instanceof tls.TLSSocket) {
-            const cert = resp.socket.getPeerCertificate();
-            if (cert?.valid_to) {
-              const validTo = new Date(cert.valid_to);
-              certificate = {
-                issuer: cert.issuer?.O || "Unknown",
-                validFrom: cert.valid_from,
-                validTo: cert.valid_to,
-                expired: validTo.getTime() < Date.now(),
-                daysRemaining: Math.ceil(
-                  (validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-                )
-              };
-            }
-          }
-
-          // DNS records
-          const dnsRecords = await dns
-            .resolveAny(url.hostname)
-            .catch(() => []);
-
-          res.statusCode = 200;
-          res.end(
-            JSON.stringify({
-              url: url.href,
-              finalUrl: url.href,
-              redirects: [url.href],
-              https: url.protocol === "https:",
-              statusCode: resp.statusCode || 0,
-              headers: resp.headers,
-              certificate,
-              dns: dnsRecords,
-              allow: resp.headers["allow"] || "",
-              scannedAt: new Date().toISOString()
-            })
-          );
-        });
-      }
-    );
+    // Follow the redirect chain, recording every hop
+    const { chain, finalUrl: current, response: resp, redirectLimitReached } =
+      await followRedirects(url, maxRedirects);
 
-    request.on("timeout", () => {
-      request.destroy();
-      res.statusCode = 504;
-      res.end(JSON.stringify({ error: "Target timed out" }));
-    });
+    // DNS records (typed, for the final host) + OPTIONS/CORS and safe path probes
+    const [dnsRecords, probe] = await Promise.all([
+      collectDnsRecords(current.hostname),
+      probeExposure(current)
+    ]);
 
-    request.on("error", (err) => {
-      res.statusCode = 500;
-      res.end(JSON.stringify({ error: err.message }));
-    });
-
-    request.end();
+    res.statusCode = 200;
+    res.end(
+      JSON.stringify({
+        url: url.href,
+        finalUrl: current.href,
+        redirects: chain.map((hop) => hop.url),
+        redirectChain: chain,
+        redirectLimitReached,
+        https: current.protocol === "https:",
+        statusCode: resp.statusCode,
+        headers: resp.headers,
+        certificate: resp.certificate,
+        tls: resp.tls,
+        dns: dnsRecords,
+        technologies: fingerprint({ headers: resp.headers, html: resp.body }),
+        allow: probe.options?.allow || resp.headers["allow"] || "",
+        probe,
+        scannedAt: new Date().toISOString()
+      })
+    );
   } catch (err: any) {
-    res.statusCode = 500;
-    res.end(JSON.stringify({ error: err.message || "Unknown error" }));
+    res.statusCode = err?.status || 500;
+    res.end(JSON.stringify(err?.body || { error: err?.message || "Unknown error" }));
   }
 }
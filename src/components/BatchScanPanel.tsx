@@ -0,0 +1,295 @@
+import { useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowUpDown, Download, Layers, Loader2, Square, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useExportFormat } from "@/hooks/useExportFormat";
+import { downloadExport, type ExportFinding } from "@/lib/exportFormats";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_TARGETS,
+  batchToText,
+  parseTargets,
+  runBatch,
+  type BatchRow,
+  type BatchSummary,
+} from "@/lib/batch";
+
+interface BatchScanPanelProps<T> {
+  scan: (target: string) => Promise<T>;
+  summarize: (result: T) => BatchSummary;
+  findings: (result: T) => ExportFinding[]; // per-finding rows for SARIF / CSV / Markdown
+  tool: string;
+  exportName: string;
+  placeholder?: string;
+}
+
+type SortKey = "target" | "status" | "score" | "findings" | "duration";
+
+const STATUS_ORDER: Record<BatchRow["status"], number> = { error: 0, running: 1, pending: 2, done: 3 };
+
+function gradeClass(grade: string) {
+  if (grade === "A") return "threat-low";
+  if (grade === "B") return "threat-medium";
+  if (grade === "C" || grade === "D") return "threat-high";
+  return "threat-critical";
+}
+
+export function BatchScanPanel<T>({ scan, summarize, findings, tool, exportName, placeholder }: BatchScanPanelProps<T>) {
+  const exportFormat = useExportFormat();
+  const [input, setInput] = useState("");
+  const [concurrency, setConcurrency] = useState(String(DEFAULT_BATCH_CONCURRENCY));
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; dir: 1 | -1 }>({ key: "score", dir: 1 });
+  const abortRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const targets = useMemo(() => parseTargets(input), [input]);
+  const finished = rows.filter((r) => r.status === "done" || r.status === "error").length;
+  const failed = rows.filter((r) => r.status === "error").length;
+
+  const sortedRows = useMemo(() => {
+    const value = (r: BatchRow): string | number => {
+      switch (sort.key) {
+        case "target": return r.target;
+        case "status": return STATUS_ORDER[r.status];
+        case "score": return r.summary ? r.summary.score : -1;
+        case "findings": return r.summary ? r.summary.findings : -1;
+        case "duration": return r.durationMs ?? -1;
+      }
+    };
+    return [...rows].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      return (va < vb ? -1 : va > vb ? 1 : 0) * sort.dir;
+    });
+  }, [rows, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => (prev.key === key ? { key, dir: prev.dir === 1 ? -1 : 1 } : { key, dir: 1 }));
+
+  const onUpload = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setInput((prev) => (prev.trim() ? `${prev.trim()}\n${text}` : text));
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  const start = async () => {
+    if (!targets.length) {
+      toast.error("Add at least one target");
+      return;
+    }
+    if (targets.length > MAX_BATCH_TARGETS) {
+      toast.error(`Batches are limited to ${MAX_BATCH_TARGETS} targets`);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+
+    try {
+      const result = await runBatch(targets, scan, {
+        concurrency: Number(concurrency),
+        summarize,
+        onUpdate: setRows,
+        signal: controller.signal,
+      });
+      const errors = result.filter((r) => r.status === "error").length;
+      if (controller.signal.aborted) toast.info("Batch stopped");
+      else if (errors) toast.warning(`Batch finished with ${errors} failed target${errors === 1 ? "" : "s"}`);
+      else toast.success("Batch completed");
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const exportBatch = () => {
+    if (!rows.length) return;
+
+    const exportedAt = new Date().toISOString();
+    downloadExport(
+      exportFormat,
+      {
+        tool,
+        title: `${tool} Batch Report`,
+        generatedAt: exportedAt,
+        summary: {
+          Targets: rows.length,
+          Completed: rows.filter((r) => r.status === "done").length,
+          Failed: failed,
+        },
+        findings: rows.flatMap((r) => (r.status === "done" && r.result ? findings(r.result as T) : [])),
+        data: { exportedAt, targets: rows },
+        text: batchToText(rows),
+      },
+      `${exportName}-${Date.now()}`
+    );
+
+    toast.success(`Batch exported (${exportFormat})`);
+  };
+
+  const sortHead = (key: SortKey, label: string) => (
+    <TableHead>
+      <button type="button" className="flex items-center gap-1" onClick={() => toggleSort(key)}>
+        {label}
+        <ArrowUpDown className={`w-3 h-3 ${sort.key === key ? "text-primary" : "opacity-50"}`} />
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card variant="cyber">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5 text-primary" />
+            Batch Scan
+          </CardTitle>
+          <CardDescription>
+            Paste targets (one per line) or upload a .txt/.csv file; the first CSV column is used. Up to{" "}
+            {MAX_BATCH_TARGETS} targets.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={placeholder || "example.com\nwww.example.com\napi.example.com"}
+            className="min-h-[140px] font-mono text-sm"
+            disabled={running}
+          />
+
+          <div className="flex flex-wrap items-end gap-3">
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".txt,.csv,text/plain,text/csv"
+              className="hidden"
+              onChange={(e) => onUpload(e.target.files?.[0])}
+            />
+            <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={running}>
+              <Upload className="w-4 h-4 mr-2" />
+              Upload List
+            </Button>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Concurrency</Label>
+              <Select value={concurrency} onValueChange={setConcurrency} disabled={running}>
+                <SelectTrigger className="w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["1", "2", "4", "6", "8"].map((n) => (
+                    <SelectItem key={n} value={n}>
+                      {n} at a time
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Badge variant="outline" className="font-mono h-10 px-3">
+              {targets.length} target{targets.length === 1 ? "" : "s"}
+            </Badge>
+
+            <div className="flex gap-2 ml-auto">
+              {running ? (
+                <Button variant="destructive" onClick={() => abortRef.current?.abort()}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={start} disabled={!targets.length}>
+                  <Layers className="w-4 h-4 mr-2" />
+                  Run Batch
+                </Button>
+              )}
+              <Button variant="secondary" onClick={exportBatch} disabled={!rows.length || running}>
+                <Download className="w-4 h-4 mr-2" />
+                Export ({exportFormat.toUpperCase()})
+              </Button>
+            </div>
+          </div>
+
+          {rows.length > 0 && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {finished}/{rows.length} finished{failed ? ` • ${failed} failed` : ""}
+                </span>
+                {running && <Loader2 className="w-3 h-3 animate-spin" />}
+              </div>
+              <Progress value={(finished / rows.length) * 100} className="h-2" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sortHead("target", "Target")}
+                  {sortHead("status", "Status")}
+                  {sortHead("score", "Grade / Score")}
+                  {sortHead("findings", "Findings")}
+                  {sortHead("duration", "Time")}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRows.map((r) => (
+                  <TableRow key={r.target}>
+                    <TableCell className="font-mono text-xs break-all">
+                      {r.target}
+                      {r.summary?.finalUrl && (
+                        <p className="text-muted-foreground">{r.summary.finalUrl}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {r.status === "error" ? (
+                        <div>
+                          <Badge className="threat-critical">ERROR</Badge>
+                          <p className="text-xs text-muted-foreground mt-1">{r.error}</p>
+                        </div>
+                      ) : (
+                        <Badge variant="outline" className="font-mono">
+                          {r.status === "running" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                          {r.status.toUpperCase()}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {r.summary ? (
+                        <Badge className={gradeClass(r.summary.grade)}>
+                          {r.summary.grade} • {r.summary.score}
+                        </Badge>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{r.summary ? r.summary.findings : "—"}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {r.durationMs != null ? `${(r.durationMs / 1000).toFixed(1)}s` : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
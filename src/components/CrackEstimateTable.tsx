@@ -0,0 +1,177 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CrackEstimates } from "@/lib/password";
+import {
+  DEFAULT_HASH_PARAMS,
+  HASH_ALGORITHM_LABELS,
+  REFERENCE_GPU,
+  type HashAlgorithm,
+  type HashAlgorithmId,
+} from "@/lib/hashBenchmarks";
+
+function formatRate(perSecond: number) {
+  const units: [number, string][] = [
+    [1e12, "TH/s"],
+    [1e9, "GH/s"],
+    [1e6, "MH/s"],
+    [1e3, "kH/s"],
+  ];
+  for (const [size, unit] of units) {
+    if (perSecond >= size) return `${(perSecond / size).toFixed(1)} ${unit}`;
+  }
+  return `${perSecond < 10 ? perSecond.toFixed(2) : Math.round(perSecond)} H/s`;
+}
+
+function formatCost(usd: number) {
+  if (!Number.isFinite(usd) || usd > 1e12) return "> $1T";
+  if (usd < 1) return "< $1";
+  return `$${Math.round(usd).toLocaleString()}`;
+}
+
+interface CrackEstimateTableProps {
+  estimates: CrackEstimates;
+}
+
+export function CrackEstimateTable({ estimates }: CrackEstimateTableProps) {
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-4 gap-2 text-xs text-muted-foreground pb-1 border-b border-white/10">
+        <span className="col-span-2">Attacker</span>
+        <span>Time to exhaust</span>
+        <span className="text-right">Cost</span>
+      </div>
+      {estimates.map((row) => (
+        <div key={row.scenario} className="grid grid-cols-4 gap-2 text-sm items-center">
+          <span className="col-span-2">
+            {row.label}
+            <span className="block text-xs text-muted-foreground font-mono">{formatRate(row.guessesPerSecond)}</span>
+          </span>
+          <span className="font-bold">{row.time}</span>
+          <span className="text-right font-mono text-xs">{row.costUsd !== undefined ? formatCost(row.costUsd) : "—"}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface HashAlgorithmPickerProps {
+  value: HashAlgorithm;
+  onChange: (value: HashAlgorithm) => void;
+}
+
+type ParamField = {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  value: number;
+  set: (n: number) => HashAlgorithm;
+};
+
+// Work-factor inputs for the slow hashes; fast hashes have nothing to tune
+function paramFields(algorithm: HashAlgorithm): ParamField[] {
+  switch (algorithm.id) {
+    case "bcrypt":
+      return [
+        { key: "cost", label: "Cost", min: 4, max: 31, value: algorithm.cost, set: (cost) => ({ ...algorithm, cost }) },
+      ];
+    case "scrypt":
+      return [
+        { key: "N", label: "N", min: 2, max: 2 ** 24, value: algorithm.N, set: (N) => ({ ...algorithm, N }) },
+        { key: "r", label: "r", min: 1, max: 64, value: algorithm.r, set: (r) => ({ ...algorithm, r }) },
+        { key: "p", label: "p", min: 1, max: 64, value: algorithm.p, set: (p) => ({ ...algorithm, p }) },
+      ];
+    case "argon2id":
+      return [
+        {
+          key: "memoryKiB",
+          label: "Memory (KiB)",
+          min: 8,
+          max: 4 * 1024 * 1024,
+          value: algorithm.memoryKiB,
+          set: (memoryKiB) => ({ ...algorithm, memoryKiB }),
+        },
+        {
+          key: "iterations",
+          label: "Iterations",
+          min: 1,
+          max: 100,
+          value: algorithm.iterations,
+          set: (iterations) => ({ ...algorithm, iterations }),
+        },
+        {
+          key: "parallelism",
+          label: "Parallelism",
+          min: 1,
+          max: 64,
+          value: algorithm.parallelism,
+          set: (parallelism) => ({ ...algorithm, parallelism }),
+        },
+      ];
+    case "pbkdf2-sha256":
+      return [
+        {
+          key: "iterations",
+          label: "Iterations",
+          min: 1,
+          max: 10_000_000,
+          value: algorithm.iterations,
+          set: (iterations) => ({ ...algorithm, iterations }),
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+export function HashAlgorithmPicker({ value, onChange }: HashAlgorithmPickerProps) {
+  const fields = paramFields(value);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Target stores passwords with</Label>
+        <Select value={value.id} onValueChange={(id) => onChange(DEFAULT_HASH_PARAMS[id as HashAlgorithmId])}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(HASH_ALGORITHM_LABELS) as HashAlgorithmId[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {HASH_ALGORITHM_LABELS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {fields.length > 0 && (
+        <div className="grid grid-cols-3 gap-3">
+          {fields.map((f) => (
+            <div key={f.key} className="space-y-1">
+              <Label className="text-xs">{f.label}</Label>
+              <Input
+                type="number"
+                min={f.min}
+                max={f.max}
+                value={f.value}
+                onChange={(e) => {
+                  const n = Math.round(Number(e.target.value));
+                  if (!Number.isFinite(n)) return;
+                  onChange(f.set(Math.max(f.min, Math.min(f.max, n))));
+                }}
+                className="font-mono"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Offline rates are benchmarks for one {REFERENCE_GPU}, scaled by the work factor. Online attacks are limited by
+        the login service, not the hash.
+      </p>
+    </div>
+  );
+}
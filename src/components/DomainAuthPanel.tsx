@@ -0,0 +1,164 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle, Globe } from "lucide-react";
+import type { DomainAuth, MailAuthRecord, SpfNode } from "@/lib/mailAuth";
+
+interface DomainAuthPanelProps {
+  auth: DomainAuth | null;
+}
+
+const RECORD_LABELS: Record<MailAuthRecord, string> = {
+  mx: "MX",
+  spf: "SPF",
+  dmarc: "DMARC",
+  "mta-sts": "MTA-STS",
+  "tls-rpt": "TLS-RPT",
+  bimi: "BIMI",
+};
+
+function RecordRow({
+  label,
+  record,
+  children,
+}: {
+  label: string;
+  record: string | null;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 space-y-1">
+      <div className="flex items-center gap-2">
+        {record ? (
+          <CheckCircle className="w-4 h-4 text-success" />
+        ) : (
+          <AlertTriangle className="w-4 h-4 text-warning" />
+        )}
+        <span className="text-sm font-semibold">{label}</span>
+        {!record && <span className="text-xs text-muted-foreground">not published</span>}
+      </div>
+      {record && <p className="font-mono text-xs break-all text-muted-foreground">{record}</p>}
+      {children}
+    </div>
+  );
+}
+
+function SpfTree({ node, depth = 0 }: { node: SpfNode; depth?: number }) {
+  return (
+    <div style={{ paddingLeft: depth * 12 }} className="text-xs space-y-1">
+      <p className="font-mono">
+        {depth > 0 && "↳ "}
+        {node.domain}
+        {node.all && <span className="text-muted-foreground"> ({node.all}all)</span>}
+        {node.error && <span className="text-warning"> — {node.error}</span>}
+      </p>
+      {node.includes.map((child, i) => (
+        <SpfTree key={i} node={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+export function DomainAuthPanel({ auth }: DomainAuthPanelProps) {
+  if (!auth) {
+    return (
+      <Card variant="glass">
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          Analyze a valid address to check its domain's mail records.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { spf, dmarc, mtaSts, tlsRpt, bimi } = auth;
+
+  return (
+    <Card variant="glass">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="w-5 h-5 text-primary" />
+            Domain Authentication
+          </CardTitle>
+          <CardDescription>
+            Mail records for <b>{auth.domain}</b>
+          </CardDescription>
+        </div>
+        <Badge className={auth.score >= 80 ? "threat-low" : auth.score >= 60 ? "threat-medium" : "threat-high"}>
+          {auth.score}/100
+        </Badge>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {auth.findings.length > 0 && (
+          <ul className="space-y-2">
+            {auth.findings.map((f, i) => (
+              <li key={i} className="flex items-start gap-2 text-sm">
+                <Badge className={`threat-${f.severity} shrink-0`}>{f.severity}</Badge>
+                <div>
+                  <p>
+                    <span className="text-muted-foreground">{RECORD_LABELS[f.record]}:</span> {f.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{f.detail}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <RecordRow
+            label="MX"
+            record={
+              auth.nullMx
+                ? "0 . (null MX)"
+                : auth.mx.map((m) => `${m.priority} ${m.exchange}`).join(", ") || null
+            }
+          />
+
+          <RecordRow label="SPF" record={spf.record}>
+            {spf.tree && (
+              <>
+                <p className="text-xs">
+                  DNS lookups: <b className={spf.lookups > 10 ? "text-destructive" : ""}>{spf.lookups}/10</b>
+                  {" · "}effective: <b>{spf.all ? `${spf.all}all` : "none"}</b>
+                </p>
+                <SpfTree node={spf.tree} />
+              </>
+            )}
+          </RecordRow>
+
+          <RecordRow label="DMARC" record={dmarc.record}>
+            {dmarc.record && (
+              <p className="text-xs">
+                policy <b>{dmarc.policy || "invalid"}</b>
+                {" · "}subdomains <b>{dmarc.subdomainPolicy || "—"}</b>
+                {" · "}pct <b>{dmarc.pct}</b>
+                {" · "}alignment dkim/spf <b>{dmarc.adkim}/{dmarc.aspf}</b>
+                {dmarc.source && <span className="text-muted-foreground"> ({dmarc.source})</span>}
+                <br />
+                rua: {dmarc.rua.join(", ") || "—"}
+              </p>
+            )}
+          </RecordRow>
+
+          <RecordRow label="MTA-STS" record={mtaSts.record}>
+            {mtaSts.policy && (
+              <p className="text-xs">
+                mode <b>{mtaSts.policy.mode || "—"}</b>
+                {" · "}max_age <b>{mtaSts.policy.maxAge ?? "—"}</b>
+                {" · "}mx {mtaSts.policy.mx.join(", ") || "—"}
+              </p>
+            )}
+            {mtaSts.policyError && <p className="text-xs text-warning">{mtaSts.policyError}</p>}
+          </RecordRow>
+
+          <RecordRow label="TLS-RPT" record={tlsRpt.record} />
+
+          <RecordRow label="BIMI" record={bimi.record}>
+            {bimi.logo && <p className="text-xs break-all">logo: {bimi.logo}</p>}
+          </RecordRow>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
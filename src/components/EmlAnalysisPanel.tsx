@@ -0,0 +1,177 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Paperclip } from "lucide-react";
+import type { AuthResult, EmlAnalysis, MailAddress } from "@/lib/eml";
+
+interface EmlAnalysisPanelProps {
+  analysis: EmlAnalysis | null;
+}
+
+function resultClass(result: string) {
+  if (result === "pass") return "threat-low";
+  if (result === "fail" || result === "permerror") return "threat-high";
+  return "threat-medium";
+}
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatDelay(seconds: number | null) {
+  if (seconds === null) return "—";
+  if (Math.abs(seconds) < 120) return `${seconds}s`;
+  if (Math.abs(seconds) < 7200) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 3600)}h`;
+}
+
+function AddressRow({ label, value }: { label: string; value: MailAddress | null }) {
+  return (
+    <div className="flex gap-2 text-sm">
+      <span className="w-24 shrink-0 text-muted-foreground">{label}</span>
+      <span className="font-mono break-all">
+        {value ? (value.name ? `${value.name} <${value.address}>` : value.address) : "—"}
+      </span>
+    </div>
+  );
+}
+
+function Verdicts({ results }: { results: AuthResult[] }) {
+  if (!results.length) return <span className="text-xs text-muted-foreground">no results</span>;
+  return (
+    <div className="flex flex-wrap gap-2">
+      {results.map((r, i) => (
+        <Badge
+          key={i}
+          className={resultClass(r.result)}
+          title={Object.entries(r.props).map(([k, v]) => `${k}=${v}`).join(" ")}
+        >
+          {r.method}={r.result}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+export function EmlAnalysisPanel({ analysis }: EmlAnalysisPanelProps) {
+  if (!analysis) {
+    return (
+      <Card variant="glass">
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          Paste or upload a raw message (.eml) to inspect its headers, relay chain and attachments.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { message, findings } = analysis;
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-primary" />
+          Message Analysis
+        </CardTitle>
+        <CardDescription className="break-all">
+          {message.subject || "(no subject)"}
+          {message.date && ` — ${new Date(message.date).toLocaleString()}`}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-5">
+        {findings.length > 0 && (
+          <ul className="space-y-2">
+            {findings.map((f, i) => (
+              <li key={i} className="flex items-start gap-2 text-sm">
+                <Badge className={`threat-${f.severity} shrink-0`}>{f.severity}</Badge>
+                <span>{f.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-1">
+          <h4 className="text-sm font-semibold">Sender identities</h4>
+          <AddressRow label="From" value={message.from} />
+          <AddressRow label="Return-Path" value={message.returnPath} />
+          <AddressRow label="Reply-To" value={message.replyTo} />
+          {message.sender && <AddressRow label="Sender" value={message.sender} />}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Authentication results</h4>
+          {message.authResults.length === 0 && (
+            <p className="text-sm text-muted-foreground">No Authentication-Results headers.</p>
+          )}
+          {message.authResults.map((h, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-mono text-xs text-muted-foreground">{h.authservId || "?"}</span>
+              <Verdicts results={h.results} />
+            </div>
+          ))}
+          {message.arc.map((set) => (
+            <div key={set.instance} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-mono text-xs text-muted-foreground">
+                ARC i={set.instance} cv={set.cv || "?"}
+              </span>
+              <Verdicts results={set.results} />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Relay chain ({message.hops.length} hops)</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground text-left">
+                <tr>
+                  <th className="py-1 pr-2">#</th>
+                  <th className="py-1 pr-2">From</th>
+                  <th className="py-1 pr-2">By</th>
+                  <th className="py-1 pr-2">With</th>
+                  <th className="py-1 pr-2">Time</th>
+                  <th className="py-1">Delay</th>
+                </tr>
+              </thead>
+              <tbody>
+                {message.hops.map((hop, i) => (
+                  <tr key={i} className="border-t border-border/40 font-mono" title={hop.raw}>
+                    <td className="py-1 pr-2">{i + 1}</td>
+                    <td className="py-1 pr-2 break-all">
+                      {hop.from || "—"}
+                      {hop.fromIp && <span className="text-muted-foreground"> [{hop.fromIp}]</span>}
+                    </td>
+                    <td className="py-1 pr-2 break-all">{hop.by || "—"}</td>
+                    <td className="py-1 pr-2">{hop.with || "—"}</td>
+                    <td className="py-1 pr-2">{hop.date ? new Date(hop.date).toLocaleString() : "—"}</td>
+                    <td className={`py-1 ${hop.delaySeconds !== null && hop.delaySeconds < 0 ? "text-warning" : ""}`}>
+                      {formatDelay(hop.delaySeconds)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">MIME parts</h4>
+          {message.parts.map((part) => (
+            <div key={part.path} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/30 text-xs">
+              <span className="flex items-center gap-2 font-mono break-all">
+                {part.attachment && <Paperclip className="w-3 h-3 text-warning shrink-0" />}
+                {part.path} {part.contentType}
+                {part.filename && <b> — {part.filename}</b>}
+              </span>
+              <span className="text-muted-foreground shrink-0">
+                {part.encoding || "7bit"} · {formatBytes(part.size)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
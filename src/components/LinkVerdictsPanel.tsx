@@ -0,0 +1,76 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Link2 } from "lucide-react";
+import type { LinkVerdict, LinkVerdictLevel } from "@/lib/linkAnalysis";
+
+interface LinkVerdictsPanelProps {
+  links: LinkVerdict[] | null;
+}
+
+const VERDICT_CLASS: Record<LinkVerdictLevel, string> = {
+  safe: "threat-low",
+  suspicious: "threat-medium",
+  dangerous: "threat-critical",
+};
+
+export function LinkVerdictsPanel({ links }: LinkVerdictsPanelProps) {
+  if (!links?.length) {
+    return (
+      <Card variant="glass">
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          {links ? "No links found in the content." : "Analyze content or a raw message to check its links."}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const dangerous = links.filter((l) => l.verdict === "dangerous").length;
+  const suspicious = links.filter((l) => l.verdict === "suspicious").length;
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="w-5 h-5 text-primary" />
+          Links
+        </CardTitle>
+        <CardDescription>
+          {links.length} link(s) · {dangerous} dangerous · {suspicious} suspicious. Links are never opened.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-2">
+        {links.map((l, i) => (
+          <div key={i} className="p-3 rounded-lg bg-muted/30 space-y-1">
+            <div className="flex items-start gap-2">
+              <Badge className={`${VERDICT_CLASS[l.verdict]} shrink-0`}>{l.verdict}</Badge>
+              <div className="min-w-0">
+                <p className="font-mono text-xs break-all">{l.href}</p>
+                {l.unicodeHost && (
+                  <p className="text-xs text-muted-foreground">
+                    displays as <span className="font-mono">{l.unicodeHost}</span>
+                  </p>
+                )}
+                {l.text && (
+                  <p className="text-xs text-muted-foreground break-all">
+                    text: “{l.text}”
+                  </p>
+                )}
+              </div>
+            </div>
+            {l.reasons.length > 0 && (
+              <ul className="pl-2 space-y-1">
+                {l.reasons.map((r, j) => (
+                  <li key={j} className="flex items-center gap-2 text-xs">
+                    <span className={`px-1.5 rounded threat-${r.severity}`}>{r.severity}</span>
+                    <span>{r.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { Badge } from "@/components/ui/badge";
+import { describeMatch, type StrengthDetails } from "@/lib/password";
+
+interface PasswordMatchBreakdownProps {
+  analysis: StrengthDetails;
+}
+
+const PATTERN_CLASS: Record<string, string> = {
+  dictionary: "threat-high",
+  spatial: "threat-high",
+  repeat: "threat-high",
+  sequence: "threat-high",
+  year: "threat-medium",
+  date: "threat-medium",
+  bruteforce: "threat-low",
+};
+
+const PATTERN_LABEL: Record<string, string> = {
+  dictionary: "Word",
+  spatial: "Keyboard",
+  repeat: "Repeat",
+  sequence: "Sequence",
+  year: "Year",
+  date: "Date",
+  bruteforce: "Random",
+};
+
+function formatGuesses(log10: number) {
+  return log10 < 6 ? Math.round(10 ** log10).toLocaleString() : `10^${log10.toFixed(1)}`;
+}
+
+export function PasswordMatchBreakdown({ analysis }: PasswordMatchBreakdownProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-muted-foreground">Why this score</p>
+        <Badge variant="outline" className="font-mono">
+          ~{formatGuesses(analysis.guessesLog10)} guesses · {analysis.entropyBits} bits
+        </Badge>
+      </div>
+
+      {/* The password cut into the pieces an attacker would guess separately */}
+      <div className="flex flex-wrap gap-1 font-mono text-sm">
+        {analysis.matches.map((m, i) => (
+          <span key={i} className={`rounded px-1.5 py-0.5 ${PATTERN_CLASS[m.pattern]}`} title={describeMatch(m)}>
+            {m.token}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        {analysis.matches.map((m, i) => (
+          <div key={i} className="flex items-start justify-between gap-3 text-xs">
+            <span className="text-muted-foreground">
+              <span className="font-semibold text-foreground">{PATTERN_LABEL[m.pattern]}:</span> {describeMatch(m)}
+            </span>
+            <span className="font-mono shrink-0">{formatGuesses(Math.log10(m.guesses))}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
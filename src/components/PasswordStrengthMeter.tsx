@@ -1,69 +1,40 @@
 import { useMemo } from "react";
 import { cn } from "@/lib/utils";
 import { Check, X, AlertTriangle } from "lucide-react";
+import { analyzePassword } from "@/lib/password";
+import { checkPassword } from "@/lib/passwordPolicy";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
 
 interface PasswordStrengthMeterProps {
   password: string;
   showDetails?: boolean;
+  context?: string[]; // email / name, for the policy's context rule and the guess estimate
 }
 
-interface StrengthCriteria {
-  label: string;
-  met: boolean;
-}
-
-export function PasswordStrengthMeter({ password, showDetails = true }: PasswordStrengthMeterProps) {
-  const analysis = useMemo(() => {
-    const criteria: StrengthCriteria[] = [
-      { label: "At least 8 characters", met: password.length >= 8 },
-      { label: "Contains uppercase letter", met: /[A-Z]/.test(password) },
-      { label: "Contains lowercase letter", met: /[a-z]/.test(password) },
-      { label: "Contains number", met: /\d/.test(password) },
-      { label: "Contains special character", met: /[!@#$%^&*(),.?":{}|<>]/.test(password) },
-    ];
+const STRENGTH_STYLES = {
+  "Very Weak": { strength: "weak", color: "bg-destructive" },
+  Weak: { strength: "fair", color: "bg-orange-500" },
+  Fair: { strength: "good", color: "bg-warning" },
+  Strong: { strength: "strong", color: "bg-success" },
+  "Very Strong": { strength: "excellent", color: "bg-primary" },
+} as const;
 
-    const score = criteria.filter((c) => c.met).length;
-    
-    let strength: "weak" | "fair" | "good" | "strong" | "excellent";
-    let color: string;
-    let label: string;
+export function PasswordStrengthMeter({ password, showDetails = true, context = [] }: PasswordStrengthMeterProps) {
+  const policy = usePasswordPolicy();
 
-    if (score <= 1) {
-      strength = "weak";
-      color = "bg-destructive";
-      label = "Weak";
-    } else if (score === 2) {
-      strength = "fair";
-      color = "bg-orange-500";
-      label = "Fair";
-    } else if (score === 3) {
-      strength = "good";
-      color = "bg-warning";
-      label = "Good";
-    } else if (score === 4) {
-      strength = "strong";
-      color = "bg-success";
-      label = "Strong";
-    } else {
-      strength = "excellent";
-      color = "bg-primary";
-      label = "Excellent";
-    }
+  // context is usually a fresh array literal, so memoize on its contents
+  const contextKey = context.join("\n");
 
-    // Time to crack estimate
-    let timeToCrack = "Instantly";
-    if (password.length >= 12 && score >= 4) {
-      timeToCrack = "Centuries";
-    } else if (password.length >= 10 && score >= 3) {
-      timeToCrack = "Years";
-    } else if (password.length >= 8 && score >= 2) {
-      timeToCrack = "Months";
-    } else if (password.length >= 6) {
-      timeToCrack = "Days";
-    }
+  const analysis = useMemo(() => {
+    const inputs = contextKey ? contextKey.split("\n") : [];
+    const details = analyzePassword(password, inputs);
+    // Criteria are the active policy's rules, so this list matches what signup and Settings enforce
+    const criteria = checkPassword(password, policy, inputs).results;
+    const { strength, color } = STRENGTH_STYLES[details.label];
+    const timeToCrack = details.crack.find((c) => c.scenario === "gpu")?.time || "Instantly";
 
-    return { criteria, score, strength, color, label, timeToCrack };
-  }, [password]);
+    return { criteria, score: details.score, strength, color, label: details.label, timeToCrack };
+  }, [password, policy, contextKey]);
 
   if (!password) return null;
 
@@ -87,7 +58,7 @@ export function PasswordStrengthMeter({ password, showDetails = true }: Password
         <div className="h-1.5 bg-muted rounded-full overflow-hidden">
           <div
             className={cn("h-full transition-all duration-300 rounded-full", analysis.color)}
-            style={{ width: `${(analysis.score / 5) * 100}%` }}
+            style={{ width: `${Math.max(5, analysis.score)}%` }}
           />
         </div>
       </div>
@@ -104,14 +75,15 @@ export function PasswordStrengthMeter({ password, showDetails = true }: Password
       {showDetails && (
         <div className="grid grid-cols-1 gap-1.5">
           {analysis.criteria.map((criterion) => (
-            <div key={criterion.label} className="flex items-center gap-2 text-xs">
-              {criterion.met ? (
+            <div key={criterion.id} className="flex items-center gap-2 text-xs">
+              {criterion.passed ? (
                 <Check className="w-3 h-3 text-success" />
               ) : (
                 <X className="w-3 h-3 text-muted-foreground" />
               )}
-              <span className={criterion.met ? "text-foreground" : "text-muted-foreground"}>
+              <span className={criterion.passed ? "text-foreground" : "text-muted-foreground"}>
                 {criterion.label}
+                {criterion.detail && ` — ${criterion.detail}`}
               </span>
             </div>
           ))}
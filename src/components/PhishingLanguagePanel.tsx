@@ -0,0 +1,81 @@
+import { Badge } from "@/components/ui/badge";
+import type { PhishingAnalysis } from "@/lib/phishingClassifier";
+
+interface PhishingLanguagePanelProps {
+  analysis: PhishingAnalysis;
+}
+
+// Plain text with each evidence range wrapped in <mark> (overlapping ranges keep the first)
+function Highlighted({ analysis }: PhishingLanguagePanelProps) {
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  analysis.evidence.forEach((e, i) => {
+    if (e.start < cursor) return;
+    if (e.start > cursor) nodes.push(analysis.text.slice(cursor, e.start));
+    nodes.push(
+      <mark
+        key={i}
+        title={`${e.description} (${e.category})`}
+        className="rounded px-0.5 bg-warning/30 text-foreground"
+      >
+        {analysis.text.slice(e.start, e.end)}
+      </mark>
+    );
+    cursor = e.end;
+  });
+  nodes.push(analysis.text.slice(cursor));
+  return <>{nodes}</>;
+}
+
+export function PhishingLanguagePanel({ analysis }: PhishingLanguagePanelProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-muted-foreground">Phishing Language</p>
+        <Badge className={analysis.phishing ? "threat-high" : "threat-low"}>
+          {analysis.score}/100 · threshold {analysis.threshold}
+        </Badge>
+      </div>
+
+      <div className="relative h-2 w-full rounded-full bg-muted/40 overflow-hidden">
+        <div
+          className={`h-full ${analysis.phishing ? "bg-red-500" : "bg-emerald-500"}`}
+          style={{ width: `${analysis.score}%` }}
+        />
+        <div className="absolute top-0 h-full w-0.5 bg-foreground/70" style={{ left: `${analysis.threshold}%` }} />
+      </div>
+
+      {analysis.categories.length > 0 && (
+        <div className="grid gap-2 md:grid-cols-2">
+          {analysis.categories.map((c) => (
+            <div key={c.id} className="p-2 rounded-lg bg-muted/30 text-xs space-y-1">
+              <div className="flex justify-between font-semibold">
+                <span>{c.label}</span>
+                <span>
+                  {c.points}/{c.cap}
+                </span>
+              </div>
+              {c.indicators.map((ind) => (
+                <p key={ind.id} className="text-muted-foreground">
+                  +{ind.weight} {ind.description}
+                  {ind.matches > 1 && ` (×${ind.matches})`}
+                </p>
+              ))}
+            </div>
+          ))}
+          {analysis.comboBonus > 0 && (
+            <p className="text-xs text-muted-foreground">
+              +{analysis.comboBonus} for combining {analysis.categories.length} lure categories
+            </p>
+          )}
+        </div>
+      )}
+
+      {analysis.evidence.length > 0 && (
+        <div className="max-h-64 overflow-y-auto p-3 rounded-lg bg-muted/20 text-sm whitespace-pre-wrap break-words">
+          <Highlighted analysis={analysis} />
+        </div>
+      )}
+    </div>
+  );
+}
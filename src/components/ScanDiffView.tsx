@@ -0,0 +1,208 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ArrowRight, GitCompare, Minus, Plus, RefreshCw, X } from "lucide-react";
+import { diffSnapshots, type ScanKind, type SnapshotFinding } from "@/lib/scanDiff";
+import { snapshotsFor } from "@/lib/scanStore";
+
+interface ScanDiffViewProps {
+  kind: ScanKind;
+  target: string;
+  onClose: () => void;
+}
+
+function severityClass(severity: SnapshotFinding["severity"]) {
+  return `threat-${severity}`;
+}
+
+function Section({ title, empty, children }: { title: string; empty: boolean; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      {empty ? <p className="text-sm text-muted-foreground">No changes</p> : children}
+    </div>
+  );
+}
+
+export function ScanDiffView({ kind, target, onClose }: ScanDiffViewProps) {
+  const snapshots = useMemo(() => snapshotsFor(kind, target), [kind, target]);
+  // Stored newest first: compare the previous scan against the latest by default
+  const [fromIdx, setFromIdx] = useState("1");
+  const [toIdx, setToIdx] = useState("0");
+
+  const diff = useMemo(() => {
+    const from = snapshots[Number(fromIdx)];
+    const to = snapshots[Number(toIdx)];
+    return from && to ? diffSnapshots(from, to) : null;
+  }, [snapshots, fromIdx, toIdx]);
+
+  const pick = (value: string, onChange: (v: string) => void, label: string) => (
+    <div className="space-y-1 flex-1">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {snapshots.map((s, i) => (
+            <SelectItem key={i} value={String(i)}>
+              {new Date(s.scannedAt).toLocaleString()} — {s.score}/100 ({s.grade})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card variant="glass" className="animate-fade-in">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="w-5 h-5 text-primary" />
+              Compare Scans
+            </CardTitle>
+            <CardDescription className="font-mono">{target}</CardDescription>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {snapshots.length < 2 ? (
+          <p className="text-sm text-muted-foreground">At least two stored scans of this target are needed.</p>
+        ) : (
+          <>
+            <div className="flex flex-col md:flex-row gap-4 md:items-end">
+              {pick(fromIdx, setFromIdx, "From")}
+              <ArrowRight className="hidden md:block w-4 h-4 mb-3 text-muted-foreground" />
+              {pick(toIdx, setToIdx, "To")}
+            </div>
+
+            {diff && (
+              <>
+                <div className="flex flex-wrap items-center gap-3">
+                  <Badge variant="outline" className="font-mono">
+                    {diff.from.grade} → {diff.to.grade}
+                  </Badge>
+                  <span
+                    className={`font-mono font-semibold ${
+                      diff.scoreDelta > 0 ? "text-success" : diff.scoreDelta < 0 ? "text-destructive" : "text-muted-foreground"
+                    }`}
+                  >
+                    {diff.scoreDelta > 0 ? "+" : ""}
+                    {diff.scoreDelta} points
+                  </span>
+                  {diff.regression && (
+                    <Badge className="threat-critical">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      REGRESSION
+                    </Badge>
+                  )}
+                </div>
+
+                {diff.regression && (
+                  <div className="p-3 rounded-lg border border-destructive/30 bg-destructive/10 space-y-1">
+                    {diff.regressionReasons.map((reason) => (
+                      <p key={reason} className="text-sm text-destructive">{reason}</p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <Section
+                    title="Findings"
+                    empty={!diff.findings.added.length && !diff.findings.resolved.length}
+                  >
+                    {diff.findings.added.map((f) => (
+                      <div key={`+${f.key}`} className="flex items-center gap-2 text-sm">
+                        <Plus className="w-3 h-3 text-destructive" />
+                        <span>{f.title}</span>
+                        <Badge className={severityClass(f.severity)}>{f.severity.toUpperCase()}</Badge>
+                      </div>
+                    ))}
+                    {diff.findings.resolved.map((f) => (
+                      <div key={`-${f.key}`} className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Minus className="w-3 h-3 text-success" />
+                        <span className="line-through">{f.title}</span>
+                        <Badge variant="outline">RESOLVED</Badge>
+                      </div>
+                    ))}
+                  </Section>
+
+                  <Section
+                    title="Headers"
+                    empty={!diff.headers.added.length && !diff.headers.removed.length && !diff.headers.changed.length}
+                  >
+                    {diff.headers.added.map((h) => (
+                      <div key={`+${h.name}`} className="flex items-start gap-2 text-sm">
+                        <Plus className="w-3 h-3 mt-1 text-success" />
+                        <span className="font-mono break-all">{h.name}: {h.value}</span>
+                      </div>
+                    ))}
+                    {diff.headers.removed.map((h) => (
+                      <div key={`-${h.name}`} className="flex items-start gap-2 text-sm">
+                        <Minus className="w-3 h-3 mt-1 text-destructive" />
+                        <span className="font-mono break-all line-through">{h.name}: {h.value}</span>
+                      </div>
+                    ))}
+                    {diff.headers.changed.map((h) => (
+                      <div key={`~${h.name}`} className="text-sm">
+                        <p className="font-mono">{h.name}</p>
+                        <p className="font-mono text-xs text-muted-foreground break-all line-through">{h.from}</p>
+                        <p className="font-mono text-xs break-all">{h.to}</p>
+                      </div>
+                    ))}
+                  </Section>
+
+                  <Section
+                    title="Cookies"
+                    empty={!diff.cookies.added.length && !diff.cookies.removed.length && !diff.cookies.changed.length}
+                  >
+                    {diff.cookies.added.map((name) => (
+                      <div key={`+${name}`} className="flex items-center gap-2 text-sm">
+                        <Plus className="w-3 h-3 text-success" />
+                        <span className="font-mono">{name}</span>
+                      </div>
+                    ))}
+                    {diff.cookies.removed.map((name) => (
+                      <div key={`-${name}`} className="flex items-center gap-2 text-sm">
+                        <Minus className="w-3 h-3 text-destructive" />
+                        <span className="font-mono line-through">{name}</span>
+                      </div>
+                    ))}
+                    {diff.cookies.changed.map((c) => (
+                      <div key={`~${c.name}`} className="text-sm">
+                        <p className="font-mono">{c.name}</p>
+                        <p className="font-mono text-xs text-muted-foreground line-through">{c.from || "(no attributes)"}</p>
+                        <p className="font-mono text-xs">{c.to || "(no attributes)"}</p>
+                      </div>
+                    ))}
+                  </Section>
+
+                  <Section title="Certificate" empty={!diff.certificate.rotated}>
+                    <div className="flex items-start gap-2 text-sm">
+                      <RefreshCw className="w-3 h-3 mt-1 text-primary" />
+                      <div className="space-y-1">
+                        <p>Certificate rotated</p>
+                        <p className="text-xs text-muted-foreground">
+                          {diff.certificate.from?.issuer} (until {diff.certificate.from?.validTo}) →{" "}
+                          {diff.certificate.to?.issuer} (until {diff.certificate.to?.validTo})
+                        </p>
+                      </div>
+                    </div>
+                  </Section>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
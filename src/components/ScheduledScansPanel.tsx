@@ -0,0 +1,426 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Bell, CalendarClock, Loader2, Pencil, Play, Save, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_ALERT_RULES,
+  acknowledgeAlerts,
+  deleteScheduledTarget,
+  fetchJobRuns,
+  fetchJobs,
+  runScheduledTargetNow,
+  saveScheduledTarget,
+  type JobRun,
+  type JobsOverview,
+  type ScheduledTarget,
+} from "@/lib/jobs";
+import { WEEKDAYS, describeSchedule, type Schedule } from "@/lib/schedule";
+import { grade } from "@/lib/webSecurity";
+import { saveScan } from "@/lib/scanStore";
+
+type FormState = {
+  id?: string;
+  target: string;
+  kind: Schedule["kind"];
+  time: string;
+  day: string;
+  expression: string;
+  certExpiryDays: string; // empty = alert off
+  gradeDrop: boolean;
+  enabled: boolean;
+};
+
+const EMPTY_FORM: FormState = {
+  target: "",
+  kind: "daily",
+  time: "03:00",
+  day: "1",
+  expression: "0 */6 * * *",
+  certExpiryDays: String(DEFAULT_ALERT_RULES.certExpiryDays),
+  gradeDrop: DEFAULT_ALERT_RULES.gradeDrop,
+  enabled: true,
+};
+
+function toSchedule(form: FormState): Schedule {
+  if (form.kind === "weekly") return { kind: "weekly", day: Number(form.day), time: form.time };
+  if (form.kind === "cron") return { kind: "cron", expression: form.expression.trim() };
+  return { kind: "daily", time: form.time };
+}
+
+function fromTarget(t: ScheduledTarget): FormState {
+  return {
+    ...EMPTY_FORM,
+    id: t.id,
+    target: t.target,
+    kind: t.schedule.kind,
+    time: t.schedule.kind === "cron" ? EMPTY_FORM.time : t.schedule.time,
+    day: t.schedule.kind === "weekly" ? String(t.schedule.day) : EMPTY_FORM.day,
+    expression: t.schedule.kind === "cron" ? t.schedule.expression : EMPTY_FORM.expression,
+    certExpiryDays: t.alerts.certExpiryDays == null ? "" : String(t.alerts.certExpiryDays),
+    gradeDrop: t.alerts.gradeDrop,
+    enabled: t.enabled,
+  };
+}
+
+function formatTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : "—";
+}
+
+export function ScheduledScansPanel() {
+  const [overview, setOverview] = useState<JobsOverview | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [runsFor, setRunsFor] = useState<{ target: ScheduledTarget; runs: JobRun[] } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setOverview(await fetchJobs());
+    } catch (e) {
+      toast.error((e as Error)?.message || "Could not load scheduled scans");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const set = <K extends keyof FormState>(key: K, value: FormState[K]) => setForm((f) => ({ ...f, [key]: value }));
+
+  const onSave = async () => {
+    setSaving(true);
+    try {
+      await saveScheduledTarget({
+        id: form.id,
+        target: form.target,
+        schedule: toSchedule(form),
+        alerts: {
+          certExpiryDays: form.certExpiryDays.trim() === "" ? null : Number(form.certExpiryDays),
+          gradeDrop: form.gradeDrop,
+        },
+        enabled: form.enabled,
+      });
+      toast.success(form.id ? "Schedule updated" : "Target scheduled");
+      setForm(EMPTY_FORM);
+      await refresh();
+    } catch (e) {
+      toast.error((e as Error)?.message || "Could not save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onToggle = async (t: ScheduledTarget, enabled: boolean) => {
+    try {
+      await saveScheduledTarget({ id: t.id, target: t.target, schedule: t.schedule, alerts: t.alerts, enabled });
+      await refresh();
+    } catch (e) {
+      toast.error((e as Error)?.message || "Could not update schedule");
+    }
+  };
+
+  const onRunNow = async (t: ScheduledTarget) => {
+    setBusyId(t.id);
+    try {
+      const run = await runScheduledTargetNow(t.id);
+      if (run.result) {
+        saveScan("scanner", run.result);
+        toast.success(`${t.target}: ${run.result.score}/100`);
+      } else {
+        toast.error(run.error || "Scan failed");
+      }
+      await refresh();
+    } catch (e) {
+      toast.error((e as Error)?.message || "Scan failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onDelete = async (t: ScheduledTarget) => {
+    if (!confirm(`Remove the schedule for ${t.target}?`)) return;
+    try {
+      await deleteScheduledTarget(t.id);
+      if (runsFor?.target.id === t.id) setRunsFor(null);
+      if (form.id === t.id) setForm(EMPTY_FORM);
+      await refresh();
+    } catch (e) {
+      toast.error((e as Error)?.message || "Could not remove schedule");
+    }
+  };
+
+  const onShowRuns = async (t: ScheduledTarget) => {
+    try {
+      setRunsFor({ target: t, runs: await fetchJobRuns(t.id) });
+    } catch (e) {
+      toast.error((e as Error)?.message || "Could not load run history");
+    }
+  };
+
+  const openAlerts = overview?.alerts.filter((a) => !a.acknowledged) || [];
+
+  return (
+    <div className="space-y-6">
+      {openAlerts.length > 0 && (
+        <Card variant="glow" className="border-destructive/40">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Bell className="w-5 h-5 text-destructive" />
+                Alerts
+                <Badge className="threat-critical">{openAlerts.length}</Badge>
+              </CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  await acknowledgeAlerts(openAlerts.map((a) => a.id)).catch(() => null);
+                  refresh();
+                }}
+              >
+                Acknowledge all
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {openAlerts.map((a) => (
+              <div key={a.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-destructive/10">
+                <div className="flex items-center gap-3 min-w-0">
+                  <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm truncate">{a.target}</p>
+                    <p className="text-xs text-muted-foreground">{a.message}</p>
+                  </div>
+                </div>
+                <span className="text-xs text-muted-foreground flex-shrink-0">{formatTime(a.createdAt)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card variant="cyber">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            {form.id ? "Edit Schedule" : "Schedule a Target"}
+          </CardTitle>
+          <CardDescription>
+            Targets are re-scanned server-side on their schedule (UTC); results and alerts are kept by the job runner.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="sched-target">Target</Label>
+              <Input
+                id="sched-target"
+                placeholder="example.com"
+                value={form.target}
+                onChange={(e) => set("target", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select value={form.kind} onValueChange={(v) => set("kind", v as Schedule["kind"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="cron">Cron expression</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {form.kind === "weekly" && (
+              <div className="space-y-2">
+                <Label>Day</Label>
+                <Select value={form.day} onValueChange={(v) => set("day", v)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((name, i) => (
+                      <SelectItem key={name} value={String(i)}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {form.kind === "cron" ? (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="sched-cron">Expression (minute hour day month weekday)</Label>
+                <Input
+                  id="sched-cron"
+                  className="font-mono"
+                  value={form.expression}
+                  onChange={(e) => set("expression", e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="sched-time">Time (UTC)</Label>
+                <Input id="sched-time" type="time" value={form.time} onChange={(e) => set("time", e.target.value)} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="sched-cert">Certificate alert (days before expiry)</Label>
+              <Input
+                id="sched-cert"
+                type="number"
+                min={0}
+                max={365}
+                placeholder="Off"
+                value={form.certExpiryDays}
+                onChange={(e) => set("certExpiryDays", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={form.gradeDrop} onCheckedChange={(v) => set("gradeDrop", v)} />
+                Alert on grade drop
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={form.enabled} onCheckedChange={(v) => set("enabled", v)} />
+                Enabled
+              </label>
+            </div>
+            <div className="flex gap-2">
+              {form.id && (
+                <Button variant="ghost" onClick={() => setForm(EMPTY_FORM)}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={onSave} disabled={!form.target.trim() || saving}>
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                {form.id ? "Update" : "Save"}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle>Saved Targets</CardTitle>
+          <CardDescription>{overview ? `${overview.targets.length} scheduled` : "Loading..."}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overview && overview.targets.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Next Run</TableHead>
+                  <TableHead>Latest</TableHead>
+                  <TableHead>On</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.targets.map((t) => {
+                  const latest = overview.latest[t.id];
+                  return (
+                    <TableRow key={t.id}>
+                      <TableCell className="font-mono">
+                        <button className="hover:underline text-left" onClick={() => onShowRuns(t)}>
+                          {t.target}
+                        </button>
+                        {t.lastError && <p className="text-xs text-destructive font-sans">{t.lastError}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm">{describeSchedule(t.schedule)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{formatTime(t.lastRunAt)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {t.enabled ? formatTime(t.nextRunAt) : "Paused"}
+                      </TableCell>
+                      <TableCell>
+                        {latest ? (
+                          <Badge variant="outline" className={latest.score >= 80 ? "threat-low" : "threat-medium"}>
+                            {latest.grade} • {latest.score}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={t.enabled} onCheckedChange={(v) => onToggle(t, v)} />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" disabled={busyId === t.id} onClick={() => onRunNow(t)}>
+                          {busyId === t.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setForm(fromTarget(t))}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="text-destructive" onClick={() => onDelete(t)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="py-6 text-center text-muted-foreground">No scheduled targets yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {runsFor && (
+        <Card variant="glass" className="animate-fade-in">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Run History</CardTitle>
+                <CardDescription className="font-mono">{runsFor.target.target}</CardDescription>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setRunsFor(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {runsFor.runs.length ? (
+              runsFor.runs.map((run) => (
+                <div key={run.startedAt} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+                  <div>
+                    <p className="text-sm">{formatTime(run.startedAt)}</p>
+                    <p className="text-xs text-muted-foreground">{(run.durationMs / 1000).toFixed(1)}s</p>
+                  </div>
+                  {run.result ? (
+                    <Badge variant="outline" className={run.result.score >= 80 ? "threat-low" : "threat-medium"}>
+                      {grade(run.result.score)} • {run.result.score}/100
+                    </Badge>
+                  ) : (
+                    <span className="text-xs text-destructive">{run.error}</span>
+                  )}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No runs yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
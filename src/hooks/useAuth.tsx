@@ -1,4 +1,5 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { checkPassword, policyError, readPasswordPolicy } from "@/lib/passwordPolicy";
 
 interface User {
   id: string;
@@ -112,8 +113,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return { error: "Temporary emails are not allowed" };
     }
 
-    if (password.length < 8) {
-      return { error: "Password must be at least 8 characters" };
+    const policyFailure = policyError(checkPassword(password, readPasswordPolicy(), [email]));
+    if (policyFailure) {
+      return { error: policyFailure };
     }
 
     const users = getUsers();
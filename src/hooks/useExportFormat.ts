@@ -1,36 +1,32 @@
 import { useEffect, useState } from "react";
+import { EXPORT_FORMAT_EVENT, EXPORT_FORMAT_KEY, readExportFormat, type ExportFormat } from "@/lib/exportFormats";
 
-export type ExportFormat = "json" | "txt";
-
-function readFormat(): ExportFormat {
-  const v = localStorage.getItem("pasco_export_format");
-  return v === "txt" ? "txt" : "json";
-}
+export type { ExportFormat };
 
 export function useExportFormat() {
   const [format, setFormat] = useState<ExportFormat>("json");
 
   useEffect(() => {
-    setFormat(readFormat());
+    setFormat(readExportFormat());
 
     const onStorage = (e: StorageEvent) => {
-      if (e.key === "pasco_export_format") {
-        setFormat(readFormat());
+      if (e.key === EXPORT_FORMAT_KEY) {
+        setFormat(readExportFormat());
       }
     };
 
-    const onCustom = () => setFormat(readFormat());
+    const onCustom = () => setFormat(readExportFormat());
 
     window.addEventListener("storage", onStorage);
     window.addEventListener(
-      "pasco_export_format_changed",
+      EXPORT_FORMAT_EVENT,
       onCustom as EventListener
     );
 
     return () => {
       window.removeEventListener("storage", onStorage);
       window.removeEventListener(
-        "pasco_export_format_changed",
+        EXPORT_FORMAT_EVENT,
         onCustom as EventListener
       );
     };
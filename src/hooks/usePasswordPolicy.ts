@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_POLICY_EVENT,
+  PASSWORD_POLICY_KEY,
+  readPasswordPolicy,
+  type PasswordPolicy,
+} from "@/lib/passwordPolicy";
+
+export type { PasswordPolicy };
+
+export function usePasswordPolicy() {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    setPolicy(readPasswordPolicy());
+
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === PASSWORD_POLICY_KEY) {
+        setPolicy(readPasswordPolicy());
+      }
+    };
+
+    const onCustom = () => setPolicy(readPasswordPolicy());
+
+    window.addEventListener("storage", onStorage);
+    window.addEventListener(PASSWORD_POLICY_EVENT, onCustom as EventListener);
+
+    return () => {
+      window.removeEventListener("storage", onStorage);
+      window.removeEventListener(PASSWORD_POLICY_EVENT, onCustom as EventListener);
+    };
+  }, []);
+
+  return policy;
+}
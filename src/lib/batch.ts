@@ -0,0 +1,110 @@
+// src/lib/batch.ts
+// Batch scanning helpers: target list parsing, a concurrency-limited runner and exports.
+
+export const MAX_BATCH_TARGETS = 100;
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+export type BatchSummary = {
+  score: number;
+  grade: string;
+  findings: number;
+  finalUrl?: string;
+};
+
+export type BatchRow = {
+  target: string;
+  status: "pending" | "running" | "done" | "error";
+  summary: BatchSummary | null;
+  result: unknown;
+  error: string | null;
+  durationMs: number | null;
+};
+
+const HEADER_WORDS = ["target", "url", "domain", "host", "hostname", "site"];
+
+/**
+ * Accepts pasted text or uploaded .txt/.csv content.
+ * One target per line; for CSV the first column is used and a header row is skipped.
+ */
+export function parseTargets(text: string): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const first = trimmed.split(/[,;\t]/)[0].trim().replace(/^["']|["']$/g, "").trim();
+    if (!first || HEADER_WORDS.includes(first.toLowerCase())) continue;
+
+    // Lines like "a.com b.com" are split too
+    for (const t of first.split(/\s+/)) {
+      const key = t.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push(t);
+    }
+  }
+  return out;
+}
+
+/**
+ * Run `worker` over every target with at most `concurrency` in flight.
+ * A failing target is recorded on its row and never aborts the batch.
+ */
+export async function runBatch<T>(
+  targets: string[],
+  worker: (target: string) => Promise<T>,
+  opts: {
+    concurrency?: number;
+    summarize: (result: T) => BatchSummary;
+    onUpdate?: (rows: BatchRow[]) => void;
+    signal?: AbortSignal;
+  }
+): Promise<BatchRow[]> {
+  const rows: BatchRow[] = targets.map((target) => ({
+    target,
+    status: "pending",
+    summary: null,
+    result: null,
+    error: null,
+    durationMs: null,
+  }));
+  const emit = () => opts.onUpdate?.(rows.map((r) => ({ ...r })));
+  const concurrency = Math.max(1, Math.min(opts.concurrency || DEFAULT_BATCH_CONCURRENCY, 10));
+  let next = 0;
+
+  const lane = async () => {
+    while (next < rows.length && !opts.signal?.aborted) {
+      const row = rows[next++];
+      const started = Date.now();
+      row.status = "running";
+      emit();
+
+      try {
+        const result = await worker(row.target);
+        row.result = result;
+        row.summary = opts.summarize(result);
+        row.status = "done";
+      } catch (e: unknown) {
+        row.error = e instanceof Error ? e.message : String(e);
+        row.status = "error";
+      }
+      row.durationMs = Date.now() - started;
+      emit();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, lane));
+  return rows;
+}
+
+export function batchToText(rows: BatchRow[]) {
+  return rows
+    .map((r) =>
+      r.status === "done" && r.summary
+        ? `${r.target}\t${r.summary.grade}\t${r.summary.score}\t${r.summary.findings} findings`
+        : `${r.target}\t${r.status === "error" ? `ERROR: ${r.error}` : r.status.toUpperCase()}`
+    )
+    .join("\n");
+}
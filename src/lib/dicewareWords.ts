@@ -0,0 +1,130 @@
+// src/lib/dicewareWords.ts
+// Passphrase wordlist in the style of the EFF short list: 1296 (6^4) short, common,
+// concrete words, so each word is worth exactly log2(1296) ≈ 10.34 bits and can also be
+// picked with four physical dice. Keep it lower-case, alphabetical, unique and at 1296
+// entries; generateSecret's entropy figures assume all three.
+
+export const DICEWARE_WORDS: string[] = [
+  "abacus", "able", "acid", "acorn", "acre", "actor", "adapt", "adobe", "agent", "agile", "aide",
+  "aim", "aisle", "alarm", "album", "alert", "algae", "alibi", "alien", "alike", "alley", "alloy",
+  "aloe", "alpha", "amber", "amble", "amid", "ample", "amply", "amuse", "anchor", "angel", "anger",
+  "angle", "ankle", "anvil", "apple", "apron", "arbor", "arena", "argue", "arise", "armor",
+  "aroma", "arrow", "art", "ascot", "ashen", "aspen", "atlas", "atom", "attic", "audio", "audit",
+  "aunt", "avid", "avoid", "awake", "award", "axis", "bacon", "badge", "bagel", "baker", "balmy",
+  "bamboo", "banjo", "barge", "barn", "basil", "basin", "batch", "bath", "baton", "bayou", "beach",
+  "beak", "beam", "bean", "beard", "beast", "beech", "beefy", "begin", "bench", "berry", "bike",
+  "bingo", "birch", "bison", "black", "blade", "blank", "blast", "blaze", "bleak", "blend",
+  "bless", "blimp", "blink", "bliss", "blond", "bloom", "blot", "blues", "bluff", "blunt", "blurt",
+  "blush", "board", "boast", "bobcat", "body", "boil", "bolt", "bonus", "book", "boost", "booth",
+  "boots", "bottle", "bound", "bowl", "boxer", "brain", "brake", "brass", "brave", "bread",
+  "brick", "bride", "brief", "brim", "brine", "brisk", "broad", "broil", "brook", "broom", "broth",
+  "brush", "bubble", "buck", "buddy", "budget", "buggy", "bugle", "bulb", "bulk", "bunch", "bunny",
+  "burly", "burst", "bush", "butter", "buzz", "cabin", "cable", "cactus", "cadet", "cake", "calm",
+  "camel", "cameo", "camp", "canal", "candy", "canoe", "canon", "canvas", "canyon", "cape",
+  "cargo", "carol", "carpet", "carrot", "carve", "cash", "castle", "cedar", "cello", "chalk",
+  "champ", "chant", "chaos", "charm", "chart", "chase", "cheek", "cheer", "chess", "chest", "chew",
+  "chick", "chief", "chili", "chime", "chirp", "chive", "choir", "chomp", "chop", "chord", "chore",
+  "chunk", "cider", "cinch", "circus", "civic", "claim", "clam", "clamp", "clap", "clash", "clasp",
+  "claw", "clay", "clean", "clerk", "click", "cliff", "climb", "cling", "cloak", "clock", "clone",
+  "cloth", "cloud", "clown", "club", "clue", "coach", "coast", "cobra", "cocoa", "coil", "comet",
+  "comic", "coral", "cord", "cork", "corn", "cosmic", "couch", "cough", "count", "cover", "cozy",
+  "crab", "craft", "crane", "crank", "crate", "crawl", "crayon", "crazy", "cream", "creek",
+  "crepe", "crest", "crisp", "croak", "crop", "crowd", "crown", "crumb", "crust", "crypt", "cube",
+  "cupid", "curry", "curve", "cycle", "daisy", "dance", "dandy", "dart", "dash", "data", "dawn",
+  "deal", "debut", "decal", "decoy", "deed", "deer", "delta", "denim", "dense", "depot", "depth",
+  "derby", "desk", "dial", "diary", "dice", "diner", "dingo", "disco", "ditch", "diver", "dock",
+  "dodge", "doll", "dolphin", "dome", "donor", "donut", "door", "dose", "dove", "dozen", "draft",
+  "drain", "drama", "drape", "drawl", "dream", "dress", "drift", "drill", "drink", "drive",
+  "drone", "drool", "drum", "duck", "duct", "dune", "dusk", "dust", "duty", "dwarf", "eagle",
+  "earth", "easel", "echo", "eclipse", "edge", "eel", "eject", "elbow", "elder", "elf", "elk",
+  "elm", "elope", "elude", "email", "ember", "emblem", "empty", "enamel", "endow", "enjoy",
+  "entry", "envoy", "epic", "equal", "erase", "error", "essay", "ether", "evade", "event", "evict",
+  "exact", "exam", "exit", "expel", "extra", "fable", "facet", "fade", "fairy", "faith", "fancy",
+  "fang", "farm", "fault", "fauna", "feast", "feat", "fence", "ferry", "fetch", "fever", "fiber",
+  "fiddle", "field", "film", "finch", "fire", "fish", "fixer", "fizz", "flag", "flair", "flame",
+  "flank", "flap", "flash", "flask", "fleet", "flick", "fling", "flint", "flip", "float", "flock",
+  "flood", "floor", "flora", "floss", "flour", "fluid", "flute", "foam", "focus", "foggy", "folk",
+  "font", "force", "forge", "fork", "fort", "fossil", "fox", "frame", "freak", "fresh", "friar",
+  "fridge", "frog", "frost", "froth", "frown", "fruit", "fudge", "fuel", "fungi", "funny", "fuse",
+  "fuzzy", "gable", "gadget", "galaxy", "gale", "gallon", "gamma", "garage", "garden", "garlic",
+  "gauge", "gauze", "gavel", "gecko", "geese", "genie", "genre", "ghost", "giant", "giddy", "gift",
+  "ginger", "giraffe", "glad", "glare", "glass", "glaze", "gleam", "glide", "glint", "globe",
+  "gloom", "glory", "glove", "glow", "glue", "gnome", "goat", "goblet", "golf", "gong", "goose",
+  "gorge", "gown", "grace", "grade", "grain", "grape", "graph", "grasp", "grass", "gravy", "greed",
+  "grid", "grill", "grin", "grip", "groom", "grove", "growl", "grub", "grunt", "guard", "guava",
+  "guess", "guide", "guild", "guitar", "gulf", "gull", "guppy", "gust", "gusto", "habit", "hail",
+  "halo", "halt", "hammer", "hamper", "handy", "happy", "harbor", "hardy", "harp", "hash", "haste",
+  "hatch", "haven", "hawk", "hazel", "heap", "heart", "heat", "hedge", "hefty", "helix", "helmet",
+  "hemp", "herb", "herd", "hero", "heron", "hike", "hinge", "hippo", "hitch", "hive", "hobby",
+  "hockey", "hold", "holly", "honey", "hood", "hook", "hope", "horn", "horse", "hose", "host",
+  "hotel", "hound", "house", "hover", "howl", "hub", "huddle", "humid", "hunch", "hunk", "hurry",
+  "husky", "hut", "hyena", "icing", "icon", "idea", "idle", "igloo", "image", "index", "ink",
+  "inlet", "input", "iris", "iron", "island", "issue", "itch", "ivory", "ivy", "jacket", "jade",
+  "jaguar", "jam", "jar", "jazz", "jeans", "jelly", "jersey", "jester", "jet", "jewel", "jiffy",
+  "jigsaw", "jingle", "jog", "joke", "jolly", "jolt", "journal", "judge", "juice", "jumbo", "jump",
+  "jungle", "junior", "jury", "kayak", "kebab", "kelp", "kernel", "kettle", "key", "kick", "kilt",
+  "kind", "king", "kiosk", "kite", "kitten", "kiwi", "knack", "knee", "knife", "knight", "knob",
+  "knot", "koala", "label", "lace", "ladder", "ladle", "lake", "lamb", "lamp", "lance", "lane",
+  "lapel", "laser", "lasso", "latch", "latte", "lava", "lawn", "layer", "lazy", "leaf", "lean",
+  "ledge", "lemon", "lens", "level", "lever", "lilac", "lily", "limb", "lime", "limit", "linen",
+  "liner", "lion", "liquid", "list", "liver", "lizard", "llama", "load", "loaf", "lobby",
+  "lobster", "local", "lodge", "loft", "logic", "loom", "loop", "lotus", "loud", "lounge", "lucky",
+  "lunar", "lunch", "lung", "lure", "lush", "lyric", "macaw", "macro", "magic", "magma", "magnet",
+  "maid", "mail", "major", "mango", "mantle", "maple", "marble", "march", "mare", "marsh",
+  "mascot", "mask", "mason", "match", "mayor", "maze", "meadow", "medal", "melon", "memo",
+  "mental", "menu", "mercy", "merit", "mesa", "metal", "meteor", "mild", "mill", "mimic", "mint",
+  "minus", "mirth", "miso", "mist", "mixer", "moat", "mocha", "model", "molar", "mold", "mole",
+  "money", "monk", "month", "moose", "mop", "moral", "morph", "moss", "motel", "moth", "motor",
+  "motto", "mound", "mount", "mouse", "mousse", "mouth", "movie", "muffin", "mug", "mulch", "mule",
+  "mural", "muse", "music", "myth", "nacho", "nail", "name", "nanny", "napkin", "navy", "neck",
+  "nectar", "needle", "neon", "nerve", "nest", "net", "nickel", "night", "ninja", "noble", "nod",
+  "noise", "nomad", "noodle", "notch", "note", "novel", "nugget", "nurse", "nutmeg", "nylon",
+  "oak", "oasis", "oat", "ocean", "octave", "odor", "offer", "olive", "omega", "omen", "onion",
+  "open", "opera", "optic", "orbit", "orchid", "organ", "otter", "ounce", "oval", "oven", "owl",
+  "oxide", "oyster", "pace", "paddle", "padlock", "pagoda", "paint", "palm", "panda", "panel",
+  "panic", "pansy", "papaya", "parade", "parcel", "park", "parrot", "party", "pasta", "paste",
+  "patch", "path", "patio", "pause", "peach", "peak", "peanut", "pear", "pebble", "pecan", "pedal",
+  "pelican", "penny", "pepper", "perch", "perky", "petal", "piano", "pickle", "picnic", "pier",
+  "pilot", "pinch", "pine", "pink", "pint", "pixel", "pizza", "plaid", "plane", "plank", "plant",
+  "plate", "plaza", "plot", "plow", "pluck", "plum", "plump", "plush", "pocket", "poem", "point",
+  "polar", "polka", "pond", "pony", "poodle", "popcorn", "poppy", "porch", "pouch", "pound",
+  "powder", "prank", "prawn", "press", "price", "pride", "prism", "prize", "probe", "prong",
+  "proof", "prose", "proud", "prune", "pulse", "puma", "punch", "pupil", "puppy", "purse",
+  "puzzle", "pylon", "quail", "quake", "quart", "query", "quest", "quick", "quiet", "quill",
+  "quilt", "quirk", "quota", "quote", "rabbit", "racer", "radar", "radio", "radish", "raft",
+  "rain", "rake", "rally", "ramp", "ranch", "range", "rapid", "raven", "razor", "reach", "realm",
+  "rebel", "recap", "reef", "relay", "relic", "remix", "renew", "repay", "reply", "rhino", "rhyme",
+  "ribbon", "rice", "ridge", "rifle", "ring", "rinse", "ripple", "river", "road", "roast", "robe",
+  "robin", "robot", "rocket", "rodeo", "rogue", "roof", "rookie", "room", "roost", "rope", "rose",
+  "rotor", "round", "route", "rover", "royal", "ruby", "rudder", "rugby", "ruler", "rumba",
+  "rumor", "rune", "rural", "rust", "saddle", "safari", "saga", "sage", "sail", "salad", "salmon",
+  "salsa", "salt", "salute", "sand", "satin", "sauce", "sauna", "scale", "scarf", "scene", "scent",
+  "scoop", "scope", "score", "scout", "scrap", "scroll", "scrub", "scuba", "seal", "seed", "shade",
+  "shaft", "shake", "shark", "sharp", "shed", "sheep", "shelf", "shell", "shield", "shift",
+  "shine", "ship", "shirt", "shock", "shoe", "shore", "shovel", "shrub", "sift", "sign", "silk",
+  "silo", "silver", "siren", "sketch", "skid", "skier", "skill", "skirt", "skull", "slab", "slate",
+  "sled", "sleek", "sleep", "slice", "slide", "slope", "sloth", "slush", "smile", "smoke", "snack",
+  "snail", "snake", "snap", "sniff", "snore", "snow", "soap", "sock", "soda", "sofa", "solar",
+  "solid", "sonar", "song", "sonic", "spade", "spark", "spear", "speed", "spell", "spice",
+  "spider", "spike", "spine", "spiral", "spoke", "spool", "spoon", "sport", "spout", "spray",
+  "sprig", "sprout", "spur", "squad", "squid", "stack", "staff", "stage", "stair", "stamp",
+  "stand", "star", "steam", "steel", "stem", "stew", "stick", "sting", "stool", "storm", "story",
+  "stove", "straw", "stream", "strip", "stump", "sugar", "suit", "summit", "sunny", "surf",
+  "swamp", "swan", "swarm", "sweat", "sweep", "swift", "swing", "sword", "syrup", "table", "taco",
+  "tadpole", "tail", "talon", "tango", "tank", "tapir", "target", "tart", "taxi", "teapot",
+  "teeth", "tempo", "tenor", "tent", "thorn", "thumb", "thyme", "tiara", "tidal", "tiger", "tile",
+  "timber", "tint", "tiny", "toast", "token", "tomato", "tonic", "topaz", "torch", "tornado",
+  "totem", "towel", "tower", "toy", "trace", "track", "trail", "train", "tray", "treat", "tree",
+  "trend", "tribe", "trick", "trout", "truck", "tulip", "tuna", "tundra", "tunic", "turbo",
+  "turkey", "turnip", "turtle", "tusk", "tutor", "tuxedo", "twig", "twine", "twist", "umpire",
+  "uncle", "unicorn", "union", "unit", "urban", "urge", "usher", "utopia", "vacuum", "valley",
+  "valve", "vapor", "vase", "vault", "vector", "velvet", "vendor", "venom", "venue", "verb",
+  "verse", "vest", "veto", "vial", "video", "viper", "visor", "vista", "vivid", "vocal", "voice",
+  "volume", "voter", "vowel", "voyage", "wafer", "wagon", "waist", "walnut", "walrus", "waltz",
+  "wand", "water", "wave", "wax", "weasel", "weave", "wedge", "weed", "whale", "wheat", "wheel",
+  "whiff", "whisk", "whistle", "width", "wing", "wink", "wiper", "wizard", "wok", "wolf", "wombat",
+  "wool", "word", "world", "worm", "woven", "wreath", "wrench", "wrist", "yacht", "yak", "yam",
+  "yard", "yarn", "yawn", "year", "yeast", "yodel", "yoga", "yogurt", "yolk", "young", "yummy",
+  "zebra", "zeppelin", "zero", "zest", "zigzag", "zinc", "zipper", "zodiac", "zombie", "zone",
+  "zoom",
+];
@@ -0,0 +1,16 @@
+// src/lib/domains.ts
+// Hostname helpers shared by the scan endpoints and the browser-side email checks.
+
+// Rough registrable domain ("www.shop.example.co.uk" -> "example.co.uk")
+export function baseDomain(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^www\./, "");
+  if (/^[\d.]+$/.test(host) || host.includes(":")) return host;
+
+  const labels = host.split(".");
+  const secondLevel = ["co", "com", "org", "net", "gov", "ac", "edu"];
+  const take =
+    labels.length > 2 && labels[labels.length - 1].length === 2 && secondLevel.includes(labels[labels.length - 2])
+      ? 3
+      : 2;
+  return labels.slice(-take).join(".");
+}
@@ -1,10 +1,23 @@
 // src/lib/email.ts
 
+import { fetchDomainAuth, type DomainAuth } from "./mailAuth";
+import { analyzeEml, parseEml, type EmlAnalysis } from "./eml";
+import { analyzeLinks, extractLinks, type LinkVerdict } from "./linkAnalysis";
+import { classifyPhishing, readPhishingRules, readPhishingThreshold, type PhishingAnalysis } from "./phishingClassifier";
+import type { PhishingRules } from "./phishingRules";
+import {
+  classifyProvider,
+  findSenderLookalikes,
+  type EmailProvider,
+  type SenderLookalike,
+} from "./senderDomain";
+
 export type EmailFlagLevel = "safe" | "warning";
 
 export interface EmailScanFlag {
   level: EmailFlagLevel;
   message: string;
+  ruleId?: string; // set when the flag mirrors a domainAuth, eml or link finding
 }
 
 export interface EmailScanResult {
@@ -12,25 +25,20 @@ export interface EmailScanResult {
   valid: boolean;
   disposable: boolean;
   roleBased: boolean;
-  provider: "gmail" | "yahoo" | "outlook" | "custom";
+  provider: EmailProvider;
   confidence: "high" | "medium" | "low";
   score: number;
   flags: EmailScanFlag[];
+  domainAuth: DomainAuth | null; // null when the address is invalid or the lookup failed
+  eml: EmlAnalysis | null; // set when a raw message was analyzed
+  links: LinkVerdict[];
+  lookalikes: SenderLookalike[]; // sender domains imitating our corporate domains or protected brands
+  phishing: PhishingAnalysis | null; // null when there was no content to classify
   scannedAt: number;
 }
 
 /* ---------------- CONFIG ---------------- */
 
-const DISPOSABLE_KEYWORDS = [
-  "tempmail",
-  "mailinator",
-  "10minutemail",
-  "guerrillamail",
-  "yopmail",
-  "trashmail",
-  "fakeinbox",
-];
-
 const ROLE_PREFIXES = [
   "admin",
   "support",
@@ -42,64 +50,45 @@ const ROLE_PREFIXES = [
   "help",
 ];
 
-const PHISHING_PATTERNS = [
-  /urgent/i,
-  /verify/i,
-  /account/i,
-  /password/i,
-  /click\s*here/i,
-  /login/i,
-  /suspended/i,
-  /limited\s*time/i,
-  /confirm\s*now/i,
-  /reset\s*password/i,
-  /unusual\s*activity/i,
-  /security\s*alert/i,
-  /act\s*now/i,
-];
-
 /* ---------------- HELPERS ---------------- */
 
 function isValidEmail(email: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
 }
 
-function detectProvider(domain: string) {
-  if (domain === "gmail.com") return "gmail";
-  if (domain === "yahoo.com") return "yahoo";
-  if (domain === "outlook.com" || domain === "hotmail.com") return "outlook";
-  return "custom";
-}
-
-function isDisposableDomain(domain: string): boolean {
-  return DISPOSABLE_KEYWORDS.some((k) =>
-    domain.toLowerCase().includes(k)
-  );
-}
-
 function isRoleBasedLocal(local: string): boolean {
   return ROLE_PREFIXES.includes(local.toLowerCase());
 }
 
-function hasSuspiciousContent(content?: string): boolean {
-  if (!content) return false;
-
-  const keywordHit = PHISHING_PATTERNS.some((r) => r.test(content));
-  const linkCount = (content.match(/https?:\/\//gi) || []).length;
-  const shortLinks = /(bit\.ly|tinyurl|t\.co|goo\.gl)/i.test(content);
-
-  return keywordHit || linkCount > 2 || shortLinks;
+function htmlToText(html: string) {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ");
 }
 
 /* ---------------- MAIN ANALYZER ---------------- */
 
+export interface AnalyzeEmailOptions {
+  eml?: string; // raw RFC 5322 message; its From address and body fill in missing inputs
+  phishingThreshold?: number; // defaults to the Settings value
+  phishingRules?: PhishingRules; // defaults to the built-in rules plus the Settings organization lures
+}
+
 export async function analyzeEmail(
-  email: string,
-  content?: string
+  address: string,
+  content?: string,
+  options: AnalyzeEmailOptions = {}
 ): Promise<EmailScanResult> {
   const flags: EmailScanFlag[] = [];
   let score = 100;
 
+  const eml = options.eml ? analyzeEml(parseEml(options.eml)) : null;
+  const email = address.trim() || eml?.message.from?.address || "";
+  if (eml && !content) {
+    content = eml.message.textBody || htmlToText(eml.message.htmlBody);
+  }
+
   const valid = isValidEmail(email);
   if (!valid) {
     flags.push({ level: "warning", message: "Invalid email format" });
@@ -109,29 +98,120 @@ export async function analyzeEmail(
   }
 
   const [local = "", domain = ""] = email.split("@");
-  const provider = detectProvider(domain);
+  const provider = classifyProvider(domain);
 
-  const disposable = isDisposableDomain(domain);
+  const disposable = provider.kind === "disposable";
   if (disposable) {
-    flags.push({ level: "warning", message: "Disposable email provider detected" });
+    flags.push({ level: "warning", message: `Disposable email provider detected (${provider.name})` });
     score -= 30;
   }
 
+  // Cousin domains: the address and every sender header of a raw message
+  const senders = [{ header: "Address", domain }];
+  if (eml) {
+    const m = eml.message;
+    for (const [header, addr] of [["From", m.from], ["Reply-To", m.replyTo], ["Return-Path", m.returnPath], ["Sender", m.sender]] as const) {
+      if (addr?.domain) senders.push({ header, domain: addr.domain });
+    }
+  }
+  const lookalikes = findSenderLookalikes(senders);
+  for (const l of lookalikes) {
+    flags.push({ level: "warning", message: l.message, ruleId: l.id });
+  }
+  // Low-severity hits are advisories (a brand name on an unlisted regional domain)
+  score -= Math.min(35, lookalikes.reduce((sum, l) => sum + (l.corporate ? 35 : l.severity === "low" ? 5 : 25), 0));
+
   const roleBased = isRoleBasedLocal(local);
   if (roleBased) {
     flags.push({ level: "warning", message: "Role-based address (higher abuse risk)" });
     score -= 15;
   }
 
-  if (hasSuspiciousContent(content)) {
-    flags.push({ level: "warning", message: "Phishing-style language or links detected" });
-    score -= 20;
-  } else if (content) {
-    flags.push({ level: "safe", message: "No obvious phishing indicators in content" });
+  // Weighted language model: only a score at or above the threshold costs points
+  const phishing = content
+    ? classifyPhishing(content, {
+        rules: options.phishingRules ?? readPhishingRules(),
+        threshold: options.phishingThreshold ?? readPhishingThreshold(),
+      })
+    : null;
+  if (phishing?.phishing) {
+    const top = phishing.categories.slice(0, 3).map((c) => c.label.toLowerCase()).join(", ");
+    flags.push({
+      level: "warning",
+      message: `Phishing language score ${phishing.score}/100 (threshold ${phishing.threshold}): ${top}`,
+    });
+    score -= Math.min(30, Math.round(phishing.score * 0.3));
+  } else if (phishing) {
+    flags.push({
+      level: "safe",
+      message: `Phishing language score ${phishing.score}/100 is below the threshold (${phishing.threshold})`,
+    });
+  }
+
+  // Every link in the body (HTML anchors keep their displayed text for mismatch checks)
+  const html = eml?.message.htmlBody || (content && /<a\s/i.test(content) ? content : "");
+  const links = analyzeLinks(extractLinks(content || "", html));
+  const risky = links.filter((l) => l.verdict !== "safe" && l.reasons.some((r) => r.severity !== "low"));
+  for (const l of risky) {
+    const worst = l.reasons.find((r) => r.severity === "critical" || r.severity === "high") || l.reasons[0];
+    flags.push({
+      level: "warning",
+      message: `${l.verdict === "dangerous" ? "Dangerous" : "Suspicious"} link (${l.unicodeHost || l.host || l.href}): ${worst.message}`,
+      ruleId: worst.id,
+    });
+  }
+  if (links.length && !risky.length) {
+    flags.push({ level: "safe", message: `${links.length} link(s) checked, none look deceptive` });
+  }
+  score -= Math.min(
+    30,
+    risky.reduce((sum, l) => sum + (l.verdict === "dangerous" ? 15 : 5), 0)
+  );
+
+  // Mail configuration of the sending domain (SPF, DMARC, MTA-STS, ...)
+  let domainAuth: DomainAuth | null = null;
+  if (valid) {
+    try {
+      domainAuth = await fetchDomainAuth(domain);
+    } catch {
+      flags.push({ level: "warning", message: "Domain mail records could not be checked" });
+    }
+  }
+  if (domainAuth) {
+    const problems = domainAuth.findings.filter((f) =>
+      ["critical", "high", "medium"].includes(f.severity)
+    );
+    for (const f of problems) {
+      flags.push({
+        level: "warning",
+        message: `${f.record.toUpperCase()}: ${f.title}`,
+        ruleId: f.id,
+      });
+    }
+    if (!problems.length) {
+      flags.push({ level: "safe", message: "Domain publishes sound SPF and DMARC records" });
+    }
+    score -= Math.min(30, Math.round((100 - domainAuth.score) / 3));
+  }
+
+  // Headers, hop chain, sender alignment and attachments of the raw message
+  if (eml) {
+    const problems = eml.findings.filter((f) => f.severity !== "info");
+    for (const f of problems) {
+      flags.push({ level: "warning", message: f.message, ruleId: f.id });
+    }
+    const dmarc = eml.message.authResults[0]?.results.find((r) => r.method === "dmarc");
+    if (dmarc?.result === "pass") {
+      flags.push({ level: "safe", message: "Message passed DMARC at the receiving server" });
+    }
+    if (!problems.length) {
+      flags.push({ level: "safe", message: "No header or attachment anomalies in the message" });
+    }
+    score -= eml.penalty;
   }
 
   let confidence: "high" | "medium" | "low" = "high";
-  if (provider !== "custom") confidence = "medium";
+  if (provider.kind === "freemail") confidence = "medium";
   if (!valid || disposable) confidence = "low";
 
   score = Math.max(0, Math.min(100, score));
@@ -145,6 +225,11 @@ export async function analyzeEmail(
     confidence,
     score,
     flags,
+    domainAuth,
+    eml,
+    links,
+    lookalikes,
+    phishing,
     scannedAt: Date.now(),
   };
 }
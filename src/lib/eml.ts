@@ -0,0 +1,456 @@
+// src/lib/eml.ts
+// Raw RFC 5322 message (.eml) parsing and header analysis: Received hop chain,
+// Authentication-Results / ARC verdicts, sender address alignment and MIME parts.
+// Runs entirely in the browser; nothing in the message is fetched or opened.
+
+import { MAIL_AUTH_PENALTY, type MailAuthSeverity } from "./mailAuth";
+
+export const MAX_EML_BYTES = 10 * 1024 * 1024;
+
+const MAX_MIME_DEPTH = 10;
+const MAX_MIME_PARTS = 200;
+const LONG_HOP_SECONDS = 60 * 60;
+
+export type EmlHeader = { name: string; value: string };
+
+export type ReceivedHop = {
+  from: string | null;
+  fromIp: string | null;
+  by: string | null;
+  with: string | null;
+  date: string | null; // ISO timestamp, null when missing or unparseable
+  delaySeconds: number | null; // since the previous hop
+  raw: string;
+};
+
+export type AuthResult = {
+  method: string; // spf, dkim, dmarc, arc, ...
+  result: string; // pass, fail, softfail, neutral, none, temperror, permerror, ...
+  props: Record<string, string>; // smtp.mailfrom, header.d, header.from, ...
+};
+
+export type AuthResultsHeader = { authservId: string; results: AuthResult[] };
+
+export type ArcSet = {
+  instance: number;
+  cv: string | null; // chain validation from ARC-Seal
+  results: AuthResult[]; // from ARC-Authentication-Results
+};
+
+export type MailAddress = { name: string; address: string; domain: string };
+
+export type MimePart = {
+  path: string; // "1", "1.2", ...
+  contentType: string;
+  charset: string | null;
+  encoding: string | null;
+  disposition: "inline" | "attachment" | null;
+  filename: string | null;
+  size: number; // decoded size estimate in bytes
+  attachment: boolean;
+};
+
+export type ParsedEml = {
+  headers: EmlHeader[];
+  subject: string;
+  date: string | null;
+  messageId: string | null;
+  from: MailAddress | null;
+  returnPath: MailAddress | null;
+  replyTo: MailAddress | null;
+  sender: MailAddress | null;
+  hops: ReceivedHop[]; // chronological (first relay first)
+  authResults: AuthResultsHeader[]; // topmost header (added last) first
+  arc: ArcSet[];
+  parts: MimePart[];
+  textBody: string;
+  htmlBody: string;
+};
+
+export type EmlFinding = {
+  id: string;
+  severity: MailAuthSeverity;
+  message: string;
+};
+
+export type EmlAnalysis = {
+  message: ParsedEml;
+  findings: EmlFinding[];
+  penalty: number;
+};
+
+/* ---------------- Low-level decoding ---------------- */
+
+function splitHeaderBlock(raw: string) {
+  const text = raw.replace(/^\uFEFF/, "");
+  const m = text.match(/\r?\n\r?\n/);
+  if (!m || m.index === undefined) return { head: text, body: "" };
+  return { head: text.slice(0, m.index), body: text.slice(m.index + m[0].length) };
+}
+
+function parseHeaderBlock(head: string): EmlHeader[] {
+  const headers: EmlHeader[] = [];
+  for (const line of head.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length) {
+      headers[headers.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+  }
+  return headers;
+}
+
+function headerValues(headers: EmlHeader[], name: string) {
+  const key = name.toLowerCase();
+  return headers.filter((h) => h.name.toLowerCase() === key).map((h) => h.value);
+}
+
+function firstHeader(headers: EmlHeader[], name: string) {
+  return headerValues(headers, name)[0] ?? null;
+}
+
+function bytesFromBase64(text: string) {
+  try {
+    const bin = atob(text.replace(/[^A-Za-z0-9+/=]/g, ""));
+    return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  } catch {
+    return new Uint8Array();
+  }
+}
+
+function bytesFromQuotedPrintable(text: string, header = false) {
+  const src = header ? text.replace(/_/g, " ") : text.replace(/=\r?\n/g, "");
+  const out: number[] = [];
+  for (let i = 0; i < src.length; i++) {
+    const hex = src[i] === "=" ? src.slice(i + 1, i + 3) : "";
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      out.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      out.push(src.charCodeAt(i) & 0xff);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string | null) {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+// RFC 2047 encoded words: =?utf-8?B?...?= / =?iso-8859-1?Q?...?=
+export function decodeWords(value: string) {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, enc: string, text: string) =>
+      decodeBytes(
+        enc.toUpperCase() === "B" ? bytesFromBase64(text) : bytesFromQuotedPrintable(text, true),
+        charset.replace(/\*.*$/, "")
+      )
+    );
+}
+
+// "text/html; charset="utf-8"; name=a.htm" -> { value: "text/html", params: { charset, name } }
+function parseParams(value: string) {
+  const [head, ...rest] = value.split(";");
+  const params: Record<string, string> = {};
+  const re = /([a-z0-9_*-]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]+)/gi;
+  let m: RegExpExecArray | null;
+  const tail = rest.join(";");
+  while ((m = re.exec(tail))) {
+    let v = m[2].trim().replace(/^"|"$/g, "").replace(/\\(.)/g, "$1");
+    let key = m[1].toLowerCase();
+    // RFC 2231 extended value: filename*=utf-8''na%C3%AFve.pdf
+    if (key.endsWith("*")) {
+      key = key.slice(0, -1);
+      try {
+        v = decodeURIComponent(v.replace(/^[^']*'[^']*'/, ""));
+      } catch {
+        /* keep the raw value */
+      }
+    }
+    params[key] = decodeWords(v);
+  }
+  return { value: head.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding: string | null, charset: string | null) {
+  if (encoding === "base64") return decodeBytes(bytesFromBase64(body), charset);
+  if (encoding === "quoted-printable") return decodeBytes(bytesFromQuotedPrintable(body), charset);
+  return body;
+}
+
+function parseDate(value: string | null) {
+  if (!value) return null;
+  const t = Date.parse(value.replace(/\([^)]*\)/g, "").trim());
+  return Number.isNaN(t) ? null : new Date(t).toISOString();
+}
+
+/* ---------------- Structured headers ---------------- */
+
+export function parseAddress(value: string | null): MailAddress | null {
+  if (!value) return null;
+  const decoded = decodeWords(value);
+  const angle = decoded.match(/<([^>]*)>/);
+  const address = (angle ? angle[1] : decoded.match(/[^\s<>"(),;:]+@[^\s<>"(),;:]+/)?.[0] || "").trim().toLowerCase();
+  const name = angle ? decoded.slice(0, angle.index).trim().replace(/^"|"$/g, "") : "";
+  return { name, address, domain: address.split("@")[1] || "" };
+}
+
+function parseReceived(raw: string): Omit<ReceivedHop, "delaySeconds"> {
+  const semi = raw.lastIndexOf(";");
+  const clauses = semi >= 0 ? raw.slice(0, semi) : raw;
+  const fromClause = clauses.match(/\bfrom\s+(\S+)(?:\s+\(([^)]*)\))?/i);
+  return {
+    from: fromClause?.[1] || null,
+    fromIp: (fromClause?.[2] || clauses).match(/\[(?:IPv6:)?([0-9a-f.:]+)\]/i)?.[1] || null,
+    by: clauses.match(/\bby\s+([^\s;]+)/i)?.[1] || null,
+    with: clauses.match(/\bwith\s+([^\s;]+)/i)?.[1] || null,
+    date: semi >= 0 ? parseDate(raw.slice(semi + 1)) : null,
+    raw,
+  };
+}
+
+function stripComments(value: string) {
+  let out = "";
+  let depth = 0;
+  for (const ch of value) {
+    if (ch === "(") depth++;
+    else if (ch === ")") depth = Math.max(0, depth - 1);
+    else if (!depth) out += ch;
+  }
+  return out;
+}
+
+// "mx.google.com; spf=pass smtp.mailfrom=a.com; dkim=pass header.d=a.com"
+function parseAuthResults(value: string): AuthResultsHeader {
+  const [authservId = "", ...clauses] = stripComments(value).split(";").map((s) => s.trim());
+  const results: AuthResult[] = [];
+  for (const clause of clauses) {
+    const m = clause.match(/^([a-z0-9_-]+)\s*=\s*([a-z]+)\b(.*)$/i);
+    if (!m) continue;
+    const props: Record<string, string> = {};
+    for (const p of m[3].matchAll(/([a-z]+\.[a-z0-9_.-]+)\s*=\s*("[^"]*"|\S+)/gi)) {
+      props[p[1].toLowerCase()] = p[2].replace(/^"|"$/g, "");
+    }
+    results.push({ method: m[1].toLowerCase(), result: m[2].toLowerCase(), props });
+  }
+  return { authservId: authservId.split(/\s+/)[0], results };
+}
+
+function parseArc(headers: EmlHeader[]): ArcSet[] {
+  const sets = new Map<number, ArcSet>();
+  const instanceOf = (value: string) => Number(value.match(/\bi\s*=\s*(\d+)/i)?.[1] || 0);
+  const get = (i: number) => {
+    if (!sets.has(i)) sets.set(i, { instance: i, cv: null, results: [] });
+    return sets.get(i)!;
+  };
+
+  for (const value of headerValues(headers, "ARC-Seal")) {
+    get(instanceOf(value)).cv = value.match(/\bcv\s*=\s*([a-z]+)/i)?.[1].toLowerCase() || null;
+  }
+  for (const value of headerValues(headers, "ARC-Authentication-Results")) {
+    // "i=1; mx.example.com; spf=pass ..." -> drop the instance tag, parse the rest
+    get(instanceOf(value)).results = parseAuthResults(value.replace(/^\s*i\s*=\s*\d+\s*;/i, "")).results;
+  }
+  return [...sets.values()].sort((a, b) => a.instance - b.instance);
+}
+
+/* ---------------- MIME ---------------- */
+
+type MimeWalk = { parts: MimePart[]; text: string[]; html: string[] };
+
+function walkMime(headers: EmlHeader[], body: string, path: string, depth: number, walk: MimeWalk) {
+  if (walk.parts.length >= MAX_MIME_PARTS) return;
+
+  const type = parseParams(firstHeader(headers, "Content-Type") || "text/plain");
+  const encoding = firstHeader(headers, "Content-Transfer-Encoding")?.toLowerCase() || null;
+  const dispositionHeader = firstHeader(headers, "Content-Disposition");
+  const disposition = dispositionHeader ? parseParams(dispositionHeader) : null;
+
+  if (type.value.startsWith("multipart/") && type.params.boundary && depth < MAX_MIME_DEPTH) {
+    const delimiter = `--${type.params.boundary}`;
+    const sections = body.split(new RegExp(`^${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:--)?[ \\t]*\\r?$`, "m"));
+    // sections[0] is the preamble; anything after the closing delimiter is the epilogue
+    const closing = body.lastIndexOf(`${delimiter}--`) >= 0;
+    const children = sections.slice(1, closing ? -1 : undefined);
+    children.forEach((section, i) => {
+      const { head, body: childBody } = splitHeaderBlock(section.replace(/^\r?\n/, ""));
+      walkMime(parseHeaderBlock(head), childBody, path ? `${path}.${i + 1}` : String(i + 1), depth + 1, walk);
+    });
+    return;
+  }
+
+  const filename = disposition?.params.filename || type.params.name || null;
+  const attachment = disposition?.value === "attachment" || Boolean(filename);
+  const size = encoding === "base64" ? Math.floor((body.replace(/\s/g, "").length * 3) / 4) : body.length;
+
+  walk.parts.push({
+    path: path || "1",
+    contentType: type.value,
+    charset: type.params.charset || null,
+    encoding,
+    disposition: disposition?.value === "attachment" || disposition?.value === "inline" ? disposition.value : null,
+    filename,
+    size,
+    attachment,
+  });
+
+  if (!attachment && type.value === "text/plain") walk.text.push(decodeBody(body, encoding, type.params.charset || null));
+  if (!attachment && type.value === "text/html") walk.html.push(decodeBody(body, encoding, type.params.charset || null));
+}
+
+/* ---------------- Parse ---------------- */
+
+export function parseEml(raw: string): ParsedEml {
+  const { head, body } = splitHeaderBlock(raw);
+  const headers = parseHeaderBlock(head);
+  if (!headers.length) throw new Error("No message headers found");
+
+  // Received headers are prepended by each relay, so the bottom one is the first hop
+  const hops: ReceivedHop[] = [];
+  for (const value of headerValues(headers, "Received").reverse()) {
+    const hop = parseReceived(value);
+    const prev = hops[hops.length - 1];
+    const delaySeconds =
+      hop.date && prev?.date ? Math.round((Date.parse(hop.date) - Date.parse(prev.date)) / 1000) : null;
+    hops.push({ ...hop, delaySeconds });
+  }
+
+  const walk: MimeWalk = { parts: [], text: [], html: [] };
+  walkMime(headers, body, "", 0, walk);
+
+  return {
+    headers,
+    subject: decodeWords(firstHeader(headers, "Subject") || ""),
+    date: parseDate(firstHeader(headers, "Date")),
+    messageId: firstHeader(headers, "Message-ID"),
+    from: parseAddress(firstHeader(headers, "From")),
+    returnPath: parseAddress(firstHeader(headers, "Return-Path")),
+    replyTo: parseAddress(firstHeader(headers, "Reply-To")),
+    sender: parseAddress(firstHeader(headers, "Sender")),
+    hops,
+    authResults: headerValues(headers, "Authentication-Results").map(parseAuthResults),
+    arc: parseArc(headers),
+    parts: walk.parts,
+    textBody: walk.text.join("\n"),
+    htmlBody: walk.html.join("\n"),
+  };
+}
+
+/* ---------------- Analysis ---------------- */
+
+const DANGEROUS_EXTENSIONS = [
+  "exe", "scr", "com", "pif", "bat", "cmd", "js", "jse", "vbs", "vbe", "wsf", "ps1", "jar",
+  "msi", "hta", "lnk", "iso", "img", "vhd", "html", "htm", "svg", "docm", "xlsm", "pptm", "one",
+];
+const ARCHIVE_EXTENSIONS = ["zip", "rar", "7z", "gz", "tar", "cab", "ace"];
+const DOCUMENT_EXTENSIONS = ["pdf", "doc", "docx", "xls", "xlsx", "txt", "jpg", "png"];
+
+// Same domain or one is a subdomain of the other (relaxed alignment without a PSL)
+function aligned(a: string, b: string) {
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+function formatDelay(seconds: number) {
+  if (Math.abs(seconds) < 120) return `${seconds}s`;
+  if (Math.abs(seconds) < 7200) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 3600)}h`;
+}
+
+export function analyzeEml(message: ParsedEml): EmlAnalysis {
+  const findings: EmlFinding[] = [];
+  const add = (id: string, severity: MailAuthSeverity, text: string) =>
+    findings.push({ id, severity, message: text });
+
+  // Authentication-Results from the receiving server (topmost header)
+  const verdicts = message.authResults[0]?.results || [];
+  const verdict = (method: string) => verdicts.find((r) => r.method === method);
+  const dmarc = verdict("dmarc");
+  if (!message.authResults.length) {
+    add("auth-results-missing", "info", "No Authentication-Results header (verdicts unavailable)");
+  } else {
+    if (dmarc && dmarc.result !== "pass") {
+      add("dmarc-fail", dmarc.result === "fail" ? "high" : "medium", `DMARC ${dmarc.result} for ${dmarc.props["header.from"] || "the From domain"}`);
+    }
+    const spf = verdict("spf");
+    if (spf && ["fail", "softfail", "permerror"].includes(spf.result)) {
+      add("spf-fail", "medium", `SPF ${spf.result} for ${spf.props["smtp.mailfrom"] || "the envelope sender"}`);
+    }
+    const dkims = verdicts.filter((r) => r.method === "dkim" && r.result !== "none");
+    if (dkims.length && !dkims.some((r) => r.result === "pass")) {
+      add("dkim-fail", "medium", `DKIM ${dkims.map((r) => r.result).join("/")}`);
+    } else if (!dkims.length) {
+      add("dkim-missing", "low", "Message is not DKIM-signed");
+    }
+  }
+
+  // ARC: the newest seal's cv= covers the whole chain
+  const lastArc = message.arc[message.arc.length - 1];
+  if (lastArc?.cv === "fail") {
+    add("arc-fail", "medium", `ARC chain validation failed at instance ${lastArc.instance}`);
+  }
+
+  // Sender identities
+  const from = message.from;
+  if (!from?.address) {
+    add("from-missing", "high", "From header is missing or unparseable");
+  } else {
+    const embedded = from.name.match(/[^\s<>"]+@[^\s<>"]+/)?.[0]?.toLowerCase();
+    if (embedded && embedded !== from.address) {
+      add("from-display-spoof", "high", `Display name shows ${embedded} but the message is from ${from.address}`);
+    }
+    const rp = message.returnPath;
+    if (rp?.domain && !aligned(rp.domain, from.domain)) {
+      add(
+        "return-path-mismatch",
+        dmarc?.result === "pass" ? "low" : "medium",
+        `Return-Path domain ${rp.domain} differs from From domain ${from.domain}`
+      );
+    }
+    const rt = message.replyTo;
+    if (rt?.domain && !aligned(rt.domain, from.domain)) {
+      add("reply-to-mismatch", "medium", `Reply-To goes to ${rt.domain}, not the sender's domain ${from.domain}`);
+    }
+  }
+  if (!message.messageId) add("message-id-missing", "low", "Message-ID header is missing");
+  if (!message.date) add("date-missing", "low", "Date header is missing or invalid");
+
+  // Received chain timing
+  for (const hop of message.hops) {
+    if (hop.delaySeconds === null) continue;
+    if (hop.delaySeconds < -300) {
+      add("hop-clock-skew", "low", `Hop ${hop.by || "?"} is timestamped ${formatDelay(-hop.delaySeconds)} before the previous one`);
+    } else if (hop.delaySeconds > LONG_HOP_SECONDS) {
+      add("hop-delay", "info", `Hop ${hop.by || "?"} took ${formatDelay(hop.delaySeconds)}`);
+    }
+  }
+
+  // Attachments
+  for (const part of message.parts.filter((p) => p.attachment)) {
+    const name = (part.filename || "").toLowerCase();
+    const exts = name.split(".").slice(1);
+    const ext = exts[exts.length - 1] || "";
+    if (exts.length >= 2 && DOCUMENT_EXTENSIONS.includes(exts[exts.length - 2]) && DANGEROUS_EXTENSIONS.includes(ext)) {
+      add("attachment-double-extension", "critical", `Attachment ${part.filename} hides an executable type behind a document name`);
+    } else if (DANGEROUS_EXTENSIONS.includes(ext)) {
+      add("attachment-dangerous", "high", `Risky attachment type: ${part.filename}`);
+    } else if (ARCHIVE_EXTENSIONS.includes(ext)) {
+      add("attachment-archive", "low", `Archive attachment ${part.filename} (contents not inspected)`);
+    }
+    if (ext === "pdf" && part.contentType !== "application/pdf" && part.contentType !== "application/octet-stream") {
+      add("attachment-type-mismatch", "medium", `${part.filename} is declared as ${part.contentType}`);
+    }
+  }
+
+  const penalty = Math.min(
+    40,
+    findings.reduce((sum, f) => sum + MAIL_AUTH_PENALTY[f.severity], 0)
+  );
+  return { message, findings, penalty };
+}
@@ -0,0 +1,389 @@
+// src/lib/exportFormats.ts
+// Shared export renderers: JSON, plain text, SARIF 2.1.0, CSV (one finding per row), Markdown
+// and the branded HTML report (see reportBuilder.ts).
+// Tool pages describe what they export as an ExportReport; the format comes from Settings.
+
+import type { EmailScanResult } from "./email";
+import type { RealScanResult } from "./scanner";
+import type { WebSecurityResult } from "./webSecurity";
+import { buildHtmlReport } from "./reportBuilder";
+
+export type ExportFormat = "json" | "txt" | "sarif" | "csv" | "md" | "html";
+
+export const EXPORT_FORMAT_KEY = "pasco_export_format";
+export const EXPORT_FORMAT_EVENT = "pasco_export_format_changed";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { value: "json", label: "JSON", extension: "json", mime: "application/json" },
+  { value: "txt", label: "TXT", extension: "txt", mime: "text/plain;charset=utf-8" },
+  { value: "sarif", label: "SARIF 2.1.0", extension: "sarif", mime: "application/sarif+json" },
+  { value: "csv", label: "CSV", extension: "csv", mime: "text/csv;charset=utf-8" },
+  { value: "md", label: "Markdown", extension: "md", mime: "text/markdown;charset=utf-8" },
+  { value: "html", label: "HTML report", extension: "html", mime: "text/html;charset=utf-8" },
+];
+
+export function isExportFormat(v: unknown): v is ExportFormat {
+  return EXPORT_FORMATS.some((f) => f.value === v);
+}
+
+export function readExportFormat(): ExportFormat {
+  try {
+    const saved = localStorage.getItem(EXPORT_FORMAT_KEY);
+    return isExportFormat(saved) ? saved : "json";
+  } catch {
+    return "json";
+  }
+}
+
+export type ExportSeverity = "critical" | "high" | "medium" | "low" | "info";
+
+export type ExportFinding = {
+  ruleId?: string; // stable id for SARIF rules; derived from category + title when omitted
+  title: string;
+  severity: ExportSeverity;
+  description: string;
+  recommendation?: string;
+  category?: string;
+  location?: string; // URL / host / address the finding applies to
+};
+
+export type ExportReport = {
+  tool: string;
+  title: string;
+  target?: string;
+  generatedAt?: string;
+  score?: number; // 0-100, drives the HTML report gauge
+  grade?: string;
+  summary?: Record<string, string | number | boolean | null | undefined>;
+  findings?: ExportFinding[]; // omitted by tools without a findings model
+  sections?: { title: string; lines: string[] }[];
+  data: unknown; // full payload for JSON
+  text?: string; // tool-specific plain-text rendering (defaults to a generic one)
+};
+
+const SEVERITY_ORDER: ExportSeverity[] = ["critical", "high", "medium", "low", "info"];
+
+// GitHub code scanning reads this property to bucket results
+const SECURITY_SEVERITY: Record<ExportSeverity, string> = {
+  critical: "9.5",
+  high: "8.0",
+  medium: "5.5",
+  low: "3.0",
+  info: "0.0",
+};
+
+function sarifLevel(severity: ExportSeverity) {
+  if (severity === "critical" || severity === "high") return "error";
+  if (severity === "medium") return "warning";
+  return "note";
+}
+
+function slug(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function ruleIdOf(f: ExportFinding) {
+  return f.ruleId || [f.category, f.title].filter(Boolean).map((s) => slug(s!)).join("/");
+}
+
+function formatValue(v: unknown) {
+  if (v === null || v === undefined) return "—";
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  return String(v);
+}
+
+function summaryEntries(report: ExportReport) {
+  const entries: [string, unknown][] = [];
+  if (report.score !== undefined) entries.push(["Score", report.score]);
+  if (report.grade !== undefined) entries.push(["Grade", report.grade]);
+  return [...entries, ...Object.entries(report.summary || {}).filter(([, v]) => v !== undefined)];
+}
+
+function sortedFindings(report: ExportReport) {
+  return [...(report.findings || [])].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+}
+
+/* ---------------- SARIF 2.1.0 ---------------- */
+
+export function toSarif(report: ExportReport) {
+  const findings = report.findings || [];
+  const rules: Record<string, unknown>[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  for (const f of findings) {
+    const id = ruleIdOf(f);
+    if (ruleIndex.has(id)) continue;
+    ruleIndex.set(id, rules.length);
+    rules.push({
+      id,
+      name: f.title,
+      shortDescription: { text: f.title },
+      fullDescription: { text: f.description },
+      ...(f.recommendation ? { help: { text: f.recommendation } } : {}),
+      defaultConfiguration: { level: sarifLevel(f.severity) },
+      properties: {
+        "security-severity": SECURITY_SEVERITY[f.severity],
+        tags: ["security", ...(f.category ? [f.category] : [])],
+      },
+    });
+  }
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: `PascoAI ${report.tool}`, rules } },
+        invocations: [{ executionSuccessful: true, endTimeUtc: report.generatedAt || new Date().toISOString() }],
+        results: findings.map((f) => {
+          const location = f.location || report.target;
+          return {
+            ruleId: ruleIdOf(f),
+            ruleIndex: ruleIndex.get(ruleIdOf(f)),
+            level: sarifLevel(f.severity),
+            message: { text: f.recommendation ? `${f.description} ${f.recommendation}` : f.description },
+            ...(location ? { locations: [{ physicalLocation: { artifactLocation: { uri: location } } }] } : {}),
+            properties: { severity: f.severity },
+          };
+        }),
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+/* ---------------- CSV ---------------- */
+
+function csvCell(v: unknown) {
+  let s = v === null || v === undefined ? "" : String(v);
+  // Neutralize spreadsheet formulas (=, +, -, @) from scanned content
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvRow(cells: unknown[]) {
+  return cells.map(csvCell).join(",");
+}
+
+export function toCsv(report: ExportReport) {
+  if (report.findings) {
+    const rows = sortedFindings(report).map((f) =>
+      csvRow([
+        report.tool,
+        f.location || report.target || "",
+        f.category || "",
+        f.severity,
+        f.title,
+        f.description,
+        f.recommendation || "",
+        ruleIdOf(f),
+      ])
+    );
+    return [csvRow(["tool", "target", "category", "severity", "title", "description", "recommendation", "rule_id"]), ...rows].join("\r\n");
+  }
+
+  // No findings model: key/value rows
+  const rows = [
+    ...summaryEntries(report).map(([k, v]) => csvRow(["summary", k, formatValue(v)])),
+    ...(report.sections || []).flatMap((s) => s.lines.map((line) => csvRow([s.title, "", line]))),
+  ];
+  return [csvRow(["section", "field", "value"]), ...rows].join("\r\n");
+}
+
+/* ---------------- Markdown ---------------- */
+
+function mdEscape(s: string) {
+  return s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+export function toMarkdown(report: ExportReport) {
+  const out: string[] = [`# ${report.title}`, ""];
+  out.push(`- **Tool:** ${report.tool}`);
+  if (report.target) out.push(`- **Target:** \`${report.target}\``);
+  out.push(`- **Generated:** ${report.generatedAt || new Date().toISOString()}`, "");
+
+  const summary = summaryEntries(report);
+  if (summary.length) {
+    out.push("## Summary", "", "| Field | Value |", "| --- | --- |");
+    for (const [k, v] of summary) out.push(`| ${mdEscape(k)} | ${mdEscape(formatValue(v))} |`);
+    out.push("");
+  }
+
+  if (report.findings) {
+    const findings = sortedFindings(report);
+    out.push(`## Findings (${findings.length})`, "");
+    if (!findings.length) out.push("_No findings._", "");
+
+    if (findings.length) {
+      out.push("| Severity | Finding | Category |", "| --- | --- | --- |");
+      for (const f of findings) {
+        out.push(`| ${f.severity.toUpperCase()} | ${mdEscape(f.title)} | ${mdEscape(f.category || "")} |`);
+      }
+      out.push("");
+    }
+
+    for (const f of findings) {
+      out.push(`### [${f.severity.toUpperCase()}] ${f.title}`, "");
+      if (f.location && f.location !== report.target) out.push(`Location: \`${f.location}\``, "");
+      out.push(f.description, "");
+      if (f.recommendation) out.push(`**Recommendation:** ${f.recommendation}`, "");
+    }
+  }
+
+  for (const s of report.sections || []) {
+    out.push(`## ${s.title}`, "", ...(s.lines.length ? s.lines.map((l) => `- ${l}`) : ["_(none)_"]), "");
+  }
+
+  return out.join("\n");
+}
+
+/* ---------------- Plain text ---------------- */
+
+export function toText(report: ExportReport) {
+  if (report.text !== undefined) return report.text;
+
+  const out: string[] = [`PascoAI - ${report.title}`, `Generated: ${report.generatedAt || new Date().toISOString()}`];
+  if (report.target) out.push(`Target: ${report.target}`);
+
+  const summary = summaryEntries(report);
+  if (summary.length) out.push("", ...summary.map(([k, v]) => `${k}: ${formatValue(v)}`));
+
+  if (report.findings) {
+    out.push("", `Findings (${report.findings.length}):`);
+    for (const f of sortedFindings(report)) {
+      out.push(`- [${f.severity.toUpperCase()}] ${f.title}: ${f.description}`);
+      if (f.recommendation) out.push(`  Fix: ${f.recommendation}`);
+    }
+  }
+
+  for (const s of report.sections || []) {
+    out.push("", `${s.title}:`, ...(s.lines.length ? s.lines.map((l) => `- ${l}`) : ["- (none)"]));
+  }
+
+  return out.join("\n");
+}
+
+export function renderExport(format: ExportFormat, report: ExportReport) {
+  const meta = EXPORT_FORMATS.find((f) => f.value === format) || EXPORT_FORMATS[0];
+  const content =
+    format === "sarif"
+      ? toSarif(report)
+      : format === "csv"
+      ? toCsv(report)
+      : format === "md"
+      ? toMarkdown(report)
+      : format === "txt"
+      ? toText(report)
+      : format === "html"
+      ? buildHtmlReport(report)
+      : JSON.stringify(report.data, null, 2);
+  return { content, mime: meta.mime, extension: meta.extension };
+}
+
+/** Render and download; `baseName` gets the format's extension appended. */
+export function downloadExport(format: ExportFormat, report: ExportReport, baseName: string) {
+  const { content, mime, extension } = renderExport(format, report);
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${baseName}.${extension}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+  return extension;
+}
+
+/* ---------------- Finding adapters ---------------- */
+
+export function findingsFromScan(r: RealScanResult): ExportFinding[] {
+  const location = r.context?.finalUrl || r.context?.url || r.target;
+  return r.results.flatMap((c) =>
+    c.findings.map((f) => ({
+      title: f.title,
+      severity: f.severity,
+      description: f.description,
+      recommendation: f.recommendation,
+      category: c.category,
+      location,
+    }))
+  );
+}
+
+export function findingsFromWeb(r: WebSecurityResult): ExportFinding[] {
+  return (r.findings || []).map((f) => ({
+    title: f.title,
+    severity: f.severity,
+    description: f.detail || f.title,
+    recommendation: f.fix,
+    category: "Web Security",
+    location: r.finalUrl,
+  }));
+}
+
+export function findingsFromEmail(r: EmailScanResult): ExportFinding[] {
+  const flags = r.flags
+    .filter((f) => f.level === "warning" && !f.ruleId)
+    .map((f) => ({
+      title: f.message,
+      severity: "medium" as const,
+      description: f.message,
+      category: "Email",
+      location: `mailto:${r.email}`,
+    }));
+
+  // Domain records, message, link and sender findings keep their own severities instead of the flattened flag
+  const domain = (r.domainAuth?.findings || [])
+    .filter((f) => f.severity !== "info")
+    .map((f) => ({
+      ruleId: `email-auth/${f.id}`,
+      title: f.title,
+      severity: f.severity,
+      description: f.detail,
+      category: `Email authentication (${f.record.toUpperCase()})`,
+      location: r.domainAuth!.domain,
+    }));
+
+  const message = (r.eml?.findings || [])
+    .filter((f) => f.severity !== "info")
+    .map((f) => ({
+      ruleId: `email-message/${f.id}`,
+      title: f.message,
+      severity: f.severity,
+      description: f.message,
+      category: "Email message",
+      location: r.eml!.message.messageId || `mailto:${r.email}`,
+    }));
+
+  const links = r.links.flatMap((l) =>
+    l.reasons
+      .filter((reason) => reason.severity !== "info")
+      .map((reason) => ({
+        ruleId: `email-link/${reason.id}`,
+        title: reason.message,
+        severity: reason.severity,
+        description: `${reason.message} (${l.href})`,
+        category: "Email links",
+        location: l.href,
+      }))
+  );
+
+  const senders = r.lookalikes.map((l) => ({
+    ruleId: `email-sender/${l.id}`,
+    title: l.message,
+    severity: l.severity,
+    description: `${l.domain} (${l.header}) imitates ${l.lookalikeOf}`,
+    recommendation: l.corporate ? "Block the cousin domain at the mail gateway and warn recipients." : undefined,
+    category: "Email sender",
+    location: l.domain,
+  }));
+
+  return [...flags, ...domain, ...message, ...links, ...senders];
+}
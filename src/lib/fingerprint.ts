@@ -0,0 +1,155 @@
+// src/lib/fingerprint.ts
+// Technology fingerprinting from response headers, cookie names, meta generators and
+// script paths. Pure (runs in /api handlers and the browser); signatures live in techSignatures.ts.
+
+import { TECH_SIGNATURES, type TechCategory, type TechSignature } from "./techSignatures.js";
+
+export type TechSource = "header" | "cookie" | "meta" | "script" | "html";
+
+export type Technology = {
+  name: string;
+  category: TechCategory;
+  version: string | null;
+  source: TechSource; // where the version (or the first match) came from
+  evidence: string;
+};
+
+export type TechFinding = {
+  severity: "low" | "info";
+  title: string;
+  detail: string;
+  penalty: number;
+  technology: Technology | null; // set on version-disclosure findings
+};
+
+export type FingerprintInput = {
+  headers: Record<string, string | string[] | undefined>;
+  html?: string;
+};
+
+const VERSION_PENALTY = 2;
+const TECH_PENALTY_CAP = 6;
+const EVIDENCE_MAX = 120;
+
+function clip(s: string) {
+  return s.length > EVIDENCE_MAX ? `${s.slice(0, EVIDENCE_MAX)}…` : s;
+}
+
+function readMetaGenerators(html: string) {
+  const out: string[] = [];
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    if (!/\bname\s*=\s*["']?generator\b/i.test(tag)) continue;
+    const content = tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i);
+    if (content) out.push(content[1].trim());
+  }
+  return out;
+}
+
+function readScriptSources(html: string) {
+  return [...html.matchAll(/<script\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi)].map((m) => m[1]);
+}
+
+type Match = { source: TechSource; evidence: string; version: string | null };
+
+function matchSignature(
+  sig: TechSignature,
+  headers: Record<string, string>,
+  cookieNames: string[],
+  generators: string[],
+  scripts: string[],
+  html: string
+): Match[] {
+  const matches: Match[] = [];
+  const test = (pattern: string, value: string, source: TechSource, evidence: string) => {
+    const m = new RegExp(pattern, "i").exec(value);
+    if (m) matches.push({ source, evidence: clip(evidence), version: m[1] || null });
+  };
+
+  for (const [name, pattern] of Object.entries(sig.headers || {})) {
+    if (headers[name] !== undefined) test(pattern, headers[name], "header", `${name}: ${headers[name]}`);
+  }
+  for (const pattern of sig.cookies || []) {
+    const hit = cookieNames.find((c) => new RegExp(pattern, "i").test(c));
+    if (hit) matches.push({ source: "cookie", evidence: `cookie ${hit}`, version: null });
+  }
+  if (sig.meta) {
+    for (const g of generators) test(sig.meta, g, "meta", `generator: ${g}`);
+  }
+  if (sig.scripts) {
+    for (const src of scripts) test(sig.scripts, src, "script", `script ${src}`);
+  }
+  if (sig.html && html) {
+    const m = new RegExp(sig.html, "i").exec(html);
+    if (m) matches.push({ source: "html", evidence: clip(m[0]), version: m[1] || null });
+  }
+
+  return matches;
+}
+
+export function fingerprint(input: FingerprintInput): Technology[] {
+  const headers: Record<string, string> = {};
+  let setCookie: string[] = [];
+  for (const [k, v] of Object.entries(input.headers || {})) {
+    if (v === undefined) continue;
+    if (k.toLowerCase() === "set-cookie") setCookie = Array.isArray(v) ? v : [v];
+    else headers[k.toLowerCase()] = Array.isArray(v) ? v.join(", ") : String(v);
+  }
+
+  const html = input.html || "";
+  const cookieNames = setCookie.map((c) => c.split("=")[0].trim()).filter(Boolean);
+  const generators = readMetaGenerators(html);
+  const scripts = readScriptSources(html);
+
+  const found: Technology[] = [];
+  for (const sig of TECH_SIGNATURES) {
+    const matches = matchSignature(sig, headers, cookieNames, generators, scripts, html);
+    if (!matches.length) continue;
+
+    const best = matches.find((m) => m.version) || matches[0];
+    found.push({
+      name: sig.name,
+      category: sig.category,
+      version: best.version,
+      source: best.source,
+      evidence: best.evidence,
+    });
+  }
+  return found;
+}
+
+// Versions announced by the server itself (headers, generator tags) help attackers pick exploits
+export function isVersionDisclosed(tech: Technology) {
+  return !!tech.version && (tech.source === "header" || tech.source === "meta");
+}
+
+export function technologyLabel(tech: Technology) {
+  return tech.version ? `${tech.name} ${tech.version}` : tech.name;
+}
+
+export function technologyFindings(techs: Technology[]): TechFinding[] {
+  if (!techs.length) return [];
+
+  const findings: TechFinding[] = [
+    {
+      severity: "info",
+      title: "Technologies identified",
+      detail: techs.map(technologyLabel).join(", "),
+      penalty: 0,
+      technology: null,
+    },
+  ];
+
+  let budget = TECH_PENALTY_CAP;
+  for (const tech of techs.filter(isVersionDisclosed)) {
+    const penalty = Math.min(VERSION_PENALTY, budget);
+    budget -= penalty;
+    findings.push({
+      severity: "low",
+      title: `${tech.name} version disclosed`,
+      detail: tech.evidence,
+      penalty,
+      technology: tech,
+    });
+  }
+  return findings;
+}
@@ -0,0 +1,106 @@
+// src/lib/hashBenchmarks.ts
+// Offline guessing speed per password storage algorithm, measured on one reference GPU
+// (hashcat benchmark mode, RTX 4090 class). Slow hashes scale with their work factor from
+// the benchmarked parameters, so "bcrypt cost 12" is the cost-5 rate / 2^7. Figures are
+// ballpark: real rigs vary by driver, kernel and (for memory-hard hashes) VRAM.
+
+export type HashAlgorithm =
+  | { id: "md5" }
+  | { id: "sha1" }
+  | { id: "ntlm" }
+  | { id: "sha256" }
+  | { id: "bcrypt"; cost: number }
+  | { id: "scrypt"; N: number; r: number; p: number }
+  | { id: "argon2id"; memoryKiB: number; iterations: number; parallelism: number }
+  | { id: "pbkdf2-sha256"; iterations: number };
+
+export type HashAlgorithmId = HashAlgorithm["id"];
+
+export type AttackScenario = {
+  id: string;
+  label: string;
+  gpus: number; // reference GPUs; 0 = online attack, rate set by the target service
+  onlineGuessesPerSecond?: number;
+  costPerGpuHour?: number; // USD, for rented hardware
+};
+
+export const REFERENCE_GPU = "RTX 4090";
+
+export const HASH_ALGORITHM_LABELS: Record<HashAlgorithmId, string> = {
+  md5: "MD5 (unsalted)",
+  sha1: "SHA-1",
+  ntlm: "NTLM (Windows)",
+  sha256: "SHA-256 (single round)",
+  bcrypt: "bcrypt",
+  scrypt: "scrypt",
+  argon2id: "Argon2id",
+  "pbkdf2-sha256": "PBKDF2-HMAC-SHA256",
+};
+
+// Parameters a new picker selection starts from (current OWASP minimums for the slow hashes)
+export const DEFAULT_HASH_PARAMS: Record<HashAlgorithmId, HashAlgorithm> = {
+  md5: { id: "md5" },
+  sha1: { id: "sha1" },
+  ntlm: { id: "ntlm" },
+  sha256: { id: "sha256" },
+  bcrypt: { id: "bcrypt", cost: 10 },
+  scrypt: { id: "scrypt", N: 131072, r: 8, p: 1 },
+  argon2id: { id: "argon2id", memoryKiB: 19456, iterations: 2, parallelism: 1 },
+  "pbkdf2-sha256": { id: "pbkdf2-sha256", iterations: 600000 },
+};
+
+// Hashes per second on one reference GPU at the benchmark parameters in the comments
+const BENCHMARKS = {
+  md5: 164_100_000_000,
+  sha1: 50_640_000_000,
+  ntlm: 288_500_000_000,
+  sha256: 21_975_000_000,
+  bcrypt: 184_000, // cost 5
+  scrypt: 7_100, // N=16384, r=8, p=1
+  argon2id: 1_200, // m=65536 KiB, t=3
+  "pbkdf2-sha256": 8_865_000, // 1000 iterations
+};
+
+export const ATTACK_SCENARIOS: AttackScenario[] = [
+  { id: "online", label: "Online, rate-limited login", gpus: 0, onlineGuessesPerSecond: 100 },
+  { id: "gpu", label: `Single ${REFERENCE_GPU}`, gpus: 1 },
+  { id: "rig", label: "Cracking rig (8 GPUs)", gpus: 8 },
+  { id: "cloud", label: "Rented cloud (100 GPUs)", gpus: 100, costPerGpuHour: 0.6 },
+  { id: "state", label: "Well-funded attacker (10,000 GPUs)", gpus: 10_000, costPerGpuHour: 0.6 },
+];
+
+/** Offline guesses per second on one reference GPU for the given algorithm and parameters. */
+export function hashRate(algorithm: HashAlgorithm): number {
+  switch (algorithm.id) {
+    case "md5":
+    case "sha1":
+    case "ntlm":
+    case "sha256":
+      return BENCHMARKS[algorithm.id];
+    case "bcrypt":
+      return BENCHMARKS.bcrypt / 2 ** (Math.max(4, Math.min(31, algorithm.cost)) - 5);
+    case "scrypt":
+      return BENCHMARKS.scrypt / ((algorithm.N * algorithm.r * algorithm.p) / (16384 * 8));
+    case "argon2id":
+      // Work is memory x passes; lanes split it but don't reduce it
+      return BENCHMARKS.argon2id / ((algorithm.memoryKiB * algorithm.iterations) / (65536 * 3));
+    case "pbkdf2-sha256":
+      return BENCHMARKS["pbkdf2-sha256"] / (Math.max(1, algorithm.iterations) / 1000);
+  }
+}
+
+export function describeHashAlgorithm(algorithm: HashAlgorithm): string {
+  const label = HASH_ALGORITHM_LABELS[algorithm.id];
+  switch (algorithm.id) {
+    case "bcrypt":
+      return `${label} cost ${algorithm.cost}`;
+    case "scrypt":
+      return `${label} N=${algorithm.N}, r=${algorithm.r}, p=${algorithm.p}`;
+    case "argon2id":
+      return `${label} m=${algorithm.memoryKiB} KiB, t=${algorithm.iterations}, p=${algorithm.parallelism}`;
+    case "pbkdf2-sha256":
+      return `${label} ${algorithm.iterations.toLocaleString()} iterations`;
+    default:
+      return label;
+  }
+}
@@ -0,0 +1,101 @@
+// src/lib/jobs.ts
+// Saved scan targets with recurring schedules, run by the server-side job runner (/api/jobs).
+
+import type { RealScanResult } from "./scanner.js";
+import type { Schedule } from "./schedule.js";
+
+export type AlertRules = {
+  certExpiryDays: number | null; // alert when the certificate expires within N days (null = off)
+  gradeDrop: boolean;
+};
+
+export type ScheduledTarget = {
+  id: string;
+  target: string;
+  schedule: Schedule;
+  alerts: AlertRules;
+  enabled: boolean;
+  createdAt: string;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastError: string | null;
+};
+
+export type JobRun = {
+  targetId: string;
+  startedAt: string;
+  durationMs: number;
+  result: RealScanResult | null;
+  error: string | null;
+};
+
+export type JobAlertKind = "cert-expiry" | "grade-drop" | "scan-failed";
+
+export type JobAlert = {
+  id: string;
+  targetId: string;
+  target: string;
+  kind: JobAlertKind;
+  message: string;
+  createdAt: string;
+  acknowledged: boolean;
+};
+
+export type ScheduledTargetInput = {
+  id?: string;
+  target: string;
+  schedule: Schedule;
+  alerts: AlertRules;
+  enabled: boolean;
+};
+
+export type JobsOverview = {
+  targets: ScheduledTarget[];
+  alerts: JobAlert[];
+  latest: Record<string, { score: number; grade: string; scannedAt: string } | null>;
+};
+
+export const DEFAULT_ALERT_RULES: AlertRules = { certExpiryDays: 14, gradeDrop: true };
+
+async function call<T>(path: string, init?: RequestInit): Promise<T> {
+  const r = await fetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(init?.headers || {}) },
+  });
+  const data = await r.json().catch(() => null);
+  if (!r.ok) throw new Error(data?.error || `Jobs request failed (${r.status})`);
+  return data as T;
+}
+
+export function fetchJobs() {
+  return call<JobsOverview>("/api/jobs");
+}
+
+export function fetchJobRuns(targetId: string) {
+  return call<{ runs: JobRun[] }>(`/api/jobs?id=${encodeURIComponent(targetId)}`).then((d) => d.runs);
+}
+
+export function saveScheduledTarget(input: ScheduledTargetInput) {
+  return call<{ target: ScheduledTarget }>("/api/jobs", {
+    method: "POST",
+    body: JSON.stringify({ action: "save", ...input }),
+  }).then((d) => d.target);
+}
+
+export function deleteScheduledTarget(id: string) {
+  return call<{ ok: true }>(`/api/jobs?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export function runScheduledTargetNow(id: string) {
+  return call<{ run: JobRun }>("/api/jobs", {
+    method: "POST",
+    body: JSON.stringify({ action: "run", id }),
+  }).then((d) => d.run);
+}
+
+export function acknowledgeAlerts(ids: string[]) {
+  return call<{ ok: true }>("/api/jobs", {
+    method: "POST",
+    body: JSON.stringify({ action: "ack", ids }),
+  });
+}
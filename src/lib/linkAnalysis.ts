@@ -0,0 +1,387 @@
+// src/lib/linkAnalysis.ts
+// Link extraction and per-link verdicts for email content: href vs displayed text,
+// punycode/IDN homoglyphs, lookalikes of protected brand domains, IP-literal hosts,
+// shorteners and suspicious TLDs. Purely lexical; no link is ever fetched.
+
+import { baseDomain } from "./domains";
+import type { MailAuthSeverity } from "./mailAuth";
+
+export const PROTECTED_DOMAINS_KEY = "pasco_protected_domains";
+
+// One brand per entry: its main domain first, then the brand's own regional and service
+// domains, which are trusted rather than flagged as lookalikes of it
+export const DEFAULT_PROTECTED_DOMAINS = [
+  "paypal.com paypal.co.uk paypal.de paypal.fr paypal.it paypal.es paypal.com.au paypal.me",
+  "google.com google.co.uk google.de google.fr google.it google.es google.ca google.com.au google.co.in google.co.jp google-analytics.com",
+  "microsoft.com microsoft.de microsoft.fr microsoft.co.uk",
+  "office.com office.net",
+  "apple.com apple.co.uk apple.de",
+  "amazon.com amazon.co.uk amazon.de amazon.fr amazon.it amazon.es amazon.ca amazon.com.au amazon.in amazon.co.jp amazon-adsystem.com",
+  "netflix.com netflix.net",
+  "facebook.com facebook.net",
+  "instagram.com",
+  "linkedin.com",
+  "dropbox.com",
+  "docusign.com docusign.net",
+  "dhl.com dhl.de dhl.co.uk",
+  "fedex.com",
+];
+
+const MAX_LINKS = 100;
+
+const SHORTENERS = [
+  "bit.ly", "tinyurl.com", "t.co", "goo.gl", "ow.ly", "is.gd", "buff.ly", "rebrand.ly",
+  "cutt.ly", "shorturl.at", "rb.gy", "tiny.cc", "s.id", "t.ly",
+];
+
+const SUSPICIOUS_TLDS = [
+  "zip", "mov", "xyz", "top", "tk", "ml", "ga", "cf", "gq", "work", "click", "country", "kim",
+  "loan", "men", "review", "stream", "gdn", "rest", "quest", "cam", "icu", "sbs", "cfd", "buzz",
+];
+
+const DANGEROUS_SCHEMES = ["javascript:", "data:", "vbscript:", "file:"];
+
+// Cyrillic/Greek letters that render like Latin ones, plus common ASCII substitutions
+const CONFUSABLES: Record<string, string> = {
+  "а": "a", "е": "e", "о": "o", "р": "p", "с": "c", "у": "y", "х": "x", "і": "i", "ј": "j",
+  "ѕ": "s", "ԁ": "d", "ɡ": "g", "һ": "h", "ӏ": "l", "ԛ": "q", "ԝ": "w", "ո": "n",
+  "α": "a", "ε": "e", "ο": "o", "ρ": "p", "ν": "v", "τ": "t", "κ": "k", "ι": "i", "υ": "u",
+  "0": "o", "1": "l", "3": "e", "5": "s",
+};
+
+export type LinkVerdictLevel = "safe" | "suspicious" | "dangerous";
+
+export type LinkReason = { id: string; severity: MailAuthSeverity; message: string };
+
+export type ExtractedLink = {
+  href: string;
+  text: string | null; // anchor text for HTML links
+  source: "html" | "text";
+};
+
+export type LinkVerdict = ExtractedLink & {
+  host: string | null;
+  unicodeHost: string | null; // decoded IDN host when it differs from host
+  verdict: LinkVerdictLevel;
+  reasons: LinkReason[];
+};
+
+/* ---------------- Protected domains ---------------- */
+
+export function readProtectedDomains(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PROTECTED_DOMAINS_KEY) || "null");
+    return Array.isArray(raw)
+      ? raw.filter((x): x is string => typeof x === "string")
+      : DEFAULT_PROTECTED_DOMAINS;
+  } catch {
+    return DEFAULT_PROTECTED_DOMAINS;
+  }
+}
+
+/** Entries are whitespace/comma separated domain lists ("paypal.com paypal.co.uk"). */
+export function saveProtectedDomains(entries: string[]) {
+  const clean = [
+    ...new Set(
+      entries
+        .map((e) =>
+          [...new Set(e.toLowerCase().split(/[\s,]+/).map((d) => d.replace(/^www\./, "")).filter(Boolean))].join(" ")
+        )
+        .filter(Boolean)
+    ),
+  ];
+  localStorage.setItem(PROTECTED_DOMAINS_KEY, JSON.stringify(clean));
+  return clean;
+}
+
+// "paypal.com paypal.co.uk" -> main site plus every site the brand owns
+function parseProtectedEntry(entry: string) {
+  const sites = entry.split(/[\s,]+/).filter(Boolean).map(baseDomain);
+  return { site: sites[0] || "", sites };
+}
+
+/* ---------------- Extraction ---------------- */
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, h: string) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d: string) => String.fromCodePoint(Number(d)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+export function extractLinks(text: string, html = ""): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+  const seen = new Set<string>();
+  const push = (link: ExtractedLink) => {
+    const key = `${link.href}\n${link.text ?? ""}`;
+    if (seen.has(key) || links.length >= MAX_LINKS) return;
+    seen.add(key);
+    links.push(link);
+  };
+
+  const anchor = /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>([\s\S]*?)<\/a\s*>/gi;
+  for (const m of html.matchAll(anchor)) {
+    const href = decodeEntities((m[1] ?? m[2] ?? m[3] ?? "").trim());
+    const label = decodeEntities(m[4].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+    if (href && !href.startsWith("#")) push({ href, text: label || null, source: "html" });
+  }
+
+  // Bare URLs in the text and outside anchors (an href already seen in HTML is not repeated)
+  const hrefs = new Set(links.map((l) => l.href));
+  const bare = /\b(?:https?:\/\/|www\.)[^\s<>"'()]+/gi;
+  const visible = html.replace(anchor, " ").replace(/<[^>]+>/g, " ");
+  for (const m of `${text}\n${visible}`.matchAll(bare)) {
+    const href = decodeEntities(m[0].replace(/[.,;:!?\]]+$/, ""));
+    if (!hrefs.has(href)) push({ href, text: null, source: "text" });
+  }
+
+  return links;
+}
+
+/* ---------------- Host helpers ---------------- */
+
+// RFC 3492 decoder for a single "xn--" label payload
+function decodePunycode(input: string) {
+  const base = 36;
+  const tMin = 1;
+  const tMax = 26;
+  const adapt = (delta: number, points: number, first: boolean) => {
+    delta = first ? Math.floor(delta / 700) : delta >> 1;
+    delta += Math.floor(delta / points);
+    let k = 0;
+    while (delta > ((base - tMin) * tMax) >> 1) {
+      delta = Math.floor(delta / (base - tMin));
+      k += base;
+    }
+    return k + Math.floor(((base - tMin + 1) * delta) / (delta + 38));
+  };
+
+  const dash = input.lastIndexOf("-");
+  const output = dash > 0 ? Array.from(input.slice(0, dash)) : [];
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+
+  for (let pos = dash > 0 ? dash + 1 : 0; pos < input.length; ) {
+    const oldi = i;
+    let w = 1;
+    for (let k = base; ; k += base) {
+      if (pos >= input.length) throw new Error("Invalid punycode");
+      const c = input.charCodeAt(pos++);
+      const digit = c >= 48 && c <= 57 ? c - 22 : c >= 65 && c <= 90 ? c - 65 : c >= 97 && c <= 122 ? c - 97 : base;
+      if (digit >= base) throw new Error("Invalid punycode");
+      i += digit * w;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < t) break;
+      w *= base - t;
+    }
+    bias = adapt(i - oldi, output.length + 1, oldi === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, String.fromCodePoint(n));
+  }
+  return output.join("");
+}
+
+export function toUnicodeHost(host: string) {
+  return host
+    .split(".")
+    .map((label) => {
+      if (!label.startsWith("xn--")) return label;
+      try {
+        return decodePunycode(label.slice(4));
+      } catch {
+        return label;
+      }
+    })
+    .join(".");
+}
+
+function skeleton(label: string) {
+  return Array.from(label.toLowerCase())
+    .map((ch) => CONFUSABLES[ch] ?? ch)
+    .join("")
+    .replace(/rn/g, "m")
+    .replace(/vv/g, "w");
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+export function editDistance(a: string, b: string) {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function isIdn(text: string) {
+  return Array.from(text).some((ch) => ch.charCodeAt(0) > 127);
+}
+
+// "paypal.co.uk" -> "paypal"
+function brandLabel(domain: string) {
+  return baseDomain(domain).split(".")[0];
+}
+
+function hostFromText(text: string) {
+  const m = text.trim().match(/^(?:https?:\/\/)?((?:[\p{L}\p{N}-]+\.)+[\p{L}]{2,})(?:[/:?#]\S*)?$/iu);
+  if (!m) return null;
+  try {
+    return new URL(`http://${m[1]}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/* ---------------- Verdicts ---------------- */
+
+/**
+ * First protected domain that host imitates (same name on another TLD, homoglyphs,
+ * small edit distance, brand embedded in an unrelated host), checked against the whole
+ * registrable label and each of the host's "."/"-" tokens. Null when host belongs to one
+ * of the entries (main or listed sibling domain) or resembles none. Also used for sender
+ * (cousin) domains.
+ */
+export function findLookalike(host: string, domains: string[]): (LinkReason & { lookalikeOf: string }) | null {
+  const unicodeHost = toUnicodeHost(host.toLowerCase());
+  const site = baseDomain(host);
+  const label = brandLabel(unicodeHost);
+  const tokens = unicodeHost.split(/[.-]/).filter(Boolean);
+  const labelTokens = label.split("-").filter(Boolean);
+  const entries = domains.map(parseProtectedEntry).filter((e) => e.site);
+
+  if (entries.some((e) => e.sites.includes(site))) return null;
+
+  for (const { site: protectedSite } of entries) {
+    const brand = brandLabel(protectedSite);
+    const brandSkeleton = skeleton(brand);
+    const found = (id: string, severity: MailAuthSeverity, message: string) => ({ id, severity, message, lookalikeOf: protectedSite });
+
+    // Brands own plenty of regional domains; an unlisted one is worth a look, not an alarm
+    if (label === brand) {
+      return found(
+        "brand-other-tld",
+        "low",
+        `Uses the ${brand} name on ${site}, which is not a listed ${protectedSite} domain`
+      );
+    }
+    if (skeleton(label) === brandSkeleton) {
+      return found("brand-homoglyph", isIdn(label) ? "critical" : "high", `${unicodeHost} imitates ${protectedSite} with look-alike characters`);
+    }
+    const distance = editDistance(label, brand);
+    if (brand.length >= 4 && distance > 0 && distance <= (brand.length <= 5 ? 1 : 2)) {
+      return found("brand-typosquat", "high", `${site} is ${distance} edit(s) away from ${protectedSite}`);
+    }
+    if (brand.length < 4) continue;
+
+    if (tokens.includes(brand)) {
+      return found("brand-in-host", "high", `${brand} appears in ${unicodeHost} but the domain is ${site}`);
+    }
+    // "micros0ft-login.net": the brand disguised inside a longer host
+    const disguised = tokens.find((t) => skeleton(t) === brandSkeleton);
+    if (disguised) {
+      return found(
+        "brand-homoglyph",
+        isIdn(disguised) ? "critical" : "high",
+        `${disguised} in ${unicodeHost} imitates ${protectedSite} with look-alike characters`
+      );
+    }
+    // Tokens are ordinary words ("apply-now"), so only one edit on longer brands counts there
+    const misspelled = brand.length >= 6 && labelTokens.find((t) => editDistance(t, brand) === 1);
+    if (misspelled) {
+      return found("brand-typosquat", "high", `${misspelled} in ${site} is 1 edit away from ${protectedSite}`);
+    }
+  }
+  return null;
+}
+
+export function analyzeLink(link: ExtractedLink, protectedDomains = readProtectedDomains()): LinkVerdict {
+  const reasons: LinkReason[] = [];
+  const add = (id: string, severity: MailAuthSeverity, message: string) => reasons.push({ id, severity, message });
+  const verdictOf = (): LinkVerdictLevel =>
+    reasons.some((r) => r.severity === "critical" || r.severity === "high")
+      ? "dangerous"
+      : reasons.some((r) => r.severity !== "info")
+      ? "suspicious"
+      : "safe";
+
+  const href = link.href.trim();
+  if (DANGEROUS_SCHEMES.some((s) => href.toLowerCase().startsWith(s))) {
+    add("dangerous-scheme", "critical", `Link runs a ${href.split(":")[0]}: URL`);
+    return { ...link, host: null, unicodeHost: null, verdict: verdictOf(), reasons };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^www\./i.test(href) ? `http://${href}` : href);
+  } catch {
+    add("unparseable", "low", "Link could not be parsed");
+    return { ...link, host: null, unicodeHost: null, verdict: verdictOf(), reasons };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { ...link, host: null, unicodeHost: null, verdict: "safe", reasons };
+  }
+
+  // URL() already normalizes IDNs to punycode and decimal/hex IPs to dotted quads
+  const host = url.hostname.toLowerCase();
+  const unicodeHost = toUnicodeHost(host);
+
+  if (url.username || url.password) {
+    add("userinfo", "high", `Text before "@" disguises the real host ${host}`);
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host) || host.startsWith("[")) {
+    add("ip-literal", "high", `Link points to a bare IP address (${host})`);
+  }
+  if (host.split(".").some((l) => l.startsWith("xn--"))) {
+    const scripts = new Set(
+      Array.from(unicodeHost.replace(/[.\-\d]/g, "")).map((ch) =>
+        /\p{Script=Latin}/u.test(ch) ? "latin" : /\p{Script=Cyrillic}/u.test(ch) ? "cyrillic" : /\p{Script=Greek}/u.test(ch) ? "greek" : "other"
+      )
+    );
+    if (scripts.size > 1) add("mixed-script", "high", `${unicodeHost} mixes ${[...scripts].join(" and ")} characters`);
+    else add("idn", "low", `Internationalized domain ${unicodeHost} (${host})`);
+  }
+  if (SHORTENERS.includes(baseDomain(host))) {
+    add("shortener", "medium", `URL shortener ${baseDomain(host)} hides the destination`);
+  }
+  const tld = host.split(".").pop() || "";
+  if (SUSPICIOUS_TLDS.includes(tld)) {
+    add("suspicious-tld", "medium", `.${tld} domains are heavily used for abuse`);
+  }
+  if (/^http:/i.test(href)) {
+    add("no-https", "low", "Unencrypted http:// link");
+  }
+
+  // Anchor text that looks like a different domain than the real target
+  const shown = link.text ? hostFromText(link.text) : null;
+  if (shown && baseDomain(shown) !== baseDomain(host)) {
+    add("text-mismatch", "high", `Link text shows ${toUnicodeHost(shown)} but points to ${unicodeHost}`);
+  }
+
+  const lookalike = findLookalike(host, protectedDomains);
+  if (lookalike) add(lookalike.id, lookalike.severity, lookalike.message);
+
+  return {
+    ...link,
+    host,
+    unicodeHost: unicodeHost !== host ? unicodeHost : null,
+    verdict: verdictOf(),
+    reasons,
+  };
+}
+
+export function analyzeLinks(links: ExtractedLink[], protectedDomains = readProtectedDomains()) {
+  return links.map((l) => analyzeLink(l, protectedDomains));
+}
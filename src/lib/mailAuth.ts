@@ -0,0 +1,110 @@
+// src/lib/mailAuth.ts
+// Mail-domain authentication records (MX, SPF, DMARC, MTA-STS, TLS-RPT, BIMI),
+// fetched and parsed server-side by /api/email-auth. Shared by the endpoint and the UI.
+
+export type MailAuthSeverity = "critical" | "high" | "medium" | "low" | "info";
+export type MailAuthRecord = "mx" | "spf" | "dmarc" | "mta-sts" | "tls-rpt" | "bimi";
+
+export type MailAuthFinding = {
+  id: string; // stable rule id, e.g. "spf-lookup-limit"
+  record: MailAuthRecord;
+  severity: MailAuthSeverity;
+  title: string;
+  detail: string;
+};
+
+export type SpfQualifier = "+" | "-" | "~" | "?";
+
+export type SpfMechanism = {
+  qualifier: SpfQualifier;
+  type: string; // all, include, a, mx, ptr, ip4, ip6, exists
+  value: string | null;
+};
+
+export type SpfNode = {
+  domain: string;
+  record: string | null;
+  mechanisms: SpfMechanism[];
+  all: SpfQualifier | null;
+  redirect: string | null;
+  includes: SpfNode[]; // expanded include: targets, then the redirect= target
+  error: string | null;
+};
+
+export type SpfResult = {
+  record: string | null;
+  recordCount: number; // more than one v=spf1 record is a permerror
+  tree: SpfNode | null;
+  lookups: number; // DNS-querying terms counted against the RFC 7208 limit of 10
+  voidLookups: number;
+  all: SpfQualifier | null; // effective "all", following redirect=
+};
+
+export type DmarcPolicy = "none" | "quarantine" | "reject";
+
+export type DmarcResult = {
+  record: string | null;
+  source: string | null; // name the record was found at (organizational domain fallback)
+  policy: DmarcPolicy | null;
+  subdomainPolicy: DmarcPolicy | null;
+  pct: number;
+  rua: string[];
+  ruf: string[];
+  adkim: "r" | "s";
+  aspf: "r" | "s";
+  errors: string[];
+};
+
+export type MtaStsPolicy = {
+  version: string | null;
+  mode: "enforce" | "testing" | "none" | null;
+  mx: string[];
+  maxAge: number | null;
+};
+
+export type MtaStsResult = {
+  record: string | null;
+  id: string | null;
+  policy: MtaStsPolicy | null;
+  policyError: string | null;
+  uncoveredMx: string[]; // MX hosts the policy's mx patterns do not match
+};
+
+export type TlsRptResult = { record: string | null; rua: string[] };
+
+export type BimiResult = { record: string | null; logo: string | null; authority: string | null };
+
+export type DomainAuth = {
+  domain: string;
+  mx: { exchange: string; priority: number }[];
+  nullMx: boolean; // RFC 7505 "0 ." - the domain accepts no mail
+  spf: SpfResult;
+  dmarc: DmarcResult;
+  mtaSts: MtaStsResult;
+  tlsRpt: TlsRptResult;
+  bimi: BimiResult;
+  findings: MailAuthFinding[];
+  score: number;
+  checkedAt: string;
+};
+
+export const MAIL_AUTH_PENALTY: Record<MailAuthSeverity, number> = {
+  critical: 30,
+  high: 20,
+  medium: 10,
+  low: 4,
+  info: 0
+};
+
+export function isMailDomain(domain: string) {
+  return /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/i.test(domain);
+}
+
+export async function fetchDomainAuth(domain: string): Promise<DomainAuth> {
+  const r = await fetch(`/api/email-auth?domain=${encodeURIComponent(domain)}`);
+  const data = await r.json().catch(() => null);
+
+  if (!data) throw new Error("Backend did not return JSON");
+  if (!r.ok || data.error) throw new Error(data.error || "Domain check failed");
+  return data as DomainAuth;
+}
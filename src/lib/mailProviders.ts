@@ -0,0 +1,98 @@
+// src/lib/mailProviders.ts
+// Local mailbox provider data used by senderDomain.ts.
+// DISPOSABLE_DOMAINS match exactly or as a suffix ("x.mailinator.com" is Mailinator);
+// FREE_MAIL_PROVIDERS match exactly. Keep entries lower-case and DISPOSABLE_DOMAINS alphabetical.
+
+export type FreeMailProvider = {
+  name: string;
+  domains: string[];
+};
+
+export const FREE_MAIL_PROVIDERS: FreeMailProvider[] = [
+  { name: "Gmail", domains: ["gmail.com", "googlemail.com"] },
+  {
+    name: "Outlook.com",
+    domains: [
+      "outlook.com", "outlook.fr", "outlook.de", "outlook.es", "outlook.it", "outlook.jp",
+      "hotmail.com", "hotmail.co.uk", "hotmail.fr", "hotmail.de", "hotmail.es", "hotmail.it",
+      "live.com", "live.co.uk", "live.fr", "live.de", "live.nl", "msn.com", "passport.com",
+    ],
+  },
+  {
+    name: "Yahoo Mail",
+    domains: [
+      "yahoo.com", "yahoo.co.uk", "yahoo.fr", "yahoo.de", "yahoo.es", "yahoo.it", "yahoo.co.jp",
+      "yahoo.com.br", "yahoo.co.in", "yahoo.com.au", "ymail.com", "rocketmail.com",
+    ],
+  },
+  { name: "iCloud Mail", domains: ["icloud.com", "me.com", "mac.com"] },
+  { name: "AOL Mail", domains: ["aol.com", "aim.com", "aol.co.uk"] },
+  { name: "Proton Mail", domains: ["proton.me", "protonmail.com", "protonmail.ch", "pm.me"] },
+  { name: "Tuta", domains: ["tutanota.com", "tutanota.de", "tutamail.com", "tuta.io", "tuta.com", "keemail.me"] },
+  { name: "Zoho Mail", domains: ["zohomail.com", "zoho.com"] },
+  { name: "Fastmail", domains: ["fastmail.com", "fastmail.fm"] },
+  { name: "GMX", domains: ["gmx.com", "gmx.de", "gmx.net", "gmx.at", "gmx.ch", "gmx.fr"] },
+  { name: "WEB.DE", domains: ["web.de"] },
+  { name: "Mail.com", domains: ["mail.com", "email.com", "usa.com", "post.com"] },
+  { name: "Mail.ru", domains: ["mail.ru", "inbox.ru", "list.ru", "bk.ru"] },
+  { name: "Yandex Mail", domains: ["yandex.ru", "yandex.com", "ya.ru", "yandex.ua"] },
+  { name: "QQ Mail", domains: ["qq.com", "foxmail.com"] },
+  { name: "NetEase Mail", domains: ["163.com", "126.com", "yeah.net"] },
+  { name: "Naver Mail", domains: ["naver.com"] },
+  { name: "Daum Mail", domains: ["daum.net", "hanmail.net"] },
+  { name: "Rediffmail", domains: ["rediffmail.com"] },
+  { name: "Orange", domains: ["orange.fr", "wanadoo.fr"] },
+  { name: "Free", domains: ["free.fr"] },
+  { name: "Libero", domains: ["libero.it"] },
+  { name: "Seznam", domains: ["seznam.cz", "email.cz"] },
+  { name: "T-Online", domains: ["t-online.de"] },
+  { name: "Interia", domains: ["interia.pl"] },
+  { name: "WP Poczta", domains: ["wp.pl", "o2.pl"] },
+  { name: "Comcast", domains: ["comcast.net"] },
+  { name: "BT Mail", domains: ["btinternet.com"] },
+  { name: "Hushmail", domains: ["hushmail.com"] },
+  { name: "Mailfence", domains: ["mailfence.com"] },
+  { name: "Posteo", domains: ["posteo.de", "posteo.net"] },
+];
+
+export const DISPOSABLE_DOMAINS: string[] = [
+  "10minutemail.com", "10minutemail.net", "10minutemail.co.uk", "10minemail.com",
+  "20minutemail.com", "33mail.com",
+  "anonbox.net", "armyspy.com",
+  "binkmail.com", "bobmail.info", "boximail.com", "burnermail.io",
+  "chacuo.net", "cuvox.de",
+  "dayrep.com", "deadaddress.com", "discard.email", "discardmail.com", "discardmail.de",
+  "dispostable.com", "dodgit.com", "dropmail.me",
+  "einrot.com", "emailondeck.com", "emailfake.com", "emailtemporanea.net", "emlhub.com",
+  "fakeinbox.com", "fakemail.net", "fakemailgenerator.com", "filzmail.com", "fleckens.hu",
+  "getairmail.com", "getnada.com", "gishpuppy.com", "grr.la",
+  "guerrillamail.com", "guerrillamail.net", "guerrillamail.org", "guerrillamail.biz",
+  "guerrillamail.de", "guerrillamailblock.com", "gustr.com",
+  "harakirimail.com", "hidemail.de",
+  "incognitomail.org", "inboxbear.com", "inboxkitten.com",
+  "jetable.org", "jourrapide.com",
+  "kasmail.com", "klzlk.com",
+  "linshiyouxiang.net",
+  "mail-temp.com", "mail.tm", "mail7.io", "mailcatch.com", "maildrop.cc", "mailexpire.com",
+  "mailforspam.com", "mailinator.com", "mailinator.net", "mailinator2.com", "mailnesia.com",
+  "mailnull.com", "mailpoof.com", "mailsac.com", "mailslurp.com", "mailtemp.net",
+  "meltmail.com", "mintemail.com", "mohmal.com", "moakt.com", "mt2015.com", "mytemp.email",
+  "mytrashmail.com",
+  "nada.email", "nwytg.net",
+  "one-time.email", "owlymail.com",
+  "pokemail.net", "proxymail.eu",
+  "rcpt.at", "rhyta.com",
+  "sharklasers.com", "shitmail.me", "sneakemail.com", "spam4.me", "spambog.com",
+  "spambox.us", "spamdecoy.net", "spamex.com", "spamgourmet.com", "spamherelots.com",
+  "spamhole.com", "spaml.com", "spamspot.com", "superrito.com", "suremail.info",
+  "teleworm.us", "temp-mail.io", "temp-mail.org", "tempail.com", "tempinbox.com",
+  "tempmail.com", "tempmail.net", "tempmail.plus", "tempmailo.com", "tempmailaddress.com",
+  "tempomail.fr", "temporarymail.com", "tempr.email", "throwam.com", "throwawaymail.com",
+  "tmail.ws", "tmpmail.net", "tmpmail.org", "trash-mail.com", "trashmail.com",
+  "trashmail.de", "trashmail.me", "trashmail.net", "trbvm.com", "tyldd.com",
+  "uroid.com",
+  "vomoto.com",
+  "wegwerfmail.de", "wegwerfmail.net", "wh4f.org",
+  "yopmail.com", "yopmail.fr", "yopmail.net",
+  "zetmail.com", "zippymail.info",
+];
@@ -1,16 +1,30 @@
 // src/lib/password.ts
-export type CrackEstimates = {
-    online: string; // online throttled (e.g. 100 guesses/sec)
-    offlineFast: string; // fast GPU (e.g. 10B guesses/sec)
-    offlineSlow: string; // slow hash (e.g. 10k guesses/sec)
+import { ATTACK_SCENARIOS, DEFAULT_HASH_PARAMS, hashRate, type HashAlgorithm } from "./hashBenchmarks";
+import { DICEWARE_WORDS } from "./dicewareWords";
+import { estimatePasswordGuesses, type PasswordMatch } from "./passwordMatching";
+
+export type { PasswordMatch } from "./passwordMatching";
+
+export type CrackScenario = {
+    scenario: string; // AttackScenario id
+    label: string;
+    guessesPerSecond: number;
+    seconds: number;
+    time: string; // human readable
+    costUsd?: number; // rented-hardware cost to exhaust the guesses
   };
   
+  export type CrackEstimates = CrackScenario[];
+  
   export type StrengthDetails = {
     score: number; // 0-100
     label: "Very Weak" | "Weak" | "Fair" | "Strong" | "Very Strong";
     tips: string[];
     charsetSize: number;
-    entropyBits: number;
+    entropyBits: number; // log2 of the pattern-aware guess count, not length * log2(charset)
+    guesses: number;
+    guessesLog10: number;
+    matches: PasswordMatch[]; // cheapest decomposition an attacker would try, in password order
     crack: CrackEstimates;
   };
   
@@ -36,10 +50,6 @@ export type CrackEstimates = {
     return Math.max(size, 1);
   }
   
-  function log2(n: number) {
-    return Math.log(n) / Math.log(2);
-  }
-  
   function secondsToHuman(seconds: number): string {
     if (!Number.isFinite(seconds) || seconds <= 0) return "Instant";
   
@@ -58,13 +68,9 @@ export type CrackEstimates = {
     return "Longer than the universe";
   }
   
-  function estimateCrackSeconds(password: string, guessesPerSecond: number): number {
-    const L = password.length;
-    const charset = getCharsetSize(password);
-    // combinations = charset^L (can overflow) -> use log space
-    const log10Comb = L * Math.log10(charset);
-    // seconds = combinations / gps => log10(seconds) = log10Comb - log10(gps)
-    const log10Seconds = log10Comb - Math.log10(Math.max(guessesPerSecond, 1));
+  function estimateCrackSeconds(guessesLog10: number, guessesPerSecond: number): number {
+    // seconds = guesses / gps => log10(seconds) = log10(guesses) - log10(gps)
+    const log10Seconds = guessesLog10 - Math.log10(Math.max(guessesPerSecond, 1));
   
     // clamp for safety and convert back
     if (log10Seconds > 308) return Number.POSITIVE_INFINITY; // beyond JS number range
@@ -73,38 +79,104 @@ export type CrackEstimates = {
     return Math.pow(10, log10Seconds);
   }
   
-  export function getCrackEstimates(password: string): CrackEstimates {
-    // These are “ballpark” numbers (real-world varies by hash + throttling).
-    const ONLINE_GPS = 100; // online throttled
-    const OFFLINE_FAST_GPS = 10_000_000_000; // 10B/s (fast GPU, weak hash)
-    const OFFLINE_SLOW_GPS = 10_000; // 10k/s (slow hash e.g. bcrypt-ish)
+  // bcrypt cost 10 is the most common storage in the wild; callers pass what the target really uses
+  export const DEFAULT_CRACK_ALGORITHM: HashAlgorithm = DEFAULT_HASH_PARAMS.bcrypt;
+  
+  /** Time (and rented-hardware cost) to exhaust the guesses in each attack scenario. */
+  export function getCrackEstimates(guessesLog10: number, algorithm: HashAlgorithm = DEFAULT_CRACK_ALGORITHM): CrackEstimates {
+    const perGpu = hashRate(algorithm);
+  
+    return ATTACK_SCENARIOS.map((s) => {
+      // Online attacks are capped by the service, whatever it hashes with
+      const guessesPerSecond = s.gpus ? perGpu * s.gpus : s.onlineGuessesPerSecond || 1;
+      const seconds = estimateCrackSeconds(guessesLog10, guessesPerSecond);
+      return {
+        scenario: s.id,
+        label: s.label,
+        guessesPerSecond,
+        seconds,
+        time: secondsToHuman(seconds),
+        ...(s.costPerGpuHour !== undefined && { costUsd: (seconds / 3600) * s.gpus * s.costPerGpuHour }),
+      };
+    });
+  }
   
-    return {
-      online: secondsToHuman(estimateCrackSeconds(password, ONLINE_GPS)),
-      offlineFast: secondsToHuman(estimateCrackSeconds(password, OFFLINE_FAST_GPS)),
-      offlineSlow: secondsToHuman(estimateCrackSeconds(password, OFFLINE_SLOW_GPS)),
-    };
+  /** One-line explanation of a match, e.g. "\"P@ssw0rd\" is the #2 most common password (with l33t substitutions)". */
+  export function describeMatch(m: PasswordMatch): string {
+    switch (m.pattern) {
+      case "dictionary": {
+        const what =
+          m.dictionary === "passwords"
+            ? `the #${m.rank} most common password`
+            : m.dictionary === "english"
+              ? `a common English word (#${m.rank})`
+              : m.dictionary === "names"
+                ? "a common first name"
+                : m.dictionary === "surnames"
+                  ? "a common surname"
+                  : "part of your own details";
+        const extras = [m.reversed && "reversed", m.l33t && "with l33t substitutions", m.token !== m.token.toLowerCase() && "capitalized"]
+          .filter(Boolean)
+          .join(", ");
+        return `"${m.token}" is ${what}${extras ? ` (${extras})` : ""}`;
+      }
+      case "spatial":
+        return `"${m.token}" is a ${m.graph === "keypad" ? "keypad" : "keyboard"} walk with ${m.turns} turn${m.turns === 1 ? "" : "s"}`;
+      case "repeat":
+        return `"${m.token}" repeats "${m.baseToken}" ${m.repeatCount} times`;
+      case "sequence":
+        return `"${m.token}" is ${m.ascending ? "an ascending" : "a descending"} sequence`;
+      case "year":
+        return `"${m.token}" is a recent year`;
+      case "date":
+        return `"${m.token}" looks like a date (${m.year}-${String(m.month).padStart(2, "0")}-${String(m.day).padStart(2, "0")})`;
+      case "bruteforce":
+        return `"${m.token}" has no recognizable pattern`;
+    }
+  }
+
+  function matchTip(m: PasswordMatch, sole: boolean): string | null {
+    switch (m.pattern) {
+      case "dictionary":
+        if (m.dictionary === "passwords") return m.rank <= 100 ? "This is one of the most common passwords." : "This is a very common password.";
+        if (m.dictionary === "user_inputs") return "Don't build the password from your email or name.";
+        if (m.l33t) return "Predictable substitutions like '@' for 'a' don't help much.";
+        if (m.reversed) return "Reversed words aren't much harder to guess.";
+        if (sole) return m.dictionary === "english" ? "A single word is easy to guess." : "Names by themselves are easy to guess.";
+        return m.token !== m.token.toLowerCase() ? "Capitalization doesn't help very much." : null;
+      case "spatial":
+        return m.turns === 1 ? "Straight rows of keys are easy to guess." : "Short keyboard patterns are easy to guess.";
+      case "repeat":
+        return m.baseToken.length === 1
+          ? 'Repeats like "aaa" are easy to guess.'
+          : 'Repeats like "abcabc" are only slightly harder to guess than "abc".';
+      case "sequence":
+        return "Sequences like abc or 6543 are easy to guess.";
+      case "year":
+        return "Recent years are easy to guess; avoid years tied to you.";
+      case "date":
+        return "Dates (birthdays, anniversaries) are easy to guess.";
+      case "bruteforce":
+        return null;
+    }
   }
   
-  export function analyzePassword(password: string): StrengthDetails {
-    const tips: string[] = [];
+  export function analyzePassword(password: string, userInputs: string[] = []): StrengthDetails {
     const L = password.length;
     const charsetSize = getCharsetSize(password);
-    const entropyBits = L * log2(charsetSize);
+    const estimate = estimatePasswordGuesses(password, userInputs);
+    const entropyBits = estimate.guessesLog10 * Math.log2(10);
   
+    const tips: string[] = [];
+    for (const m of estimate.sequence) {
+      const tip = matchTip(m, estimate.sequence.length === 1);
+      if (tip && !tips.includes(tip)) tips.push(tip);
+    }
     if (L < 12) tips.push("Use 12+ characters (length matters most).");
-    if (!hasLower(password)) tips.push("Add lowercase letters.");
-    if (!hasUpper(password)) tips.push("Add uppercase letters.");
-    if (!hasDigit(password)) tips.push("Add numbers.");
-    if (!hasSymbol(password)) tips.push("Add symbols for extra variety.");
-    if (/^(.)\1+$/.test(password)) tips.push("Avoid repeating the same character.");
-    if (/password|123456|qwerty|letmein|admin/i.test(password))
-      tips.push("Avoid common passwords and predictable patterns.");
-  
-    // score from entropy (simple, consistent, Vercel-safe)
-    // 0..100 roughly:
-    const scoreRaw = Math.min(100, Math.max(0, (entropyBits / 80) * 100));
-    const score = Math.round(scoreRaw);
+    if (tips.length && estimate.guessesLog10 < 10) tips.push("Add another word or two; uncommon words are better.");
+  
+    // 0..100 on guesses: 10^16 guesses (~53 bits of real entropy) and up scores 100
+    const score = Math.round(Math.min(100, Math.max(0, (estimate.guessesLog10 / 16) * 100)));
   
     let label: StrengthDetails["label"] = "Very Weak";
     if (score >= 85) label = "Very Strong";
@@ -118,7 +190,10 @@ export type CrackEstimates = {
       tips: tips.length ? tips : ["Looks good. Keep it unique per account and enable 2FA."],
       charsetSize,
       entropyBits: Math.round(entropyBits),
-      crack: getCrackEstimates(password),
+      guesses: estimate.guesses,
+      guessesLog10: estimate.guessesLog10,
+      matches: estimate.sequence,
+      crack: getCrackEstimates(estimate.guessesLog10),
     };
   }
   
@@ -176,6 +251,118 @@ export type CrackEstimates = {
     return out;
   }
   
+  /* ---------------- Generator ---------------- */
+  
+  export type GeneratorMode = "characters" | "passphrase" | "pronounceable" | "pin";
+  
+  export type GeneratorOptions =
+    | { mode: "characters"; length: number; lower: boolean; upper: boolean; digits: boolean; symbols: boolean }
+    | { mode: "passphrase"; words: number; separator: string; capitalize: boolean; digit: boolean }
+    | { mode: "pronounceable"; length: number }
+    | { mode: "pin"; length: number };
+  
+  export type GeneratedSecret = {
+    mode: GeneratorMode;
+    value: string;
+    entropyBits: number; // exact for the chosen options, not an estimate of the output
+  };
+  
+  const CHARACTER_SETS = {
+    lower: "abcdefghijklmnopqrstuvwxyz",
+    upper: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+    digits: "0123456789",
+    symbols: "!@#$%^&*()_+-=[]{}|;:,.<>?",
+  };
+  const CONSONANTS = "bcdfghjkmnprstvwz"; // no l/q/x/y: easy to say and spell back
+  const VOWELS = "aeiou";
+  
+  function clampInt(n: number, min: number, max: number) {
+    return Math.max(min, Math.min(max, Math.floor(n)));
+  }
+  
+  /** Uniform integer in [0, n): draws above the largest multiple of n are rejected instead of wrapped. */
+  function randomIndex(n: number): number {
+    const limit = Math.floor(0x1_0000_0000 / n) * n;
+    const buf = new Uint32Array(1);
+    for (;;) {
+      crypto.getRandomValues(buf);
+      if (buf[0] < limit) return buf[0] % n;
+    }
+  }
+  
+  function pick(set: string) {
+    return set[randomIndex(set.length)];
+  }
+  
+  // log2 of the number of length-L strings over the pool that use every selected set
+  // (inclusion-exclusion over the sets left out), computed relative to pool^L to stay finite
+  function characterModeEntropy(sets: string[], length: number) {
+    const pool = sets.reduce((n, set) => n + set.length, 0);
+    let fraction = 0;
+    for (let mask = 0; mask < 1 << sets.length; mask++) {
+      const missing = sets.filter((_, i) => mask & (1 << i));
+      const size = pool - missing.reduce((n, set) => n + set.length, 0);
+      fraction += (missing.length % 2 ? -1 : 1) * (size / pool) ** length;
+    }
+    return length * Math.log2(pool) + Math.log2(fraction);
+  }
+  
+  export function generateSecret(options: GeneratorOptions): GeneratedSecret | null {
+    switch (options.mode) {
+      case "characters": {
+        const sets = (Object.keys(CHARACTER_SETS) as (keyof typeof CHARACTER_SETS)[])
+          .filter((k) => options[k])
+          .map((k) => CHARACTER_SETS[k]);
+        if (!sets.length) return null;
+        const length = clampInt(options.length, Math.max(4, sets.length), 64);
+        const pool = sets.join("");
+  
+        // Redraw until every selected set appears: uniform over the strings that qualify,
+        // unlike forcing one character per set into fixed slots
+        let value: string;
+        do {
+          value = Array.from({ length }, () => pick(pool)).join("");
+        } while (!sets.every((set) => [...value].some((c) => set.includes(c))));
+  
+        return { mode: "characters", value, entropyBits: characterModeEntropy(sets, length) };
+      }
+  
+      case "passphrase": {
+        const count = clampInt(options.words, 3, 12);
+        const words = Array.from({ length: count }, () => DICEWARE_WORDS[randomIndex(DICEWARE_WORDS.length)]);
+        let entropyBits = count * Math.log2(DICEWARE_WORDS.length);
+  
+        const shown = words.map((w) => (options.capitalize ? w[0].toUpperCase() + w.slice(1) : w));
+        if (options.digit) {
+          // One digit after one of the words: 10 values x count positions
+          const at = randomIndex(count);
+          shown[at] += pick(CHARACTER_SETS.digits);
+          entropyBits += Math.log2(10 * count);
+        }
+        // With no separator and no capitals, word boundaries can be ambiguous; the figure is then an upper bound
+        return { mode: "passphrase", value: shown.join(options.separator), entropyBits };
+      }
+  
+      case "pronounceable": {
+        const length = clampInt(options.length, 6, 32);
+        let value = "";
+        let entropyBits = 0;
+        for (let i = 0; i < length; i++) {
+          const set = i % 2 ? VOWELS : CONSONANTS;
+          value += pick(set);
+          entropyBits += Math.log2(set.length);
+        }
+        return { mode: "pronounceable", value, entropyBits };
+      }
+  
+      case "pin": {
+        const length = clampInt(options.length, 4, 12);
+        const value = Array.from({ length }, () => pick(CHARACTER_SETS.digits)).join("");
+        return { mode: "pin", value, entropyBits: length * Math.log2(10) };
+      }
+    }
+  }
+  
   export function generatePassword(options: {
     length: number;
     lower: boolean;
@@ -183,46 +370,5 @@ export type CrackEstimates = {
     digits: boolean;
     symbols: boolean;
   }): string {
-    const pools: string[] = [];
-    if (options.lower) pools.push("abcdefghijklmnopqrstuvwxyz");
-    if (options.upper) pools.push("ABCDEFGHIJKLMNOPQRSTUVWXYZ");
-    if (options.digits) pools.push("0123456789");
-    if (options.symbols) pools.push("!@#$%^&*()_+-=[]{}|;:,.<>?");
-  
-    const pool = pools.join("");
-    if (!pool) return "";
-  
-    // ensure at least one from each selected category
-    const must: string[] = [];
-    if (options.lower) must.push("abcdefghijklmnopqrstuvwxyz");
-    if (options.upper) must.push("ABCDEFGHIJKLMNOPQRSTUVWXYZ");
-    if (options.digits) must.push("0123456789");
-    if (options.symbols) must.push("!@#$%^&*()_+-=[]{}|;:,.<>?");
-  
-    const length = Math.max(4, Math.min(64, Math.floor(options.length)));
-    const bytes = new Uint32Array(length);
-    crypto.getRandomValues(bytes);
-  
-    const out: string[] = [];
-  
-    // place guaranteed characters first
-    for (let i = 0; i < must.length && out.length < length; i++) {
-      const set = must[i];
-      out.push(set[bytes[out.length] % set.length]);
-    }
-  
-    // fill remaining
-    while (out.length < length) {
-      const idx = bytes[out.length] % pool.length;
-      out.push(pool[idx]);
-    }
-  
-    // shuffle (Fisher-Yates)
-    for (let i = out.length - 1; i > 0; i--) {
-      const j = bytes[i] % (i + 1);
-      [out[i], out[j]] = [out[j], out[i]];
-    }
-  
-    return out.join("");
+    return generateSecret({ mode: "characters", ...options })?.value || "";
   }
-  
\ No newline at end of file
@@ -0,0 +1,130 @@
+// src/lib/passwordDictionaries.ts
+// Frequency-ranked word lists used by passwordMatching.ts. Order matters: an entry's
+// position (1-based) is its rank, i.e. roughly how many guesses an attacker working
+// down the list needs to reach it. Keep entries lower-case; duplicates keep the first rank.
+
+export const COMMON_PASSWORDS: string[] = [
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234", "111111",
+  "1234567", "dragon", "123123", "baseball", "abc123", "football", "monkey", "letmein",
+  "696969", "shadow", "master", "666666", "qwertyuiop", "123321", "mustang", "1234567890",
+  "michael", "654321", "superman", "1qaz2wsx", "7777777", "121212", "000000", "qazwsx",
+  "123qwe", "killer", "trustno1", "jordan", "jennifer", "zxcvbnm", "asdfgh", "hunter",
+  "buster", "soccer", "harley", "batman", "andrew", "tigger", "sunshine", "iloveyou",
+  "2000", "charlie", "robert", "thomas", "hockey", "ranger", "daniel", "starwars",
+  "klaster", "112233", "george", "computer", "michelle", "jessica", "pepper", "1111",
+  "zxcvbn", "555555", "11111111", "131313", "freedom", "777777", "pass", "maggie",
+  "159753", "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda", "summer",
+  "love", "ashley", "nicole", "chelsea", "biteme", "matthew", "access", "yankees",
+  "987654321", "dallas", "austin", "thunder", "taylor", "matrix", "minecraft", "william",
+  "corvette", "hello", "martin", "heather", "secret", "merlin", "diamond", "1234qwer",
+  "hammer", "silver", "222222", "88888888", "anthony", "justin", "test", "bailey",
+  "q1w2e3r4t5", "patrick", "internet", "scooter", "orange", "11111", "golfer", "cookie",
+  "richard", "samantha", "bigdog", "guitar", "jackson", "whatever", "mickey", "chicken",
+  "sparky", "snoopy", "maverick", "phoenix", "camaro", "peanut", "morgan", "welcome",
+  "falcon", "cowboy", "ferrari", "samsung", "andrea", "smokey", "steelers", "joseph",
+  "mercedes", "dakota", "arsenal", "eagles", "melissa", "boomer", "booboo", "spider",
+  "nascar", "monster", "tigers", "yellow", "xxxxxx", "123123123", "gateway", "marina",
+  "diablo", "bulldog", "qwer1234", "compaq", "purple", "banana", "junior", "hannah",
+  "123654", "porsche", "lakers", "iceman", "money", "cowboys", "987654", "london",
+  "tennis", "999999", "ncc1701", "coffee", "scooby", "0000", "miller", "boston",
+  "q1w2e3r4", "brandon", "yamaha", "chester", "mother", "forever", "johnny", "edward",
+  "333333", "oliver", "redsox", "player", "nikita", "knight", "fender", "barney",
+  "midnight", "please", "brandy", "chicago", "badboy", "slayer", "rangers", "charles",
+  "angel", "flower", "rabbit", "wizard", "jasper", "enter", "rachel", "chris",
+  "steven", "winner", "adidas", "victoria", "natasha", "1q2w3e4r", "jasmine", "winter",
+  "prince", "marine", "fishing", "cocacola", "casper", "james", "232323", "raiders",
+  "888888", "marlboro", "gandalf", "asdfasdf", "crystal", "87654321", "12344321", "golden",
+  "8675309", "password1", "admin", "admin123", "welcome1", "letmein1", "passw0rd", "p@ssw0rd",
+  "qwerty123", "iloveyou1", "abc1234", "root", "toor", "changeme", "default", "guest",
+  "login", "administrator", "pass123", "password123", "qwerty1", "asdf", "zaq12wsx", "1q2w3e",
+  "football1", "baseball1", "princess1", "monkey1", "dragon1", "sunshine1", "shadow1", "master1",
+  "superman1", "trustme", "letmein!", "secret1", "test123", "test1", "temp", "temppass",
+  "user", "demo", "oracle", "mysql", "postgres", "raspberry", "ubnt", "support",
+  "pokemon", "naruto", "blink182", "loveyou", "lovely", "babygirl", "angel1", "jesus",
+  "liverpool", "chocolate", "butterfly", "superstar", "friends", "hottie", "pussycat", "anthony1",
+];
+
+export const ENGLISH_WORDS: string[] = [
+  "the", "of", "and", "to", "in", "is", "you", "that", "it", "he", "was", "for", "on", "are",
+  "as", "with", "his", "they", "at", "be", "this", "have", "from", "or", "one", "had", "by",
+  "word", "but", "not", "what", "all", "were", "we", "when", "your", "can", "said", "there",
+  "use", "each", "which", "she", "do", "how", "their", "if", "will", "up", "other", "about",
+  "out", "many", "then", "them", "these", "so", "some", "her", "would", "make", "like", "him",
+  "into", "time", "has", "look", "two", "more", "write", "go", "see", "number", "no", "way",
+  "could", "people", "my", "than", "first", "water", "been", "call", "who", "now", "find",
+  "long", "down", "day", "did", "get", "come", "made", "may", "part", "over", "new", "sound",
+  "take", "only", "little", "work", "know", "place", "year", "live", "me", "back", "give",
+  "most", "very", "after", "thing", "our", "just", "name", "good", "sentence", "man", "think",
+  "say", "great", "where", "help", "through", "much", "before", "line", "right", "too", "mean",
+  "old", "any", "same", "tell", "boy", "follow", "came", "want", "show", "also", "around",
+  "form", "three", "small", "set", "put", "end", "does", "another", "well", "large", "must",
+  "big", "even", "such", "because", "turn", "here", "why", "ask", "went", "men", "read",
+  "need", "land", "different", "home", "us", "move", "try", "kind", "hand", "picture", "again",
+  "change", "off", "play", "spell", "air", "away", "animal", "house", "point", "page", "letter",
+  "mother", "answer", "found", "study", "still", "learn", "should", "world", "high", "every",
+  "near", "add", "food", "between", "own", "below", "country", "plant", "last", "school",
+  "father", "keep", "tree", "never", "start", "city", "earth", "eye", "light", "thought",
+  "head", "under", "story", "saw", "left", "few", "while", "along", "might", "close",
+  "something", "seem", "next", "hard", "open", "example", "begin", "life", "always", "those",
+  "both", "paper", "together", "got", "group", "often", "run", "important", "until", "children",
+  "side", "feet", "car", "mile", "night", "walk", "white", "sea", "began", "grow", "took",
+  "river", "four", "carry", "state", "once", "book", "hear", "stop", "without", "second",
+  "later", "miss", "idea", "enough", "eat", "face", "watch", "far", "really", "almost", "let",
+  "above", "girl", "sometimes", "mountain", "cut", "young", "talk", "soon", "list", "song",
+  "being", "leave", "family", "love", "money", "music", "game", "king", "queen", "heart",
+  "sun", "moon", "star", "sky", "fire", "blue", "red", "green", "black", "gold", "silver",
+  "happy", "sweet", "baby", "angel", "friend", "dog", "cat", "horse", "bird", "fish", "lion",
+  "tiger", "bear", "wolf", "eagle", "dragon", "apple", "orange", "lemon", "cherry", "summer",
+  "winter", "spring", "autumn", "monday", "friday", "sunday", "january", "december", "secret",
+  "magic", "power", "freedom", "peace", "dream", "forever", "hello", "welcome", "login",
+  "password", "security", "office", "company", "admin", "user", "guest", "master", "system",
+  "server", "network", "computer", "internet", "phone", "mobile", "email", "account", "bank",
+  "change", "winner", "lucky", "super", "hunter", "killer", "shadow", "ninja", "pirate",
+  "knight", "rocket", "thunder", "storm", "ocean", "island", "forest", "garden", "flower",
+  "rose", "coffee", "pizza", "chocolate", "cookie", "butter", "cheese", "summer", "correct",
+  "battery", "staple", "purple", "yellow", "orange", "brown", "crazy", "cool", "hot", "cold",
+];
+
+export const FIRST_NAMES: string[] = [
+  "james", "john", "robert", "michael", "william", "david", "richard", "joseph", "thomas",
+  "charles", "christopher", "daniel", "matthew", "anthony", "mark", "donald", "steven", "paul",
+  "andrew", "joshua", "kenneth", "kevin", "brian", "george", "timothy", "ronald", "edward",
+  "jason", "jeffrey", "ryan", "jacob", "gary", "nicholas", "eric", "jonathan", "stephen",
+  "larry", "justin", "scott", "brandon", "benjamin", "samuel", "gregory", "alexander", "frank",
+  "patrick", "raymond", "jack", "dennis", "jerry", "tyler", "aaron", "jose", "adam", "nathan",
+  "henry", "douglas", "zachary", "peter", "kyle", "noah", "ethan", "jeremy", "walter",
+  "christian", "keith", "roger", "terry", "austin", "sean", "gerald", "carl", "harold",
+  "dylan", "arthur", "lawrence", "jordan", "jesse", "bryan", "billy", "bruce", "gabriel",
+  "joe", "logan", "alan", "juan", "albert", "willie", "elijah", "wayne", "randy", "vincent",
+  "mary", "patricia", "jennifer", "linda", "elizabeth", "barbara", "susan", "jessica", "sarah",
+  "karen", "lisa", "nancy", "betty", "sandra", "margaret", "ashley", "kimberly", "emily",
+  "donna", "michelle", "carol", "amanda", "melissa", "deborah", "stephanie", "dorothy",
+  "rebecca", "sharon", "laura", "cynthia", "amy", "kathleen", "angela", "shirley", "brenda",
+  "emma", "anna", "pamela", "nicole", "samantha", "katherine", "christine", "helen", "debra",
+  "rachel", "carolyn", "janet", "maria", "catherine", "heather", "diane", "olivia", "julie",
+  "joyce", "victoria", "ruth", "virginia", "lauren", "kelly", "christina", "joan", "evelyn",
+  "judith", "andrea", "hannah", "megan", "cheryl", "jacqueline", "martha", "madison", "teresa",
+  "gloria", "sara", "janice", "ann", "kathryn", "abigail", "sophia", "frances", "jean",
+  "alice", "judy", "isabella", "julia", "grace", "amber", "denise", "danielle", "marilyn",
+  "beverly", "charlotte", "natalie", "theresa", "diana", "brittany", "doris", "kayla", "alexis",
+  "lori", "marie", "mia", "chloe", "lily", "ava", "zoe", "max", "alex", "sam", "ben", "tom",
+];
+
+export const SURNAMES: string[] = [
+  "smith", "johnson", "williams", "brown", "jones", "garcia", "miller", "davis", "rodriguez",
+  "martinez", "hernandez", "lopez", "gonzalez", "wilson", "anderson", "thomas", "taylor",
+  "moore", "jackson", "martin", "lee", "perez", "thompson", "white", "harris", "sanchez",
+  "clark", "ramirez", "lewis", "robinson", "walker", "young", "allen", "king", "wright",
+  "scott", "torres", "nguyen", "hill", "flores", "green", "adams", "nelson", "baker", "hall",
+  "rivera", "campbell", "mitchell", "carter", "roberts", "gomez", "phillips", "evans", "turner",
+  "diaz", "parker", "cruz", "edwards", "collins", "reyes", "stewart", "morris", "morales",
+  "murphy", "cook", "rogers", "gutierrez", "ortiz", "morgan", "cooper", "peterson", "bailey",
+  "reed", "kelly", "howard", "ramos", "kim", "cox", "ward", "richardson", "watson", "brooks",
+  "chavez", "wood", "james", "bennett", "gray", "mendoza", "ruiz", "hughes", "price", "alvarez",
+  "castillo", "sanders", "patel", "myers", "long", "ross", "foster", "jimenez", "powell",
+  "jenkins", "perry", "russell", "sullivan", "bell", "coleman", "butler", "henderson", "barnes",
+  "gonzales", "fisher", "vasquez", "simmons", "romero", "jordan", "patterson", "alexander",
+  "hamilton", "graham", "reynolds", "griffin", "wallace", "moreno", "west", "cole", "hayes",
+  "bryant", "herrera", "gibson", "ellis", "tran", "medina", "aguilar", "stevens", "murray",
+  "ford", "castro", "marshall", "owens", "harrison", "fernandez", "mcdonald", "woods", "washington",
+];
@@ -0,0 +1,639 @@
+// src/lib/passwordMatching.ts
+// Pattern-aware guess estimation in the spirit of zxcvbn: find every dictionary word
+// (plain, reversed, l33t), keyboard walk, repeat, sequence, year and date in the password,
+// estimate guesses per match, then pick the decomposition an attacker would need the
+// fewest guesses for. Word lists live in passwordDictionaries.ts.
+
+import { COMMON_PASSWORDS, ENGLISH_WORDS, FIRST_NAMES, SURNAMES } from "./passwordDictionaries";
+
+export type DictionaryName = "passwords" | "english" | "names" | "surnames" | "user_inputs";
+
+type MatchBase = {
+  i: number; // first index of the token in the password
+  j: number; // last index (inclusive)
+  token: string;
+  guesses: number; // filled in by estimateGuesses
+};
+
+export type PasswordMatch = MatchBase &
+  (
+    | {
+        pattern: "dictionary";
+        word: string;
+        rank: number;
+        dictionary: DictionaryName;
+        reversed: boolean;
+        l33t: boolean;
+        sub: Record<string, string>; // l33t char -> letter
+      }
+    | { pattern: "spatial"; graph: "qwerty" | "keypad"; turns: number; shiftedCount: number }
+    | { pattern: "repeat"; baseToken: string; baseGuesses: number; repeatCount: number }
+    | { pattern: "sequence"; sequenceName: "lower" | "upper" | "digits" | "unicode"; ascending: boolean }
+    | { pattern: "year"; year: number }
+    | { pattern: "date"; separator: string; year: number; month: number; day: number }
+    | { pattern: "bruteforce" }
+  );
+
+export type GuessEstimate = {
+  password: string;
+  guesses: number;
+  guessesLog10: number;
+  sequence: PasswordMatch[]; // covers the whole password, in order
+};
+
+// Matches before estimation (Omit over each member so the union stays discriminated)
+type NewMatch = PasswordMatch extends infer M ? (M extends unknown ? Omit<M, "guesses"> : never) : never;
+
+const MAX_ANALYZED = 100; // longer input is cut; the tail only adds guesses
+const MAX_L33T_SUBS = 32;
+const REFERENCE_YEAR = new Date().getFullYear();
+const MIN_YEAR_SPACE = 20;
+const DATE_MIN_YEAR = 1000;
+const DATE_MAX_YEAR = 2050;
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10_000;
+
+/* ---------------- Dictionaries ---------------- */
+
+type RankedDictionary = { ranks: Map<string, number>; maxLength: number };
+
+function rankDictionary(words: string[]): RankedDictionary {
+  const ranks = new Map<string, number>();
+  let maxLength = 0;
+  words.forEach((w, idx) => {
+    const word = w.toLowerCase();
+    if (!word || ranks.has(word)) return;
+    ranks.set(word, idx + 1);
+    maxLength = Math.max(maxLength, word.length);
+  });
+  return { ranks, maxLength };
+}
+
+const RANKED_DICTIONARIES: [DictionaryName, RankedDictionary][] = [
+  ["passwords", rankDictionary(COMMON_PASSWORDS)],
+  ["english", rankDictionary(ENGLISH_WORDS)],
+  ["names", rankDictionary(FIRST_NAMES)],
+  ["surnames", rankDictionary(SURNAMES)],
+];
+
+const L33T_TABLE: Record<string, string[]> = {
+  a: ["4", "@"],
+  b: ["8"],
+  c: ["(", "{", "[", "<"],
+  e: ["3"],
+  g: ["6", "9"],
+  i: ["1", "!", "|"],
+  l: ["1", "|", "7"],
+  o: ["0"],
+  s: ["$", "5"],
+  t: ["+", "7"],
+  x: ["%"],
+  z: ["2"],
+};
+
+/* ---------------- Keyboard graphs ---------------- */
+
+// Rows as typed; each key is "unshifted shifted". Offsets line rows up under the row above.
+const QWERTY_ROWS = [
+  "`~ 1! 2@ 3# 4$ 5% 6^ 7& 8* 9( 0) -_ =+",
+  "qQ wW eE rR tT yY uU iI oO pP [{ ]} \\|",
+  "aA sS dD fF gG hH jJ kK lL ;: '\"",
+  "zZ xX cC vV bB nN mM ,< .> /?",
+];
+const QWERTY_OFFSETS = [0, 1, 1, 1];
+const KEYPAD_ROWS = [" / * -", "7 8 9 +", "4 5 6", "1 2 3", " 0 ."];
+
+type AdjacencyGraph = Record<string, (string | null)[]>;
+
+// Neighbours in a fixed direction order so a change of index is a change of direction
+function buildGraph(rows: string[], offsets: number[], slanted: boolean): AdjacencyGraph {
+  const positions = new Map<string, string>();
+  rows.forEach((row, y) => {
+    const keys = row.split(" ");
+    keys.forEach((key, x) => {
+      if (key) positions.set(`${x + offsets[y]},${y}`, key);
+    });
+  });
+
+  const directions = slanted
+    ? [[-1, 0], [0, -1], [1, -1], [1, 0], [0, 1], [-1, 1]]
+    : [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+
+  const graph: AdjacencyGraph = {};
+  for (const [pos, key] of positions) {
+    const [x, y] = pos.split(",").map(Number);
+    const adjacent = directions.map(([dx, dy]) => positions.get(`${x + dx},${y + dy}`) || null);
+    for (const ch of key) graph[ch] = adjacent;
+  }
+  return graph;
+}
+
+const GRAPHS = {
+  qwerty: buildGraph(QWERTY_ROWS, QWERTY_OFFSETS, true),
+  keypad: buildGraph(KEYPAD_ROWS, [0, 0, 0, 0, 0], false),
+};
+
+function graphStats(graph: AdjacencyGraph) {
+  const keys = Object.values(graph);
+  const degree = keys.reduce((sum, adj) => sum + adj.filter(Boolean).length, 0) / keys.length;
+  return { startingPositions: keys.length, averageDegree: degree };
+}
+
+const GRAPH_STATS = { qwerty: graphStats(GRAPHS.qwerty), keypad: graphStats(GRAPHS.keypad) };
+const SHIFTED = /[~!@#$%^&*()_+QWERTYUIOPASDFGHJKL:"ZXCVBNM<>?|{}]/;
+
+/* ---------------- Matchers ---------------- */
+
+function dictionaryMatch(password: string, extra: [DictionaryName, RankedDictionary][] = []): NewMatch[] {
+  const matches: NewMatch[] = [];
+  const lower = password.toLowerCase();
+  for (const [dictionary, { ranks, maxLength }] of [...RANKED_DICTIONARIES, ...extra]) {
+    for (let i = 0; i < lower.length; i++) {
+      for (let j = i; j < Math.min(lower.length, i + maxLength); j++) {
+        const word = lower.slice(i, j + 1);
+        const rank = ranks.get(word);
+        if (!rank) continue;
+        matches.push({
+          pattern: "dictionary",
+          i,
+          j,
+          token: password.slice(i, j + 1),
+          word,
+          rank,
+          dictionary,
+          reversed: false,
+          l33t: false,
+          sub: {},
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+function reverseDictionaryMatch(password: string, extra: [DictionaryName, RankedDictionary][]): NewMatch[] {
+  const reversed = [...password].reverse().join("");
+  const n = password.length;
+  return dictionaryMatch(reversed, extra).map((m) => ({
+    ...m,
+    i: n - 1 - m.j,
+    j: n - 1 - m.i,
+    token: [...m.token].reverse().join(""),
+    reversed: true,
+  }));
+}
+
+// Every way of reading the l33t characters present in the password back as letters
+function l33tSubs(password: string): Record<string, string>[] {
+  const candidates = new Map<string, string[]>();
+  for (const [letter, subs] of Object.entries(L33T_TABLE)) {
+    for (const sub of subs) {
+      if (!password.includes(sub)) continue;
+      candidates.set(sub, [...(candidates.get(sub) || []), letter]);
+    }
+  }
+
+  let maps: Record<string, string>[] = [{}];
+  for (const [sub, letters] of candidates) {
+    maps = maps.flatMap((m) => letters.map((letter) => ({ ...m, [sub]: letter }))).slice(0, MAX_L33T_SUBS);
+  }
+  return candidates.size ? maps : [];
+}
+
+function l33tMatch(password: string, extra: [DictionaryName, RankedDictionary][]): NewMatch[] {
+  const matches: NewMatch[] = [];
+  const seen = new Set<string>();
+  for (const map of l33tSubs(password)) {
+    const translated = [...password].map((ch) => map[ch] || ch).join("");
+    for (const m of dictionaryMatch(translated, extra)) {
+      if (m.pattern !== "dictionary") continue;
+      const token = password.slice(m.i, m.j + 1);
+      if (token.length <= 1 || token.toLowerCase() === m.word) continue;
+
+      const sub = Object.fromEntries(Object.entries(map).filter(([ch]) => token.includes(ch)));
+      const key = `${m.i}:${m.j}:${m.word}`;
+      if (!Object.keys(sub).length || seen.has(key)) continue;
+      seen.add(key);
+      matches.push({ ...m, token, l33t: true, sub });
+    }
+  }
+  return matches;
+}
+
+function spatialMatch(password: string): NewMatch[] {
+  const matches: NewMatch[] = [];
+  for (const graphName of ["qwerty", "keypad"] as const) {
+    const graph = GRAPHS[graphName];
+    let i = 0;
+    while (i < password.length - 1) {
+      let j = i + 1;
+      let lastDirection = -1;
+      let turns = 0;
+      let shiftedCount = graphName === "qwerty" && SHIFTED.test(password[i]) ? 1 : 0;
+
+      for (;;) {
+        const adjacent = graph[password[j - 1]] || [];
+        let found = false;
+        if (j < password.length) {
+          const cur = password[j];
+          const direction = adjacent.findIndex((key) => key !== null && key.includes(cur));
+          if (direction !== -1) {
+            found = true;
+            if (adjacent[direction]!.indexOf(cur) === 1) shiftedCount++;
+            if (direction !== lastDirection) {
+              turns++;
+              lastDirection = direction;
+            }
+          }
+        }
+        if (found) {
+          j++;
+          continue;
+        }
+        if (j - i > 2) {
+          matches.push({ pattern: "spatial", i, j: j - 1, token: password.slice(i, j), graph: graphName, turns, shiftedCount });
+        }
+        i = j;
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+function repeatMatch(password: string, userInputs: string[]): NewMatch[] {
+  const matches: NewMatch[] = [];
+  const greedy = /(.+)\1+/g;
+  const lazy = /(.+?)\1+/g;
+  const lazyAnchored = /^(.+?)\1+$/;
+
+  let lastIndex = 0;
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lazy.lastIndex = lastIndex;
+    const g = greedy.exec(password);
+    const l = lazy.exec(password);
+    if (!g || !l) break;
+
+    // The longer run wins; its shortest repeating unit is the base token
+    let match: RegExpExecArray;
+    let baseToken: string;
+    if (g[0].length > l[0].length) {
+      match = g;
+      baseToken = lazyAnchored.exec(g[0])![1];
+    } else {
+      match = l;
+      baseToken = l[1];
+    }
+
+    const i = match.index;
+    const j = i + match[0].length - 1;
+    const base = estimatePasswordGuesses(baseToken, userInputs);
+    matches.push({
+      pattern: "repeat",
+      i,
+      j,
+      token: match[0],
+      baseToken,
+      baseGuesses: base.guesses,
+      repeatCount: match[0].length / baseToken.length,
+    });
+    lastIndex = j + 1;
+  }
+  return matches;
+}
+
+function sequenceMatch(password: string): NewMatch[] {
+  if (password.length <= 1) return [];
+  const matches: NewMatch[] = [];
+  const MAX_DELTA = 5;
+
+  const push = (i: number, j: number, delta: number) => {
+    if (!(j - i > 1 || Math.abs(delta) === 1)) return;
+    if (!(Math.abs(delta) > 0 && Math.abs(delta) <= MAX_DELTA)) return;
+    const token = password.slice(i, j + 1);
+    const sequenceName = /^[a-z]+$/.test(token)
+      ? "lower"
+      : /^[A-Z]+$/.test(token)
+        ? "upper"
+        : /^\d+$/.test(token)
+          ? "digits"
+          : "unicode";
+    matches.push({ pattern: "sequence", i, j, token, sequenceName, ascending: delta > 0 });
+  };
+
+  let i = 0;
+  let lastDelta: number | null = null;
+  for (let k = 1; k < password.length; k++) {
+    const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+    if (lastDelta === null) lastDelta = delta;
+    if (delta === lastDelta) continue;
+    push(i, k - 1, lastDelta);
+    i = k - 1;
+    lastDelta = delta;
+  }
+  push(i, password.length - 1, lastDelta!);
+  return matches;
+}
+
+function yearMatch(password: string): NewMatch[] {
+  return [...password.matchAll(/19\d\d|20\d\d/g)].map((m) => ({
+    pattern: "year" as const,
+    i: m.index!,
+    j: m.index! + m[0].length - 1,
+    token: m[0],
+    year: Number(m[0]),
+  }));
+}
+
+/* ---------------- Dates ---------------- */
+
+// Where to cut a run of digits into day / month / year, by run length
+const DATE_SPLITS: Record<number, [number, number][]> = {
+  4: [[1, 2], [2, 3]],
+  5: [[1, 3], [2, 3]],
+  6: [[1, 2], [2, 4], [4, 5]],
+  7: [[1, 3], [2, 3], [4, 5], [4, 6]],
+  8: [[2, 4], [4, 6]],
+};
+
+type Dmy = { year: number; month: number; day: number };
+
+function mapIntsToDm([a, b]: number[]) {
+  for (const [day, month] of [[a, b], [b, a]]) {
+    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) return { day, month };
+  }
+  return null;
+}
+
+function twoToFourDigitYear(year: number) {
+  if (year > 99) return year;
+  return year > 50 ? 1900 + year : 2000 + year;
+}
+
+function mapIntsToDmy(ints: number[]): Dmy | null {
+  if (ints[1] > 31 || ints[1] <= 0) return null;
+
+  let over12 = 0;
+  let over31 = 0;
+  let under1 = 0;
+  for (const n of ints) {
+    if ((n > 99 && n < DATE_MIN_YEAR) || n > DATE_MAX_YEAR) return null;
+    if (n > 31) over31++;
+    if (n > 12) over12++;
+    if (n <= 0) under1++;
+  }
+  if (over31 >= 2 || over12 === 3 || under1 >= 2) return null;
+
+  const splits: [number, number[]][] = [
+    [ints[2], ints.slice(0, 2)],
+    [ints[0], ints.slice(1, 3)],
+  ];
+  for (const [year, rest] of splits) {
+    if (year >= DATE_MIN_YEAR && year <= DATE_MAX_YEAR) {
+      const dm = mapIntsToDm(rest);
+      return dm ? { year, ...dm } : null;
+    }
+  }
+  for (const [year, rest] of splits) {
+    const dm = mapIntsToDm(rest);
+    if (dm) return { year: twoToFourDigitYear(year), ...dm };
+  }
+  return null;
+}
+
+function dateMatch(password: string): NewMatch[] {
+  const matches: (NewMatch & { pattern: "date" })[] = [];
+
+  // Without separators: 4-8 digit runs, picking the reading closest to today
+  for (let i = 0; i <= password.length - 4; i++) {
+    for (let j = i + 3; j <= i + 7 && j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+      if (!/^\d{4,8}$/.test(token)) continue;
+      const candidates = DATE_SPLITS[token.length]
+        .map(([k, l]) => mapIntsToDmy([Number(token.slice(0, k)), Number(token.slice(k, l)), Number(token.slice(l))]))
+        .filter((d): d is Dmy => d !== null);
+      if (!candidates.length) continue;
+      const best = candidates.reduce((a, b) =>
+        Math.abs(b.year - REFERENCE_YEAR) < Math.abs(a.year - REFERENCE_YEAR) ? b : a
+      );
+      matches.push({ pattern: "date", i, j, token, separator: "", ...best });
+    }
+  }
+
+  // With separators: 1/2/2024, 2024-02-01, 01.02.99
+  const withSeparator = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/;
+  for (let i = 0; i <= password.length - 6; i++) {
+    for (let j = i + 5; j <= i + 9 && j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+      const m = withSeparator.exec(token);
+      if (!m) continue;
+      const dmy = mapIntsToDmy([Number(m[1]), Number(m[3]), Number(m[4])]);
+      if (dmy) matches.push({ pattern: "date", i, j, token, separator: m[2], ...dmy });
+    }
+  }
+
+  // Drop dates that sit inside a longer date ("1/1/91" also contains "1/1/9")
+  return matches.filter(
+    (m) => !matches.some((o) => o !== m && o.i <= m.i && o.j >= m.j && (o.i !== m.i || o.j !== m.j))
+  );
+}
+
+function omnimatch(password: string, userInputs: string[]): NewMatch[] {
+  const extra: [DictionaryName, RankedDictionary][] = userInputs.length
+    ? [["user_inputs", rankDictionary(userInputs)]]
+    : [];
+  return [
+    ...dictionaryMatch(password, extra),
+    ...reverseDictionaryMatch(password, extra),
+    ...l33tMatch(password, extra),
+    ...spatialMatch(password),
+    ...repeatMatch(password, userInputs),
+    ...sequenceMatch(password),
+    ...yearMatch(password),
+    ...dateMatch(password),
+  ].sort((a, b) => a.i - b.i || a.j - b.j);
+}
+
+/* ---------------- Guess estimation ---------------- */
+
+function nCk(n: number, k: number) {
+  if (k > n) return 0;
+  if (k === 0) return 1;
+  let r = 1;
+  for (let d = 1; d <= k; d++) {
+    r *= n;
+    r /= d;
+    n--;
+  }
+  return r;
+}
+
+function variations(a: number, b: number) {
+  if (a === 0 || b === 0) return 2;
+  let sum = 0;
+  for (let i = 1; i <= Math.min(a, b); i++) sum += nCk(a + b, i);
+  return sum;
+}
+
+function uppercaseVariations(token: string) {
+  if (token.toLowerCase() === token) return 1;
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || /^[^a-z]+$/.test(token)) return 2;
+  const upper = [...token].filter((c) => /[A-Z]/.test(c)).length;
+  const lower = [...token].filter((c) => /[a-z]/.test(c)).length;
+  return variations(upper, lower);
+}
+
+function l33tVariations(token: string, sub: Record<string, string>) {
+  let result = 1;
+  const chars = [...token.toLowerCase()];
+  for (const [subbed, unsubbed] of Object.entries(sub)) {
+    const s = chars.filter((c) => c === subbed).length;
+    const u = chars.filter((c) => c === unsubbed).length;
+    result *= variations(s, u);
+  }
+  return result;
+}
+
+function spatialGuesses(length: number, graph: "qwerty" | "keypad", turns: number, shiftedCount: number) {
+  const { startingPositions, averageDegree } = GRAPH_STATS[graph];
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += nCk(i - 1, j - 1) * startingPositions * averageDegree ** j;
+    }
+  }
+  if (shiftedCount) guesses *= variations(shiftedCount, length - shiftedCount);
+  return guesses;
+}
+
+function rawGuesses(m: NewMatch): number {
+  switch (m.pattern) {
+    case "bruteforce":
+      return Math.min(Number.MAX_VALUE, BRUTEFORCE_CARDINALITY ** m.token.length);
+    case "dictionary":
+      return m.rank * uppercaseVariations(m.token) * (m.l33t ? l33tVariations(m.token, m.sub) : 1) * (m.reversed ? 2 : 1);
+    case "spatial":
+      return spatialGuesses(m.token.length, m.graph, m.turns, m.shiftedCount);
+    case "repeat":
+      return m.baseGuesses * m.repeatCount;
+    case "sequence": {
+      let base = /^[aAzZ019]/.test(m.token) ? 4 : /^\d/.test(m.token) ? 10 : 26;
+      if (!m.ascending) base *= 2;
+      return base * m.token.length;
+    }
+    case "year":
+      return Math.max(Math.abs(m.year - REFERENCE_YEAR), MIN_YEAR_SPACE);
+    case "date": {
+      const yearSpace = Math.max(Math.abs(m.year - REFERENCE_YEAR), MIN_YEAR_SPACE);
+      return yearSpace * 365 * (m.separator ? 4 : 1);
+    }
+  }
+}
+
+function estimateGuesses(m: NewMatch, passwordLength: number): PasswordMatch {
+  // A piece of a longer password can't be cheaper than guessing a few characters blind
+  const minGuesses =
+    m.token.length < passwordLength
+      ? m.token.length === 1
+        ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR
+        : MIN_SUBMATCH_GUESSES_MULTI_CHAR
+      : 1;
+  return { ...m, guesses: Math.max(rawGuesses(m), minGuesses) } as PasswordMatch;
+}
+
+/* ---------------- Minimum-guess decomposition ---------------- */
+
+// log10(10^a + 10^b) without overflowing
+function logAdd(a: number, b: number) {
+  const hi = Math.max(a, b);
+  return hi + Math.log10(1 + 10 ** (Math.min(a, b) - hi));
+}
+
+function logFactorial(n: number) {
+  let r = 0;
+  for (let k = 2; k <= n; k++) r += Math.log10(k);
+  return r;
+}
+
+/**
+ * Finds the sequence of non-overlapping matches (gaps filled with brute force) that
+ * minimizes l! * prod(guesses) + 10000^(l-1), the zxcvbn search-cost model: an attacker
+ * tries short sequences of likely patterns before long ones. Works in log10 so long
+ * passwords don't overflow.
+ */
+function mostGuessableSequence(password: string, candidates: NewMatch[]): GuessEstimate {
+  const n = password.length;
+  if (!n) return { password, guesses: 1, guessesLog10: 0, sequence: [] };
+
+  const byEnd: PasswordMatch[][] = Array.from({ length: n }, () => []);
+  for (const m of candidates) byEnd[m.j].push(estimateGuesses(m, n));
+  for (const list of byEnd) list.sort((a, b) => a.i - b.i);
+
+  // best[k].get(l): cheapest way to cover password[0..k] with exactly l matches
+  const best = Array.from({ length: n }, () => new Map<number, { m: PasswordMatch; pi: number; g: number }>());
+
+  const update = (m: PasswordMatch, l: number) => {
+    const k = m.j;
+    let pi = Math.log10(m.guesses);
+    if (l > 1) pi += best[m.i - 1].get(l - 1)!.pi;
+    const g = logAdd(logFactorial(l) + pi, (l - 1) * Math.log10(MIN_GUESSES_BEFORE_GROWING_SEQUENCE));
+    for (const [otherL, other] of best[k]) {
+      if (otherL <= l && other.g <= g) return;
+    }
+    best[k].set(l, { m, pi, g });
+  };
+
+  const bruteforce = (i: number, k: number) =>
+    estimateGuesses({ pattern: "bruteforce", i, j: k, token: password.slice(i, k + 1) }, n);
+
+  for (let k = 0; k < n; k++) {
+    for (const m of byEnd[k]) {
+      if (m.i > 0) {
+        for (const l of [...best[m.i - 1].keys()]) update(m, l + 1);
+      } else {
+        update(m, 1);
+      }
+    }
+
+    update(bruteforce(0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      const m = bruteforce(i, k);
+      // Two adjacent brute-force runs are always worse than one longer run
+      for (const [l, prev] of [...best[i - 1]]) {
+        if (prev.m.pattern !== "bruteforce") update(m, l + 1);
+      }
+    }
+  }
+
+  let l = 0;
+  let g = Infinity;
+  for (const [candidateL, entry] of best[n - 1]) {
+    if (entry.g < g) {
+      l = candidateL;
+      g = entry.g;
+    }
+  }
+
+  const sequence: PasswordMatch[] = [];
+  for (let k = n - 1; k >= 0; l--) {
+    const m = best[k].get(l)!.m;
+    sequence.unshift(m);
+    k = m.i - 1;
+  }
+
+  return { password, guesses: Math.min(Number.MAX_VALUE, 10 ** g), guessesLog10: g, sequence };
+}
+
+/* ---------------- Public ---------------- */
+
+/**
+ * Estimates how many guesses a pattern-aware attacker needs for the password.
+ * `userInputs` (email, name, site) are matched as an extra top-ranked dictionary.
+ */
+export function estimatePasswordGuesses(password: string, userInputs: string[] = []): GuessEstimate {
+  const analyzed = password.slice(0, MAX_ANALYZED);
+  const inputs = userInputs.map((s) => s.toLowerCase()).filter(Boolean);
+  return mostGuessableSequence(analyzed, omnimatch(analyzed, inputs));
+}
@@ -0,0 +1,221 @@
+// src/lib/passwordPolicy.ts
+// The one password policy every password field checks against (signup, Settings password
+// change, PasswordLab). Edited in Settings; NIST mode follows SP 800-63B: length and
+// blocklists instead of composition rules.
+
+import { COMMON_PASSWORDS } from "./passwordDictionaries";
+
+export const PASSWORD_POLICY_KEY = "pasco_password_policy";
+export const PASSWORD_POLICY_EVENT = "pasco_password_policy_changed";
+
+export type PasswordPolicy = {
+  minLength: number;
+  maxLength: number;
+  requireLower: boolean;
+  requireUpper: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  maxRepeats: number; // longest allowed run of one character; 0 = no limit
+  blockCommon: boolean; // bundled common-password list, exact match
+  blocklist: string[]; // organization words, matched anywhere in the password
+  blockContext: boolean; // the user's own email / name
+  nistMode: boolean;
+};
+
+export type PolicyRuleResult = {
+  id: string;
+  label: string;
+  passed: boolean;
+  detail?: string;
+};
+
+export type PolicyCheck = {
+  passed: boolean;
+  results: PolicyRuleResult[];
+};
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  requireLower: false,
+  requireUpper: false,
+  requireDigit: false,
+  requireSymbol: false,
+  maxRepeats: 0,
+  blockCommon: true,
+  blocklist: [],
+  blockContext: true,
+  nistMode: false,
+};
+
+// SP 800-63B: at least 8 (15 when the password is the only factor), accept at least 64,
+// no composition rules, always screen against common and context-specific values
+const NIST_MIN_LENGTH = 8;
+const NIST_MAX_LENGTH = 64;
+
+const COMMON_SET = new Set(COMMON_PASSWORDS);
+const MIN_BLOCKED_TERM = 3;
+
+/* ---------------- Storage ---------------- */
+
+function normalizePolicy(raw: Partial<PasswordPolicy>): PasswordPolicy {
+  const p = { ...DEFAULT_PASSWORD_POLICY, ...raw };
+  const minLength = Math.max(1, Math.min(256, Math.floor(Number(p.minLength) || DEFAULT_PASSWORD_POLICY.minLength)));
+  return {
+    ...p,
+    minLength,
+    maxLength: Math.max(minLength, Math.min(1024, Math.floor(Number(p.maxLength) || DEFAULT_PASSWORD_POLICY.maxLength))),
+    maxRepeats: Math.max(0, Math.floor(Number(p.maxRepeats) || 0)),
+    blocklist: Array.isArray(p.blocklist)
+      ? [...new Set(p.blocklist.map((w) => String(w).trim().toLowerCase()).filter(Boolean))]
+      : [],
+  };
+}
+
+export function readPasswordPolicy(): PasswordPolicy {
+  try {
+    return normalizePolicy(JSON.parse(localStorage.getItem(PASSWORD_POLICY_KEY) || "{}"));
+  } catch {
+    return DEFAULT_PASSWORD_POLICY;
+  }
+}
+
+export function savePasswordPolicy(policy: PasswordPolicy) {
+  const clean = normalizePolicy(policy);
+  localStorage.setItem(PASSWORD_POLICY_KEY, JSON.stringify(clean));
+  window.dispatchEvent(new Event(PASSWORD_POLICY_EVENT));
+  return clean;
+}
+
+/** The policy as enforced: NIST mode drops composition rules and forces the screening ones. */
+export function effectivePolicy(policy: PasswordPolicy): PasswordPolicy {
+  if (!policy.nistMode) return policy;
+  return {
+    ...policy,
+    minLength: Math.max(policy.minLength, NIST_MIN_LENGTH),
+    maxLength: Math.max(policy.maxLength, NIST_MAX_LENGTH),
+    requireLower: false,
+    requireUpper: false,
+    requireDigit: false,
+    requireSymbol: false,
+    blockCommon: true,
+    blockContext: true,
+  };
+}
+
+/* ---------------- Checker ---------------- */
+
+function longestRun(password: string) {
+  let best = 0;
+  let run = 0;
+  for (let i = 0; i < password.length; i++) {
+    run = i > 0 && password[i] === password[i - 1] ? run + 1 : 1;
+    best = Math.max(best, run);
+  }
+  return best;
+}
+
+// "jane.doe@acme.com" -> ["jane.doe", "jane", "doe", "acme"]
+function contextTerms(context: string[]) {
+  const terms = new Set<string>();
+  for (const value of context) {
+    const v = value.trim().toLowerCase();
+    if (!v) continue;
+    const [local, domain = ""] = v.split("@");
+    terms.add(local);
+    for (const part of local.split(/[^a-z0-9]+/)) terms.add(part);
+    if (domain) terms.add(domain.split(".")[0]);
+  }
+  return [...terms].filter((t) => t.length >= MIN_BLOCKED_TERM);
+}
+
+/**
+ * Evaluates a password against every rule of the policy. `context` holds values the user
+ * is known by (email, display name) for the context rule.
+ */
+export function checkPassword(password: string, policy: PasswordPolicy, context: string[] = []): PolicyCheck {
+  const p = effectivePolicy(policy);
+  const lower = password.toLowerCase();
+  const results: PolicyRuleResult[] = [];
+
+  results.push({ id: "min-length", label: `At least ${p.minLength} characters`, passed: password.length >= p.minLength });
+  results.push({ id: "max-length", label: `At most ${p.maxLength} characters`, passed: password.length <= p.maxLength });
+
+  if (p.requireLower) results.push({ id: "lower", label: "Contains a lowercase letter", passed: /[a-z]/.test(password) });
+  if (p.requireUpper) results.push({ id: "upper", label: "Contains an uppercase letter", passed: /[A-Z]/.test(password) });
+  if (p.requireDigit) results.push({ id: "digit", label: "Contains a number", passed: /\d/.test(password) });
+  if (p.requireSymbol) results.push({ id: "symbol", label: "Contains a symbol", passed: /[^a-zA-Z0-9]/.test(password) });
+
+  if (p.maxRepeats > 0) {
+    const run = longestRun(password);
+    results.push({
+      id: "max-repeats",
+      label: `No character repeated more than ${p.maxRepeats} times in a row`,
+      passed: run <= p.maxRepeats,
+      detail: run > p.maxRepeats ? `${run} in a row` : undefined,
+    });
+  }
+
+  if (p.blockCommon || p.blocklist.length) {
+    const common = p.blockCommon && COMMON_SET.has(lower);
+    const term = p.blocklist.find((w) => w.length >= MIN_BLOCKED_TERM && lower.includes(w));
+    results.push({
+      id: "blocklist",
+      label: "Not a common or blocked password",
+      passed: !common && !term,
+      detail: common ? "On the common-password list" : term ? `Contains blocked term "${term}"` : undefined,
+    });
+  }
+
+  if (p.blockContext) {
+    const term = contextTerms(context).find((t) => lower.includes(t));
+    results.push({
+      id: "context",
+      label: "Doesn't contain your email or name",
+      passed: !term,
+      detail: term ? `Contains "${term}"` : undefined,
+    });
+  }
+
+  return { passed: results.every((r) => r.passed), results };
+}
+
+/** First failed rule as a sentence, for forms that show one error at a time. */
+export function policyError(check: PolicyCheck): string | null {
+  const failed = check.results.find((r) => !r.passed);
+  if (!failed) return null;
+  return `Password requirement not met: ${failed.label}${failed.detail ? ` (${failed.detail})` : ""}`;
+}
+
+/* ---------------- Export ---------------- */
+
+/** Human-readable policy statement, one requirement per line. */
+export function describePolicy(policy: PasswordPolicy): string[] {
+  const p = effectivePolicy(policy);
+  const lines = [
+    `Passwords must be at least ${p.minLength} characters long; up to ${p.maxLength} characters are accepted.`,
+  ];
+
+  const classes = [
+    p.requireLower && "a lowercase letter",
+    p.requireUpper && "an uppercase letter",
+    p.requireDigit && "a number",
+    p.requireSymbol && "a symbol",
+  ].filter(Boolean);
+  if (classes.length) lines.push(`Passwords must contain ${classes.join(", ")}.`);
+  else lines.push("There are no character-composition rules; spaces, symbols and Unicode are all allowed.");
+
+  if (p.maxRepeats > 0) lines.push(`No character may repeat more than ${p.maxRepeats} times in a row.`);
+  if (p.blockCommon) lines.push("Commonly used passwords are rejected.");
+  if (p.blocklist.length) lines.push(`Passwords may not contain: ${p.blocklist.join(", ")}.`);
+  if (p.blockContext) lines.push("Passwords may not contain the user's email address, username or name.");
+
+  if (p.nistMode) {
+    lines.push(
+      "This policy follows NIST SP 800-63B: passwords are not expired on a schedule, only after evidence of compromise.",
+      "Password hints and knowledge-based questions are not used; paste and password managers are allowed.",
+      "Where the password is the only authentication factor, a minimum of 15 characters is recommended."
+    );
+  }
+  return lines;
+}
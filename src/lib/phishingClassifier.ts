@@ -0,0 +1,212 @@
+// src/lib/phishingClassifier.ts
+// Weighted, explainable phishing language score. Every point traces back to an
+// indicator match with its offsets in the analyzed text; built-in rules live in
+// phishingRules.ts, organization-specific lures are edited in Settings.
+
+import { DEFAULT_PHISHING_RULES, type PhishingIndicator, type PhishingRules } from "./phishingRules";
+
+export const PHISHING_THRESHOLD_KEY = "pasco_phishing_threshold";
+export const ORGANIZATION_LURES_KEY = "pasco_phishing_org_lures";
+
+const MAX_TEXT = 50_000;
+const MAX_EVIDENCE_PER_INDICATOR = 5;
+const DEFAULT_LURE_WEIGHT = 10;
+const MAX_LURE_WEIGHT = 40;
+
+export type PhishingEvidence = {
+  indicatorId: string;
+  category: string;
+  description: string;
+  start: number; // offsets into PhishingAnalysis.text
+  end: number;
+  text: string;
+};
+
+export type PhishingCategoryScore = {
+  id: string;
+  label: string;
+  points: number; // after the category cap
+  cap: number;
+  indicators: { id: string; description: string; weight: number; matches: number }[];
+};
+
+export type PhishingAnalysis = {
+  text: string;
+  score: number; // 0-100
+  threshold: number;
+  phishing: boolean;
+  categories: PhishingCategoryScore[]; // categories with at least one hit, highest first
+  comboBonus: number;
+  evidence: PhishingEvidence[]; // ordered by offset
+};
+
+export function readPhishingThreshold(): number {
+  const n = Number(localStorage.getItem(PHISHING_THRESHOLD_KEY));
+  return n > 0 && n <= 100 ? n : DEFAULT_PHISHING_RULES.threshold;
+}
+
+export function savePhishingThreshold(threshold: number) {
+  localStorage.setItem(PHISHING_THRESHOLD_KEY, String(Math.max(1, Math.min(100, Math.round(threshold)))));
+}
+
+/* ---------------- Organization lures ---------------- */
+
+export type OrganizationLure = {
+  pattern: string; // a phrase, or /regex/
+  weight: number;
+  description: string;
+};
+
+function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Settings text, one lure per line: `phrase | weight | description`, weight and
+ * description optional; a pattern wrapped in slashes is a regex. Lines starting
+ * with "#" are comments.
+ */
+export function parseOrganizationLures(text: string): { lures: OrganizationLure[]; errors: string[] } {
+  const lures: OrganizationLure[] = [];
+  const errors: string[] = [];
+
+  text.split("\n").forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    // A regex may itself contain "|", so it runs to the last "/" that ends the field
+    const regex = trimmed.match(/^(\/.+\/)\s*(?:\|(.*))?$/);
+    const fields = regex ? [regex[1], ...(regex[2] ?? "").split("|")] : trimmed.split("|");
+    const [pattern, weightText = "", ...rest] = fields.map((p) => p.trim());
+    const weight = weightText ? Number(weightText) : DEFAULT_LURE_WEIGHT;
+    if (!pattern) {
+      errors.push(`Line ${idx + 1}: missing phrase`);
+      return;
+    }
+    if (!Number.isInteger(weight) || weight < 1 || weight > MAX_LURE_WEIGHT) {
+      errors.push(`Line ${idx + 1}: weight must be a whole number from 1 to ${MAX_LURE_WEIGHT}`);
+      return;
+    }
+    if (regex) {
+      try {
+        new RegExp(pattern.slice(1, -1), "i");
+      } catch {
+        errors.push(`Line ${idx + 1}: invalid regular expression`);
+        return;
+      }
+    }
+    lures.push({ pattern, weight, description: rest.join("|").trim() || `Mentions "${pattern}"` });
+  });
+
+  return { lures, errors };
+}
+
+export function formatOrganizationLures(lures: OrganizationLure[]) {
+  return lures.map((l) => `${l.pattern} | ${l.weight} | ${l.description}`).join("\n");
+}
+
+export function readOrganizationLures(): OrganizationLure[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(ORGANIZATION_LURES_KEY) || "[]");
+    return Array.isArray(raw)
+      ? raw.filter(
+          (l): l is OrganizationLure =>
+            typeof l?.pattern === "string" && typeof l?.weight === "number" && typeof l?.description === "string"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveOrganizationLures(lures: OrganizationLure[]) {
+  localStorage.setItem(ORGANIZATION_LURES_KEY, JSON.stringify(lures));
+}
+
+function lureIndicator(lure: OrganizationLure, idx: number): PhishingIndicator {
+  const regex = /^\/.+\/$/.test(lure.pattern);
+  const phrase = escapeRegex(lure.pattern).replace(/\s+/g, "\\s+");
+  return {
+    id: `org-${idx + 1}`,
+    category: "organization",
+    // Phrases match as whole words so "acme pay" does not fire inside "acme payroll"
+    pattern: regex ? lure.pattern.slice(1, -1) : `(?<!\\w)${phrase}(?!\\w)`,
+    weight: lure.weight,
+    description: lure.description,
+  };
+}
+
+/** Built-in rules plus the organization lures from Settings. */
+export function readPhishingRules(lures = readOrganizationLures()): PhishingRules {
+  return {
+    ...DEFAULT_PHISHING_RULES,
+    indicators: [...DEFAULT_PHISHING_RULES.indicators, ...lures.map(lureIndicator)],
+  };
+}
+
+export function classifyPhishing(
+  input: string,
+  options: { rules?: PhishingRules; threshold?: number } = {}
+): PhishingAnalysis {
+  const rules = options.rules || DEFAULT_PHISHING_RULES;
+  const threshold = options.threshold ?? rules.threshold;
+  const text = input.slice(0, MAX_TEXT);
+
+  const evidence: PhishingEvidence[] = [];
+  const byCategory = new Map<string, PhishingCategoryScore>();
+
+  for (const indicator of rules.indicators) {
+    const category = rules.categories.find((c) => c.id === indicator.category);
+    if (!category) continue;
+
+    let re: RegExp;
+    try {
+      re = new RegExp(indicator.pattern, "gi");
+    } catch {
+      continue; // a broken custom pattern must not take the whole check down
+    }
+
+    let matches = 0;
+    for (const m of text.matchAll(re)) {
+      if (!m[0]) continue;
+      matches++;
+      if (matches <= MAX_EVIDENCE_PER_INDICATOR) {
+        evidence.push({
+          indicatorId: indicator.id,
+          category: category.id,
+          description: indicator.description,
+          start: m.index!,
+          end: m.index! + m[0].length,
+          text: m[0],
+        });
+      }
+    }
+    if (!matches) continue;
+
+    // An indicator counts once however often it repeats; the category cap bounds the rest
+    const entry = byCategory.get(category.id) || {
+      id: category.id,
+      label: category.label,
+      points: 0,
+      cap: category.cap,
+      indicators: [],
+    };
+    entry.indicators.push({ id: indicator.id, description: indicator.description, weight: indicator.weight, matches });
+    entry.points = Math.min(category.cap, entry.points + indicator.weight);
+    byCategory.set(category.id, entry);
+  }
+
+  const categories = [...byCategory.values()].sort((a, b) => b.points - a.points);
+  const comboBonus = categories.length >= rules.comboCategories ? rules.comboBonus : 0;
+  const score = Math.min(100, categories.reduce((sum, c) => sum + c.points, 0) + comboBonus);
+
+  return {
+    text,
+    score,
+    threshold,
+    phishing: score >= threshold,
+    categories,
+    comboBonus,
+    evidence: evidence.sort((a, b) => a.start - b.start || b.end - a.end),
+  };
+}
@@ -0,0 +1,92 @@
+// src/lib/phishingRules.ts
+// Rules for the phishing language classifier (phishingClassifier.ts).
+// Patterns are case-insensitive regex sources matched against the message text.
+// Weights are points; a category never contributes more than its cap, and hitting
+// several categories at once adds the combination bonus. Organization-specific lures
+// (internal app names, vendor names, payroll wording) are entered in Settings and join
+// the "organization" category at analysis time (readPhishingRules in phishingClassifier.ts).
+
+export type PhishingCategory = {
+  id: string;
+  label: string;
+  cap: number; // max points from this category
+};
+
+export type PhishingIndicator = {
+  id: string;
+  category: string; // PhishingCategory id
+  pattern: string;
+  weight: number;
+  description: string;
+};
+
+export type PhishingRules = {
+  categories: PhishingCategory[];
+  indicators: PhishingIndicator[];
+  comboCategories: number; // distinct categories needed for the bonus
+  comboBonus: number;
+  threshold: number; // default score (0-100) at which content is classified as phishing
+};
+
+export const PHISHING_CATEGORIES: PhishingCategory[] = [
+  { id: "urgency", label: "Urgency", cap: 25 },
+  { id: "credential", label: "Credential request", cap: 35 },
+  { id: "payment", label: "Payment change", cap: 35 },
+  { id: "impersonation", label: "Impersonation", cap: 25 },
+  { id: "suspension", label: "Threat of suspension", cap: 30 },
+  { id: "organization", label: "Organization-specific lure", cap: 40 },
+];
+
+export const PHISHING_INDICATORS: PhishingIndicator[] = [
+  /* ---------- Urgency ---------- */
+  { id: "urgent", category: "urgency", pattern: "\\burgent(?:ly)?\\b", weight: 6, description: "Urgent wording" },
+  { id: "immediately", category: "urgency", pattern: "\\b(?:immediately|right away|asap|without delay)\\b", weight: 6, description: "Demands immediate action" },
+  { id: "deadline", category: "urgency", pattern: "\\bwithin (?:the next )?\\d+\\s*(?:hours?|hrs?|minutes?|mins?)\\b", weight: 8, description: "Short deadline" },
+  { id: "act-now", category: "urgency", pattern: "\\b(?:act|respond|reply) now\\b", weight: 8, description: "Pressure to act now" },
+  { id: "limited-time", category: "urgency", pattern: "\\blimited[- ]time\\b", weight: 5, description: "Limited-time offer" },
+  { id: "final-notice", category: "urgency", pattern: "\\bfinal (?:notice|warning|reminder|attempt)\\b", weight: 8, description: "Final notice" },
+  { id: "expires", category: "urgency", pattern: "\\b(?:expires?|expiring) (?:today|soon|tonight|in \\d+)", weight: 6, description: "Imminent expiry" },
+
+  /* ---------- Credential request ---------- */
+  { id: "verify-account", category: "credential", pattern: "\\bverify your (?:account|identity|email|mailbox|information)\\b", weight: 10, description: "Asks to verify the account" },
+  { id: "confirm-credentials", category: "credential", pattern: "\\b(?:confirm|update|validate|re-?enter) your (?:password|login|credentials|account details|sign-?in)\\b", weight: 12, description: "Asks to confirm credentials" },
+  { id: "reset-password", category: "credential", pattern: "\\breset (?:your )?password\\b", weight: 6, description: "Password reset lure" },
+  { id: "sensitive-data", category: "credential", pattern: "\\b(?:enter|provide|send) (?:your )?(?:ssn|social security(?: number)?|card number|pin|cvv|bank login)\\b", weight: 14, description: "Requests sensitive data" },
+  { id: "mfa-code", category: "credential", pattern: "\\b(?:send|share|tell) (?:me |us )?(?:the |your )?(?:code|one-time (?:code|passcode)|otp|verification code)\\b", weight: 12, description: "Asks for a one-time code" },
+  { id: "login", category: "credential", pattern: "\\b(?:log ?in|sign ?in)\\b", weight: 3, description: "Login wording" },
+  { id: "password", category: "credential", pattern: "\\bpassword\\b", weight: 3, description: "Mentions a password" },
+  { id: "account", category: "credential", pattern: "\\baccount\\b", weight: 1, description: "Mentions an account" },
+
+  /* ---------- Payment change ---------- */
+  { id: "bank-change", category: "payment", pattern: "\\b(?:updated|new|changed|change (?:of|to) (?:our|the))\\s+(?:bank(?:ing)?|payment|wire|remittance) (?:details|information|instructions|account)\\b", weight: 15, description: "Changed bank details" },
+  { id: "wire-transfer", category: "payment", pattern: "\\bwire transfer\\b", weight: 8, description: "Wire transfer request" },
+  { id: "gift-cards", category: "payment", pattern: "\\bgift ?cards?\\b", weight: 12, description: "Gift card request" },
+  { id: "invoice-overdue", category: "payment", pattern: "\\b(?:invoice|payment) (?:is )?(?:overdue|past due|attached|pending)\\b", weight: 6, description: "Invoice pressure" },
+  { id: "outstanding-balance", category: "payment", pattern: "\\boutstanding (?:balance|payment|amount)\\b", weight: 6, description: "Outstanding balance" },
+  { id: "bank-identifiers", category: "payment", pattern: "\\b(?:iban|routing number|swift(?: code)?|sort code)\\b", weight: 6, description: "Bank identifiers" },
+  { id: "crypto", category: "payment", pattern: "\\b(?:bitcoin|btc wallet|crypto ?wallet|usdt)\\b", weight: 8, description: "Cryptocurrency payment" },
+
+  /* ---------- Impersonation ---------- */
+  { id: "generic-greeting", category: "impersonation", pattern: "\\bdear (?:customer|user|client|member|valued \\w+|account holder|sir(?:/madam)?)\\b", weight: 6, description: "Generic greeting" },
+  { id: "support-team", category: "impersonation", pattern: "\\b(?:it|help ?desk|security|support|billing) (?:team|department|desk)\\b", weight: 5, description: "Claims to be a support team" },
+  { id: "executive", category: "impersonation", pattern: "\\bthis is (?:the |your )?(?:ceo|cfo|president|director|managing director)\\b", weight: 10, description: "Claims to be an executive" },
+  { id: "secrecy", category: "impersonation", pattern: "\\b(?:do not|don't) (?:reply|share this|tell anyone|discuss)\\b|\\bkeep (?:this|it) confidential\\b", weight: 6, description: "Asks for secrecy" },
+  { id: "brand-support", category: "impersonation", pattern: "\\b(?:microsoft|office ?365|apple|paypal|amazon|netflix|docusign|dhl|fedex) (?:support|security|team|account team)\\b", weight: 8, description: "Brand support impersonation" },
+  { id: "click-here", category: "impersonation", pattern: "\\bclick (?:here|the link|below)\\b", weight: 5, description: "Click-here call to action" },
+
+  /* ---------- Threat of suspension ---------- */
+  { id: "account-suspended", category: "suspension", pattern: "\\b(?:account|access|mailbox|service|subscription) (?:will be|has been|is being) (?:suspended|locked|disabled|terminated|closed|deactivated|restricted)\\b", weight: 15, description: "Account suspension threat" },
+  { id: "suspended", category: "suspension", pattern: "\\b(?:suspended|locked out|deactivated)\\b", weight: 6, description: "Suspension wording" },
+  { id: "unusual-activity", category: "suspension", pattern: "\\bunusual (?:activity|sign-?in|login|access)\\b|\\bsuspicious (?:activity|sign-?in|login)\\b", weight: 8, description: "Unusual activity alert" },
+  { id: "security-alert", category: "suspension", pattern: "\\bsecurity (?:alert|warning|notice)\\b", weight: 6, description: "Security alert" },
+  { id: "failure-to-comply", category: "suspension", pattern: "\\bfailure to (?:comply|verify|respond|update|confirm)\\b", weight: 10, description: "Consequence for not complying" },
+  { id: "legal-action", category: "suspension", pattern: "\\blegal action\\b|\\blaw enforcement\\b", weight: 8, description: "Legal threat" },
+];
+
+export const DEFAULT_PHISHING_RULES: PhishingRules = {
+  categories: PHISHING_CATEGORIES,
+  indicators: PHISHING_INDICATORS,
+  comboCategories: 3,
+  comboBonus: 10,
+  threshold: 40,
+};
@@ -0,0 +1,306 @@
+// src/lib/reportBuilder.ts
+// Branded, printable HTML reports built from an ExportReport.
+// The output is a self-contained document (inline CSS, no external assets) so it can be
+// downloaded as .html or handed to the browser print pipeline to save as PDF.
+
+import type { ExportFinding, ExportReport, ExportSeverity } from "./exportFormats";
+
+export type ReportBranding = {
+  companyName: string;
+  logoDataUrl: string | null; // data:image/* only
+  accentColor: string; // hex
+  footerText: string;
+};
+
+export const REPORT_BRANDING_KEY = "pasco_report_branding";
+export const MAX_LOGO_BYTES = 256 * 1024;
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  companyName: "PascoAI",
+  logoDataUrl: null,
+  accentColor: "#00b8d4",
+  footerText: "Generated by PascoAI. Results reflect the state observed at scan time.",
+};
+
+const SEVERITIES: ExportSeverity[] = ["critical", "high", "medium", "low", "info"];
+
+const SEVERITY_COLORS: Record<ExportSeverity, string> = {
+  critical: "#b91c1c",
+  high: "#ea580c",
+  medium: "#ca8a04",
+  low: "#2563eb",
+  info: "#6b7280",
+};
+
+const LOGO_RE = /^data:image\/(png|jpe?g|gif|webp|svg\+xml);base64,[a-z0-9+/=]+$/i;
+const COLOR_RE = /^#[0-9a-f]{6}$/i;
+
+export function readBranding(): ReportBranding {
+  try {
+    const raw = JSON.parse(localStorage.getItem(REPORT_BRANDING_KEY) || "{}");
+    return {
+      companyName: typeof raw.companyName === "string" && raw.companyName.trim() ? raw.companyName : DEFAULT_BRANDING.companyName,
+      logoDataUrl: typeof raw.logoDataUrl === "string" && LOGO_RE.test(raw.logoDataUrl) ? raw.logoDataUrl : null,
+      accentColor: typeof raw.accentColor === "string" && COLOR_RE.test(raw.accentColor) ? raw.accentColor : DEFAULT_BRANDING.accentColor,
+      footerText: typeof raw.footerText === "string" ? raw.footerText : DEFAULT_BRANDING.footerText,
+    };
+  } catch {
+    return DEFAULT_BRANDING;
+  }
+}
+
+export function saveBranding(branding: ReportBranding) {
+  localStorage.setItem(REPORT_BRANDING_KEY, JSON.stringify(branding));
+}
+
+/** Reads an uploaded image as a data URL, rejecting non-images and oversized files. */
+export function readLogoFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!/^image\/(png|jpeg|gif|webp|svg\+xml)$/.test(file.type)) {
+      reject(new Error("Logo must be a PNG, JPEG, GIF, WebP or SVG image"));
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      reject(new Error(`Logo must be smaller than ${MAX_LOGO_BYTES / 1024} KB`));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error("Could not read the logo file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+function esc(v: unknown) {
+  return String(v ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatValue(v: unknown) {
+  if (v === null || v === undefined) return "—";
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  return String(v);
+}
+
+function scoreColor(score: number) {
+  if (score >= 80) return "#16a34a";
+  if (score >= 60) return "#ca8a04";
+  return "#dc2626";
+}
+
+// Semicircle gauge: arc length proportional to the 0-100 score
+function gauge(score: number, grade?: string) {
+  const clamped = Math.max(0, Math.min(100, score));
+  const r = 70;
+  const length = Math.PI * r;
+  const filled = (clamped / 100) * length;
+  return `
+    <svg class="gauge" viewBox="0 0 180 110" role="img" aria-label="Score ${clamped} of 100">
+      <path d="M 20 95 A ${r} ${r} 0 0 1 160 95" fill="none" stroke="#e5e7eb" stroke-width="16" stroke-linecap="round"/>
+      <path d="M 20 95 A ${r} ${r} 0 0 1 160 95" fill="none" stroke="${scoreColor(clamped)}" stroke-width="16"
+        stroke-linecap="round" stroke-dasharray="${filled.toFixed(1)} ${length.toFixed(1)}"/>
+      <text x="90" y="82" text-anchor="middle" font-size="30" font-weight="700" fill="#111827">${clamped}</text>
+      <text x="90" y="102" text-anchor="middle" font-size="11" fill="#6b7280">${grade ? `Grade ${esc(grade)} · ` : ""}of 100</text>
+    </svg>`;
+}
+
+function severityCounts(findings: ExportFinding[]) {
+  const counts = Object.fromEntries(SEVERITIES.map((s) => [s, 0])) as Record<ExportSeverity, number>;
+  for (const f of findings) counts[f.severity] += 1;
+  return counts;
+}
+
+function executiveSummary(report: ExportReport, counts: Record<ExportSeverity, number>) {
+  const findings = report.findings || [];
+  const parts: string[] = [];
+
+  if (report.score !== undefined) {
+    const verdict = report.score >= 80 ? "good" : report.score >= 60 ? "fair" : "weak";
+    parts.push(`The overall security posture is <strong>${verdict}</strong> with a score of ${report.score}/100${report.grade ? ` (grade ${esc(report.grade)})` : ""}.`);
+  }
+
+  if (report.findings) {
+    const urgent = counts.critical + counts.high;
+    if (!findings.length) {
+      parts.push("No findings were recorded.");
+    } else {
+      parts.push(
+        `${findings.length} finding${findings.length === 1 ? " was" : "s were"} recorded` +
+          (urgent ? `, of which <strong>${urgent}</strong> ${urgent === 1 ? "is" : "are"} critical or high severity and should be addressed first.` : ", none of them critical or high severity.")
+      );
+    }
+  }
+
+  return parts.length ? parts.join(" ") : "This report summarizes the tool output below.";
+}
+
+function findingCard(f: ExportFinding, target?: string) {
+  return `
+    <div class="finding" style="border-left-color:${SEVERITY_COLORS[f.severity]}">
+      <div class="finding-head">
+        <span class="sev" style="background:${SEVERITY_COLORS[f.severity]}">${f.severity.toUpperCase()}</span>
+        <strong>${esc(f.title)}</strong>
+        ${f.category ? `<span class="muted">· ${esc(f.category)}</span>` : ""}
+      </div>
+      ${f.location && f.location !== target ? `<div class="muted mono">${esc(f.location)}</div>` : ""}
+      ${f.description && f.description !== f.title ? `<p>${esc(f.description)}</p>` : ""}
+      ${f.recommendation ? `<p class="fix"><strong>Remediation:</strong> ${esc(f.recommendation)}</p>` : ""}
+    </div>`;
+}
+
+export function buildHtmlReport(report: ExportReport, branding: ReportBranding = readBranding()) {
+  const findings = report.findings || [];
+  const counts = severityCounts(findings);
+  const generatedAt = report.generatedAt || new Date().toISOString();
+  const accent = COLOR_RE.test(branding.accentColor) ? branding.accentColor : DEFAULT_BRANDING.accentColor;
+  const summary = Object.entries(report.summary || {}).filter(([, v]) => v !== undefined);
+
+  // Remediation plan: unique recommendations, most severe first
+  const remediation: { severity: ExportSeverity; text: string }[] = [];
+  for (const sev of SEVERITIES) {
+    for (const f of findings) {
+      if (f.severity === sev && f.recommendation && !remediation.some((r) => r.text === f.recommendation)) {
+        remediation.push({ severity: sev, text: f.recommendation });
+      }
+    }
+  }
+
+  const severitySections = SEVERITIES.filter((s) => counts[s] > 0)
+    .map(
+      (s) => `
+      <h3 style="color:${SEVERITY_COLORS[s]}">${s[0].toUpperCase()}${s.slice(1)} (${counts[s]})</h3>
+      ${findings.filter((f) => f.severity === s).map((f) => findingCard(f, report.target)).join("")}`
+    )
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(report.title)} · ${esc(branding.companyName)}</title>
+<style>
+  @page { size: A4; margin: 16mm 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; margin: 0; padding: 32px; font-size: 13px; line-height: 1.5; }
+  header { display: flex; align-items: center; justify-content: space-between; border-bottom: 3px solid ${accent}; padding-bottom: 12px; margin-bottom: 20px; }
+  header img { max-height: 48px; max-width: 200px; }
+  .brand { font-size: 18px; font-weight: 700; color: ${accent}; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 10px; padding-bottom: 4px; border-bottom: 1px solid #e5e7eb; }
+  h3 { font-size: 14px; margin: 18px 0 8px; }
+  .muted { color: #6b7280; }
+  .mono { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; word-break: break-all; }
+  .overview { display: flex; gap: 24px; align-items: center; }
+  .gauge { width: 180px; flex-shrink: 0; }
+  .counts { display: flex; gap: 8px; flex-wrap: wrap; margin-top: 10px; }
+  .count { border-radius: 6px; padding: 4px 10px; color: #fff; font-weight: 600; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+  th { width: 35%; color: #374151; font-weight: 600; }
+  .finding { border: 1px solid #e5e7eb; border-left: 4px solid; border-radius: 6px; padding: 10px 12px; margin-bottom: 8px; break-inside: avoid; }
+  .finding p { margin: 6px 0 0; }
+  .finding-head { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; }
+  .sev { color: #fff; font-size: 10px; font-weight: 700; border-radius: 4px; padding: 2px 6px; }
+  .fix { background: #f9fafb; border-radius: 4px; padding: 6px 8px; }
+  ol li { margin-bottom: 4px; }
+  footer { margin-top: 36px; padding-top: 10px; border-top: 1px solid #e5e7eb; font-size: 11px; color: #6b7280; display: flex; justify-content: space-between; gap: 16px; }
+  @media print {
+    body { padding: 0; }
+    h2 { break-after: avoid; }
+    .count, .sev { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+</style>
+</head>
+<body>
+<header>
+  ${branding.logoDataUrl && LOGO_RE.test(branding.logoDataUrl) ? `<img src="${branding.logoDataUrl}" alt="${esc(branding.companyName)}">` : `<span class="brand">${esc(branding.companyName)}</span>`}
+  <div style="text-align:right">
+    <div><strong>${esc(report.tool)}</strong></div>
+    <div class="muted">${esc(new Date(generatedAt).toLocaleString())}</div>
+  </div>
+</header>
+
+<h1>${esc(report.title)}</h1>
+${report.target ? `<div class="mono muted">${esc(report.target)}</div>` : ""}
+
+<h2>Executive Summary</h2>
+<div class="overview">
+  ${report.score !== undefined ? gauge(report.score, report.grade) : ""}
+  <div>
+    <p>${executiveSummary(report, counts)}</p>
+    ${
+      report.findings
+        ? `<div class="counts">${SEVERITIES.map(
+            (s) => `<span class="count" style="background:${SEVERITY_COLORS[s]}">${counts[s]} ${s}</span>`
+          ).join("")}</div>`
+        : ""
+    }
+  </div>
+</div>
+
+${
+  summary.length
+    ? `<h2>Details</h2><table>${summary.map(([k, v]) => `<tr><th>${esc(k)}</th><td>${esc(formatValue(v))}</td></tr>`).join("")}</table>`
+    : ""
+}
+
+${report.findings ? `<h2>Findings by Severity</h2>${findings.length ? severitySections : `<p class="muted">No findings.</p>`}` : ""}
+
+${
+  remediation.length
+    ? `<h2>Remediation Plan</h2><ol>${remediation
+        .map((r) => `<li><span class="sev" style="background:${SEVERITY_COLORS[r.severity]}">${r.severity.toUpperCase()}</span> ${esc(r.text)}</li>`)
+        .join("")}</ol>`
+    : ""
+}
+
+${(report.sections || [])
+  .map(
+    (s) => `<h2>${esc(s.title)}</h2>${
+      s.lines.length ? `<ul>${s.lines.map((l) => `<li>${esc(l)}</li>`).join("")}</ul>` : `<p class="muted">(none)</p>`
+    }`
+  )
+  .join("")}
+
+<footer>
+  <span>${esc(branding.footerText)}</span>
+  <span>${esc(branding.companyName)} · Confidential</span>
+</footer>
+</body>
+</html>`;
+}
+
+/**
+ * Prints through a hidden iframe so the browser's "Save as PDF"
+ * destination can be used without a popup window.
+ */
+export function printHtmlReport(html: string) {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener("afterprint", () => setTimeout(() => frame.remove(), 0));
+    win.focus();
+    win.print();
+    // Some browsers never fire afterprint; clean up eventually
+    setTimeout(() => frame.remove(), 60_000);
+  };
+
+  document.body.appendChild(frame);
+}
+
+export function printReport(report: ExportReport) {
+  printHtmlReport(buildHtmlReport(report));
+}
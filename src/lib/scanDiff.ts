@@ -0,0 +1,203 @@
+// src/lib/scanDiff.ts
+// Normalized snapshots of Scanner / WebSecurity results and scan-to-scan diffs.
+
+import type { RealScanResult } from "./scanner.js";
+import { grade, type WebSecurityResult } from "./webSecurity.js";
+
+export type ScanKind = "scanner" | "web";
+
+type Severity = "critical" | "high" | "medium" | "low" | "info";
+
+export type SnapshotFinding = {
+  key: string;
+  title: string;
+  severity: Severity;
+};
+
+export type ScanSnapshot = {
+  kind: ScanKind;
+  target: string;
+  scannedAt: string;
+  score: number;
+  grade: string;
+  headers: Record<string, string>;
+  cookies: Record<string, string>; // name -> attribute signature (values ignored)
+  certificate: { issuer: string; validTo: string; fingerprint: string } | null;
+  findings: SnapshotFinding[];
+};
+
+export type ScanDiff = {
+  from: ScanSnapshot;
+  to: ScanSnapshot;
+  scoreDelta: number;
+  gradeDrop: boolean;
+  headers: {
+    added: { name: string; value: string }[];
+    removed: { name: string; value: string }[];
+    changed: { name: string; from: string; to: string }[];
+  };
+  cookies: {
+    added: string[];
+    removed: string[];
+    changed: { name: string; from: string; to: string }[];
+  };
+  certificate: {
+    rotated: boolean;
+    from: ScanSnapshot["certificate"];
+    to: ScanSnapshot["certificate"];
+  };
+  findings: { added: SnapshotFinding[]; resolved: SnapshotFinding[] };
+  regression: boolean;
+  regressionReasons: string[];
+};
+
+// Per-request headers that change on every scan and say nothing about posture
+const VOLATILE_HEADERS = new Set([
+  "date",
+  "age",
+  "expires",
+  "etag",
+  "last-modified",
+  "content-length",
+  "set-cookie",
+  "cf-ray",
+  "x-request-id",
+  "x-amz-cf-id",
+  "x-amz-request-id",
+  "x-vercel-id",
+  "x-nf-request-id",
+  "x-served-by",
+  "x-cache",
+  "x-cache-hits",
+  "x-timer",
+  "x-iinfo",
+  "report-to",
+  "nel",
+]);
+
+const GRADES = ["A", "B", "C", "D", "F"];
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, low: 1, medium: 2, high: 3, critical: 4 };
+
+function stableHeaders(headers: Record<string, string | string[] | undefined>) {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers || {})) {
+    const key = k.toLowerCase();
+    if (v === undefined || VOLATILE_HEADERS.has(key)) continue;
+    out[key] = Array.isArray(v) ? v.join(", ") : String(v);
+  }
+  return out;
+}
+
+// "sid=abc; Path=/; Secure; Max-Age=3600" -> ["sid", "max-age; path=/; secure"]
+function cookieSignature(raw: string): [string, string] {
+  const [pair, ...attrs] = raw.split(";");
+  const name = pair.split("=")[0].trim();
+  const sig = attrs
+    .map((a) => a.trim())
+    .filter(Boolean)
+    .map((a) => {
+      const [k, ...rest] = a.split("=");
+      const key = k.trim().toLowerCase();
+      // Lifetimes move with every response; keep only that one is set
+      return key === "expires" || key === "max-age" ? key : rest.length ? `${key}=${rest.join("=").trim()}` : key;
+    })
+    .sort()
+    .join("; ");
+  return [name, sig];
+}
+
+function cookieMap(raw: string[] | string | undefined) {
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return Object.fromEntries(list.map(cookieSignature));
+}
+
+export function snapshotFromScan(r: RealScanResult): ScanSnapshot {
+  const tls = r.context?.tls;
+  return {
+    kind: "scanner",
+    target: r.target,
+    scannedAt: r.scannedAt,
+    score: r.score,
+    grade: grade(r.score),
+    headers: stableHeaders(r.context?.headers || {}),
+    cookies: cookieMap(r.context?.cookies),
+    certificate:
+      tls?.fingerprint || tls?.validTo
+        ? { issuer: tls.issuer || "Unknown", validTo: tls.validTo || "", fingerprint: tls.fingerprint || "" }
+        : null,
+    findings: r.results.flatMap((c) =>
+      c.findings.map((f) => ({ key: `${c.category}|${f.title}`, title: f.title, severity: f.severity }))
+    ),
+  };
+}
+
+export function snapshotFromWeb(r: WebSecurityResult): ScanSnapshot {
+  return {
+    kind: "web",
+    target: new URL(r.url).hostname,
+    scannedAt: r.scannedAt,
+    score: r.score,
+    grade: r.grade,
+    headers: stableHeaders(r.headers),
+    cookies: cookieMap(r.headers?.["set-cookie"]),
+    certificate: r.certificate
+      ? { issuer: r.certificate.issuer, validTo: r.certificate.validTo, fingerprint: r.certificate.fingerprint || "" }
+      : null,
+    // Results stored before findings had ids fall back to the (less stable) title
+    findings: (r.findings || []).map((f) => ({ key: f.id || f.title, title: f.title, severity: f.severity })),
+  };
+}
+
+export function diffSnapshots(from: ScanSnapshot, to: ScanSnapshot): ScanDiff {
+  const headers: ScanDiff["headers"] = { added: [], removed: [], changed: [] };
+  for (const [name, value] of Object.entries(to.headers)) {
+    if (!(name in from.headers)) headers.added.push({ name, value });
+    else if (from.headers[name] !== value) headers.changed.push({ name, from: from.headers[name], to: value });
+  }
+  for (const [name, value] of Object.entries(from.headers)) {
+    if (!(name in to.headers)) headers.removed.push({ name, value });
+  }
+
+  const cookies: ScanDiff["cookies"] = { added: [], removed: [], changed: [] };
+  for (const [name, sig] of Object.entries(to.cookies)) {
+    if (!(name in from.cookies)) cookies.added.push(name);
+    else if (from.cookies[name] !== sig) cookies.changed.push({ name, from: from.cookies[name], to: sig });
+  }
+  for (const name of Object.keys(from.cookies)) {
+    if (!(name in to.cookies)) cookies.removed.push(name);
+  }
+
+  const rotated =
+    !!from.certificate &&
+    !!to.certificate &&
+    (from.certificate.fingerprint && to.certificate.fingerprint
+      ? from.certificate.fingerprint !== to.certificate.fingerprint
+      : from.certificate.validTo !== to.certificate.validTo);
+
+  const fromKeys = new Set(from.findings.map((f) => f.key));
+  const toKeys = new Set(to.findings.map((f) => f.key));
+  const added = to.findings.filter((f) => !fromKeys.has(f.key));
+  const resolved = from.findings.filter((f) => !toKeys.has(f.key));
+
+  const gradeDrop = GRADES.indexOf(to.grade) > GRADES.indexOf(from.grade);
+  const regressionReasons: string[] = [];
+  if (gradeDrop) regressionReasons.push(`Grade dropped from ${from.grade} to ${to.grade}`);
+  for (const f of added) {
+    if (SEVERITY_RANK[f.severity] >= SEVERITY_RANK.high) {
+      regressionReasons.push(`New ${f.severity} finding: ${f.title}`);
+    }
+  }
+
+  return {
+    from,
+    to,
+    scoreDelta: to.score - from.score,
+    gradeDrop,
+    headers,
+    cookies,
+    certificate: { rotated, from: from.certificate, to: to.certificate },
+    findings: { added, resolved },
+    regression: regressionReasons.length > 0,
+    regressionReasons,
+  };
+}
@@ -0,0 +1,95 @@
+// src/lib/scanStore.ts
+// Full scan results persisted per target (newest first) for history and diffing.
+
+import type { RealScanResult } from "./scanner";
+import type { WebSecurityResult } from "./webSecurity";
+import { diffSnapshots, snapshotFromScan, snapshotFromWeb, type ScanDiff, type ScanKind } from "./scanDiff";
+
+type ResultFor<K extends ScanKind> = K extends "scanner" ? RealScanResult : WebSecurityResult;
+type Store<K extends ScanKind> = Record<string, ResultFor<K>[]>;
+
+const STORE_KEYS: Record<ScanKind, string> = {
+  scanner: "pasco_scan_results_v1",
+  web: "pasco_web_results_v1",
+};
+
+const MAX_PER_TARGET = 5;
+const MAX_TARGETS = 25;
+
+function readStore<K extends ScanKind>(kind: K): Store<K> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORE_KEYS[kind]) || "{}");
+    return raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+  } catch {
+    return {};
+  }
+}
+
+function latestAt<K extends ScanKind>(list: ResultFor<K>[]) {
+  return list[0] ? new Date(list[0].scannedAt).getTime() : 0;
+}
+
+function writeStore<K extends ScanKind>(kind: K, store: Store<K>) {
+  // Oldest targets are dropped first when the quota is hit
+  const entries = Object.entries(store).sort((a, b) => latestAt(b[1]) - latestAt(a[1]));
+  let keep = Math.min(entries.length, MAX_TARGETS);
+
+  while (keep > 0) {
+    try {
+      localStorage.setItem(STORE_KEYS[kind], JSON.stringify(Object.fromEntries(entries.slice(0, keep))));
+      return;
+    } catch {
+      keep -= 1;
+    }
+  }
+  localStorage.removeItem(STORE_KEYS[kind]);
+}
+
+export function targetKey(kind: ScanKind, result: RealScanResult | WebSecurityResult) {
+  return kind === "scanner"
+    ? (result as RealScanResult).target.toLowerCase()
+    : new URL((result as WebSecurityResult).url).hostname.toLowerCase();
+}
+
+export function saveScan<K extends ScanKind>(kind: K, result: ResultFor<K>) {
+  const store = readStore(kind);
+  const key = targetKey(kind, result);
+  store[key] = [result, ...(store[key] || [])].slice(0, MAX_PER_TARGET);
+  writeStore(kind, store);
+}
+
+export function listScans<K extends ScanKind>(kind: K, target: string): ResultFor<K>[] {
+  return readStore(kind)[target.toLowerCase()] || [];
+}
+
+/** Latest result per target, newest first. */
+export function listLatest<K extends ScanKind>(kind: K): ResultFor<K>[] {
+  return Object.values(readStore(kind))
+    .filter((list) => list.length)
+    .sort((a, b) => latestAt(b) - latestAt(a))
+    .map((list) => list[0]);
+}
+
+export function clearScans(kind: ScanKind) {
+  localStorage.removeItem(STORE_KEYS[kind]);
+}
+
+export function snapshotsFor(kind: ScanKind, target: string) {
+  return kind === "scanner"
+    ? listScans("scanner", target).map(snapshotFromScan)
+    : listScans("web", target).map(snapshotFromWeb);
+}
+
+/** Latest vs previous scan for every target whose newest result regressed. */
+export function findRegressions(): ScanDiff[] {
+  const out: ScanDiff[] = [];
+  for (const kind of ["scanner", "web"] as ScanKind[]) {
+    for (const target of Object.keys(readStore(kind))) {
+      const [latest, previous] = snapshotsFor(kind, target);
+      if (!latest || !previous) continue;
+      const diff = diffSnapshots(previous, latest);
+      if (diff.regression) out.push(diff);
+    }
+  }
+  return out.sort((a, b) => new Date(b.to.scannedAt).getTime() - new Date(a.to.scannedAt).getTime());
+}
@@ -1,5 +1,11 @@
 // src/lib/scanner.ts
-// REAL, non-intrusive, browser-safe security scanner
+// REAL, non-intrusive security scanner.
+// Facts are gathered server-side by /api/scan; the check registry below turns them
+// into findings. evaluateScan() has no runtime dependencies so the handler shares it.
+
+import { technologyFindings, type Technology } from "./fingerprint.js";
+import { matchVulnerabilities } from "./vulnerabilities.js";
+import { isUntrustedChain } from "./webSecurity.js";
 
 export type Finding = {
   title: string;
@@ -8,201 +14,508 @@ export type Finding = {
   recommendation: string;
 };
 
+export type CheckIcon = "Eye" | "Bug" | "Network" | "Lock" | "Layers";
+
 export type CategoryResult = {
   category: string;
-  icon: "Eye" | "Bug" | "Network" | "Lock";
+  icon: CheckIcon;
   findings: Finding[];
 };
 
+export type PortState = {
+  port: number;
+  service: string;
+  open: boolean;
+};
+
+// Everything the server observed about a target
+export type ScanContext = {
+  target: string; // hostname
+  url: string;
+  addresses: string[];
+  reachable: boolean;
+  error: string | null;
+  statusCode: number | null;
+  finalUrl: string | null;
+  https: boolean; // final response served over TLS
+  headers: Record<string, string>; // lower-cased, final response
+  cookies: string[]; // raw Set-Cookie values
+  tls: {
+    protocol: string | null;
+    authorized: boolean;
+    authorizationError: string | null;
+    hostnameMatch: boolean;
+    daysRemaining: number | null;
+    issuer: string | null;
+    validTo: string | null;
+    fingerprint: string | null;
+  } | null;
+  ports: PortState[];
+  technologies: Technology[];
+};
+
+/* =======================
+   CHECK PLUGINS
+   ======================= */
+
+// weight = points taken off the 100-point score when the finding is reported
+export type CheckFinding = Finding & { weight: number };
+
+export type ScanCheck = {
+  id: string; // stable, used for enable/disable
+  title: string;
+  category: string;
+  icon: CheckIcon;
+  run: (ctx: ScanContext) => CheckFinding[];
+};
+
+export type CheckRun = {
+  id: string;
+  title: string;
+  category: string;
+  status: "ran" | "skipped";
+  findings: number;
+  weight: number; // total points this check took off
+};
+
 export type RealScanResult = {
   target: string;
   score: number; // 0–100 (higher = safer)
   results: CategoryResult[];
+  checks: CheckRun[];
+  context: ScanContext;
   scannedAt: string;
 };
 
-function normalizeUrl(input: string): URL {
-  try {
-    return new URL(input.startsWith("http") ? input : `https://${input}`);
-  } catch {
-    throw new Error("Your URL is incorrect");
-  }
-}
+// Ports checked for reachability (TCP connect only) and how risky an open one is
+export const SCAN_PORTS: { port: number; service: string; severity: Finding["severity"]; penalty: number }[] = [
+  { port: 21, service: "FTP", severity: "medium", penalty: 5 },
+  { port: 22, service: "SSH", severity: "low", penalty: 2 },
+  { port: 23, service: "Telnet", severity: "high", penalty: 10 },
+  { port: 25, service: "SMTP", severity: "info", penalty: 0 },
+  { port: 80, service: "HTTP", severity: "info", penalty: 0 },
+  { port: 443, service: "HTTPS", severity: "info", penalty: 0 },
+  { port: 3306, service: "MySQL", severity: "high", penalty: 10 },
+  { port: 3389, service: "RDP", severity: "high", penalty: 10 },
+  { port: 5432, service: "PostgreSQL", severity: "high", penalty: 10 },
+  { port: 6379, service: "Redis", severity: "high", penalty: 10 },
+  { port: 8080, service: "HTTP-alt", severity: "low", penalty: 1 },
+  { port: 27017, service: "MongoDB", severity: "high", penalty: 10 },
+];
 
-export async function runRealScan(target: string): Promise<RealScanResult> {
-  const url = normalizeUrl(target);
-  let score = 100;
-  const results: CategoryResult[] = [];
+function missingHeaderCheck(
+  id: string,
+  title: string,
+  header: string,
+  finding: CheckFinding
+): ScanCheck {
+  return {
+    id,
+    title,
+    category: "Vulnerability Overview",
+    icon: "Bug",
+    run: (ctx) => (ctx.reachable && !ctx.headers[header] ? [finding] : []),
+  };
+}
 
-  /* =======================
-     RECONNAISSANCE (REAL)
-     ======================= */
-  results.push({
+const BUILTIN_CHECKS: ScanCheck[] = [
+  /* ---------- RECONNAISSANCE ---------- */
+  {
+    id: "recon.resolution",
+    title: "DNS resolution",
     category: "Reconnaissance",
     icon: "Eye",
-    findings: [
-      {
-        title: "Target Resolved",
-        severity: "info",
-        description: `The target ${url.hostname} was successfully resolved and is reachable.`,
-        recommendation: "No action required.",
-      },
-    ],
-  });
-
-  /* =======================
-     FETCH & HEADERS (REAL)
-     ======================= */
-  let headers: Headers | null = null;
-  const isHttps = url.protocol === "https:";
+    run: (ctx) =>
+      ctx.addresses.length
+        ? [
+            {
+              title: "Target Resolved",
+              severity: "info",
+              description: `${ctx.target} resolves to ${ctx.addresses.join(", ")}.`,
+              recommendation: "No action required.",
+              weight: 0,
+            },
+          ]
+        : [
+            {
+              title: "Target Did Not Resolve",
+              severity: "high",
+              description: `No A/AAAA records were found for ${ctx.target}.`,
+              recommendation: "Check the hostname and its DNS records.",
+              weight: 40,
+            },
+          ],
+  },
 
-  try {
-    const res = await fetch(url.toString(), { method: "GET" });
-    headers = res.headers;
-  } catch {
-    score -= 40;
-    results.push({
-      category: "Vulnerability Overview",
-      icon: "Bug",
-      findings: [
-        {
-          title: "Target Unreachable",
+  /* ---------- FETCH & HEADERS ---------- */
+  {
+    id: "http.reachability",
+    title: "HTTP reachability",
+    category: "Vulnerability Overview",
+    icon: "Bug",
+    run: (ctx) =>
+      !ctx.reachable && ctx.addresses.length
+        ? [
+            {
+              title: "Target Unreachable",
+              severity: "critical",
+              description: `The scan server could not fetch the target${ctx.error ? ` (${ctx.error})` : ""}.`,
+              recommendation: "Ensure the server is online and allows public access.",
+              weight: 40,
+            },
+          ]
+        : [],
+  },
+  missingHeaderCheck("headers.csp", "Content-Security-Policy header", "content-security-policy", {
+    title: "Missing Content-Security-Policy",
+    severity: "medium",
+    description: "Content Security Policy is not defined, increasing the risk of XSS attacks.",
+    recommendation: "Add a strict Content-Security-Policy header.",
+    weight: 10,
+  }),
+  missingHeaderCheck("headers.x-frame-options", "X-Frame-Options header", "x-frame-options", {
+    title: "Missing X-Frame-Options",
+    severity: "low",
+    description: "Clickjacking protection is not enabled.",
+    recommendation: "Add X-Frame-Options: DENY or SAMEORIGIN.",
+    weight: 5,
+  }),
+  missingHeaderCheck("headers.x-content-type-options", "X-Content-Type-Options header", "x-content-type-options", {
+    title: "Missing X-Content-Type-Options",
+    severity: "low",
+    description: "MIME sniffing protection is not enabled.",
+    recommendation: "Add X-Content-Type-Options: nosniff.",
+    weight: 5,
+  }),
+  {
+    id: "vuln.known-versions",
+    title: "Known-vulnerable versions",
+    category: "Vulnerability Overview",
+    icon: "Bug",
+    run: (ctx) =>
+      matchVulnerabilities(ctx.technologies || []).map((m) => ({
+        title: `${m.cve} in ${m.product} ${m.version}${m.exact ? "" : " (possible)"}`,
+        severity: m.severity,
+        description: `${m.summary} CVSS ${m.cvss.toFixed(1)}. Evidence: ${m.evidence}.${
+          m.exact ? "" : " The version banner is too coarse to confirm this."
+        }`,
+        recommendation: m.fixedIn
+          ? `Upgrade ${m.product} to ${m.fixedIn} or later.`
+          : `Upgrade ${m.product} to a supported release.`,
+        weight: m.penalty,
+      })),
+  },
+
+  /* ---------- PORT EXPOSURE ---------- */
+  {
+    id: "ports.web",
+    title: "Web service port",
+    category: "Port Exposure",
+    icon: "Network",
+    run: (ctx) => {
+      if (!ctx.reachable || !ctx.finalUrl) return [];
+      const port = new URL(ctx.finalUrl).port || (ctx.https ? "443" : "80");
+      return ctx.https
+        ? [
+            {
+              title: `Port ${port} (HTTPS) Accessible`,
+              severity: "info",
+              description: `The service is accessible over HTTPS (port ${port}).`,
+              recommendation: "Maintain strong TLS configuration.",
+              weight: 0,
+            },
+          ]
+        : [
+            {
+              title: `Port ${port} (HTTP) Accessible`,
+              severity: "medium",
+              description: `The service is accessible over unencrypted HTTP (port ${port}).`,
+              recommendation: "Redirect all HTTP traffic to HTTPS.",
+              weight: 20,
+            },
+          ];
+    },
+  },
+  {
+    id: "ports.exposed",
+    title: "Exposed service ports",
+    category: "Port Exposure",
+    icon: "Network",
+    run: (ctx) =>
+      ctx.ports.flatMap((p) => {
+        const meta = SCAN_PORTS.find((x) => x.port === p.port);
+        if (!p.open || !meta || p.port === 80 || p.port === 443) return [];
+        return [
+          {
+            title: `Port ${p.port} (${p.service}) Reachable`,
+            severity: meta.severity,
+            description: `A TCP connection to port ${p.port} succeeded from the internet.`,
+            recommendation:
+              meta.penalty >= 10
+                ? `Do not expose ${p.service} publicly; restrict it with a firewall or VPN.`
+                : `Confirm ${p.service} needs to be public and is hardened.`,
+            weight: meta.penalty,
+          },
+        ];
+      }),
+  },
+
+  /* ---------- SSL / TLS ---------- */
+  {
+    id: "tls.enforced",
+    title: "TLS enforcement",
+    category: "SSL/TLS Analysis",
+    icon: "Lock",
+    run: (ctx) =>
+      ctx.reachable && !ctx.https
+        ? [
+            {
+              title: "TLS Not Enforced",
+              severity: "high",
+              description: "Encrypted TLS connections are not enforced.",
+              recommendation: "Enable HTTPS with a valid TLS certificate.",
+              weight: 0, // already scored by ports.web
+            },
+          ]
+        : [],
+  },
+  {
+    id: "tls.hsts",
+    title: "HSTS header",
+    category: "SSL/TLS Analysis",
+    icon: "Lock",
+    run: (ctx) =>
+      ctx.reachable && ctx.https && !ctx.headers["strict-transport-security"]
+        ? [
+            {
+              title: "HSTS Not Enabled",
+              severity: "medium",
+              description: "HTTP Strict Transport Security is not enabled.",
+              recommendation: "Enable HSTS to prevent downgrade attacks.",
+              weight: 10,
+            },
+          ]
+        : [],
+  },
+  {
+    id: "tls.certificate",
+    title: "Certificate validity",
+    category: "SSL/TLS Analysis",
+    icon: "Lock",
+    run: (ctx) => {
+      const tls = ctx.tls;
+      if (!tls) return [];
+      const out: CheckFinding[] = [];
+
+      if (tls.daysRemaining !== null && tls.daysRemaining < 0) {
+        out.push({
+          title: "Certificate Expired",
           severity: "critical",
-          description:
-            "The target could not be reached from the browser. It may be offline or blocking requests.",
-          recommendation: "Ensure the server is online and allows public access.",
+          description: `The certificate expired ${Math.abs(tls.daysRemaining)} days ago.`,
+          recommendation: "Renew the certificate and automate renewal.",
+          weight: 25,
+        });
+      } else if (tls.daysRemaining !== null && tls.daysRemaining <= 14) {
+        out.push({
+          title: "Certificate Expires Soon",
+          severity: "medium",
+          description: `The certificate expires in ${tls.daysRemaining} days.`,
+          recommendation: "Renew the certificate and automate renewal.",
+          weight: 5,
+        });
+      }
+
+      if (!tls.hostnameMatch) {
+        out.push({
+          title: "Certificate Hostname Mismatch",
+          severity: "high",
+          description: `The certificate is not valid for ${ctx.target}.`,
+          recommendation: "Issue a certificate that covers this hostname.",
+          weight: 15,
+        });
+      }
+
+      if (isUntrustedChain(tls)) {
+        out.push({
+          title: "Untrusted Certificate Chain",
+          severity: "high",
+          description: `Certificate validation failed (${tls.authorizationError || "unknown error"}).`,
+          recommendation: "Serve a certificate from a trusted CA with the full intermediate chain.",
+          weight: 15,
+        });
+      }
+
+      return out;
+    },
+  },
+  {
+    id: "tls.protocol",
+    title: "TLS protocol version",
+    category: "SSL/TLS Analysis",
+    icon: "Lock",
+    run: (ctx) =>
+      ctx.tls?.protocol && ["SSLv3", "TLSv1", "TLSv1.1"].includes(ctx.tls.protocol)
+        ? [
+            {
+              title: "Outdated TLS Protocol",
+              severity: "high",
+              description: `The server negotiated ${ctx.tls.protocol}.`,
+              recommendation: "Disable TLS 1.0/1.1 and prefer TLS 1.3.",
+              weight: 10,
+            },
+          ]
+        : [],
+  },
+
+  /* ---------- TECHNOLOGY ---------- */
+  {
+    id: "tech.fingerprint",
+    title: "Technology fingerprint",
+    category: "Technology",
+    icon: "Layers",
+    run: (ctx) =>
+      technologyFindings(ctx.technologies || []).map((f) => ({
+        title: f.technology ? `${f.technology.name} Version Disclosed` : "Technologies Identified",
+        severity: f.severity,
+        description: f.detail,
+        recommendation:
+          f.penalty > 0
+            ? "Remove version numbers from Server/X-Powered-By headers and generator tags."
+            : "Review that each listed component is expected and kept up to date.",
+        weight: f.penalty,
+      })),
+  },
+];
+
+// Shown when every check in a category ran clean (other empty categories are omitted)
+const CATEGORY_FALLBACKS: Record<string, (ctx: ScanContext) => Finding> = {
+  "Port Exposure": () => ({
+    title: "No Ports Reachable",
+    severity: "info",
+    description: "None of the checked ports accepted a connection.",
+    recommendation: "No action required.",
+  }),
+  Technology: () => ({
+    title: "No Technologies Identified",
+    severity: "info",
+    description: "No known server, framework, CDN or WAF signatures matched.",
+    recommendation: "No action required.",
+  }),
+  "SSL/TLS Analysis": (ctx) =>
+    ctx.reachable
+      ? {
+          title: "TLS Enabled",
+          severity: "info",
+          description: "TLS encryption is enabled for this target.",
+          recommendation: "Keep certificates and ciphers up to date.",
+        }
+      : {
+          title: "TLS Not Assessed",
+          severity: "info",
+          description: "No response was received, so the TLS configuration could not be checked.",
+          recommendation: "Re-run the scan once the target is reachable.",
         },
-      ],
-    });
+};
+
+const registry: ScanCheck[] = [...BUILTIN_CHECKS];
+
+/** Add a custom check. Ids must be unique; built-in checks cannot be replaced. */
+export function registerCheck(check: ScanCheck) {
+  if (registry.some((c) => c.id === check.id)) {
+    throw new Error(`Scan check "${check.id}" is already registered`);
   }
+  registry.push(check);
+}
 
-  /* =======================
-     VULNERABILITY OVERVIEW
-     ======================= */
-  const vulnFindings: Finding[] = [];
-
-  if (headers) {
-    if (!headers.get("content-security-policy")) {
-      vulnFindings.push({
-        title: "Missing Content-Security-Policy",
-        severity: "medium",
-        description:
-          "Content Security Policy is not defined, increasing the risk of XSS attacks.",
-        recommendation: "Add a strict Content-Security-Policy header.",
-      });
-      score -= 10;
-    }
+export function listChecks(): ScanCheck[] {
+  return [...registry];
+}
 
-    if (!headers.get("x-frame-options")) {
-      vulnFindings.push({
-        title: "Missing X-Frame-Options",
-        severity: "low",
-        description:
-          "Clickjacking protection is not enabled.",
-        recommendation: "Add X-Frame-Options: DENY or SAMEORIGIN.",
-      });
-      score -= 5;
-    }
+export function evaluateScan(
+  ctx: ScanContext,
+  options: { disabled?: string[] } = {}
+): RealScanResult {
+  const disabled = new Set(options.disabled || []);
+  const byCategory = new Map<string, CategoryResult>();
+  const checks: CheckRun[] = [];
+  let score = 100;
 
-    if (!headers.get("x-content-type-options")) {
-      vulnFindings.push({
-        title: "Missing X-Content-Type-Options",
-        severity: "low",
-        description:
-          "MIME sniffing protection is not enabled.",
-        recommendation: "Add X-Content-Type-Options: nosniff.",
-      });
-      score -= 5;
+  for (const check of registry) {
+    const base = { id: check.id, title: check.title, category: check.category };
+
+    if (disabled.has(check.id)) {
+      checks.push({ ...base, status: "skipped", findings: 0, weight: 0 });
+      continue;
     }
-  }
 
-  if (vulnFindings.length > 0) {
-    results.push({
-      category: "Vulnerability Overview",
-      icon: "Bug",
-      findings: vulnFindings,
-    });
-  }
+    const findings = check.run(ctx);
+    const weight = findings.reduce((sum, f) => sum + f.weight, 0);
+    score -= weight;
+    checks.push({ ...base, status: "ran", findings: findings.length, weight });
 
-  /* =======================
-     PORT EXPOSURE (INFERENCE)
-     ======================= */
-  const portFindings: Finding[] = [];
-
-  if (isHttps) {
-    portFindings.push({
-      title: "Port 443 (HTTPS) Accessible",
-      severity: "info",
-      description:
-        "The service is accessible over HTTPS (port 443).",
-      recommendation: "Maintain strong TLS configuration.",
-    });
-  } else {
-    score -= 20;
-    portFindings.push({
-      title: "Port 80 (HTTP) Accessible",
-      severity: "medium",
-      description:
-        "The service is accessible over unencrypted HTTP (port 80).",
-      recommendation: "Redirect all HTTP traffic to HTTPS.",
-    });
+    const category = byCategory.get(check.category) || { category: check.category, icon: check.icon, findings: [] };
+    category.findings.push(...findings.map(({ weight: _weight, ...finding }) => finding));
+    byCategory.set(check.category, category);
   }
 
-  results.push({
-    category: "Port Exposure",
-    icon: "Network",
-    findings: portFindings,
-  });
-
-  /* =======================
-     SSL / TLS ANALYSIS
-     ======================= */
-  const sslFindings: Finding[] = [];
-
-  if (!isHttps) {
-    sslFindings.push({
-      title: "TLS Not Enforced",
-      severity: "high",
-      description:
-        "Encrypted TLS connections are not enforced.",
-      recommendation: "Enable HTTPS with a valid TLS certificate.",
-    });
-  }
-
-  if (headers && isHttps && !headers.get("strict-transport-security")) {
-    sslFindings.push({
-      title: "HSTS Not Enabled",
-      severity: "medium",
-      description:
-        "HTTP Strict Transport Security is not enabled.",
-      recommendation: "Enable HSTS to prevent downgrade attacks.",
-    });
-    score -= 10;
+  const results: CategoryResult[] = [];
+  for (const category of byCategory.values()) {
+    if (!category.findings.length) {
+      const fallback = CATEGORY_FALLBACKS[category.category];
+      if (!fallback) continue;
+      category.findings.push(fallback(ctx));
+    }
+    results.push(category);
   }
 
-  results.push({
-    category: "SSL/TLS Analysis",
-    icon: "Lock",
-    findings:
-      sslFindings.length > 0
-        ? sslFindings
-        : [
-            {
-              title: "TLS Enabled",
-              severity: "info",
-              description:
-                "TLS encryption is enabled for this target.",
-              recommendation: "Keep certificates and ciphers up to date.",
-            },
-          ],
-  });
-
   if (score < 0) score = 0;
 
   return {
-    target: url.hostname,
+    target: ctx.target,
     score,
     results,
+    checks,
+    context: ctx,
     scannedAt: new Date().toISOString(),
   };
 }
+
+/* =======================
+   CLIENT
+   ======================= */
+
+export const SCANNER_CHECKS_KEY = "pasco_scanner_disabled_checks";
+
+export function readDisabledChecks(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SCANNER_CHECKS_KEY) || "[]");
+    return Array.isArray(raw) ? raw.filter((x): x is string => typeof x === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveDisabledChecks(ids: string[]) {
+  localStorage.setItem(SCANNER_CHECKS_KEY, JSON.stringify(ids));
+}
+
+function normalizeUrl(input: string): URL {
+  try {
+    return new URL(input.startsWith("http") ? input : `https://${input}`);
+  } catch {
+    throw new Error("Your URL is incorrect");
+  }
+}
+
+export async function runRealScan(target: string): Promise<RealScanResult> {
+  const url = normalizeUrl(target);
+
+  const r = await fetch(`/api/scan?target=${encodeURIComponent(url.toString())}`);
+  const data = await r.json().catch(() => null);
+
+  if (!data) throw new Error("Backend did not return JSON");
+  if (!r.ok || data.error) throw new Error(data.error || "Scan failed");
+
+  // Re-run the registry in the browser so Settings toggles and custom checks apply
+  return evaluateScan((data as RealScanResult).context, { disabled: readDisabledChecks() });
+}
@@ -0,0 +1,180 @@
+// src/lib/schedule.ts
+// Recurring scan schedules (daily / weekly / 5-field cron), evaluated in UTC.
+// Shared by the server-side job runner and the Scanner schedule editor.
+
+export type Schedule =
+  | { kind: "daily"; time: string } // "HH:MM"
+  | { kind: "weekly"; day: number; time: string } // day: 0 = Sunday
+  | { kind: "cron"; expression: string };
+
+type CronField = Set<number>;
+
+type ParsedCron = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const FIELD_BOUNDS: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (7 = Sunday)
+];
+
+const NAMES: Record<string, number>[] = [
+  {},
+  {},
+  {},
+  { jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12 },
+  { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 },
+];
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+// Never search further than this for the next matching minute (covers "0 0 29 2 *")
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseValue(raw: string, index: number) {
+  const named = NAMES[index][raw.toLowerCase()];
+  // Number("") is 0, so "0,,5" or "1-" would otherwise parse
+  const n = named ?? (raw === "" ? NaN : Number(raw));
+  const [min, max] = FIELD_BOUNDS[index];
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new Error(`Invalid value "${raw}" in cron field ${index + 1}`);
+  }
+  return n;
+}
+
+function parseField(raw: string, index: number): CronField {
+  const [min, max] = FIELD_BOUNDS[index];
+  const out: CronField = new Set();
+
+  for (const part of raw.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step "${part}" in cron field ${index + 1}`);
+
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      [lo, hi] = [min, max];
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      [lo, hi] = [parseValue(a, index), parseValue(b, index)];
+      if (lo > hi) throw new Error(`Invalid range "${range}" in cron field ${index + 1}`);
+    } else {
+      lo = parseValue(range, index);
+      hi = stepRaw === undefined ? lo : max;
+    }
+
+    for (let v = lo; v <= hi; v += step) out.add(index === 4 && v === 7 ? 0 : v);
+  }
+
+  return out;
+}
+
+export function parseCron(expression: string): ParsedCron {
+  const expr = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = expr.split(/\s+/);
+  if (fields.length !== 5) throw new Error("Cron expression must have 5 fields (minute hour day month weekday)");
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map(parseField);
+  return {
+    minute,
+    hour,
+    dayOfMonth,
+    month,
+    dayOfWeek,
+    // Vixie cron treats a day field starting with "*" (including "*/2") as unrestricted
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+function parseTime(time: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) throw new Error(`Invalid time "${time}" (expected HH:MM)`);
+  return { hour: Number(m[1]), minute: Number(m[2]) };
+}
+
+function toCron(schedule: Schedule): ParsedCron {
+  if (schedule.kind === "cron") return parseCron(schedule.expression);
+  const { hour, minute } = parseTime(schedule.time);
+  if (schedule.kind === "daily") return parseCron(`${minute} ${hour} * * *`);
+  if (!Number.isInteger(schedule.day) || schedule.day < 0 || schedule.day > 6) {
+    throw new Error("Weekly schedules need a day between 0 (Sunday) and 6");
+  }
+  return parseCron(`${minute} ${hour} * * ${schedule.day}`);
+}
+
+/** Throws with a readable message when the schedule cannot be evaluated. */
+export function validateSchedule(schedule: Schedule) {
+  toCron(schedule);
+}
+
+function matchesDay(cron: ParsedCron, d: Date) {
+  const dom = cron.dayOfMonth.has(d.getUTCDate());
+  const dow = cron.dayOfWeek.has(d.getUTCDay());
+  // Vixie cron: when both day fields are restricted, either one may match
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) return dom || dow;
+  return dom && dow;
+}
+
+/** First run strictly after `from` (UTC), or null when nothing matches within five years. */
+export function nextRunAt(schedule: Schedule, from: Date): Date | null {
+  const cron = toCron(schedule);
+  const d = new Date(from.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+
+  const limit = from.getTime() + MAX_LOOKAHEAD_DAYS * 86_400_000;
+  while (d.getTime() <= limit) {
+    if (!cron.month.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hour.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minute.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1);
+      continue;
+    }
+    return d;
+  }
+  return null;
+}
+
+export function describeSchedule(schedule: Schedule) {
+  switch (schedule.kind) {
+    case "daily":
+      return `Daily at ${schedule.time} UTC`;
+    case "weekly":
+      return `Weekly on ${WEEKDAYS[schedule.day] ?? "?"} at ${schedule.time} UTC`;
+    default:
+      return `Cron: ${schedule.expression} (UTC)`;
+  }
+}
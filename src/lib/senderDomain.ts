@@ -0,0 +1,115 @@
+// src/lib/senderDomain.ts
+// Sender domain classification (corporate / free-mail / disposable / other) and
+// cousin-domain detection against our corporate domains and protected brands.
+
+import { baseDomain } from "./domains";
+import { findLookalike, readProtectedDomains } from "./linkAnalysis";
+import type { MailAuthSeverity } from "./mailAuth";
+import { DISPOSABLE_DOMAINS, FREE_MAIL_PROVIDERS } from "./mailProviders";
+
+export const CORPORATE_DOMAINS_KEY = "pasco_corporate_domains";
+
+export type ProviderKind = "corporate" | "freemail" | "disposable" | "custom";
+
+export type EmailProvider = {
+  kind: ProviderKind;
+  name: string; // "Gmail", "Mailinator", "Corporate (acme.com)", or the domain itself
+  domain: string;
+};
+
+export type SenderLookalike = {
+  header: string; // "Address", "From", "Reply-To", ...
+  domain: string;
+  lookalikeOf: string;
+  corporate: boolean; // imitates one of our own domains rather than a protected brand
+  id: string;
+  severity: MailAuthSeverity;
+  message: string;
+};
+
+const FREE_MAIL_INDEX = new Map(
+  FREE_MAIL_PROVIDERS.flatMap((p) => p.domains.map((d) => [d, p.name] as const))
+);
+
+/* ---------------- Corporate domains ---------------- */
+
+export function readCorporateDomains(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CORPORATE_DOMAINS_KEY) || "[]");
+    return Array.isArray(raw) ? raw.filter((x): x is string => typeof x === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCorporateDomains(domains: string[]) {
+  const clean = [...new Set(domains.map((d) => d.trim().toLowerCase().replace(/^@/, "")).filter(Boolean))];
+  localStorage.setItem(CORPORATE_DOMAINS_KEY, JSON.stringify(clean));
+  return clean;
+}
+
+/* ---------------- Classification ---------------- */
+
+function matchesSuffix(domain: string, entry: string) {
+  return domain === entry || domain.endsWith(`.${entry}`);
+}
+
+export function findDisposable(domain: string) {
+  const d = domain.toLowerCase();
+  return DISPOSABLE_DOMAINS.find((entry) => matchesSuffix(d, entry)) || null;
+}
+
+export function findFreeMailProvider(domain: string) {
+  return FREE_MAIL_INDEX.get(domain.toLowerCase()) || null;
+}
+
+export function classifyProvider(domain: string, corporate = readCorporateDomains()): EmailProvider {
+  const d = domain.toLowerCase();
+
+  const own = corporate.find((c) => matchesSuffix(d, c));
+  if (own) return { kind: "corporate", name: `Corporate (${own})`, domain: d };
+
+  const disposable = findDisposable(d);
+  if (disposable) return { kind: "disposable", name: `Disposable (${disposable})`, domain: d };
+
+  const free = findFreeMailProvider(d);
+  if (free) return { kind: "freemail", name: free, domain: d };
+
+  return { kind: "custom", name: d ? baseDomain(d) : "unknown", domain: d };
+}
+
+/* ---------------- Cousin domains ---------------- */
+
+export function findSenderLookalikes(
+  senders: { header: string; domain: string }[],
+  corporate = readCorporateDomains(),
+  protectedDomains = readProtectedDomains()
+): SenderLookalike[] {
+  const found: SenderLookalike[] = [];
+  const seen = new Set<string>();
+
+  for (const { header, domain } of senders) {
+    const d = domain.toLowerCase();
+    if (!d || seen.has(d)) continue;
+    seen.add(d);
+    // Real mailbox providers and our own domains are not cousins of anything
+    if (findFreeMailProvider(d) || corporate.some((c) => matchesSuffix(d, c))) continue;
+
+    const own = findLookalike(d, corporate);
+    const brand = own ? null : findLookalike(d, protectedDomains);
+    const hit = own || brand;
+    if (!hit) continue;
+
+    found.push({
+      header,
+      domain: d,
+      lookalikeOf: hit.lookalikeOf,
+      corporate: Boolean(own),
+      id: own ? `cousin-${hit.id}` : hit.id,
+      // Imitating our own domain is the classic BEC setup, so it ranks above brand lookalikes
+      severity: own ? "critical" : hit.severity,
+      message: `${header} domain ${d}: ${hit.message}`,
+    });
+  }
+  return found;
+}
@@ -0,0 +1,104 @@
+// src/lib/techSignatures.ts
+// Local technology signature database used by fingerprint.ts.
+// Patterns are case-insensitive regex sources; capture group 1 (when present) is the version.
+
+export type TechCategory =
+  | "Web server"
+  | "Language"
+  | "Framework"
+  | "CMS"
+  | "CDN"
+  | "WAF"
+  | "Hosting"
+  | "JavaScript library";
+
+export type TechSignature = {
+  name: string;
+  category: TechCategory;
+  headers?: Record<string, string>; // lower-cased header name -> value pattern
+  cookies?: string[]; // cookie name patterns
+  meta?: string; // <meta name="generator"> content pattern
+  scripts?: string; // <script src> pattern
+  html?: string; // raw HTML pattern
+};
+
+export const TECH_SIGNATURES: TechSignature[] = [
+  /* ---------- Web servers ---------- */
+  { name: "nginx", category: "Web server", headers: { server: "^nginx(?:/([\\d.]+))?" } },
+  { name: "OpenResty", category: "Web server", headers: { server: "^openresty(?:/([\\d.]+))?" } },
+  { name: "Apache HTTP Server", category: "Web server", headers: { server: "^Apache(?:/([\\d.]+))?(?!-Coyote)" } },
+  { name: "Microsoft IIS", category: "Web server", headers: { server: "^Microsoft-IIS(?:/([\\d.]+))?" } },
+  { name: "LiteSpeed", category: "Web server", headers: { server: "^LiteSpeed" } },
+  { name: "Caddy", category: "Web server", headers: { server: "^Caddy" } },
+  // "Apache-Coyote/1.1" is the HTTP connector version, not Tomcat's
+  { name: "Apache Tomcat", category: "Web server", headers: { server: "^Apache-Coyote" } },
+  { name: "Jetty", category: "Web server", headers: { server: "^Jetty(?:\\(([\\d.]+)[^)]*\\))?" } },
+  { name: "Kestrel", category: "Web server", headers: { server: "^Kestrel" } },
+  { name: "gunicorn", category: "Web server", headers: { server: "^gunicorn(?:/([\\d.]+))?" } },
+  { name: "lighttpd", category: "Web server", headers: { server: "^lighttpd(?:/([\\d.]+))?" } },
+
+  /* ---------- Languages & frameworks ---------- */
+  { name: "PHP", category: "Language", headers: { "x-powered-by": "PHP(?:/([\\d.]+))?" }, cookies: ["^PHPSESSID$"] },
+  {
+    name: "ASP.NET",
+    category: "Framework",
+    headers: { "x-powered-by": "ASP\\.NET", "x-aspnet-version": "([\\d.]+)", "x-aspnetmvc-version": "([\\d.]+)" },
+    cookies: ["^ASP\\.NET_SessionId$", "^\\.AspNetCore\\."],
+  },
+  { name: "Express", category: "Framework", headers: { "x-powered-by": "^Express" } },
+  { name: "Next.js", category: "Framework", headers: { "x-powered-by": "Next\\.js ?([\\d.]+)?" }, scripts: "/_next/" },
+  { name: "Nuxt", category: "Framework", scripts: "/_nuxt/" },
+  { name: "Laravel", category: "Framework", cookies: ["^laravel_session$"] },
+  { name: "Django", category: "Framework", cookies: ["^django_language$", "^sessionid$"], html: "csrfmiddlewaretoken" },
+  { name: "Ruby on Rails", category: "Framework", headers: { "x-runtime": "^[\\d.]+$" }, html: "<meta name=\"csrf-param\" content=\"authenticity_token\"" },
+  { name: "Java Servlet", category: "Framework", cookies: ["^JSESSIONID$"] },
+
+  /* ---------- CMS ---------- */
+  { name: "WordPress", category: "CMS", meta: "^WordPress ?([\\d.]+)?", scripts: "/wp-(?:content|includes)/", headers: { link: "rel=\"https://api\\.w\\.org/\"" } },
+  { name: "Drupal", category: "CMS", meta: "^Drupal ?(\\d+)?", headers: { "x-generator": "^Drupal ?(\\d+)?", "x-drupal-cache": "" } },
+  { name: "Joomla", category: "CMS", meta: "^Joomla!? ?([\\d.]+)?" },
+  { name: "Ghost", category: "CMS", meta: "^Ghost ?([\\d.]+)?" },
+  { name: "Hugo", category: "CMS", meta: "^Hugo ([\\d.]+)" },
+  { name: "Gatsby", category: "CMS", meta: "^Gatsby ([\\d.]+)" },
+  { name: "Shopify", category: "CMS", headers: { "x-shopid": "" }, scripts: "cdn\\.shopify\\.com" },
+  { name: "Wix", category: "CMS", headers: { "x-wix-request-id": "" } },
+  { name: "Squarespace", category: "CMS", headers: { server: "^Squarespace" } },
+
+  /* ---------- CDN & hosting ---------- */
+  { name: "Cloudflare", category: "CDN", headers: { server: "^cloudflare", "cf-ray": "" }, cookies: ["^__cf_bm$", "^__cfruid$"] },
+  { name: "Amazon CloudFront", category: "CDN", headers: { "x-amz-cf-id": "", via: "CloudFront" } },
+  { name: "Fastly", category: "CDN", headers: { "x-fastly-request-id": "", "x-served-by": "^cache-" } },
+  { name: "Akamai", category: "CDN", headers: { server: "^AkamaiGHost", "x-akamai-transformed": "" } },
+  { name: "Azure Front Door", category: "CDN", headers: { "x-azure-ref": "" } },
+  { name: "Google Cloud CDN", category: "CDN", headers: { via: "1\\.1 google" } },
+  { name: "Vercel", category: "Hosting", headers: { "x-vercel-id": "", server: "^Vercel" } },
+  { name: "Netlify", category: "Hosting", headers: { "x-nf-request-id": "", server: "^Netlify" } },
+  { name: "GitHub Pages", category: "Hosting", headers: { server: "^GitHub\\.com" } },
+  { name: "Heroku", category: "Hosting", headers: { via: "vegur" } },
+
+  /* ---------- WAF ---------- */
+  { name: "Sucuri", category: "WAF", headers: { "x-sucuri-id": "", server: "^Sucuri" } },
+  { name: "Imperva Incapsula", category: "WAF", headers: { "x-iinfo": "", "x-cdn": "Incapsula" }, cookies: ["^incap_ses_", "^visid_incap_"] },
+  { name: "AWS WAF", category: "WAF", cookies: ["^aws-waf-token$"] },
+  { name: "F5 BIG-IP", category: "WAF", cookies: ["^BIGipServer", "^TS01[0-9a-f]{6}$"] },
+  { name: "Barracuda", category: "WAF", cookies: ["^barra_counter_session$"] },
+  { name: "ModSecurity", category: "WAF", headers: { server: "mod_security" } },
+
+  /* ---------- JavaScript libraries ---------- */
+  // The version is in the file name (jquery-3.7.1.min.js) or, on CDNs, the directory before it
+  // (cdnjs/Google ".../jquery/3.7.1/jquery.min.js", jsDelivr/unpkg ".../jquery@3.7.1/dist/jquery.min.js")
+  {
+    name: "jQuery",
+    category: "JavaScript library",
+    scripts: "jquery(?:[/@](?=[\\d.]+\\d/)|[.-]?)([\\d.]+\\d)?(?:/(?:[\\w.-]+/)*jquery)?(?:\\.min)?\\.js",
+  },
+  {
+    name: "Bootstrap",
+    category: "JavaScript library",
+    scripts:
+      "bootstrap(?:(?:[/@](?=[\\d.]+\\d/)|[.-])([\\d.]+\\d))?(?:/(?:[\\w.-]+/)*bootstrap)?(?:\\.bundle)?(?:\\.min)?\\.js",
+  },
+  { name: "Angular", category: "JavaScript library", html: "ng-version=\"([\\d.]+)\"" },
+  { name: "React", category: "JavaScript library", html: "data-reactroot|react(?:-dom)?(?:\\.production)?(?:\\.min)?\\.js" },
+  { name: "Vue.js", category: "JavaScript library", html: "data-v-[0-9a-f]{8}|vue(?:@([\\d.]+))?(?:/dist/vue)?(?:\\.min)?\\.js" },
+];
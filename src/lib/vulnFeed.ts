@@ -0,0 +1,196 @@
+// src/lib/vulnFeed.ts
+// Bundled known-vulnerability feed matched offline against fingerprinted technologies.
+// To update: append entries (product names must match TECH_SIGNATURES names) and bump
+// VULN_FEED.updated. Ranges follow OSV semantics: introduced is inclusive, fixed is
+// exclusive, lastAffected is inclusive.
+
+export type VersionRange = {
+  introduced?: string;
+  fixed?: string;
+  lastAffected?: string;
+};
+
+export type VulnEntry = {
+  product: string;
+  cve: string;
+  cvss: number; // CVSS v3 base score
+  summary: string;
+  ranges: VersionRange[];
+};
+
+export const VULN_FEED: { updated: string; entries: VulnEntry[] } = {
+  updated: "2026-10-01",
+  entries: [
+    /* ---------- Apache HTTP Server ---------- */
+    {
+      product: "Apache HTTP Server",
+      cve: "CVE-2021-41773",
+      cvss: 7.5,
+      summary: "Path traversal and file disclosure (RCE with mod_cgi) via crafted URL-encoded paths.",
+      ranges: [{ introduced: "2.4.49", lastAffected: "2.4.49" }],
+    },
+    {
+      product: "Apache HTTP Server",
+      cve: "CVE-2021-42013",
+      cvss: 9.8,
+      summary: "Incomplete fix for CVE-2021-41773 allows path traversal and remote code execution.",
+      ranges: [{ introduced: "2.4.49", fixed: "2.4.51" }],
+    },
+    {
+      product: "Apache HTTP Server",
+      cve: "CVE-2021-44790",
+      cvss: 9.8,
+      summary: "Buffer overflow in the mod_lua multipart parser (r:parsebody).",
+      ranges: [{ fixed: "2.4.52" }],
+    },
+    {
+      product: "Apache HTTP Server",
+      cve: "CVE-2022-22720",
+      cvss: 9.8,
+      summary: "HTTP request smuggling when errors occur while discarding the request body.",
+      ranges: [{ fixed: "2.4.53" }],
+    },
+    {
+      product: "Apache HTTP Server",
+      cve: "CVE-2023-25690",
+      cvss: 9.8,
+      summary: "HTTP request smuggling through mod_proxy with RewriteRule/ProxyPassMatch patterns.",
+      ranges: [{ introduced: "2.4.0", fixed: "2.4.56" }],
+    },
+    {
+      product: "Apache HTTP Server",
+      cve: "CVE-2024-38476",
+      cvss: 9.8,
+      summary: "Malicious backend response headers can trigger information disclosure, SSRF or local script execution.",
+      ranges: [{ fixed: "2.4.60" }],
+    },
+    {
+      product: "Apache HTTP Server",
+      cve: "CVE-2017-9798",
+      cvss: 7.5,
+      summary: "Optionsbleed: OPTIONS responses can leak process memory via invalid <Limit> directives.",
+      ranges: [{ fixed: "2.4.28" }],
+    },
+
+    /* ---------- nginx ---------- */
+    {
+      product: "nginx",
+      cve: "CVE-2021-23017",
+      cvss: 7.7,
+      summary: "One-byte memory overwrite in the DNS resolver can crash workers or allow code execution.",
+      ranges: [{ introduced: "0.6.18", fixed: "1.21.0" }],
+    },
+    {
+      product: "nginx",
+      cve: "CVE-2022-41741",
+      cvss: 7.8,
+      summary: "Memory corruption in ngx_http_mp4_module when processing crafted mp4 files.",
+      ranges: [{ introduced: "1.1.3", fixed: "1.23.2" }],
+    },
+    {
+      product: "nginx",
+      cve: "CVE-2013-2028",
+      cvss: 7.5,
+      summary: "Stack buffer overflow when handling chunked transfer encoding.",
+      ranges: [{ introduced: "1.3.9", lastAffected: "1.4.0" }],
+    },
+
+    /* ---------- PHP ---------- */
+    {
+      product: "PHP",
+      cve: "CVE-2019-11043",
+      cvss: 9.8,
+      summary: "PHP-FPM env_path_info underflow allows remote code execution with certain nginx configs.",
+      ranges: [
+        { introduced: "7.1.0", fixed: "7.1.33" },
+        { introduced: "7.2.0", fixed: "7.2.24" },
+        { introduced: "7.3.0", fixed: "7.3.11" },
+      ],
+    },
+    {
+      product: "PHP",
+      cve: "CVE-2024-4577",
+      cvss: 9.8,
+      summary: "PHP-CGI argument injection on Windows via best-fit character conversion.",
+      ranges: [
+        { introduced: "8.1.0", fixed: "8.1.29" },
+        { introduced: "8.2.0", fixed: "8.2.20" },
+        { introduced: "8.3.0", fixed: "8.3.8" },
+      ],
+    },
+    {
+      product: "PHP",
+      cve: "CVE-2012-1823",
+      cvss: 9.8,
+      summary: "php-cgi treats query strings as command-line arguments, allowing source disclosure and code execution.",
+      ranges: [{ fixed: "5.3.12" }, { introduced: "5.4.0", fixed: "5.4.2" }],
+    },
+
+    /* ---------- Microsoft IIS ---------- */
+    {
+      product: "Microsoft IIS",
+      cve: "CVE-2017-7269",
+      cvss: 9.8,
+      summary: "WebDAV ScStoragePathFromUrl buffer overflow allows remote code execution.",
+      ranges: [{ introduced: "6.0", lastAffected: "6.0" }],
+    },
+    {
+      product: "Microsoft IIS",
+      cve: "CVE-2015-1635",
+      cvss: 9.8,
+      summary: "HTTP.sys Range header handling allows remote code execution (MS15-034).",
+      ranges: [{ introduced: "7.5", lastAffected: "8.5" }],
+    },
+
+    /* ---------- CMS & frameworks ---------- */
+    {
+      product: "WordPress",
+      cve: "CVE-2022-21661",
+      cvss: 7.5,
+      summary: "SQL injection through WP_Query due to improper sanitization.",
+      ranges: [{ introduced: "3.7", fixed: "5.8.3" }],
+    },
+    {
+      product: "WordPress",
+      cve: "CVE-2019-8942",
+      cvss: 8.8,
+      summary: "Authors can achieve remote code execution via crafted image metadata (_wp_attached_file).",
+      ranges: [{ fixed: "4.9.9" }, { introduced: "5.0", fixed: "5.0.1" }],
+    },
+    {
+      product: "Next.js",
+      cve: "CVE-2025-29927",
+      cvss: 9.1,
+      summary: "Authorization bypass in middleware via the x-middleware-subrequest header.",
+      ranges: [
+        { introduced: "11.1.4", fixed: "12.3.5" },
+        { introduced: "13.0.0", fixed: "13.5.9" },
+        { introduced: "14.0.0", fixed: "14.2.25" },
+        { introduced: "15.0.0", fixed: "15.2.3" },
+      ],
+    },
+
+    /* ---------- JavaScript libraries ---------- */
+    {
+      product: "jQuery",
+      cve: "CVE-2020-11022",
+      cvss: 6.1,
+      summary: "Passing untrusted HTML to DOM manipulation methods may execute scripts (XSS).",
+      ranges: [{ introduced: "1.2", fixed: "3.5.0" }],
+    },
+    {
+      product: "jQuery",
+      cve: "CVE-2019-11358",
+      cvss: 6.1,
+      summary: "Prototype pollution in jQuery.extend(true, {}, ...).",
+      ranges: [{ fixed: "3.4.0" }],
+    },
+    {
+      product: "Bootstrap",
+      cve: "CVE-2019-8331",
+      cvss: 6.1,
+      summary: "XSS via the tooltip/popover data-template attribute.",
+      ranges: [{ fixed: "3.4.1" }, { introduced: "4.0.0", fixed: "4.3.1" }],
+    },
+  ],
+};
@@ -0,0 +1,115 @@
+// src/lib/vulnerabilities.ts
+// Offline matching of fingerprinted versions against the bundled feed (vulnFeed.ts).
+
+import type { Technology } from "./fingerprint.js";
+import { VULN_FEED, type VersionRange, type VulnEntry } from "./vulnFeed.js";
+
+export type VulnMatch = {
+  cve: string;
+  cvss: number;
+  severity: "critical" | "high" | "medium" | "low";
+  summary: string;
+  product: string;
+  version: string;
+  fixedIn: string | null;
+  exact: boolean; // false when the banner is too coarse to confirm (e.g. "PHP/7.2")
+  evidence: string;
+  penalty: number; // share of VULN_PENALTY_CAP, see matchVulnerabilities
+};
+
+const VULN_PENALTY_CAP = 30;
+const SEVERITY_PENALTY: Record<VulnMatch["severity"], number> = { critical: 15, high: 10, medium: 5, low: 2 };
+
+// A coarse version is tested at both ends of what it could mean
+const COMPONENTS = 4;
+const HIGH = 1e6;
+
+export function cvssSeverity(score: number): VulnMatch["severity"] {
+  if (score >= 9) return "critical";
+  if (score >= 7) return "high";
+  if (score >= 4) return "medium";
+  return "low";
+}
+
+export function cveUrl(cve: string) {
+  return `https://nvd.nist.gov/vuln/detail/${encodeURIComponent(cve)}`;
+}
+
+function parseVersion(v: string): number[] {
+  return (v.match(/\d+/g) || []).slice(0, COMPONENTS).map(Number);
+}
+
+function compare(a: number[], b: number[]) {
+  for (let i = 0; i < COMPONENTS; i++) {
+    const d = (a[i] ?? 0) - (b[i] ?? 0);
+    if (d !== 0) return d;
+  }
+  return 0;
+}
+
+function inRange(v: number[], r: VersionRange) {
+  if (r.introduced && compare(v, parseVersion(r.introduced)) < 0) return false;
+  if (r.fixed && compare(v, parseVersion(r.fixed)) >= 0) return false;
+  if (r.lastAffected && compare(v, parseVersion(r.lastAffected)) > 0) return false;
+  return true;
+}
+
+// Fill missing components up to the precision the range is written in
+function pad(v: number[], fill: number, depth: number) {
+  const out = [...v];
+  while (out.length < depth) out.push(fill);
+  return out;
+}
+
+function matchEntry(entry: VulnEntry, version: string) {
+  const v = parseVersion(version);
+  if (!v.length) return null;
+
+  for (const range of entry.ranges) {
+    const bounds = [range.introduced, range.fixed, range.lastAffected].filter(Boolean) as string[];
+    const depth = Math.max(0, ...bounds.map((b) => parseVersion(b).length));
+    const low = inRange(pad(v, 0, depth), range);
+    const high = inRange(pad(v, HIGH, depth), range);
+    if (low || high) return { range, exact: low && high };
+  }
+  return null;
+}
+
+export function matchVulnerabilities(
+  techs: Technology[],
+  entries: VulnEntry[] = VULN_FEED.entries
+): VulnMatch[] {
+  const matches: VulnMatch[] = [];
+
+  for (const tech of techs) {
+    if (!tech.version) continue;
+    for (const entry of entries) {
+      if (entry.product !== tech.name) continue;
+      const hit = matchEntry(entry, tech.version);
+      if (!hit) continue;
+
+      matches.push({
+        cve: entry.cve,
+        cvss: entry.cvss,
+        severity: cvssSeverity(entry.cvss),
+        summary: entry.summary,
+        product: entry.product,
+        version: tech.version,
+        fixedIn: hit.range.fixed || null,
+        exact: hit.exact,
+        evidence: tech.evidence,
+        penalty: 0,
+      });
+    }
+  }
+
+  // Worst first, then spread the capped penalty (possible matches count half)
+  matches.sort((a, b) => b.cvss - a.cvss || Number(b.exact) - Number(a.exact));
+  let budget = VULN_PENALTY_CAP;
+  for (const m of matches) {
+    const base = SEVERITY_PENALTY[m.severity];
+    m.penalty = Math.min(m.exact ? base : Math.ceil(base / 2), budget);
+    budget -= m.penalty;
+  }
+  return matches;
+}
@@ -1,34 +1,183 @@
+import { technologyFindings, type TechFinding, type Technology } from "./fingerprint.js";
+import { matchVulnerabilities, type VulnMatch } from "./vulnerabilities.js";
+
+export type RedirectHop = {
+  url: string;
+  statusCode: number;
+  location: string | null;
+  headers: Record<string, string | string[] | undefined>;
+  flags: ("downgrade" | "cross-domain" | "invalid-location" | "unsupported-scheme")[];
+};
+
+export type TlsDetails = {
+  protocol: string | null;
+  cipher: { name: string; standardName: string; version: string } | null;
+  keyType: "RSA" | "EC" | "Unknown";
+  keySize: number | null;
+  curve: string | null;
+  signatureAlgorithm: string | null;
+  subject: string;
+  san: string[];
+  hostnameMatch: boolean;
+  chain: { subject: string; issuer: string; validTo: string }[];
+  chainDepth: number;
+  authorized: boolean;
+  authorizationError: string | null;
+  selfSigned: boolean;
+};
+
+export type DnsReport = {
+  name: string;
+  zone: string;
+  a: string[];
+  aaaa: string[];
+  cname: string[];
+  mx: { exchange: string; priority: number }[];
+  ns: string[];
+  txt: string[];
+  soa: {
+    nsname: string;
+    hostmaster: string;
+    serial: number;
+    refresh: number;
+    retry: number;
+    expire: number;
+    minttl: number;
+  } | null;
+  caa: { critical: number; tag: string; value: string }[];
+  caaName: string | null;
+  dnssec: { signed: boolean; validated: boolean } | null;
+  dangling: { target: string; reason: string } | null;
+  spf: string | null;
+  dmarc: string | null;
+};
+
+export type ExposureProbe = {
+  options: {
+    statusCode: number;
+    allow: string;
+    cors: {
+      allowOrigin: string | null;
+      allowCredentials: boolean;
+      allowMethods: string | null;
+      reflectsOrigin: boolean;
+    };
+  } | null;
+  paths: { path: string; statusCode: number | null; exists: boolean }[];
+  catchAll: boolean;
+};
+
 export type WebSecurityScan = {
   url: string;
   finalUrl: string;
   redirects: string[];
+  redirectChain: RedirectHop[];
+  redirectLimitReached: boolean;
   statusCode: number;
   https: boolean;
   headers: Record<string, string | string[] | undefined>;
   certificate: null | {
     issuer: string;
+    fingerprint: string;
     validFrom: string;
     validTo: string;
     expired: boolean;
     daysRemaining: number;
   };
-  dns: any[];
+  tls: TlsDetails | null;
+  dns: DnsReport;
   allow?: string | string[];
+  probe: ExposureProbe;
+  technologies: Technology[];
   scannedAt: string;
 };
 
+export type CspFinding = {
+  directive: string;
+  rule: string; // stable per directive, e.g. "unsafe-inline"
+  severity: "high" | "medium" | "low" | "info";
+  message: string;
+  penalty: number;
+};
+
+export type CspDirective = {
+  name: string;
+  sources: string[];
+  findings: CspFinding[];
+};
+
+export type CspAnalysis = {
+  raw: string;
+  reportOnly: boolean;
+  directives: CspDirective[];
+  findings: CspFinding[]; // policy-wide findings (missing directives etc.)
+  usesNonces: boolean;
+  usesHashes: boolean;
+  penalty: number; // weighted, capped at CSP_MAX_PENALTY
+  policyCount: number; // comma-separated policies in the header; the strictest one is analyzed
+};
+
+// Structured 403 from the backend target policy (SSRF guard)
+export type TargetBlocked = {
+  error: string;
+  code: "TARGET_BLOCKED";
+  reason: "scheme" | "port" | "private-address" | "unresolvable";
+  host: string;
+  address?: string;
+};
+
+export type WebFinding = {
+  id: string; // stable across scans (no counts or versions), e.g. "tls/expires-soon"
+  severity: "critical" | "high" | "medium" | "low" | "info";
+  title: string;
+  detail: string;
+  fix?: string; // remediation step; becomes the export's recommendation
+  penalty: number;
+};
+
+export type DnsAnalysis = {
+  caa: {
+    status: "none" | "permitted" | "not-permitted" | "unknown";
+    allowed: string[]; // CA domains from issue/issuewild
+  };
+  spf: { record: string; all: "-all" | "~all" | "?all" | "+all" | "missing" } | null;
+  dmarc: { record: string; policy: string; pct: number; rua: string[] } | null;
+  findings: WebFinding[];
+};
+
+export type CookieFinding = {
+  raw: string;
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: "strict" | "lax" | "none" | "missing";
+  domain: string | null; // null = host-only
+  path: string | null;
+  maxAge: number | null;
+  expires: string | null;
+  lifetimeSeconds: number | null; // null = browser session cookie
+  partitioned: boolean;
+  prefix: "__Host-" | "__Secure-" | null;
+  prefixValid: boolean;
+  likelySession: boolean;
+  issues: string[];
+};
+
 export type WebSecurityResult = WebSecurityScan & {
   score: number;
   grade: "A" | "B" | "C" | "D" | "F";
   issues: string[];
   headerStatus: Record<string, { present: boolean; value?: string }>;
-  cookieFindings: {
-    raw: string;
-    secure: boolean;
-    httpOnly: boolean;
-    sameSite: "strict" | "lax" | "none" | "missing";
-  }[];
+  cookieFindings: CookieFinding[];
   allowedMethods: string[];
+  csp: CspAnalysis | null;
+  cspReportOnly: CspAnalysis | null;
+  dnsAnalysis: DnsAnalysis;
+  exposureFindings: WebFinding[];
+  technologyFindings: TechFinding[];
+  vulnerabilities: VulnMatch[];
+  findings: WebFinding[]; // every scored issue with its severity (issues[] is the flat text)
+  headersFromRedirect: boolean; // no final response: headers are an intermediate 3xx hop's and are not graded
 };
 
 const REQUIRED_HEADERS = [
@@ -40,6 +189,46 @@ const REQUIRED_HEADERS = [
   "permissions-policy",
 ];
 
+// Shown on the Headers tab; fix texts also become report remediation steps
+export const HEADER_META: Record<string, { label: string; severity: "critical" | "high" | "medium" | "low"; why: string; fix: string }> = {
+  "content-security-policy": {
+    label: "Content-Security-Policy",
+    severity: "critical",
+    why: "Helps prevent XSS by controlling what scripts/resources can load.",
+    fix: "Add a strict CSP (avoid unsafe-inline where possible).",
+  },
+  "strict-transport-security": {
+    label: "Strict-Transport-Security",
+    severity: "high",
+    why: "Forces browsers to use HTTPS (prevents downgrade attacks).",
+    fix: "Enable HSTS with long max-age + includeSubDomains.",
+  },
+  "x-frame-options": {
+    label: "X-Frame-Options",
+    severity: "high",
+    why: "Stops clickjacking by controlling iframe embedding.",
+    fix: "Set to DENY or SAMEORIGIN (or use CSP frame-ancestors).",
+  },
+  "x-content-type-options": {
+    label: "X-Content-Type-Options",
+    severity: "medium",
+    why: "Prevents MIME sniffing issues.",
+    fix: "Set to nosniff.",
+  },
+  "referrer-policy": {
+    label: "Referrer-Policy",
+    severity: "low",
+    why: "Controls how much referrer info is leaked.",
+    fix: "Use strict-origin-when-cross-origin or no-referrer.",
+  },
+  "permissions-policy": {
+    label: "Permissions-Policy",
+    severity: "low",
+    why: "Restricts access to powerful browser features (camera, geo, etc.).",
+    fix: "Define policy for features your site does not need.",
+  },
+};
+
 function lowerHeaders(h: WebSecurityScan["headers"]) {
   const out: Record<string, string> = {};
   for (const [k, v] of Object.entries(h || {})) {
@@ -48,27 +237,560 @@ function lowerHeaders(h: WebSecurityScan["headers"]) {
   return out;
 }
 
-function parseCookies(headersRaw: WebSecurityScan["headers"]) {
+/* ---------------- CSP ---------------- */
+
+const CSP_MAX_PENALTY = 15;
+
+const SCRIPT_DIRECTIVES = ["script-src", "script-src-elem", "script-src-attr", "default-src"];
+
+// Remediation per finding rule; "<directive>/<rule>" entries take precedence
+const CSP_FIXES: Record<string, string> = {
+  "unsafe-inline": "Replace 'unsafe-inline' with nonces or hashes.",
+  "unsafe-eval": "Remove 'unsafe-eval' and refactor code that relies on eval().",
+  wildcard: "Replace * with the specific origins you load from.",
+  "scheme-source": "Replace scheme-only sources with specific hosts.",
+  "http-source": "Load every source over https:.",
+  "script-src/missing": "Add script-src 'self' plus the hosts you load scripts from.",
+  "object-src/missing": "Add object-src 'none'.",
+  "base-uri/missing": "Add base-uri 'self' (or 'none').",
+  "frame-ancestors/missing": "Add frame-ancestors 'self' (or 'none').",
+};
+
+function isNonceOrHash(source: string) {
+  return /^'(nonce-|sha256-|sha384-|sha512-)/i.test(source);
+}
+
+function analyzeSources(name: string, sources: string[]): CspFinding[] {
+  const findings: CspFinding[] = [];
+  const lower = sources.map((s) => s.toLowerCase());
+  const scriptLike = SCRIPT_DIRECTIVES.includes(name);
+  const hasNonceOrHash = lower.some(isNonceOrHash);
+
+  if (lower.includes("'unsafe-inline'")) {
+    if (scriptLike && !hasNonceOrHash) {
+      findings.push({ directive: name, rule: "unsafe-inline", severity: "high", message: "'unsafe-inline' allows injected inline scripts.", penalty: 8 });
+    } else if (scriptLike) {
+      // CSP2+ browsers ignore 'unsafe-inline' once a nonce/hash is present
+      findings.push({ directive: name, rule: "unsafe-inline", severity: "info", message: "'unsafe-inline' is ignored because a nonce/hash is present.", penalty: 0 });
+    } else if (name === "style-src") {
+      findings.push({ directive: name, rule: "unsafe-inline", severity: "low", message: "'unsafe-inline' allows injected inline styles.", penalty: 2 });
+    }
+  }
+
+  if (lower.includes("'unsafe-eval'") && scriptLike) {
+    findings.push({ directive: name, rule: "unsafe-eval", severity: "medium", message: "'unsafe-eval' allows eval() and similar sinks.", penalty: 5 });
+  }
+
+  if (scriptLike || name === "object-src") {
+    if (lower.includes("*")) {
+      findings.push({ directive: name, rule: "wildcard", severity: "high", message: "Wildcard source (*) allows code from any origin.", penalty: 8 });
+    }
+    const schemes = lower.filter((s) => ["http:", "https:", "data:", "blob:"].includes(s));
+    if (schemes.length) {
+      findings.push({
+        directive: name,
+        rule: "scheme-source",
+        severity: "high",
+        message: `Scheme-only source (${schemes.join(" ")}) allows code from any host.`,
+        penalty: 6,
+      });
+    }
+  }
+
+  if (lower.some((s) => s.startsWith("http://"))) {
+    findings.push({ directive: name, rule: "http-source", severity: "medium", message: "Allows sources over plain HTTP.", penalty: 3 });
+  }
+
+  if (hasNonceOrHash) {
+    findings.push({ directive: name, rule: "nonce-hash", severity: "info", message: "Uses nonces/hashes for inline code.", penalty: 0 });
+  }
+
+  return findings;
+}
+
+function parsePolicy(raw: string, reportOnly: boolean): CspAnalysis {
+  const directives: CspDirective[] = [];
+  const findings: CspFinding[] = [];
+
+  for (const part of raw.split(";")) {
+    const tokens = part.trim().split(/\s+/).filter(Boolean);
+    if (!tokens.length) continue;
+
+    const name = tokens[0].toLowerCase();
+    const sources = tokens.slice(1);
+
+    if (directives.some((d) => d.name === name)) {
+      findings.push({ directive: name, rule: "duplicate", severity: "info", message: "Duplicate directive is ignored by browsers.", penalty: 0 });
+      continue;
+    }
+
+    directives.push({ name, sources, findings: analyzeSources(name, sources) });
+  }
+
+  const get = (name: string) => directives.find((d) => d.name === name);
+  const defaultSrc = get("default-src");
+  const defaultNone = !!defaultSrc && defaultSrc.sources.map((s) => s.toLowerCase()).join(" ") === "'none'";
+
+  if (!get("script-src") && !defaultSrc) {
+    findings.push({ directive: "script-src", rule: "missing", severity: "high", message: "No script-src or default-src: scripts are unrestricted.", penalty: 10 });
+  }
+  if (!get("object-src") && !defaultNone) {
+    findings.push({ directive: "object-src", rule: "missing", severity: "medium", message: "Missing object-src 'none' (plugins can load content).", penalty: 4 });
+  }
+  if (!get("base-uri")) {
+    findings.push({ directive: "base-uri", rule: "missing", severity: "medium", message: "Missing base-uri (allows <base> tag injection).", penalty: 4 });
+  }
+  if (!get("frame-ancestors")) {
+    findings.push({ directive: "frame-ancestors", rule: "missing", severity: "low", message: "Missing frame-ancestors (clickjacking relies on X-Frame-Options).", penalty: 2 });
+  }
+
+  const all = [...findings, ...directives.flatMap((d) => d.findings)];
+  const lowerSources = directives.flatMap((d) => d.sources.map((s) => s.toLowerCase()));
+
+  return {
+    raw,
+    reportOnly,
+    directives,
+    findings,
+    usesNonces: lowerSources.some((s) => s.startsWith("'nonce-")),
+    usesHashes: lowerSources.some((s) => /^'sha(256|384|512)-/.test(s)),
+    penalty: Math.min(CSP_MAX_PENALTY, all.reduce((acc, f) => acc + f.penalty, 0)),
+    policyCount: 1,
+  };
+}
+
+/**
+ * Multiple policies (a comma-separated list, or several headers joined by lowerHeaders) are
+ * each enforced on their own, so a resource must pass all of them. Each is scored separately
+ * and the strictest one stands for the header.
+ */
+export function parseCsp(raw: string, reportOnly = false): CspAnalysis {
+  const policies = raw
+    .split(",")
+    .filter((p) => p.trim())
+    .map((p) => parsePolicy(p.trim(), reportOnly));
+  if (!policies.length) return parsePolicy(raw, reportOnly);
+
+  const strictest = policies.reduce((best, p) => (p.penalty < best.penalty ? p : best));
+  return { ...strictest, raw, policyCount: policies.length };
+}
+
+/* ---------------- Cookies ---------------- */
+
+const SESSION_COOKIE = /(sess|sid|auth|token|jwt|login|remember|connect\.sid|phpsessid|jsessionid|asp\.net_sessionid)/i;
+
+const COOKIE_PENALTY_CAP = 20;
+
+// Issue label -> explanation and per-cookie penalty (labels are also used to de-duplicate the summary)
+const COOKIE_ISSUES = {
+  noSecure: {
+    label: "missing Secure flag",
+    detail: "The cookie is also sent over plain HTTP, where it can be read in transit.",
+    fix: "Add the Secure attribute.",
+    penalty: 4,
+  },
+  noHttpOnlySession: {
+    label: "missing HttpOnly flag (likely session cookie)",
+    detail: "Scripts on the page, including injected ones, can read the session cookie.",
+    fix: "Add the HttpOnly attribute to session cookies.",
+    penalty: 4,
+  },
+  noHttpOnly: {
+    label: "missing HttpOnly flag",
+    detail: "Scripts on the page can read the cookie.",
+    fix: "Add HttpOnly unless scripts need to read the cookie.",
+    penalty: 1,
+  },
+  noSameSite: {
+    label: "missing SameSite attribute",
+    detail: "Browser defaults differ; the cookie may be sent on cross-site requests.",
+    fix: "Set SameSite=Lax (or Strict).",
+    penalty: 2,
+  },
+  noneWithoutSecure: {
+    label: "with SameSite=None but no Secure flag (rejected by browsers)",
+    detail: "Browsers drop SameSite=None cookies that are not also Secure.",
+    fix: "Add Secure to SameSite=None cookies.",
+    penalty: 4,
+  },
+  badPrefix: {
+    label: "with an invalid __Host-/__Secure- prefix",
+    detail: "Browsers reject prefixed cookies that break the prefix rules.",
+    fix: "Follow the prefix rules: Secure, and for __Host- also Path=/ and no Domain.",
+    penalty: 4,
+  },
+  broadDomain: {
+    label: "shared with all subdomains (likely session cookie)",
+    detail: "Any subdomain, including a compromised one, receives the cookie.",
+    fix: "Drop the Domain attribute so the cookie stays on this host.",
+    penalty: 1,
+  },
+  longLived: {
+    label: "living longer than 30 days (likely session cookie)",
+    detail: "A stolen session stays usable for a long time.",
+    fix: "Shorten the session cookie lifetime.",
+    penalty: 1,
+  },
+};
+
+type CookieIssueKey = keyof typeof COOKIE_ISSUES;
+
+// RFC 6265 §5.2 Set-Cookie parsing (last attribute occurrence wins)
+export function parseSetCookie(raw: string, isHttps = true): CookieFinding | null {
+  const [pair, ...attrs] = raw.split(";");
+  const eq = pair.indexOf("=");
+  if (eq === -1) return null;
+
+  const name = pair.slice(0, eq).trim();
+  if (!name) return null;
+
+  let secure = false;
+  let httpOnly = false;
+  let partitioned = false;
+  let sameSite: CookieFinding["sameSite"] = "missing";
+  let domain: string | null = null;
+  let path: string | null = null;
+  let maxAge: number | null = null;
+  let expires: string | null = null;
+
+  for (const attr of attrs) {
+    const i = attr.indexOf("=");
+    const key = (i === -1 ? attr : attr.slice(0, i)).trim().toLowerCase();
+    const value = i === -1 ? "" : attr.slice(i + 1).trim();
+
+    if (key === "secure") secure = true;
+    else if (key === "httponly") httpOnly = true;
+    else if (key === "partitioned") partitioned = true;
+    else if (key === "domain" && value) domain = value.replace(/^\./, "").toLowerCase();
+    else if (key === "path") path = value.startsWith("/") ? value : null;
+    else if (key === "max-age" && /^-?\d+$/.test(value)) maxAge = Number(value);
+    else if (key === "expires" && !isNaN(Date.parse(value))) expires = value;
+    else if (key === "samesite") {
+      const v = value.toLowerCase();
+      if (v === "strict" || v === "lax" || v === "none") sameSite = v;
+    }
+  }
+
+  // Max-Age takes precedence over Expires
+  const lifetimeSeconds =
+    maxAge !== null ? maxAge : expires ? Math.round((Date.parse(expires) - Date.now()) / 1000) : null;
+
+  const lower = name.toLowerCase();
+  const prefix = lower.startsWith("__host-") ? "__Host-" : lower.startsWith("__secure-") ? "__Secure-" : null;
+  const prefixValid =
+    prefix === "__Host-" ? secure && !domain && path === "/" : prefix === "__Secure-" ? secure : true;
+
+  const likelySession = SESSION_COOKIE.test(name);
+
+  const keys: CookieIssueKey[] = [];
+  if (!secure && isHttps) keys.push("noSecure");
+  if (!httpOnly) keys.push(likelySession ? "noHttpOnlySession" : "noHttpOnly");
+  if (sameSite === "missing") keys.push("noSameSite");
+  if (sameSite === "none" && !secure) keys.push("noneWithoutSecure");
+  if (!prefixValid) keys.push("badPrefix");
+  if (likelySession && domain) keys.push("broadDomain");
+  if (likelySession && lifetimeSeconds !== null && lifetimeSeconds > 30 * 24 * 3600) keys.push("longLived");
+
+  return {
+    raw,
+    name,
+    secure,
+    httpOnly,
+    sameSite,
+    domain,
+    path,
+    maxAge,
+    expires,
+    lifetimeSeconds,
+    partitioned,
+    prefix,
+    prefixValid,
+    likelySession,
+    issues: keys.map((k) => COOKIE_ISSUES[k].label),
+  };
+}
+
+function parseCookies(headersRaw: WebSecurityScan["headers"], isHttps: boolean) {
   const setCookie = headersRaw["set-cookie"];
   const list = Array.isArray(setCookie) ? setCookie : setCookie ? [String(setCookie)] : [];
 
-  return list.map((c) => {
-    const lc = c.toLowerCase();
-    let sameSite: "strict" | "lax" | "none" | "missing" = "missing";
-    if (lc.includes("samesite=strict")) sameSite = "strict";
-    else if (lc.includes("samesite=lax")) sameSite = "lax";
-    else if (lc.includes("samesite=none")) sameSite = "none";
+  return list
+    .map((c) => parseSetCookie(c, isHttps))
+    .filter((c): c is CookieFinding => c !== null);
+}
+
+// Per-cookie penalties, one summary line per issue type
+function cookiePenalties(cookies: CookieFinding[]) {
+  const byIssue = new Map<string, { names: string[]; penalty: number }>();
+  const issueFor = (label: string) =>
+    (Object.keys(COOKIE_ISSUES) as CookieIssueKey[]).find((k) => COOKIE_ISSUES[k].label === label);
+
+  for (const c of cookies) {
+    for (const label of c.issues) {
+      const entry = byIssue.get(label) || { names: [], penalty: 0 };
+      const key = issueFor(label);
+      entry.penalty += key ? COOKIE_ISSUES[key].penalty : 0;
+      entry.names.push(c.name);
+      byIssue.set(label, entry);
+    }
+  }
 
+  // Spend the capped budget message by message so per-message penalties add up to the total
+  let budget = COOKIE_PENALTY_CAP;
+  const messages = [...byIssue.entries()].map(([label, { names, penalty }]) => {
+    const unique = [...new Set(names)];
+    const spent = Math.min(penalty, budget);
+    budget -= spent;
+    const key = issueFor(label);
     return {
-      raw: c,
-      secure: lc.includes("secure"),
-      httpOnly: lc.includes("httponly"),
-      sameSite,
+      id: `cookie/${key ?? label}`,
+      message: `${unique.length} cookie${unique.length === 1 ? "" : "s"} ${label}: ${unique.join(", ")}.`,
+      detail: key ? COOKIE_ISSUES[key].detail : "",
+      fix: key ? COOKIE_ISSUES[key].fix : undefined,
+      penalty: spent,
     };
   });
+
+  return { penalty: COOKIE_PENALTY_CAP - budget, messages };
+}
+
+/* ---------------- TLS ---------------- */
+
+const WEAK_PROTOCOLS = ["SSLv2", "SSLv3", "TLSv1", "TLSv1.1"];
+const WEAK_CIPHER = /(RC4|3DES|DES-CBC|NULL|EXPORT|MD5)/i;
+
+// Validation errors that have their own check (expiry, hostname) rather than meaning the
+// chain itself is untrusted; Node reports only one, so counting them here would double up
+const NON_CHAIN_ERRORS = ["CERT_HAS_EXPIRED", "ERR_TLS_CERT_ALTNAME_INVALID"];
+
+/** True when certificate validation failed because the chain is not trusted. Shared with scanner.ts. */
+export function isUntrustedChain(tls: { authorized: boolean; authorizationError: string | null }) {
+  return !tls.authorized && !NON_CHAIN_ERRORS.includes(tls.authorizationError || "");
+}
+
+function tlsPenalties(t: TlsDetails): { id: string; penalty: number; message: string; fix: string }[] {
+  const out: { id: string; penalty: number; message: string; fix: string }[] = [];
+
+  if (t.protocol && WEAK_PROTOCOLS.includes(t.protocol)) {
+    out.push({ id: "tls/weak-protocol", penalty: 20, message: `Weak TLS protocol negotiated (${t.protocol}).`, fix: "Disable SSLv3, TLS 1.0 and TLS 1.1; allow TLS 1.2 and 1.3 only." });
+  }
+  if (t.cipher && WEAK_CIPHER.test(t.cipher.standardName || t.cipher.name)) {
+    out.push({ id: "tls/weak-cipher", penalty: 10, message: `Weak cipher suite negotiated (${t.cipher.name}).`, fix: "Remove RC4, 3DES, NULL and EXPORT suites from the cipher list." });
+  }
+  if (t.keyType === "RSA" && t.keySize && t.keySize < 2048) {
+    out.push({ id: "tls/short-rsa-key", penalty: 15, message: `Short RSA key (${t.keySize} bits).`, fix: "Reissue the certificate with an RSA key of at least 2048 bits." });
+  }
+  if (t.keyType === "EC" && t.keySize && t.keySize < 256) {
+    out.push({ id: "tls/short-ec-key", penalty: 10, message: `Short EC key (${t.keySize} bits).`, fix: "Reissue the certificate with a P-256 or stronger EC key." });
+  }
+  if (t.signatureAlgorithm && /(md5|sha1)/i.test(t.signatureAlgorithm)) {
+    out.push({ id: "tls/weak-signature", penalty: 10, message: `Weak certificate signature (${t.signatureAlgorithm}).`, fix: "Reissue the certificate with a SHA-256 signature." });
+  }
+  if (!t.hostnameMatch) {
+    out.push({ id: "tls/hostname-mismatch", penalty: 20, message: "Certificate does not match the hostname.", fix: "Use a certificate that lists this hostname in its SAN." });
+  }
+  if (t.selfSigned) {
+    out.push({ id: "tls/self-signed", penalty: 20, message: "Certificate is self-signed.", fix: "Replace it with a certificate from a public CA." });
+  } else if (isUntrustedChain(t)) {
+    out.push({ id: "tls/untrusted-chain", penalty: 15, message: `Certificate chain is not trusted (${t.authorizationError || "unknown error"}).`, fix: "Serve the full intermediate chain from a publicly trusted CA." });
+  }
+
+  return out;
 }
 
-function grade(score: number): WebSecurityResult["grade"] {
+/* ---------------- DNS ---------------- */
+
+// Certificate issuer organisation -> CAA identifying domains
+const CA_DOMAINS: [RegExp, string[]][] = [
+  [/let'?s encrypt/i, ["letsencrypt.org"]],
+  [/digicert|cloudflare|thawte|geotrust|rapidssl/i, ["digicert.com", "symantec.com", "geotrust.com", "rapidssl.com", "thawte.com"]],
+  [/google trust/i, ["pki.goog", "google.com"]],
+  [/amazon/i, ["amazon.com", "amazontrust.com", "awstrust.com", "amazonaws.com"]],
+  [/sectigo|comodo|zerossl/i, ["sectigo.com", "comodoca.com", "comodo.com", "zerossl.com"]],
+  [/globalsign/i, ["globalsign.com"]],
+  [/godaddy|starfield/i, ["godaddy.com", "starfieldtech.com"]],
+  [/entrust/i, ["entrust.net"]],
+  [/microsoft/i, ["microsoft.com"]],
+  [/buypass/i, ["buypass.com"]],
+  [/ssl\.com/i, ["ssl.com"]],
+];
+
+function evaluateCaa(dns: DnsReport, issuer: string | null, wildcard: boolean): DnsAnalysis["caa"] {
+  if (!dns.caa.length) return { status: "none", allowed: [] };
+
+  const issue = dns.caa.filter((r) => r.tag === "issue");
+  const issueWild = dns.caa.filter((r) => r.tag === "issuewild");
+  const relevant = wildcard && issueWild.length ? issueWild : issue;
+  const allowed = relevant.map((r) => r.value.split(";")[0].trim().toLowerCase()).filter(Boolean);
+
+  // No issue tags (e.g. only iodef) means no restriction
+  if (!relevant.length) return { status: "permitted", allowed };
+  if (!issuer) return { status: "unknown", allowed };
+
+  const caDomains = CA_DOMAINS.find(([re]) => re.test(issuer))?.[1];
+  if (!caDomains) return { status: "unknown", allowed };
+
+  return {
+    status: allowed.some((d) => caDomains.includes(d)) ? "permitted" : "not-permitted",
+    allowed,
+  };
+}
+
+function summarizeSpf(record: string | null): DnsAnalysis["spf"] {
+  if (!record) return null;
+  const m = record.toLowerCase().match(/(^|\s)([-~?+]?)all(\s|$)/);
+  const qualifier = m ? (m[2] || "+") : null;
+  return {
+    record,
+    all: qualifier ? (`${qualifier}all` as "-all" | "~all" | "?all" | "+all") : "missing",
+  };
+}
+
+function summarizeDmarc(record: string | null): DnsAnalysis["dmarc"] {
+  if (!record) return null;
+  const tags: Record<string, string> = {};
+  for (const part of record.split(";")) {
+    const [k, ...v] = part.split("=");
+    if (k?.trim()) tags[k.trim().toLowerCase()] = v.join("=").trim();
+  }
+  const pct = Number(tags["pct"] ?? 100);
+  return {
+    record,
+    policy: (tags["p"] || "missing").toLowerCase(),
+    pct: Number.isFinite(pct) ? pct : 100,
+    rua: (tags["rua"] || "").split(",").map((s) => s.trim()).filter(Boolean),
+  };
+}
+
+function analyzeDns(dns: DnsReport, issuer: string | null, wildcard: boolean): DnsAnalysis {
+  const findings: WebFinding[] = [];
+  const caa = evaluateCaa(dns, issuer, wildcard);
+  const spf = summarizeSpf(dns.spf);
+  const dmarc = summarizeDmarc(dns.dmarc);
+
+  if (dns.dangling) {
+    findings.push({ id: "dns/dangling-cname", severity: "high", title: "Dangling CNAME", detail: dns.dangling.reason, fix: "Remove the CNAME or reclaim the resource it points to.", penalty: 15 });
+  }
+
+  if (caa.status === "none") {
+    findings.push({ id: "dns/no-caa", severity: "low", title: "No CAA record", detail: "Any certificate authority may issue for this domain.", fix: "Publish a CAA record naming the CA you use.", penalty: 2 });
+  } else if (caa.status === "not-permitted") {
+    findings.push({
+      id: "dns/caa-mismatch",
+      severity: "medium",
+      title: "Certificate issuer not authorized by CAA",
+      detail: `CAA allows ${caa.allowed.join(", ") || "no CA"} but the certificate was issued by ${issuer}.`,
+      fix: "Add the certificate's CA to the CAA record or reissue from an allowed CA.",
+      penalty: 5,
+    });
+  }
+
+  if (dns.dnssec && !dns.dnssec.signed) {
+    findings.push({ id: "dns/no-dnssec", severity: "low", title: "DNSSEC not enabled", detail: `No DS record for ${dns.zone}.`, fix: "Enable DNSSEC at the DNS provider and publish the DS record at the registrar.", penalty: 2 });
+  }
+
+  if (!spf) {
+    findings.push({ id: "dns/no-spf", severity: "medium", title: "No SPF record", detail: `${dns.zone} publishes no v=spf1 record.`, fix: "Publish an SPF record ending in -all (or ~all while testing).", penalty: 4 });
+  } else if (spf.all === "+all") {
+    findings.push({ id: "dns/spf-pass-all", severity: "high", title: "SPF allows any sender (+all)", detail: spf.record, fix: "Replace +all with -all.", penalty: 8 });
+  } else if (spf.all === "?all" || spf.all === "missing") {
+    findings.push({ id: "dns/spf-not-enforcing", severity: "low", title: "SPF is not enforcing", detail: `Ends with ${spf.all}.`, fix: "End the SPF record with -all (or ~all while testing).", penalty: 3 });
+  }
+
+  if (!dmarc) {
+    findings.push({ id: "dns/no-dmarc", severity: "medium", title: "No DMARC record", detail: `_dmarc.${dns.zone} has no v=DMARC1 record.`, fix: "Publish a DMARC record, starting with p=none and a rua address.", penalty: 4 });
+  } else if (dmarc.policy === "none") {
+    findings.push({ id: "dns/dmarc-none", severity: "low", title: "DMARC policy is p=none", detail: "Failing mail is only monitored, not rejected.", fix: "Move the DMARC policy to p=quarantine or p=reject once reports are clean.", penalty: 2 });
+  }
+
+  return { caa, spf, dmarc, findings };
+}
+
+/* ---------------- HTTP exposure ---------------- */
+
+function analyzeExposure(probe: ExposureProbe, allowedMethods: string[]): WebFinding[] {
+  const findings: WebFinding[] = [];
+
+  if (allowedMethods.includes("TRACE")) {
+    findings.push({ id: "exposure/trace", severity: "high", title: "TRACE method is allowed", detail: "Enables cross-site tracing of headers.", fix: "Disable the TRACE method on the web server.", penalty: 8 });
+  }
+  const writeMethods = allowedMethods.filter((m) => ["PUT", "DELETE", "PATCH"].includes(m));
+  if (writeMethods.length) {
+    findings.push({
+      id: "exposure/write-methods",
+      severity: "low",
+      title: "Write methods advertised",
+      detail: `OPTIONS lists ${writeMethods.join(", ")} on the document URL.`,
+      fix: "Stop advertising PUT/DELETE/PATCH on pages that do not accept them.",
+      penalty: 2,
+    });
+  }
+
+  const cors = probe.options?.cors;
+  if (cors?.allowOrigin === "*" && cors.allowCredentials) {
+    findings.push({
+      id: "exposure/cors-wildcard-credentials",
+      severity: "high",
+      title: "CORS wildcard with credentials",
+      detail: "Access-Control-Allow-Origin: * combined with Allow-Credentials: true.",
+      fix: "Allow only specific trusted origins when credentials are allowed.",
+      penalty: 10,
+    });
+  } else if (cors?.reflectsOrigin) {
+    findings.push({
+      id: "exposure/cors-reflects-origin",
+      severity: cors.allowCredentials ? "high" : "medium",
+      title: "CORS reflects arbitrary origins",
+      detail: `A preflight from an untrusted origin was allowed${cors.allowCredentials ? " with credentials" : ""}.`,
+      fix: "Check Origin against an allowlist instead of echoing it.",
+      penalty: cors.allowCredentials ? 12 : 5,
+    });
+  } else if (cors?.allowOrigin === "null") {
+    findings.push({
+      id: "exposure/cors-null-origin",
+      severity: "medium",
+      title: "CORS allows the null origin",
+      detail: "Sandboxed iframes and local files can read responses.",
+      fix: "Remove null from the allowed origins.",
+      penalty: 5,
+    });
+  }
+
+  const path = (p: string) => probe.paths.find((x) => x.path === p);
+
+  if (probe.catchAll) {
+    findings.push({
+      id: "exposure/catch-all",
+      severity: "info",
+      title: "Catch-all responses",
+      detail: "The server returns 200 for unknown paths, so path checks are inconclusive.",
+      penalty: 0,
+    });
+  } else {
+    if (path("/.git/HEAD")?.exists) {
+      findings.push({
+        id: "exposure/git",
+        severity: "critical",
+        title: "Git repository exposed",
+        detail: "/.git/HEAD is publicly reachable; source code and secrets may be downloadable.",
+        fix: "Block /.git on the web server and remove the repository from the web root.",
+        penalty: 25,
+      });
+    }
+    findings.push(
+      path("/.well-known/security.txt")?.exists
+        ? { id: "exposure/security-txt", severity: "info", title: "security.txt published", detail: "/.well-known/security.txt is present.", penalty: 0 }
+        : { id: "exposure/no-security-txt", severity: "low", title: "No security.txt", detail: "Publish /.well-known/security.txt with a disclosure contact.", penalty: 0 }
+    );
+    if (path("/robots.txt")?.exists) {
+      findings.push({ id: "exposure/robots-txt", severity: "info", title: "robots.txt present", detail: "Review it for paths that reveal sensitive areas.", penalty: 0 });
+    }
+  }
+
+  return findings;
+}
+
+export function grade(score: number): WebSecurityResult["grade"] {
   if (score >= 90) return "A";
   if (score >= 80) return "B";
   if (score >= 70) return "C";
@@ -76,17 +798,29 @@ function grade(score: number): WebSecurityResult["grade"] {
   return "F";
 }
 
-export async function scanWebsite(url: string): Promise<WebSecurityResult> {
-  const r = await fetch(`/api/web-security?url=${encodeURIComponent(url)}`);
+export async function scanWebsite(
+  url: string,
+  opts: { maxRedirects?: number } = {}
+): Promise<WebSecurityResult> {
+  const params = new URLSearchParams({ url });
+  if (opts.maxRedirects != null) params.set("maxRedirects", String(opts.maxRedirects));
+
+  const r = await fetch(`/api/web-security?${params.toString()}`);
   const text = await r.text();
 
-  let data: WebSecurityScan & { error?: string };
+  let data: WebSecurityScan & { error?: string; code?: string };
   try {
     data = JSON.parse(text);
   } catch {
     throw new Error("Backend did not return JSON");
   }
 
+  if (r.status === 403 && data.code === "TARGET_BLOCKED") {
+    throw Object.assign(new Error(data.error || "Target blocked"), {
+      blocked: data as unknown as TargetBlocked,
+    });
+  }
+
   if (!r.ok || data.error) {
     throw new Error(data.error || "Scan failed");
   }
@@ -106,50 +840,160 @@ export async function scanWebsite(url: string): Promise<WebSecurityResult> {
     .map((s) => s.trim().toUpperCase())
     .filter(Boolean);
 
+  // CSP (enforced + report-only are graded separately)
+  const csp = h["content-security-policy"] ? parseCsp(h["content-security-policy"]) : null;
+  const cspReportOnly = h["content-security-policy-report-only"]
+    ? parseCsp(h["content-security-policy-report-only"], true)
+    : null;
+
   // Cookies
-  const cookieFindings = parseCookies(data.headers);
+  const cookieFindings = parseCookies(data.headers, data.https);
 
   // Scoring (explainable)
   let score = 100;
   const issues: string[] = [];
+  const findings: WebFinding[] = [];
+  const flag = (
+    id: string,
+    severity: WebFinding["severity"],
+    message: string,
+    penalty: number,
+    detail = "",
+    fix?: string
+  ) => {
+    score -= penalty;
+    issues.push(message);
+    findings.push({ id, severity, title: message.replace(/\.$/, ""), detail, fix, penalty });
+  };
 
   if (!data.https) {
-    score -= 30;
-    issues.push("HTTPS is not enabled.");
+    flag("https/missing", "high", "HTTPS is not enabled.", 30, "", "Serve the site over HTTPS and redirect HTTP to it.");
+  }
+
+  // Redirect chain (headers above come from the final hop)
+  const chain = data.redirectChain || [];
+  if (chain.some((hop) => hop.flags.includes("downgrade"))) {
+    flag("redirect/downgrade", "high", "Redirect chain downgrades from HTTPS to HTTP.", 15, "", "Keep every redirect hop on HTTPS.");
+  }
+  const crossDomainHops = chain.filter((hop) => hop.flags.includes("cross-domain")).length;
+  if (crossDomainHops > 0) {
+    flag("redirect/cross-domain", "low", `Redirect chain jumps to another domain (${crossDomainHops} hop${crossDomainHops === 1 ? "" : "s"}).`, 3);
+  }
+  if (data.redirectLimitReached) {
+    flag("redirect/limit-reached", "low", "Redirect limit reached before a final response.", 5, "", "Redirect straight to the final URL.");
+  }
+  const stoppedHop = chain.find((hop) => hop.flags.some((f) => f === "invalid-location" || f === "unsupported-scheme"));
+  if (stoppedHop) {
+    flag(
+      "redirect/unusable-location",
+      "medium",
+      `Redirect points to an unusable location (${stoppedHop.location}).`,
+      5,
+      "",
+      "Point the Location header at a valid http(s) URL."
+    );
+  }
+
+  // A redirect page's headers say nothing about the site's pages; grade only a final response
+  const headersFromRedirect = !!data.redirectLimitReached || !!stoppedHop;
+  if (headersFromRedirect) {
+    flag("headers/not-graded", "info", "Security headers not graded: the redirect chain did not reach a final page.", 0);
   }
 
   for (const [k, st] of Object.entries(headerStatus)) {
-    if (!st.present) {
+    if (!st.present && !headersFromRedirect) {
       const penalty = k === "content-security-policy" ? 15 : k === "strict-transport-security" ? 12 : 8;
-      score -= penalty;
-      issues.push(`Missing security header: ${k}`);
+      const meta = HEADER_META[k];
+      flag(`header/${k}`, penalty > 8 ? "medium" : "low", `Missing security header: ${k}`, penalty, meta.why, meta.fix);
     }
   }
 
-  if ("server" in h || "x-powered-by" in h) {
-    score -= 5;
-    issues.push("Server technology is exposed.");
+  if (csp && !headersFromRedirect) {
+    // Individual CSP findings are listed; the policy penalty is capped as a whole
+    score -= csp.penalty;
+    const seen = new Set<string>();
+    for (const f of [...csp.findings, ...csp.directives.flatMap((d) => d.findings)]) {
+      if (f.penalty <= 0 || seen.has(f.message)) continue;
+      seen.add(f.message);
+      const fix = CSP_FIXES[`${f.directive}/${f.rule}`] ?? CSP_FIXES[f.rule];
+      flag(`csp/${f.directive}/${f.rule}`, f.severity, `CSP ${f.directive}: ${f.message}`, 0, "", fix);
+    }
+  } else if (cspReportOnly && !headersFromRedirect) {
+    flag(
+      "csp/report-only",
+      "info",
+      "CSP is deployed in report-only mode (not enforced).",
+      0,
+      "",
+      "Switch to an enforced Content-Security-Policy once the reports are clean."
+    );
+  }
+
+  const techFindings = technologyFindings(data.technologies || []);
+  for (const f of techFindings) {
+    if (f.penalty <= 0) continue;
+    flag(
+      `tech/${f.technology?.name.toLowerCase()}`,
+      f.severity,
+      `${f.title}: ${f.detail}.`,
+      f.penalty,
+      f.detail,
+      "Remove the version from server banners and page markup."
+    );
   }
 
-  for (const c of cookieFindings) {
-    if (!c.secure) { score -= 4; issues.push("Cookie missing Secure flag."); }
-    if (!c.httpOnly) { score -= 4; issues.push("Cookie missing HttpOnly flag."); }
-    if (c.sameSite === "missing") { score -= 3; issues.push("Cookie missing SameSite attribute."); }
+  // Known-vulnerable versions (offline feed)
+  const vulnerabilities = matchVulnerabilities(data.technologies || []);
+  for (const v of vulnerabilities) {
+    flag(
+      `cve/${v.cve}`,
+      v.severity,
+      `${v.cve} (${v.product} ${v.version}, CVSS ${v.cvss.toFixed(1)})${v.exact ? "" : " — possible"}.`,
+      v.penalty,
+      `${v.summary}${v.fixedIn ? ` Fixed in ${v.fixedIn}.` : ""} Detected from: ${v.evidence}`,
+      `Upgrade ${v.product} to ${v.fixedIn ? `${v.fixedIn} or later` : "a patched release"}.`
+    );
+  }
+
+  for (const m of cookiePenalties(cookieFindings).messages) {
+    flag(m.id, "medium", m.message, m.penalty, m.detail, m.fix);
   }
 
   if (data.https && data.certificate) {
     if (data.certificate.expired) {
-      score -= 25;
-      issues.push("SSL certificate is expired.");
+      flag("tls/expired", "critical", "SSL certificate is expired.", 25, "", "Renew the certificate and automate renewal.");
     } else if (data.certificate.daysRemaining <= 14) {
-      score -= 10;
-      issues.push(`SSL certificate expires soon (${data.certificate.daysRemaining} days).`);
+      flag(
+        "tls/expires-soon",
+        "medium",
+        `SSL certificate expires soon (${data.certificate.daysRemaining} days).`,
+        10,
+        "",
+        "Renew the certificate and automate renewal."
+      );
     }
   }
 
-  if (allowedMethods.includes("TRACE")) {
-    score -= 8;
-    issues.push("TRACE method is allowed.");
+  if (data.https && data.tls) {
+    for (const p of tlsPenalties(data.tls)) {
+      flag(p.id, p.penalty >= 15 ? "high" : p.penalty >= 10 ? "medium" : "low", p.message, p.penalty, "", p.fix);
+    }
+  }
+
+  // DNS
+  const dnsAnalysis = analyzeDns(
+    data.dns,
+    data.certificate?.issuer || null,
+    !!data.tls?.subject?.startsWith("*.")
+  );
+  for (const f of dnsAnalysis.findings) {
+    flag(f.id, f.severity, `DNS: ${f.title}.`, f.penalty, f.detail, f.fix);
+  }
+
+  const exposureFindings = analyzeExposure(data.probe, allowedMethods);
+  for (const f of exposureFindings) {
+    if (f.penalty <= 0) continue;
+    flag(f.id, f.severity, `${f.title}.`, f.penalty, f.detail, f.fix);
   }
 
   if (score < 0) score = 0;
@@ -162,5 +1006,13 @@ export async function scanWebsite(url: string): Promise<WebSecurityResult> {
     headerStatus,
     cookieFindings,
     allowedMethods,
+    csp,
+    cspReportOnly,
+    dnsAnalysis,
+    exposureFindings,
+    technologyFindings: techFindings,
+    vulnerabilities,
+    findings,
+    headersFromRedirect,
   };
 }
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
 import { toast } from "@/components/ui/use-toast";
 
 export default function Auth() {
@@ -129,6 +130,7 @@ export default function Auth() {
                     )}
                   </button>
                 </div>
+                {mode === "signup" && <PasswordStrengthMeter password={password} context={[email]} />}
               </div>
             )}
 
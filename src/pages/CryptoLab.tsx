@@ -33,16 +33,8 @@ import {
   encryptText,
   fingerprintFromToken,
 } from "@/lib/crypto";
-
-type ExportFormat = "json" | "txt";
-function readExportFormat(): ExportFormat {
-  try {
-    const saved = localStorage.getItem("pasco_export_format");
-    return saved === "txt" ? "txt" : "json";
-  } catch {
-    return "json";
-  }
-}
+import { downloadExport } from "@/lib/exportFormats";
+import { useExportFormat } from "@/hooks/useExportFormat";
 
 type HistoryItem = {
   id: string;
@@ -100,23 +92,7 @@ function saveAttemptsMap(map: Record<string, number>) {
 
 export default function CryptoLab() {
   /* ---------------- Export format (LIVE sync with Settings) ---------------- */
-  const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
-  useEffect(() => {
-    setExportFormat(readExportFormat());
-
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === "pasco_export_format") setExportFormat(readExportFormat());
-    };
-    const onCustom = () => setExportFormat(readExportFormat());
-
-    window.addEventListener("storage", onStorage);
-    window.addEventListener("pasco_export_format_changed", onCustom as EventListener);
-
-    return () => {
-      window.removeEventListener("storage", onStorage);
-      window.removeEventListener("pasco_export_format_changed", onCustom as EventListener);
-    };
-  }, []);
+  const exportFormat = useExportFormat();
 
   /* ---------------- Encrypt (Text) ---------------- */
   const [plainText, setPlainText] = useState("");
@@ -181,15 +157,25 @@ export default function CryptoLab() {
   };
 
   /* ---------------- Export helpers ---------------- */
-  const exportResult = (payload: any, filenameBase: string) => {
-    if (exportFormat === "txt") {
-      const lines = Object.entries(payload)
-        .map(([k, v]) => `${k}: ${typeof v === "string" ? v : JSON.stringify(v)}`)
-        .join("\n");
-      downloadText(lines, `${filenameBase}.txt`);
-      return;
-    }
-    downloadText(JSON.stringify(payload, null, 2), `${filenameBase}.json`);
+  // Crypto Lab has no findings: SARIF carries an empty run, CSV/Markdown list the fields
+  const exportResult = (payload: Record<string, unknown>, filenameBase: string, title: string) => {
+    const fields = Object.fromEntries(
+      Object.entries(payload).map(([k, v]) => [k, typeof v === "string" ? v : JSON.stringify(v)])
+    );
+    downloadExport(
+      exportFormat,
+      {
+        tool: "Crypto Lab",
+        title,
+        generatedAt: new Date().toISOString(),
+        summary: fields,
+        data: payload,
+        text: Object.entries(fields)
+          .map(([k, v]) => `${k}: ${v}`)
+          .join("\n"),
+      },
+      filenameBase
+    );
   };
 
   const animateProgress = (setter: (n: number) => void, duration = 1500) => {
@@ -307,7 +293,7 @@ export default function CryptoLab() {
       note: "Share this token. Only someone with the correct key can decrypt.",
     };
 
-    exportResult(payload, "pascoai-encrypted");
+    exportResult(payload, "pascoai-encrypted", "Encrypted Token");
     toast.success(`Exported (${exportFormat})`);
   };
 
@@ -437,7 +423,7 @@ export default function CryptoLab() {
       protection:
         "Protection: locks this device after 5 wrong attempts for the same token fingerprint (persists across refresh).",
     };
-    exportResult(payload, "pascoai-crypto-report");
+    exportResult(payload, "pascoai-crypto-report", "Crypto Lab Report");
     toast.success(`Report exported (${exportFormat})`);
   };
 
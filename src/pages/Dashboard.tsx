@@ -16,7 +16,10 @@ import {
   Activity,
   Zap,
   FileText,
+  TrendingDown,
 } from "lucide-react";
+import { findRegressions } from "@/lib/scanStore";
+import type { ScanDiff } from "@/lib/scanDiff";
 
 /**
  * IMPORTANT:
@@ -153,12 +156,14 @@ export default function Dashboard() {
   const [scanHistory, setScanHistory] = useState<any[]>([]);
   const [passwordHistory, setPasswordHistory] = useState<any[]>([]);
   const [researchHistory, setResearchHistory] = useState<any[]>([]);
+  const [regressions, setRegressions] = useState<ScanDiff[]>([]);
 
   useEffect(() => {
     // load real histories (whichever key exists in your app)
     setScanHistory(readFirstArray(SCAN_HISTORY_KEYS));
     setPasswordHistory(readFirstArray(PASSWORD_HISTORY_KEYS));
     setResearchHistory(readFirstArray(RESEARCH_HISTORY_KEYS));
+    setRegressions(findRegressions());
   }, []);
 
   const derived = useMemo(() => {
@@ -355,6 +360,43 @@ export default function Dashboard() {
         </Badge>
       </div>
 
+      {/* Regressions (latest vs previous stored scan per target) */}
+      {regressions.length > 0 && (
+        <Card variant="glow" className="border-destructive/40">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <TrendingDown className="w-5 h-5 text-destructive" />
+              Regressions
+              <Badge className="threat-critical">{regressions.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {regressions.map((diff) => (
+              <div
+                key={`${diff.to.kind}:${diff.to.target}`}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg bg-destructive/10 hover:bg-destructive/15 transition-colors cursor-pointer"
+                onClick={() => navigate(diff.to.kind === "scanner" ? "/scanner" : "/web-security")}
+              >
+                <div className="min-w-0">
+                  <p className="font-mono text-sm truncate">{diff.to.target}</p>
+                  <p className="text-xs text-muted-foreground truncate">{diff.regressionReasons.join(" • ")}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Badge variant="outline">{diff.to.kind === "scanner" ? "Scanner" : "Web"}</Badge>
+                  <Badge variant="outline" className="font-mono">
+                    {diff.from.grade} → {diff.to.grade}
+                  </Badge>
+                  <span className="text-xs font-mono text-destructive">
+                    {diff.scoreDelta > 0 ? "+" : ""}
+                    {diff.scoreDelta}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {quickActions.map((action) => (
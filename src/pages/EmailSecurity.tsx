@@ -1,6 +1,13 @@
 import { useMemo, useState } from "react";
 import { analyzeEmail, type EmailScanResult } from "@/lib/email";
 import { useExportFormat } from "@/hooks/useExportFormat";
+import { downloadExport, findingsFromEmail, type ExportReport } from "@/lib/exportFormats";
+import { printReport } from "@/lib/reportBuilder";
+import { DomainAuthPanel } from "@/components/DomainAuthPanel";
+import { EmlAnalysisPanel } from "@/components/EmlAnalysisPanel";
+import { LinkVerdictsPanel } from "@/components/LinkVerdictsPanel";
+import { PhishingLanguagePanel } from "@/components/PhishingLanguagePanel";
+import { MAX_EML_BYTES } from "@/lib/eml";
 
 import {
   Card,
@@ -22,6 +29,11 @@ import {
   CheckCircle,
   Trash2,
   Clock,
+  Printer,
+  Globe,
+  FileText,
+  Upload,
+  Link2,
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -50,6 +62,8 @@ export default function EmailSecurity() {
 
   const [email, setEmail] = useState("");
   const [content, setContent] = useState("");
+  const [inputMode, setInputMode] = useState<"address" | "message">("address");
+  const [rawMessage, setRawMessage] = useState("");
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<EmailScanResult | null>(null);
   const [history, setHistory] = useState<EmailScanResult[]>([]);
@@ -70,7 +84,11 @@ export default function EmailSecurity() {
 
   /* ---------------- Run Scan ---------------- */
   async function runScan() {
-    if (!email.trim()) {
+    if (inputMode === "message" && !rawMessage.trim()) {
+      toast.error("Paste or upload a raw message");
+      return;
+    }
+    if (inputMode === "address" && !email.trim()) {
       toast.error("Enter an email address");
       return;
     }
@@ -82,7 +100,10 @@ export default function EmailSecurity() {
     await new Promise((r) => setTimeout(r, 3000));
 
     try {
-      const r = await analyzeEmail(email, content);
+      const r =
+        inputMode === "message"
+          ? await analyzeEmail(email, "", { eml: rawMessage })
+          : await analyzeEmail(email, content);
       setResult(r);
       setHistory((h) => [r, ...h].slice(0, 10));
       toast.success("Email analysis completed");
@@ -93,6 +114,17 @@ export default function EmailSecurity() {
     }
   }
 
+  /* ---------------- .eml upload ---------------- */
+  async function onEmlUpload(file: File | undefined) {
+    if (!file) return;
+    if (file.size > MAX_EML_BYTES) {
+      toast.error("Message is too large (max 10 MB)");
+      return;
+    }
+    setRawMessage(await file.text());
+    toast.success(`Loaded ${file.name}`);
+  }
+
   /* ---------------- Paste ---------------- */
   async function handlePaste() {
     try {
@@ -107,34 +139,55 @@ export default function EmailSecurity() {
   }
 
   /* ---------------- Export ---------------- */
-  function exportScanResult() {
-    if (!result) {
-      toast.error("No scan result to export");
-      return;
-    }
-
+  function buildReport(r: EmailScanResult): ExportReport {
     const payload = {
       tool: "Email Security Checker",
       scannedAt: new Date().toISOString(),
-      result,
+      result: r,
     };
 
-    const contentData =
-      exportFormat === "json"
-        ? JSON.stringify(payload, null, 2)
-        : Object.entries(payload)
-            .map(([k, v]) => `${k}: ${JSON.stringify(v)}`)
-            .join("\n");
-
-    const blob = new Blob([contentData], {
-      type: exportFormat === "json" ? "application/json" : "text/plain",
-    });
+    return {
+      tool: "Email Security",
+      title: "Email Security Report",
+      target: r.email,
+      generatedAt: payload.scannedAt,
+      score: r.score,
+      summary: {
+        Valid: r.valid,
+        Disposable: r.disposable,
+        "Role-based": r.roleBased,
+        Provider: r.provider.name,
+        "Provider type": r.provider.kind,
+        Confidence: r.confidence,
+        ...(r.domainAuth && {
+          "Domain auth score": `${r.domainAuth.score}/100`,
+          SPF: r.domainAuth.spf.record || "missing",
+          DMARC: r.domainAuth.dmarc.policy ? `p=${r.domainAuth.dmarc.policy}` : "missing",
+        }),
+        ...(r.eml && {
+          Subject: r.eml.message.subject,
+          "Relay hops": r.eml.message.hops.length,
+          Attachments: r.eml.message.parts.filter((p) => p.attachment).length,
+        }),
+        ...(r.phishing && { "Phishing language score": `${r.phishing.score}/100 (threshold ${r.phishing.threshold})` }),
+        Links: r.links.length,
+        "Dangerous links": r.links.filter((l) => l.verdict === "dangerous").length,
+        ...(r.lookalikes.length > 0 && {
+          "Cousin domains": r.lookalikes.map((l) => `${l.domain} → ${l.lookalikeOf}`).join(", "),
+        }),
+      },
+      findings: findingsFromEmail(r),
+      data: payload,
+    };
+  }
 
-    const a = document.createElement("a");
-    a.href = URL.createObjectURL(blob);
-    a.download = `email-security.${exportFormat}`;
-    a.click();
+  function exportScanResult() {
+    if (!result) {
+      toast.error("No scan result to export");
+      return;
+    }
 
+    downloadExport(exportFormat, buildReport(result), "email-security");
     toast.success(`Exported (${exportFormat.toUpperCase()})`);
   }
 
@@ -155,8 +208,27 @@ export default function EmailSecurity() {
       {/* Input */}
       <Card variant="glass" className="border-primary/30">
         <CardContent className="p-4 space-y-4">
+          <div className="flex gap-2">
+            <Button
+              variant={inputMode === "address" ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setInputMode("address")}
+            >
+              <Mail className="w-4 h-4 mr-2" /> Address
+            </Button>
+            <Button
+              variant={inputMode === "message" ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setInputMode("message")}
+            >
+              <FileText className="w-4 h-4 mr-2" /> Raw message (.eml)
+            </Button>
+          </div>
+
           <div>
-            <p className="text-sm text-muted-foreground mb-2">Email address</p>
+            <p className="text-sm text-muted-foreground mb-2">
+              Email address{inputMode === "message" && " (optional, defaults to the From address)"}
+            </p>
             <Input
               value={email}
               onChange={(e) => setEmail(e.target.value)}
@@ -164,27 +236,58 @@ export default function EmailSecurity() {
             />
           </div>
 
-          <div>
-            <p className="text-sm text-muted-foreground mb-2">
-              Email content (optional)
-            </p>
-            <div className="relative">
+          {inputMode === "message" ? (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-muted-foreground">
+                  Full message source (headers and body)
+                </p>
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload .eml
+                    <input
+                      type="file"
+                      accept=".eml,message/rfc822"
+                      className="hidden"
+                      onChange={(e) => {
+                        onEmlUpload(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+              </div>
               <Textarea
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                placeholder="Paste email body to analyze phishing signals"
-                className="min-h-[120px] pr-24"
+                value={rawMessage}
+                onChange={(e) => setRawMessage(e.target.value)}
+                placeholder={"Received: from ...\nFrom: ...\nSubject: ...\n\n..."}
+                className="min-h-[180px] font-mono text-xs"
               />
-              <button
-                type="button"
-                onClick={handlePaste}
-                className="absolute top-3 right-3 px-3 py-1 text-xs rounded-md
-                  bg-cyan-500/10 text-cyan-400 hover:bg-cyan-500/20 transition"
-              >
-                {pasted ? "PASTED" : "PASTE"}
-              </button>
             </div>
-          </div>
+          ) : (
+            <div>
+              <p className="text-sm text-muted-foreground mb-2">
+                Email content (optional)
+              </p>
+              <div className="relative">
+                <Textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  placeholder="Paste email body to analyze phishing signals"
+                  className="min-h-[120px] pr-24"
+                />
+                <button
+                  type="button"
+                  onClick={handlePaste}
+                  className="absolute top-3 right-3 px-3 py-1 text-xs rounded-md
+                    bg-cyan-500/10 text-cyan-400 hover:bg-cyan-500/20 transition"
+                >
+                  {pasted ? "PASTED" : "PASTE"}
+                </button>
+              </div>
+            </div>
+          )}
 
           <Button onClick={runScan} disabled={loading}>
             {loading ? "Analyzing..." : "Analyze Email"}
@@ -206,9 +309,15 @@ export default function EmailSecurity() {
               </CardDescription>
             </div>
 
-            <Button variant="outline" size="sm" onClick={exportScanResult}>
-              Export
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => printReport(buildReport(result))}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print / PDF
+              </Button>
+              <Button variant="outline" size="sm" onClick={exportScanResult}>
+                Export
+              </Button>
+            </div>
           </CardHeader>
 
           <CardContent className="space-y-3">
@@ -217,9 +326,24 @@ export default function EmailSecurity() {
               <Badge variant="outline">
                 {result.valid ? "Valid format" : "Invalid format"}
               </Badge>
+              <Badge variant="outline">{result.provider.name}</Badge>
               {result.disposable && (
                 <Badge className="threat-high">Disposable</Badge>
               )}
+              {result.lookalikes.length > 0 && (
+                <Badge
+                  className={
+                    result.lookalikes.some((l) => l.corporate)
+                      ? "threat-critical"
+                      : result.lookalikes.some((l) => l.severity !== "low")
+                      ? "threat-high"
+                      : "threat-low"
+                  }
+                  title={result.lookalikes.map((l) => l.message).join("\n")}
+                >
+                  Cousin domain
+                </Badge>
+              )}
               {result.roleBased && (
                 <Badge className="threat-medium">Role-based</Badge>
               )}
@@ -253,16 +377,29 @@ export default function EmailSecurity() {
                 ))}
               </ul>
             )}
+
+            {result.phishing && result.phishing.categories.length > 0 && (
+              <PhishingLanguagePanel analysis={result.phishing} />
+            )}
           </CardContent>
         </Card>
       )}
 
       {/* Tabs */}
       <Tabs defaultValue="history" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="history">
             <Clock className="w-4 h-4 mr-2" /> History
           </TabsTrigger>
+          <TabsTrigger value="domain">
+            <Globe className="w-4 h-4 mr-2" /> Domain Auth
+          </TabsTrigger>
+          <TabsTrigger value="message">
+            <FileText className="w-4 h-4 mr-2" /> Message
+          </TabsTrigger>
+          <TabsTrigger value="links">
+            <Link2 className="w-4 h-4 mr-2" /> Links
+          </TabsTrigger>
           <TabsTrigger value="about">
             <ShieldCheck className="w-4 h-4 mr-2" /> About Checks
           </TabsTrigger>
@@ -293,13 +430,29 @@ export default function EmailSecurity() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="domain">
+          <DomainAuthPanel auth={result?.domainAuth ?? null} />
+        </TabsContent>
+
+        <TabsContent value="message">
+          <EmlAnalysisPanel analysis={result?.eml ?? null} />
+        </TabsContent>
+
+        <TabsContent value="links">
+          <LinkVerdictsPanel links={result?.links ?? null} />
+        </TabsContent>
+
         <TabsContent value="about">
           <Card variant="glass">
             <CardContent className="p-4 text-sm text-muted-foreground space-y-2">
               <p>✔ Syntax & structure validation</p>
-              <p>✔ Disposable / temp email detection</p>
+              <p>✔ Free-mail & disposable provider catalog (bundled, no lookups)</p>
+              <p>✔ Cousin-domain senders imitating our domains (Settings → Corporate Domains)</p>
               <p>✔ Role-based email risk</p>
-              <p>✔ Content phishing signals</p>
+              <p>✔ Weighted phishing language score with highlighted evidence (threshold in Settings)</p>
+              <p>✔ Link verdicts: text/href mismatch, homoglyphs, brand lookalikes (Settings → Protected Domains)</p>
+              <p>✔ Domain mail records (MX, SPF, DMARC, MTA-STS, TLS-RPT, BIMI)</p>
+              <p>✔ Raw message headers, relay chain, authentication verdicts & attachments</p>
               <p>✔ Explainable risk score</p>
               <p className="text-xs text-muted-foreground">
                 No emails are sent. Fully legal & safe.
@@ -1,5 +1,5 @@
 // src/pages/PasswordLab.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
+import { PasswordMatchBreakdown } from "@/components/PasswordMatchBreakdown";
+import { CrackEstimateTable, HashAlgorithmPicker } from "@/components/CrackEstimateTable";
 import { toast } from "sonner";
 import {
   Key,
@@ -21,7 +23,21 @@ import {
   Shield,
 } from "lucide-react";
 
-import { analyzePassword, checkPasswordBreachCount, generatePassword } from "@/lib/password";
+import {
+  analyzePassword,
+  checkPasswordBreachCount,
+  DEFAULT_CRACK_ALGORITHM,
+  generateSecret,
+  getCrackEstimates,
+  type GeneratedSecret,
+  type GeneratorMode,
+  type GeneratorOptions,
+} from "@/lib/password";
+import { describeHashAlgorithm, type HashAlgorithm } from "@/lib/hashBenchmarks";
+import { downloadExport } from "@/lib/exportFormats";
+import { useExportFormat } from "@/hooks/useExportFormat";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import { checkPassword } from "@/lib/passwordPolicy";
 
 const bestPractices = [
   { title: "Use a Password Manager", description: "Store unique, complex passwords for each account securely", icon: Shield },
@@ -30,6 +46,13 @@ const bestPractices = [
   { title: "Prefer Passphrases", description: "Long random word phrases can be strong + memorable", icon: Key },
 ];
 
+const GENERATOR_MODES: { value: GeneratorMode; label: string; hint: string }[] = [
+  { value: "characters", label: "Characters", hint: "Random characters from the sets you pick" },
+  { value: "passphrase", label: "Passphrase", hint: "Diceware words: long, strong and typeable" },
+  { value: "pronounceable", label: "Pronounceable", hint: "Alternating consonants and vowels, easy to read out" },
+  { value: "pin", label: "PIN", hint: "Digits only, for devices and cards" },
+];
+
 type BreachHistoryItem = {
   id: string;
   ts: number;
@@ -38,17 +61,6 @@ type BreachHistoryItem = {
   label: string;
 };
 
-type ExportFormat = "json" | "txt";
-
-function readExportFormat(): ExportFormat {
-  try {
-    const saved = localStorage.getItem("pasco_export_format");
-    return saved === "txt" ? "txt" : "json";
-  } catch {
-    return "json";
-  }
-}
-
 export default function PasswordLab() {
   /* ---------------- Analyzer ---------------- */
   const [password, setPassword] = useState("");
@@ -58,19 +70,44 @@ export default function PasswordLab() {
     return analyzePassword(password);
   }, [password]);
 
+  // Same active policy as signup and Settings; the meter lists the per-rule results
+  const policy = usePasswordPolicy();
+  const policyCheck = useMemo(() => (password ? checkPassword(password, policy) : null), [password, policy]);
+
+  // Crack estimates depend on how the target stores the password (shared with the generator)
+  const [hashAlgorithm, setHashAlgorithm] = useState<HashAlgorithm>(DEFAULT_CRACK_ALGORITHM);
+  const crack = useMemo(
+    () => (analysis ? getCrackEstimates(analysis.guessesLog10, hashAlgorithm) : null),
+    [analysis, hashAlgorithm]
+  );
+
   /* ---------------- Generator ---------------- */
+  const [genMode, setGenMode] = useState<GeneratorMode>("characters");
   const [genLen, setGenLen] = useState(16);
   const [optLower, setOptLower] = useState(true);
   const [optUpper, setOptUpper] = useState(true);
   const [optDigits, setOptDigits] = useState(true);
   const [optSymbols, setOptSymbols] = useState(true);
-  const [generated, setGenerated] = useState("");
+  const [genWords, setGenWords] = useState(6);
+  const [genSeparator, setGenSeparator] = useState("-");
+  const [genCapitalize, setGenCapitalize] = useState(false);
+  const [genWordDigit, setGenWordDigit] = useState(false);
+  const [genPronounceableLen, setGenPronounceableLen] = useState(12);
+  const [genPinLen, setGenPinLen] = useState(6);
+  const [secret, setSecret] = useState<GeneratedSecret | null>(null);
+  const generated = secret?.value || "";
 
   const generatedAnalysis = useMemo(() => {
     if (!generated) return null;
     return analyzePassword(generated);
   }, [generated]);
 
+  // Generated secrets have exact entropy, so crack times come from it rather than the pattern estimate
+  const generatedCrack = useMemo(
+    () => (secret ? getCrackEstimates(secret.entropyBits * Math.log10(2), hashAlgorithm) : null),
+    [secret, hashAlgorithm]
+  );
+
   /* ---------------- Breach Checker ---------------- */
   const [breachPwd, setBreachPwd] = useState("");
   const [isChecking, setIsChecking] = useState(false);
@@ -84,30 +121,7 @@ export default function PasswordLab() {
   };
 
   /* ---------------- Export format (LIVE sync with Settings) ---------------- */
-  const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
-
-  useEffect(() => {
-    // initial read
-    setExportFormat(readExportFormat());
-
-    // updates across tabs/windows
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === "pasco_export_format") {
-        setExportFormat(readExportFormat());
-      }
-    };
-
-    // updates within same tab (recommended to dispatch from Settings after Save)
-    const onCustom = () => setExportFormat(readExportFormat());
-
-    window.addEventListener("storage", onStorage);
-    window.addEventListener("pasco_export_format_changed", onCustom as EventListener);
-
-    return () => {
-      window.removeEventListener("storage", onStorage);
-      window.removeEventListener("pasco_export_format_changed", onCustom as EventListener);
-    };
-  }, []);
+  const exportFormat = useExportFormat();
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -119,21 +133,23 @@ export default function PasswordLab() {
   };
 
   const runGenerate = () => {
-    const pw = generatePassword({
-      length: genLen,
-      lower: optLower,
-      upper: optUpper,
-      digits: optDigits,
-      symbols: optSymbols,
-    });
-
-    if (!pw) {
+    const options: GeneratorOptions =
+      genMode === "characters"
+        ? { mode: "characters", length: genLen, lower: optLower, upper: optUpper, digits: optDigits, symbols: optSymbols }
+        : genMode === "passphrase"
+          ? { mode: "passphrase", words: genWords, separator: genSeparator, capitalize: genCapitalize, digit: genWordDigit }
+          : genMode === "pronounceable"
+            ? { mode: "pronounceable", length: genPronounceableLen }
+            : { mode: "pin", length: genPinLen };
+    const result = generateSecret(options);
+
+    if (!result) {
       toast.error("Select at least 1 option (lower/upper/digits/symbols)");
       return;
     }
 
-    setGenerated(pw);
-    toast.success("Password generated!");
+    setSecret(result);
+    toast.success(`${GENERATOR_MODES.find((m) => m.value === genMode)!.label} generated!`);
   };
 
   const runBreachCheck = async () => {
@@ -207,36 +223,44 @@ export default function PasswordLab() {
         "This uses k-anonymity: your password is NOT sent. Only the first 5 chars of its SHA-1 hash are queried.",
     };
 
-    if (exportFormat === "txt") {
-      const lines = [
-        "PascoAI - Password Breach Checker Report",
-        `Checked At: ${payload.checkedAt}`,
-        `Password Length: ${payload.passwordLength}`,
-        `Compromised: ${payload.result.compromised ? "YES" : "NO"}`,
-        `Breach Count: ${payload.result.breachCount.toLocaleString()}`,
-        "",
-        payload.note,
-      ].join("\n");
-
-      const blob = new Blob([lines], { type: "text/plain;charset=utf-8" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `pascoai-password-breach-report.txt`;
-      a.click();
-      URL.revokeObjectURL(url);
-      toast.success("Exported (.txt)");
-      return;
-    }
-
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `pascoai-password-breach-report.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-    toast.success("Exported (.json)");
+    const extension = downloadExport(
+      exportFormat,
+      {
+        tool: "Password Breach Checker",
+        title: "Password Breach Checker Report",
+        generatedAt: payload.checkedAt,
+        summary: {
+          "Password Length": payload.passwordLength,
+          Compromised: payload.result.compromised,
+          "Breach Count": payload.result.breachCount.toLocaleString(),
+        },
+        findings: payload.result.compromised
+          ? [
+              {
+                ruleId: "password/breached",
+                title: "Password found in breach corpus",
+                severity: "high",
+                description: `This password appears ${breachCount.toLocaleString()} times in known breaches.`,
+                recommendation: "Stop using it anywhere and pick a unique password or passphrase.",
+                category: "Password",
+              },
+            ]
+          : [],
+        sections: [{ title: "Note", lines: [payload.note] }],
+        data: payload,
+        text: [
+          "PascoAI - Password Breach Checker Report",
+          `Checked At: ${payload.checkedAt}`,
+          `Password Length: ${payload.passwordLength}`,
+          `Compromised: ${payload.result.compromised ? "YES" : "NO"}`,
+          `Breach Count: ${payload.result.breachCount.toLocaleString()}`,
+          "",
+          payload.note,
+        ].join("\n"),
+      },
+      "pascoai-password-breach-report"
+    );
+    toast.success(`Exported (.${extension})`);
   };
 
   return (
@@ -273,9 +297,13 @@ export default function PasswordLab() {
                 <Key className="w-5 h-5 text-primary" />
                 Password Strength Analyzer
               </CardTitle>
-              <CardDescription>Enter a password to analyze its strength and crack-time estimates.</CardDescription>
+              <CardDescription>
+                Enter a password to see the words, keyboard walks, dates and sequences an attacker would try first.
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
+              <HashAlgorithmPicker value={hashAlgorithm} onChange={setHashAlgorithm} />
+
               <div className="space-y-2">
                 <Label htmlFor="password">Enter Password</Label>
                 <Input
@@ -290,47 +318,34 @@ export default function PasswordLab() {
 
               {password && (
                 <>
+                  {policyCheck && (
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-muted-foreground">Active password policy</p>
+                      <Badge className={policyCheck.passed ? "threat-low" : "threat-high"}>
+                        {policyCheck.passed
+                          ? "Meets policy"
+                          : `Fails ${policyCheck.results.filter((r) => !r.passed).length} rule(s)`}
+                      </Badge>
+                    </div>
+                  )}
+
                   <PasswordStrengthMeter password={password} showDetails />
 
-                  {/* Crack time cards */}
                   {analysis && (
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <Card variant="glass" className="p-4">
-                        <div className="flex items-center gap-3">
-                          <div className="p-2 rounded-xl bg-primary/10">
-                            <Clock className="w-5 h-5 text-primary" />
-                          </div>
-                          <div>
-                            <p className="text-xs text-muted-foreground">Online (throttled)</p>
-                            <p className="font-bold">{analysis.crack.online}</p>
-                          </div>
-                        </div>
-                      </Card>
-
-                      <Card variant="glass" className="p-4">
-                        <div className="flex items-center gap-3">
-                          <div className="p-2 rounded-xl bg-primary/10">
-                            <Clock className="w-5 h-5 text-primary" />
-                          </div>
-                          <div>
-                            <p className="text-xs text-muted-foreground">Offline fast GPU</p>
-                            <p className="font-bold">{analysis.crack.offlineFast}</p>
-                          </div>
-                        </div>
-                      </Card>
-
-                      <Card variant="glass" className="p-4">
-                        <div className="flex items-center gap-3">
-                          <div className="p-2 rounded-xl bg-primary/10">
-                            <Clock className="w-5 h-5 text-primary" />
-                          </div>
-                          <div>
-                            <p className="text-xs text-muted-foreground">Offline slow hash</p>
-                            <p className="font-bold">{analysis.crack.offlineSlow}</p>
-                          </div>
-                        </div>
-                      </Card>
-                    </div>
+                    <Card variant="glass" className="p-4">
+                      <PasswordMatchBreakdown analysis={analysis} />
+                    </Card>
+                  )}
+
+                  {/* Crack time per attacker */}
+                  {crack && (
+                    <Card variant="glass" className="p-4 space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-primary" />
+                        <p className="font-semibold">Crack time · {describeHashAlgorithm(hashAlgorithm)}</p>
+                      </div>
+                      <CrackEstimateTable estimates={crack} />
+                    </Card>
                   )}
 
                   {/* Tips */}
@@ -390,62 +405,163 @@ export default function PasswordLab() {
             </CardHeader>
 
             <CardContent className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {/* Length */}
+              {/* Mode */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {GENERATOR_MODES.map((m) => (
+                  <Button
+                    key={m.value}
+                    variant={genMode === m.value ? "default" : "outline"}
+                    onClick={() => setGenMode(m.value)}
+                    title={m.hint}
+                  >
+                    {m.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">{GENERATOR_MODES.find((m) => m.value === genMode)!.hint}</p>
+
+              {genMode === "characters" && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Length */}
+                  <Card variant="glass" className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-semibold">Length</p>
+                        <p className="text-sm text-muted-foreground">Choose 8–64 characters</p>
+                      </div>
+                      <Badge variant="outline" className="font-mono">
+                        {genLen}
+                      </Badge>
+                    </div>
+                    <div className="mt-4 space-y-2">
+                      <input
+                        type="range"
+                        min={8}
+                        max={64}
+                        value={genLen}
+                        onChange={(e) => setGenLen(Number(e.target.value))}
+                        className="w-full"
+                      />
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>8</span>
+                        <span>64</span>
+                      </div>
+                    </div>
+                  </Card>
+
+                  {/* Options */}
+                  <Card variant="glass" className="p-4">
+                    <p className="font-semibold">Options</p>
+                    <p className="text-sm text-muted-foreground mb-3">Toggle character sets</p>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={optDigits} onChange={(e) => setOptDigits(e.target.checked)} />
+                        Numbers
+                      </label>
+
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={optSymbols} onChange={(e) => setOptSymbols(e.target.checked)} />
+                        Symbols
+                      </label>
+
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={optLower} onChange={(e) => setOptLower(e.target.checked)} />
+                        Small alphabets
+                      </label>
+
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={optUpper} onChange={(e) => setOptUpper(e.target.checked)} />
+                        Large alphabets
+                      </label>
+                    </div>
+                  </Card>
+                </div>
+              )}
+
+              {genMode === "passphrase" && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Card variant="glass" className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-semibold">Words</p>
+                        <p className="text-sm text-muted-foreground">Each word adds ~10.3 bits</p>
+                      </div>
+                      <Badge variant="outline" className="font-mono">
+                        {genWords}
+                      </Badge>
+                    </div>
+                    <div className="mt-4 space-y-2">
+                      <input
+                        type="range"
+                        min={3}
+                        max={12}
+                        value={genWords}
+                        onChange={(e) => setGenWords(Number(e.target.value))}
+                        className="w-full"
+                      />
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>3</span>
+                        <span>12</span>
+                      </div>
+                    </div>
+                  </Card>
+
+                  <Card variant="glass" className="p-4 space-y-3">
+                    <p className="font-semibold">Options</p>
+                    <div className="flex items-center gap-3">
+                      <Label htmlFor="genSeparator" className="text-sm">
+                        Separator
+                      </Label>
+                      <Input
+                        id="genSeparator"
+                        value={genSeparator}
+                        maxLength={3}
+                        onChange={(e) => setGenSeparator(e.target.value)}
+                        className="font-mono w-20"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={genCapitalize} onChange={(e) => setGenCapitalize(e.target.checked)} />
+                      Capitalize words
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={genWordDigit} onChange={(e) => setGenWordDigit(e.target.checked)} />
+                      Add a digit to one word
+                    </label>
+                  </Card>
+                </div>
+              )}
+
+              {(genMode === "pronounceable" || genMode === "pin") && (
                 <Card variant="glass" className="p-4">
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="font-semibold">Length</p>
-                      <p className="text-sm text-muted-foreground">Choose 8–64 characters</p>
+                      <p className="text-sm text-muted-foreground">
+                        {genMode === "pin" ? "Choose 4–12 digits" : "Choose 6–32 characters"}
+                      </p>
                     </div>
                     <Badge variant="outline" className="font-mono">
-                      {genLen}
+                      {genMode === "pin" ? genPinLen : genPronounceableLen}
                     </Badge>
                   </div>
                   <div className="mt-4 space-y-2">
                     <input
                       type="range"
-                      min={8}
-                      max={64}
-                      value={genLen}
-                      onChange={(e) => setGenLen(Number(e.target.value))}
+                      min={genMode === "pin" ? 4 : 6}
+                      max={genMode === "pin" ? 12 : 32}
+                      value={genMode === "pin" ? genPinLen : genPronounceableLen}
+                      onChange={(e) =>
+                        genMode === "pin"
+                          ? setGenPinLen(Number(e.target.value))
+                          : setGenPronounceableLen(Number(e.target.value))
+                      }
                       className="w-full"
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>8</span>
-                      <span>64</span>
-                    </div>
-                  </div>
-                </Card>
-
-                {/* Options */}
-                <Card variant="glass" className="p-4">
-                  <p className="font-semibold">Options</p>
-                  <p className="text-sm text-muted-foreground mb-3">Toggle character sets</p>
-
-                  <div className="grid grid-cols-2 gap-3">
-                    <label className="flex items-center gap-2 text-sm">
-                      <input type="checkbox" checked={optDigits} onChange={(e) => setOptDigits(e.target.checked)} />
-                      Numbers
-                    </label>
-
-                    <label className="flex items-center gap-2 text-sm">
-                      <input type="checkbox" checked={optSymbols} onChange={(e) => setOptSymbols(e.target.checked)} />
-                      Symbols
-                    </label>
-
-                    <label className="flex items-center gap-2 text-sm">
-                      <input type="checkbox" checked={optLower} onChange={(e) => setOptLower(e.target.checked)} />
-                      Small alphabets
-                    </label>
-
-                    <label className="flex items-center gap-2 text-sm">
-                      <input type="checkbox" checked={optUpper} onChange={(e) => setOptUpper(e.target.checked)} />
-                      Large alphabets
-                    </label>
                   </div>
                 </Card>
-              </div>
+              )}
 
               <div className="flex flex-col md:flex-row gap-3">
                 <Button onClick={runGenerate} className="flex-1">
@@ -464,7 +580,14 @@ export default function PasswordLab() {
 
               {/* Output */}
               <div className="space-y-2">
-                <Label>Generated Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label>Generated Password</Label>
+                  {secret && (
+                    <Badge variant="outline" className="font-mono">
+                      {secret.entropyBits.toFixed(1)} bits of entropy
+                    </Badge>
+                  )}
+                </div>
                 <Input value={generated} readOnly className="font-mono" placeholder="Click Generate..." />
               </div>
 
@@ -473,21 +596,13 @@ export default function PasswordLab() {
                 <div className="space-y-4">
                   <PasswordStrengthMeter password={generated} showDetails />
 
-                  {generatedAnalysis && (
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <Card variant="glass" className="p-4">
-                        <p className="text-xs text-muted-foreground">Online (throttled)</p>
-                        <p className="font-bold">{generatedAnalysis.crack.online}</p>
-                      </Card>
-                      <Card variant="glass" className="p-4">
-                        <p className="text-xs text-muted-foreground">Offline fast GPU</p>
-                        <p className="font-bold">{generatedAnalysis.crack.offlineFast}</p>
-                      </Card>
-                      <Card variant="glass" className="p-4">
-                        <p className="text-xs text-muted-foreground">Offline slow hash</p>
-                        <p className="font-bold">{generatedAnalysis.crack.offlineSlow}</p>
-                      </Card>
-                    </div>
+                  {generatedCrack && (
+                    <Card variant="glass" className="p-4 space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        {describeHashAlgorithm(hashAlgorithm)} · from the generator's exact entropy
+                      </p>
+                      <CrackEstimateTable estimates={generatedCrack} />
+                    </Card>
                   )}
 
                   {generatedAnalysis && (
@@ -28,10 +28,14 @@ import {
   Gauge,
   X,
   FileText,
+  Printer,
 } from "lucide-react";
 import { toast } from "sonner";
 
 import { runAI, type AIInlineFile } from "@/lib/aiClient";
+import { downloadExport, type ExportReport } from "@/lib/exportFormats";
+import { printReport } from "@/lib/reportBuilder";
+import { useExportFormat } from "@/hooks/useExportFormat";
 import { personas } from "@/ai/personas";
 
 /* ---------- TYPES ---------- */
@@ -150,18 +154,6 @@ function parseAIResponse(text: string): ResearchResult {
   };
 }
 
-function downloadTextFile(filename: string, content: string) {
-  const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
-}
-
 /* ---------- REAL METRICS (derived from result) ---------- */
 type RiskLevel = "LOW" | "MEDIUM" | "HIGH";
 
@@ -267,6 +259,7 @@ async function fileToBase64NoPrefix(file: File): Promise<string> {
 
 /* ---------- COMPONENT ---------- */
 export default function Research() {
+  const exportFormat = useExportFormat();
   const [query, setQuery] = useState("");
   const [persona, setPersona] = useState<PersonaId>(personas[0].id);
   const [deepMode, setDeepMode] = useState(false);
@@ -390,8 +383,8 @@ export default function Research() {
     }
   };
 
-  const exportReport = () => {
-    if (!result) return;
+  const buildReport = (): ExportReport | null => {
+    if (!result) return null;
 
     const pLabel = personaLabelById.get(persona) || persona;
     const model = result.meta?.modelUsed ? ` (${result.meta.modelUsed})` : "";
@@ -432,9 +425,52 @@ export default function Research() {
       ``,
     ].join("\n");
 
-    const safeName = `pascoai_research_${todayISO()}_${persona}${deepMode ? "_deep" : ""}.txt`;
-    downloadTextFile(safeName, content);
-    toast.success("Report exported");
+    const attachment = inlineFile ? `${inlineFile.name} (${bytesToHuman(inlineFile.size)})` : "(none)";
+    const severity = risk.level === "HIGH" ? "high" : risk.level === "MEDIUM" ? "medium" : "low";
+
+    return {
+      tool: "Research Suite",
+      title: "Research Suite Report",
+      generatedAt: new Date().toISOString(),
+      summary: {
+        Topic: query.trim(),
+        Persona: pLabel,
+        Mode: `${deepMode ? "Deep" : "Standard"}${model}`,
+        Attachment: attachment,
+        Risk: `${risk.level} (${risk.score}%)`,
+        Coverage: `${coverage}%`,
+        Actionability: `${action}%`,
+      },
+      // Risks carry the overall derived level; the model does not grade them individually
+      findings: result.risks.map((r) => ({
+        title: r,
+        severity,
+        description: r,
+        category: "Research",
+      })),
+      sections: [
+        { title: "Overview", lines: result.summary ? [result.summary] : [] },
+        { title: "Key Findings", lines: result.keyFindings },
+        { title: "Mitigations / Next Steps", lines: result.nextSteps },
+        { title: "Sources", lines: result.sources },
+      ],
+      data: {
+        query: query.trim(),
+        persona: pLabel,
+        deepMode,
+        attachment: inlineFile ? { name: inlineFile.name, size: inlineFile.size } : null,
+        metrics: { risk, coverage, actionability: action },
+        result,
+      },
+      text: content,
+    };
+  };
+
+  const exportReport = () => {
+    const report = buildReport();
+    if (!report) return;
+    downloadExport(exportFormat, report, `pascoai_research_${todayISO()}_${persona}${deepMode ? "_deep" : ""}`);
+    toast.success(`Report exported (${exportFormat.toUpperCase()})`);
   };
 
   // derived UI metrics (always real)
@@ -752,7 +788,18 @@ export default function Research() {
           <div className="flex flex-wrap gap-2">
             <Button variant="outline" size="sm" onClick={exportReport}>
               <Download className="w-4 h-4 mr-2" />
-              Export Report
+              Export Report ({exportFormat.toUpperCase()})
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                const report = buildReport();
+                if (report) printReport(report);
+              }}
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print / PDF
             </Button>
             <Button variant="ghost" size="sm" onClick={() => setResult(null)}>
               <Trash2 className="w-4 h-4 mr-2" />
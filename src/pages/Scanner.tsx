@@ -22,10 +22,23 @@ import {
   Bug,
   Eye,
   Network,
+  ListChecks,
+  Layers,
+  GitCompare,
+  CalendarClock,
+  Printer,
 } from "lucide-react";
 import { toast } from "sonner";
 
-import { runRealScan, type RealScanResult } from "../lib/scanner";
+import { runRealScan, type CheckRun, type RealScanResult } from "../lib/scanner";
+import { grade } from "../lib/webSecurity";
+import { clearScans, listScans, saveScan } from "../lib/scanStore";
+import { downloadExport, findingsFromScan, type ExportReport } from "../lib/exportFormats";
+import { printReport } from "../lib/reportBuilder";
+import { useExportFormat } from "@/hooks/useExportFormat";
+import { BatchScanPanel } from "@/components/BatchScanPanel";
+import { ScanDiffView } from "@/components/ScanDiffView";
+import { ScheduledScansPanel } from "@/components/ScheduledScansPanel";
 
 interface ScanResultUI {
   category: string;
@@ -58,13 +71,25 @@ function normalizeToUrlLike(input: string) {
   return v;
 }
 
+// Every completed scan (single or batch) is kept per target for comparison
+async function scanAndStore(target: string) {
+  const res = await runRealScan(target);
+  saveScan("scanner", res);
+  return res;
+}
+
 export default function Scanner() {
+  const exportFormat = useExportFormat();
   const [target, setTarget] = useState("");
   const [isScanning, setIsScanning] = useState(false);
   const [scanProgress, setScanProgress] = useState(0);
   const [scanResults, setScanResults] = useState<ScanResultUI[] | null>(null);
   const [threatScore, setThreatScore] = useState<number | null>(null);
+  const [checkRuns, setCheckRuns] = useState<CheckRun[]>([]);
+  const [lastScan, setLastScan] = useState<RealScanResult | null>(null);
   const [scanHistory, setScanHistory] = useState<HistoryItem[]>([]);
+  const [mode, setMode] = useState<"single" | "batch" | "schedules">("single");
+  const [compareTarget, setCompareTarget] = useState<string | null>(null);
 
   // Load history once
   useEffect(() => {
@@ -91,6 +116,7 @@ export default function Scanner() {
       Bug,
       Network,
       Lock,
+      Layers,
     }),
     []
   );
@@ -137,7 +163,7 @@ export default function Scanner() {
     }, 250);
 
     try {
-      const res: RealScanResult = await runRealScan(raw);
+      const res: RealScanResult = await scanAndStore(raw);
 
       // Convert backend result to UI format (keeps your old UI)
       const uiResults: ScanResultUI[] = res.results.map((r) => {
@@ -151,6 +177,8 @@ export default function Scanner() {
 
       setScanResults(uiResults);
       setThreatScore(res.score);
+      setCheckRuns(res.checks);
+      setLastScan(res);
 
       // Save history
       const item: HistoryItem = {
@@ -204,38 +232,104 @@ export default function Scanner() {
     return "text-destructive";
   };
 
-  const exportReport = () => {
-    if (!scanResults || threatScore == null) return;
+  const buildReport = (): ExportReport | null => {
+    if (!scanResults || threatScore == null || !lastScan) return null;
 
     const payload = {
       target: target.trim(),
       score: threatScore,
       date: new Date().toISOString(),
       results: scanResults,
+      checks: checkRuns,
     };
 
-    const blob = new Blob([JSON.stringify(payload, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `pasco-scan-report-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-
-    toast.success("Report exported");
+    return {
+      tool: "Scanner",
+      title: "Security Scan Report",
+      target: lastScan.target,
+      generatedAt: payload.date,
+      score: threatScore,
+      grade: grade(threatScore),
+      summary: {
+        "Final URL": lastScan.context.finalUrl,
+        "Checks run": checkRuns.filter((c) => c.status === "ran").length,
+        "Checks skipped": checkRuns.filter((c) => c.status === "skipped").length,
+      },
+      findings: findingsFromScan(lastScan),
+      data: payload,
+    };
   };
 
-  return (
-    <div className="space-y-6 animate-fade-in">
-      {/* Header */}
+  const exportReport = () => {
+    const report = buildReport();
+    if (!report) return;
+    downloadExport(exportFormat, report, `pasco-scan-report-${Date.now()}`);
+    toast.success(`Report exported (${exportFormat.toUpperCase()})`);
+  };
+
+  const header = (
+    <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
       <div>
         <h1 className="text-3xl font-bold text-gradient-cyber">AI Cybersecurity Scanner</h1>
         <p className="text-muted-foreground mt-1">
           Perform safe, non-intrusive security analysis on domains and IP addresses
         </p>
       </div>
+      <div className="flex gap-2">
+        <Button
+          variant={mode === "schedules" ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setMode((m) => (m === "schedules" ? "single" : "schedules"))}
+        >
+          <CalendarClock className="w-4 h-4 mr-2" />
+          {mode === "schedules" ? "Single Scan" : "Schedules"}
+        </Button>
+        <Button
+          variant={mode === "batch" ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setMode((m) => (m === "batch" ? "single" : "batch"))}
+        >
+          <Layers className="w-4 h-4 mr-2" />
+          {mode === "batch" ? "Single Scan" : "Batch Mode"}
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (mode === "schedules") {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        {header}
+        <ScheduledScansPanel />
+      </div>
+    );
+  }
+
+  if (mode === "batch") {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        {header}
+        <BatchScanPanel
+          scan={scanAndStore}
+          summarize={(r: RealScanResult) => ({
+            score: r.score,
+            grade: grade(r.score),
+            findings: r.results.flatMap((c) => c.findings).filter((f) => f.severity !== "info").length,
+            finalUrl: r.context.finalUrl || undefined,
+          })}
+          findings={findingsFromScan}
+          tool="Scanner"
+          exportName="pasco-scan-batch"
+          placeholder={"example.com\nwww.example.com\n203.0.113.10"}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      {header}
 
       {/* Scanner Input */}
       <Card variant="cyber">
@@ -327,7 +421,18 @@ export default function Scanner() {
                   </Button>
                   <Button variant="secondary" size="sm" onClick={exportReport}>
                     <Download className="w-4 h-4 mr-2" />
-                    Export Report
+                    Export Report ({exportFormat.toUpperCase()})
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      const report = buildReport();
+                      if (report) printReport(report);
+                    }}
+                  >
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print / PDF
                   </Button>
                 </div>
               </div>
@@ -339,7 +444,7 @@ export default function Scanner() {
             defaultValue={scanResults[0]?.category}
             className="space-y-6 mt-6"
           >
-            <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 mb-6 gap-2">
+            <TabsList className="grid w-full grid-cols-2 md:grid-cols-5 mb-6 gap-2">
               {scanResults.map((category) => (
                 <TabsTrigger key={category.category} value={category.category} className="text-xs md:text-sm">
                   <category.icon className="w-4 h-4 mr-2" />
@@ -375,7 +480,7 @@ export default function Scanner() {
                               </Button>
                             </TooltipTrigger>
                             <TooltipContent>
-                              <p>Header-based, non-intrusive scan</p>
+                              <p>Server-side, non-intrusive scan</p>
                             </TooltipContent>
                           </Tooltip>
                         </div>
@@ -386,9 +491,52 @@ export default function Scanner() {
               </TabsContent>
             ))}
           </Tabs>
+
+          {/* Checks */}
+          <Card variant="glass">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="w-5 h-5 text-primary" />
+                Checks
+              </CardTitle>
+              <CardDescription>
+                {checkRuns.filter((c) => c.status === "ran").length} ran,{" "}
+                {checkRuns.filter((c) => c.status === "skipped").length} skipped (toggle checks in Settings)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {checkRuns.map((check) => (
+                  <div
+                    key={check.id}
+                    className={`flex items-center justify-between p-2 rounded-lg bg-muted/30 ${
+                      check.status === "skipped" ? "opacity-60" : ""
+                    }`}
+                  >
+                    <div>
+                      <p className="text-sm font-medium">{check.title}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{check.id}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {check.weight > 0 && (
+                        <span className="text-xs font-mono text-destructive">-{check.weight}</span>
+                      )}
+                      <Badge variant="outline" className={check.status === "ran" ? "threat-low" : "threat-info"}>
+                        {check.status === "ran" ? "RAN" : "SKIPPED"}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
         </div>
       )}
 
+      {compareTarget && (
+        <ScanDiffView kind="scanner" target={compareTarget} onClose={() => setCompareTarget(null)} />
+      )}
+
       {/* Scan History */}
       {!isScanning && (
         <Card variant="cyber">
@@ -411,7 +559,9 @@ export default function Scanner() {
 
                   if (confirm("Clear all scan history?")) {
                     localStorage.removeItem(HISTORY_KEY);
+                    clearScans("scanner");
                     setScanHistory([]);
+                    setCompareTarget(null);
                     toast.success("Scan history cleared");
                   }
                 }}
@@ -434,6 +584,19 @@ export default function Scanner() {
                       <span className="font-mono">{scan.target}</span>
                     </div>
                     <div className="flex items-center gap-4">
+                      {listScans("scanner", scan.target).length >= 2 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setCompareTarget(scan.target);
+                          }}
+                        >
+                          <GitCompare className="w-4 h-4 mr-2" />
+                          Compare
+                        </Button>
+                      )}
                       <Badge variant="outline" className={scan.score >= 80 ? "threat-low" : "threat-medium"}>
                         {scan.score}/100
                       </Badge>
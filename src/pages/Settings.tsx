@@ -10,6 +10,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
 import {
   Select,
   SelectContent,
@@ -17,12 +20,49 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Download, Shield, Trash2, User, LogOut, AlertTriangle } from "lucide-react";
+import { Download, Shield, Trash2, User, LogOut, AlertTriangle, Scan, FileText, Upload, Link2, KeyRound } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
 import { useNavigate } from "react-router-dom";
-
-type ExportFormat = "json" | "txt";
+import { listChecks, readDisabledChecks, saveDisabledChecks } from "@/lib/scanner";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_EVENT,
+  EXPORT_FORMAT_KEY,
+  downloadExport,
+  readExportFormat,
+  type ExportFormat,
+} from "@/lib/exportFormats";
+import {
+  DEFAULT_BRANDING,
+  buildHtmlReport,
+  printHtmlReport,
+  readBranding,
+  readLogoFile,
+  saveBranding,
+  type ReportBranding,
+} from "@/lib/reportBuilder";
+import { DEFAULT_PROTECTED_DOMAINS, readProtectedDomains, saveProtectedDomains } from "@/lib/linkAnalysis";
+import { readCorporateDomains, saveCorporateDomains } from "@/lib/senderDomain";
+import {
+  formatOrganizationLures,
+  parseOrganizationLures,
+  readOrganizationLures,
+  readPhishingThreshold,
+  saveOrganizationLures,
+  savePhishingThreshold,
+} from "@/lib/phishingClassifier";
+import { DEFAULT_PHISHING_RULES } from "@/lib/phishingRules";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  checkPassword,
+  describePolicy,
+  policyError,
+  readPasswordPolicy,
+  savePasswordPolicy,
+  type PasswordPolicy,
+} from "@/lib/passwordPolicy";
+import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
 
 export default function Settings() {
   const { user, isDemo, updateDisplayName, logout } = useAuth();
@@ -35,17 +75,33 @@ export default function Settings() {
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
 
+  /* ---------------- PASSWORD POLICY ---------------- */
+  const [policy, setPolicy] = useState<PasswordPolicy>(() => readPasswordPolicy());
+  const [policyBlocklist, setPolicyBlocklist] = useState(() => readPasswordPolicy().blocklist.join("\n"));
+
   /* ---------------- EXPORT SETTINGS ---------------- */
   const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
 
   /* ---------------- DEFAULT PERSONA ---------------- */
   const [persona, setPersona] = useState("Cybersecurity Expert");
 
+  /* ---------------- REPORT BRANDING ---------------- */
+  const [branding, setBranding] = useState<ReportBranding>(() => readBranding());
+
+  /* ---------------- SCANNER CHECKS ---------------- */
+  const [disabledChecks, setDisabledChecks] = useState<string[]>(() => readDisabledChecks());
+
+  // Email checks: protected domains (link lookalikes), corporate domains (cousin senders),
+  // phishing language threshold and organization lures
+  const [protectedDomains, setProtectedDomains] = useState(() => readProtectedDomains().join("\n"));
+  const [corporateDomains, setCorporateDomains] = useState(() => readCorporateDomains().join("\n"));
+  const [phishingThreshold, setPhishingThreshold] = useState(() => readPhishingThreshold());
+  const [organizationLures, setOrganizationLures] = useState(() => formatOrganizationLures(readOrganizationLures()));
+
   useEffect(() => {
-    const savedExport = localStorage.getItem("pasco_export_format");
     const savedPersona = localStorage.getItem("pasco_default_persona");
 
-    if (savedExport === "json" || savedExport === "txt") setExportFormat(savedExport);
+    setExportFormat(readExportFormat());
     if (savedPersona) setPersona(savedPersona);
   }, []);
 
@@ -61,8 +117,11 @@ export default function Settings() {
       return;
     }
 
-    if (newPassword.length < 8) {
-      toast.error("New password must be at least 8 characters");
+    const policyFailure = policyError(
+      checkPassword(newPassword, readPasswordPolicy(), [user?.email || "", user?.displayName || ""])
+    );
+    if (policyFailure) {
+      toast.error(policyFailure);
       return;
     }
 
@@ -77,12 +136,45 @@ export default function Settings() {
     toast.success("Password updated successfully");
   };
 
+  /* ---------------- PASSWORD POLICY ---------------- */
+  const updatePolicy = (patch: Partial<PasswordPolicy>) => setPolicy((p) => ({ ...p, ...patch }));
+
+  const savePolicy = () => {
+    const saved = savePasswordPolicy({ ...policy, blocklist: policyBlocklist.split(/[\n,]+/) });
+    setPolicy(saved);
+    setPolicyBlocklist(saved.blocklist.join("\n"));
+    toast.success("Password policy saved");
+  };
+
+  const resetPolicy = () => {
+    setPolicy(DEFAULT_PASSWORD_POLICY);
+    setPolicyBlocklist("");
+  };
+
+  const exportPolicy = () => {
+    const lines = describePolicy({ ...policy, blocklist: policyBlocklist.split(/[\n,]+/).map((w) => w.trim()).filter(Boolean) });
+    const extension = downloadExport(
+      exportFormat,
+      {
+        tool: "Settings",
+        title: "Password Policy",
+        generatedAt: new Date().toISOString(),
+        summary: { "NIST SP 800-63B mode": policy.nistMode, "Minimum length": policy.minLength },
+        sections: [{ title: "Requirements", lines }],
+        data: policy,
+        text: ["Password Policy", "", ...lines.map((l) => `- ${l}`)].join("\n"),
+      },
+      "pascoai-password-policy"
+    );
+    toast.success(`Policy exported (.${extension})`);
+  };
+
   /* ---------------- EXPORT SETTINGS ---------------- */
   const saveExportSettings = () => {
-    localStorage.setItem("pasco_export_format", exportFormat);
+    localStorage.setItem(EXPORT_FORMAT_KEY, exportFormat);
 
     // ✅ LIVE SYNC across tools in same tab (PasswordLab/CryptoLab/etc.)
-    window.dispatchEvent(new Event("pasco_export_format_changed"));
+    window.dispatchEvent(new Event(EXPORT_FORMAT_EVENT));
 
     toast.success("Export settings saved");
   };
@@ -99,25 +191,100 @@ export default function Settings() {
           }
         : { defaultPersona: persona };
 
-    const content =
-      exportFormat === "json"
-        ? JSON.stringify(payload, null, 2)
-        : Object.entries(payload)
-            .map(([k, v]) => `${k}: ${String(v)}`)
-            .join("\n");
+    downloadExport(
+      exportFormat,
+      {
+        tool: "Settings",
+        title: `Settings Export (${type})`,
+        generatedAt: new Date().toISOString(),
+        summary: payload,
+        data: payload,
+        text: Object.entries(payload)
+          .map(([k, v]) => `${k}: ${String(v)}`)
+          .join("\n"),
+      },
+      `pascoai-${type}`
+    );
 
-    const blob = new Blob([content], {
-      type: exportFormat === "json" ? "application/json" : "text/plain;charset=utf-8",
-    });
+    toast.success(`Exported (${exportFormat})`);
+  };
+
+  /* ---------------- REPORT BRANDING ---------------- */
+  const onLogoUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const logoDataUrl = await readLogoFile(file);
+      setBranding((b) => ({ ...b, logoDataUrl }));
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
 
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `pascoai-${type}.${exportFormat}`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const saveReportBranding = () => {
+    try {
+      saveBranding(branding);
+      toast.success("Report branding saved");
+    } catch {
+      toast.error("Could not save branding (storage full?)");
+    }
+  };
 
-    toast.success(`Exported (${exportFormat})`);
+  const previewReport = () => {
+    printHtmlReport(
+      buildHtmlReport(
+        {
+          tool: "Scanner",
+          title: "Sample Security Report",
+          target: "example.com",
+          score: 72,
+          grade: "C",
+          summary: { "Final URL": "https://example.com/" },
+          findings: [
+            {
+              title: "Missing Content-Security-Policy",
+              severity: "medium",
+              description: "No CSP header was returned.",
+              recommendation: "Define a restrictive Content-Security-Policy.",
+              category: "Security Headers",
+            },
+          ],
+          data: null,
+        },
+        branding
+      )
+    );
+  };
+
+  /* ---------------- SCANNER CHECKS ---------------- */
+  const toggleCheck = (id: string, enabled: boolean) => {
+    const next = enabled ? disabledChecks.filter((x) => x !== id) : [...disabledChecks, id];
+    setDisabledChecks(next);
+    saveDisabledChecks(next);
+  };
+
+  /* ---------------- EMAIL CHECKS ---------------- */
+  const saveEmailChecks = () => {
+    const { lures, errors } = parseOrganizationLures(organizationLures);
+    if (errors.length) {
+      toast.error(`Organization lures: ${errors[0]}`);
+      return;
+    }
+    saveOrganizationLures(lures);
+    setOrganizationLures(formatOrganizationLures(lures));
+
+    const saved = saveProtectedDomains(protectedDomains.split("\n"));
+    setProtectedDomains(saved.join("\n"));
+    const corporate = saveCorporateDomains(corporateDomains.split(/[\s,]+/));
+    setCorporateDomains(corporate.join("\n"));
+    savePhishingThreshold(phishingThreshold);
+    toast.success(`Email checks saved (${saved.length} protected, ${corporate.length} corporate domains)`);
+  };
+
+  const resetEmailChecks = () => {
+    setProtectedDomains(DEFAULT_PROTECTED_DOMAINS.join("\n"));
+    setCorporateDomains("");
+    setPhishingThreshold(DEFAULT_PHISHING_RULES.threshold);
+    setOrganizationLures("");
   };
 
   /* ---------------- DELETE ACCOUNT ---------------- */
@@ -201,6 +368,7 @@ export default function Settings() {
             <div className="space-y-2">
               <Label>New Password</Label>
               <Input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} disabled={isDemo} />
+              <PasswordStrengthMeter password={newPassword} context={[user?.email || "", user?.displayName || ""]} />
             </div>
             <div className="space-y-2">
               <Label>Confirm</Label>
@@ -214,6 +382,141 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Password Policy */}
+      <Card variant="glass" className="border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-primary" />
+            Password Policy
+          </CardTitle>
+          <CardDescription>Enforced at signup and password change, and checked in PasswordLab</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="policy-nist">NIST SP 800-63B mode</Label>
+              <p className="text-xs text-muted-foreground">
+                Length and blocklists instead of composition rules; accepts at least 64 characters.
+              </p>
+            </div>
+            <Switch id="policy-nist" checked={policy.nistMode} onCheckedChange={(v) => updatePolicy({ nistMode: v })} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Minimum Length</Label>
+              <Input
+                type="number"
+                min={1}
+                value={policy.minLength}
+                onChange={(e) => updatePolicy({ minLength: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Maximum Length</Label>
+              <Input
+                type="number"
+                min={1}
+                value={policy.maxLength}
+                onChange={(e) => updatePolicy({ maxLength: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Max Repeated Characters</Label>
+              <Input
+                type="number"
+                min={0}
+                value={policy.maxRepeats}
+                onChange={(e) => updatePolicy({ maxRepeats: Number(e.target.value) })}
+              />
+              <p className="text-xs text-muted-foreground">0 = no limit</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+            <p className="text-sm font-medium md:col-span-2">Require</p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="policy-requireLower">Lowercase letter</Label>
+              <Switch
+                id="policy-requireLower"
+                checked={policy.requireLower && !policy.nistMode}
+                disabled={policy.nistMode}
+                onCheckedChange={(v) => updatePolicy({ requireLower: v })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="policy-requireUpper">Uppercase letter</Label>
+              <Switch
+                id="policy-requireUpper"
+                checked={policy.requireUpper && !policy.nistMode}
+                disabled={policy.nistMode}
+                onCheckedChange={(v) => updatePolicy({ requireUpper: v })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="policy-requireDigit">Number</Label>
+              <Switch
+                id="policy-requireDigit"
+                checked={policy.requireDigit && !policy.nistMode}
+                disabled={policy.nistMode}
+                onCheckedChange={(v) => updatePolicy({ requireDigit: v })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="policy-requireSymbol">Symbol</Label>
+              <Switch
+                id="policy-requireSymbol"
+                checked={policy.requireSymbol && !policy.nistMode}
+                disabled={policy.nistMode}
+                onCheckedChange={(v) => updatePolicy({ requireSymbol: v })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="policy-common">Block common passwords</Label>
+              <Switch
+                id="policy-common"
+                checked={policy.blockCommon || policy.nistMode}
+                disabled={policy.nistMode}
+                onCheckedChange={(v) => updatePolicy({ blockCommon: v })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="policy-context">Block the user's email / name</Label>
+              <Switch
+                id="policy-context"
+                checked={policy.blockContext || policy.nistMode}
+                disabled={policy.nistMode}
+                onCheckedChange={(v) => updatePolicy({ blockContext: v })}
+              />
+            </div>
+          </div>
+
+          <Label>Blocked Terms</Label>
+          <Textarea
+            value={policyBlocklist}
+            onChange={(e) => setPolicyBlocklist(e.target.value)}
+            placeholder="acme"
+            className="min-h-[80px] font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            One per line: company, product and team names. Passwords containing any of them are rejected.
+          </p>
+
+          <div className="flex gap-2 flex-wrap">
+            <Button onClick={savePolicy}>Save</Button>
+            <Button variant="outline" onClick={exportPolicy}>
+              Export Policy ({exportFormat.toUpperCase()})
+            </Button>
+            <Button variant="ghost" onClick={resetPolicy}>
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Export Settings */}
       <Card variant="glass" className="border-primary/20">
         <CardHeader>
@@ -231,10 +534,16 @@ export default function Settings() {
                 <SelectValue placeholder="Select format" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="json">JSON</SelectItem>
-                <SelectItem value="txt">TXT</SelectItem>
+                {EXPORT_FORMATS.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground">
+              SARIF feeds code-scanning dashboards; CSV writes one finding per row; Markdown suits tickets; HTML is the branded, printable report.
+            </p>
           </div>
 
           <Button onClick={saveExportSettings}>Save</Button>
@@ -255,6 +564,185 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Report Branding */}
+      <Card variant="glass" className="border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-primary" />
+            Report Branding
+          </CardTitle>
+          <CardDescription>Company name and logo on printable HTML/PDF reports</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Company Name</Label>
+              <Input
+                value={branding.companyName}
+                onChange={(e) => setBranding((b) => ({ ...b, companyName: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Accent Color</Label>
+              <Input
+                type="color"
+                value={branding.accentColor}
+                onChange={(e) => setBranding((b) => ({ ...b, accentColor: e.target.value }))}
+                className="h-10 p-1"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Footer Text</Label>
+            <Input
+              value={branding.footerText}
+              onChange={(e) => setBranding((b) => ({ ...b, footerText: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Logo</Label>
+            <div className="flex items-center gap-3">
+              {branding.logoDataUrl ? (
+                <img src={branding.logoDataUrl} alt="Report logo" className="h-10 max-w-[160px] object-contain rounded bg-white p-1" />
+              ) : (
+                <span className="text-sm text-muted-foreground">No logo (company name is shown instead)</span>
+              )}
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Upload
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+                    className="hidden"
+                    onChange={(e) => {
+                      onLogoUpload(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              </Button>
+              {branding.logoDataUrl && (
+                <Button variant="ghost" size="sm" onClick={() => setBranding((b) => ({ ...b, logoDataUrl: null }))}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2 flex-wrap">
+            <Button onClick={saveReportBranding}>Save</Button>
+            <Button variant="outline" onClick={previewReport}>
+              Preview
+            </Button>
+            <Button variant="ghost" onClick={() => setBranding(DEFAULT_BRANDING)}>
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Scanner Checks */}
+      <Card variant="glass" className="border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scan className="w-5 h-5 text-primary" />
+            Scanner Checks
+          </CardTitle>
+          <CardDescription>Disabled checks are skipped and do not affect the score</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {listChecks().map((check) => (
+            <div key={check.id} className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor={`check-${check.id}`}>{check.title}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {check.category} · <span className="font-mono">{check.id}</span>
+                </p>
+              </div>
+              <Switch
+                id={`check-${check.id}`}
+                checked={!disabledChecks.includes(check.id)}
+                onCheckedChange={(v) => toggleCheck(check.id, v)}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Email Checks */}
+      <Card variant="glass" className="border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="w-5 h-5 text-primary" />
+            Email Checks
+          </CardTitle>
+          <CardDescription>Tuning for the Email Security checker</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label>Phishing Language Threshold</Label>
+              <span className="text-sm font-mono">{phishingThreshold}/100</span>
+            </div>
+            <Slider
+              min={10}
+              max={90}
+              step={5}
+              value={[phishingThreshold]}
+              onValueChange={([v]) => setPhishingThreshold(v)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Lower catches more lures but flags more legitimate mail. Add wording attackers would use against your
+              organization under Organization Lures.
+            </p>
+          </div>
+
+          <Label>Organization Lures</Label>
+          <Textarea
+            value={organizationLures}
+            onChange={(e) => setOrganizationLures(e.target.value)}
+            placeholder="acme payroll portal | 12 | Internal payroll lure"
+            className="min-h-[80px] font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            One per line: a phrase (or /regex/), then optionally | points (1-40) | description. Matches count toward the
+            organization-specific lure category of the phishing language score.
+          </p>
+
+          <Label>Protected Domains</Label>
+          <Textarea
+            value={protectedDomains}
+            onChange={(e) => setProtectedDomains(e.target.value)}
+            placeholder="example.com"
+            className="min-h-[140px] font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            One brand per line: its main domain, then any other domains it owns (paypal.com paypal.co.uk). Links
+            and senders imitating these are flagged as lookalikes; put your own brands first.
+          </p>
+
+          <Label>Corporate Domains</Label>
+          <Textarea
+            value={corporateDomains}
+            onChange={(e) => setCorporateDomains(e.target.value)}
+            placeholder="acme.com"
+            className="min-h-[80px] font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Domains your organization sends from. Senders on near-identical domains are flagged as cousin domains.
+          </p>
+          <div className="flex gap-2 flex-wrap">
+            <Button onClick={saveEmailChecks}>Save</Button>
+            <Button variant="ghost" onClick={resetEmailChecks}>
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Delete Account */}
       <Card variant="glass" className="border-destructive/20">
         <CardHeader>
@@ -27,7 +27,11 @@ import {
   ChevronLeft,
   Sparkles,
   SlidersHorizontal,
+  Printer,
 } from "lucide-react";
+import { downloadExport, type ExportReport } from "@/lib/exportFormats";
+import { printReport } from "@/lib/reportBuilder";
+import { useExportFormat } from "@/hooks/useExportFormat";
 
 /**
  * SIMULATIONS TAB (Future + Current Proof)
@@ -149,18 +153,6 @@ function safeJson<T>(raw: string | null, fallback: T): T {
   }
 }
 
-function downloadTextFile(filename: string, content: string) {
-  const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
-}
-
 function fmtAttempts(n: number) {
   if (n >= 1e12) return `${(n / 1e12).toFixed(2)}T`;
   if (n >= 1e9) return `${(n / 1e9).toFixed(2)}B`;
@@ -1269,6 +1261,7 @@ function computeAdjusted(tool: SimTool, categoryId: CategoryId, inputs: SimInput
 
 /* ----------------------- Page ----------------------- */
 export default function Simulations() {
+  const exportFormat = useExportFormat();
   const [activeCategoryId, setActiveCategoryId] = useState<CategoryId>("password");
   const [activeToolId, setActiveToolId] = useState<ToolId>("dictionary");
 
@@ -1425,7 +1418,7 @@ export default function Simulations() {
     }, 280);
   };
 
-  const exportRun = () => {
+  const buildRunReport = (): ExportReport => {
     const content = [
       `PascoAI — Simulations Report`,
       `Date: ${new Date().toISOString()}`,
@@ -1472,8 +1465,50 @@ export default function Simulations() {
       ``,
     ].join("\n");
 
-    downloadTextFile(`pascoai_sim_${activeTool.id}_${todayISO()}.txt`, content);
-    toast.success("Report exported");
+    return {
+      tool: "Simulations",
+      title: `Simulation Report: ${activeTool.title}`,
+      generatedAt: new Date().toISOString(),
+      summary: {
+        Category: activeCategory.label,
+        Tool: activeTool.title,
+        "Base Risk": activeTool.risk,
+        "Base Impact": `${activeTool.impact}%`,
+        "Base Difficulty": `${activeTool.difficulty}%`,
+        "Adjusted Risk": adjusted.risk,
+        "Adjusted Impact": `${adjusted.impact}%`,
+        Outcome: adjusted.outcome,
+      },
+      findings: [
+        {
+          ruleId: `simulation/${activeTool.id}`,
+          title: activeTool.title,
+          severity: adjusted.risk === "HIGH" ? "high" : adjusted.risk === "MEDIUM" ? "medium" : "low",
+          description: `${activeTool.whatIsIt} Outcome: ${adjusted.outcome}`,
+          recommendation: activeTool.howToBeSafe.join(" "),
+          category: activeCategory.label,
+        },
+      ],
+      sections: [
+        { title: "Rationale", lines: adjusted.rationale },
+        { title: "How it works", lines: activeTool.howItWorks },
+        { title: "What can go wrong", lines: activeTool.whatCanGoWrong },
+        { title: "Simulation Log", lines: runLog },
+      ],
+      data: {
+        category: activeCategory.label,
+        tool: activeTool,
+        inputs,
+        adjusted,
+        log: runLog,
+      },
+      text: content,
+    };
+  };
+
+  const exportRun = () => {
+    downloadExport(exportFormat, buildRunReport(), `pascoai_sim_${activeTool.id}_${todayISO()}`);
+    toast.success(`Report exported (${exportFormat.toUpperCase()})`);
   };
 
   const enterFocusModeForTool = (toolId: ToolId) => {
@@ -2020,7 +2055,11 @@ export default function Simulations() {
                     <div className="flex gap-2">
                       <Button variant="outline" onClick={exportRun} disabled={runLog.length === 0}>
                         <FileText className="w-4 h-4 mr-2" />
-                        Export
+                        Export ({exportFormat.toUpperCase()})
+                      </Button>
+                      <Button variant="outline" onClick={() => printReport(buildRunReport())} disabled={runLog.length === 0}>
+                        <Printer className="w-4 h-4 mr-2" />
+                        Print / PDF
                       </Button>
                       <Button
                         variant="ghost"
@@ -15,58 +15,114 @@ import {
   Network,
   Lock,
   FileCode,
+  ArrowRight,
+  Layers,
+  GitCompare,
+  Download,
+  Printer,
 } from "lucide-react";
-import { scanWebsite, type WebSecurityResult } from "@/lib/webSecurity";
-
-const headerMeta: Record<string, { label: string; severity: "critical" | "high" | "medium" | "low"; why: string; fix: string }> = {
-  "content-security-policy": {
-    label: "Content-Security-Policy",
-    severity: "critical",
-    why: "Helps prevent XSS by controlling what scripts/resources can load.",
-    fix: "Add a strict CSP (avoid unsafe-inline where possible).",
-  },
-  "strict-transport-security": {
-    label: "Strict-Transport-Security",
-    severity: "high",
-    why: "Forces browsers to use HTTPS (prevents downgrade attacks).",
-    fix: "Enable HSTS with long max-age + includeSubDomains.",
-  },
-  "x-frame-options": {
-    label: "X-Frame-Options",
-    severity: "high",
-    why: "Stops clickjacking by controlling iframe embedding.",
-    fix: "Set to DENY or SAMEORIGIN (or use CSP frame-ancestors).",
-  },
-  "x-content-type-options": {
-    label: "X-Content-Type-Options",
-    severity: "medium",
-    why: "Prevents MIME sniffing issues.",
-    fix: "Set to nosniff.",
-  },
-  "referrer-policy": {
-    label: "Referrer-Policy",
-    severity: "low",
-    why: "Controls how much referrer info is leaked.",
-    fix: "Use strict-origin-when-cross-origin or no-referrer.",
-  },
-  "permissions-policy": {
-    label: "Permissions-Policy",
-    severity: "low",
-    why: "Restricts access to powerful browser features (camera, geo, etc.).",
-    fix: "Define policy for features your site does not need.",
-  },
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HEADER_META, scanWebsite, type CspAnalysis, type TargetBlocked, type WebSecurityResult } from "@/lib/webSecurity";
+import { cveUrl } from "@/lib/vulnerabilities";
+import { clearScans, listLatest, listScans, saveScan, targetKey } from "@/lib/scanStore";
+import { downloadExport, findingsFromWeb, type ExportReport } from "@/lib/exportFormats";
+import { printReport } from "@/lib/reportBuilder";
+import { useExportFormat } from "@/hooks/useExportFormat";
+import { toast } from "sonner";
+import { BatchScanPanel } from "@/components/BatchScanPanel";
+import { ScanDiffView } from "@/components/ScanDiffView";
+
+const cspSeverityClass: Record<string, string> = {
+  high: "threat-high",
+  medium: "threat-medium",
+  low: "threat-low",
+  info: "threat-info",
 };
 
+/* ---------------- CSP Table ---------------- */
+function CspTable({ policy }: { policy: CspAnalysis }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge className={policy.penalty >= 10 ? "threat-high" : policy.penalty > 0 ? "threat-medium" : "threat-low"}>
+          -{policy.penalty} pts
+        </Badge>
+        {policy.usesNonces && <Badge variant="outline">nonces</Badge>}
+        {policy.usesHashes && <Badge variant="outline">hashes</Badge>}
+        {policy.policyCount > 1 && (
+          <Badge variant="outline">{policy.policyCount} policies · strictest shown</Badge>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Directive</TableHead>
+            <TableHead>Sources</TableHead>
+            <TableHead>Findings</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {policy.directives.map((d) => (
+            <TableRow key={d.name}>
+              <TableCell className="font-mono text-sm">{d.name}</TableCell>
+              <TableCell className="font-mono text-xs break-all">{d.sources.join(" ") || "—"}</TableCell>
+              <TableCell className="space-y-1">
+                {d.findings.length === 0 ? (
+                  <span className="text-xs text-muted-foreground">OK</span>
+                ) : (
+                  d.findings.map((f, i) => (
+                    <div key={i} className="flex items-start gap-2 text-xs">
+                      <Badge className={cspSeverityClass[f.severity]}>{f.severity.toUpperCase()}</Badge>
+                      <span className="text-muted-foreground">{f.message}</span>
+                    </div>
+                  ))
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+          {policy.findings.map((f, i) => (
+            <TableRow key={`policy-${i}`}>
+              <TableCell className="font-mono text-sm text-muted-foreground">{f.directive}</TableCell>
+              <TableCell className="text-xs text-muted-foreground">not set</TableCell>
+              <TableCell>
+                <div className="flex items-start gap-2 text-xs">
+                  <Badge className={cspSeverityClass[f.severity]}>{f.severity.toUpperCase()}</Badge>
+                  <span className="text-muted-foreground">{f.message}</span>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+const HISTORY_LIMIT = 10;
+
+async function scanAndStore(target: string) {
+  const r = await scanWebsite(target);
+  saveScan("web", r);
+  return r;
+}
+
 export default function WebSecurity() {
+  const exportFormat = useExportFormat();
   const [url, setUrl] = useState("https://example.com");
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
+  const [blocked, setBlocked] = useState<TargetBlocked | null>(null);
   const [result, setResult] = useState<WebSecurityResult | null>(null);
-  const [history, setHistory] = useState<WebSecurityResult[]>([]);
+  const [history, setHistory] = useState<WebSecurityResult[]>(() => listLatest("web").slice(0, HISTORY_LIMIT));
+  const [batchMode, setBatchMode] = useState(false);
+  const [compareTarget, setCompareTarget] = useState<string | null>(null);
 
   const clearHistory = () => {
+    clearScans("web");
     setHistory([]);
-  };  
+    setCompareTarget(null);
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -90,27 +146,85 @@ export default function WebSecurity() {
 
   async function onScan() {
     setErr(null);
+    setBlocked(null);
     setLoading(true);
     try {
-      const r = await scanWebsite(url);
+      const r = await scanAndStore(url);
       setResult(r);
-      setHistory((prev) => [r, ...prev].slice(0, 10));
+      setHistory(listLatest("web").slice(0, HISTORY_LIMIT));
     } catch (e: any) {
       setErr(e?.message || "Scan failed");
+      setBlocked(e?.blocked || null);
     } finally {
       setLoading(false);
     }
   }
 
-  return (
-    <div className="space-y-6 animate-fade-in">
-      {/* Header */}
+  function buildReport(r: WebSecurityResult): ExportReport {
+    return {
+      tool: "Web Security",
+      title: "Web Security Report",
+      target: r.finalUrl,
+      generatedAt: r.scannedAt,
+      score: r.score,
+      grade: r.grade,
+      summary: {
+        HTTPS: r.https,
+        "Status code": r.statusCode,
+        Redirects: r.redirects.length,
+        "Certificate expires": r.certificate?.validTo,
+      },
+      findings: findingsFromWeb(r),
+      data: r,
+    };
+  }
+
+  function exportResult() {
+    if (!result) return;
+    downloadExport(exportFormat, buildReport(result), `pasco-web-security-${new URL(result.finalUrl).hostname}`);
+    toast.success(`Exported (${exportFormat.toUpperCase()})`);
+  }
+
+  const header = (
+    <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
       <div>
         <h1 className="text-3xl font-bold text-gradient-cyber">Web Security Scanner Suite</h1>
         <p className="text-muted-foreground mt-1">
           Real, legal checks: headers, cookies, HTTPS/SSL, DNS and HTTP method exposure.
         </p>
       </div>
+      <Button variant={batchMode ? "secondary" : "outline"} size="sm" onClick={() => setBatchMode((v) => !v)}>
+        <Layers className="w-4 h-4 mr-2" />
+        {batchMode ? "Single Scan" : "Batch Mode"}
+      </Button>
+    </div>
+  );
+
+  if (batchMode) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        {header}
+        <BatchScanPanel
+          scan={scanAndStore}
+          summarize={(r: WebSecurityResult) => ({
+            score: r.score,
+            grade: r.grade,
+            findings: r.issues.length,
+            finalUrl: r.finalUrl,
+          })}
+          findings={findingsFromWeb}
+          tool="Web Security"
+          exportName="pasco-web-batch"
+          placeholder={"https://example.com\nshop.example.com\napi.example.com"}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      {header}
 
       {/* Scan Bar */}
       <Card variant="glass" className="border-primary/30">
@@ -128,12 +242,30 @@ export default function WebSecurity() {
                   {loading ? "Scanning..." : "Scan Website"}
                 </Button>
               </div>
-              {err && (
+              {err && !blocked && (
                 <div className="mt-2 text-sm text-warning flex items-center gap-2">
                   <AlertTriangle className="w-4 h-4" />
                   <span>{err}</span>
                 </div>
               )}
+              {blocked && (
+                <div className="mt-2 p-3 rounded-lg bg-destructive/10 border border-destructive/30">
+                  <div className="flex items-start gap-2">
+                    <Shield className="w-4 h-4 text-destructive mt-0.5" />
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-destructive">Target blocked by scan policy</p>
+                      <p className="text-sm text-muted-foreground">{blocked.error}</p>
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="outline" className="font-mono">{blocked.reason}</Badge>
+                        <Badge variant="outline" className="font-mono">{blocked.host}</Badge>
+                        {blocked.address && (
+                          <Badge variant="outline" className="font-mono">{blocked.address}</Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="flex items-center gap-3">
@@ -143,6 +275,14 @@ export default function WebSecurity() {
                   <Badge variant="outline" className="font-mono">
                     {new URL(result.finalUrl).hostname}
                   </Badge>
+                  <Button variant="secondary" size="sm" onClick={exportResult}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Export ({exportFormat.toUpperCase()})
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => printReport(buildReport(result))}>
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print / PDF
+                  </Button>
                 </>
               ) : (
                 <Badge variant="outline" className="text-muted-foreground">
@@ -193,7 +333,10 @@ export default function WebSecurity() {
                     <p className="font-medium">DNS</p>
                   </div>
                   <p className="text-sm text-muted-foreground mt-1">
-                    {Array.isArray(result.dns) ? `${result.dns.length} records` : "—"}
+                    {result.dns.a.length + result.dns.aaaa.length} addresses • {result.dns.mx.length} MX
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {result.dnsAnalysis.findings.length} DNS findings
                   </p>
                 </CardContent>
               </Card>
@@ -203,7 +346,7 @@ export default function WebSecurity() {
       </Card>
 
       <Tabs defaultValue="headers" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="headers">
             <Shield className="w-4 h-4 mr-2" />
             Security Headers
@@ -216,6 +359,18 @@ export default function WebSecurity() {
             <Network className="w-4 h-4 mr-2" />
             HTTP Exposure
           </TabsTrigger>
+          <TabsTrigger value="tls">
+            <Lock className="w-4 h-4 mr-2" />
+            TLS
+          </TabsTrigger>
+          <TabsTrigger value="dns">
+            <Globe className="w-4 h-4 mr-2" />
+            DNS
+          </TabsTrigger>
+          <TabsTrigger value="tech">
+            <Layers className="w-4 h-4 mr-2" />
+            Technology
+          </TabsTrigger>
         </TabsList>
 
         {/* Headers (REAL) */}
@@ -238,8 +393,14 @@ export default function WebSecurity() {
                 </div>
               ) : (
                 <Accordion type="single" collapsible className="space-y-2">
+                  {result.headersFromRedirect && (
+                    <p className="text-sm text-warning">
+                      The redirect chain stopped before a final page, so these headers come from an intermediate
+                      redirect and are not scored.
+                    </p>
+                  )}
                   {Object.entries(result.headerStatus).map(([key, st]) => {
-                    const meta = headerMeta[key] || { label: key, severity: "low", why: "", fix: "" };
+                    const meta = HEADER_META[key] || { label: key, severity: "low", why: "", fix: "" };
                     const badge = st.present ? (
                       <Badge className="threat-low">PRESENT</Badge>
                     ) : (
@@ -287,6 +448,36 @@ export default function WebSecurity() {
             </CardContent>
           </Card>
 
+          {/* CSP Analysis */}
+          {result && (result.csp || result.cspReportOnly) && (
+            <Card variant="cyber">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileCode className="w-5 h-5 text-primary" />
+                  Content-Security-Policy Analysis
+                </CardTitle>
+                <CardDescription>
+                  Directive-level review of the enforced policy. Report-only policies are listed separately and not scored.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {result.csp && <CspTable policy={result.csp} />}
+
+                {result.cspReportOnly && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">REPORT-ONLY</Badge>
+                      <span className="text-sm text-muted-foreground">
+                        content-security-policy-report-only (monitoring, not enforced)
+                      </span>
+                    </div>
+                    <CspTable policy={result.cspReportOnly} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Issues Summary */}
           {result && (
             <Card variant="glass" className="border-primary/20">
@@ -341,8 +532,11 @@ export default function WebSecurity() {
                     <Card key={idx} variant="glass">
                       <CardContent className="p-4 space-y-2">
                         <div className="flex items-center justify-between gap-2">
-                          <Badge variant="outline" className="font-mono text-xs">COOKIE #{idx + 1}</Badge>
-                          <div className="flex gap-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <Badge variant="outline" className="font-mono text-xs truncate">{c.name}</Badge>
+                            {c.likelySession && <Badge className="threat-info">SESSION</Badge>}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
                             <Badge className={c.secure ? "threat-low" : "threat-high"}>Secure</Badge>
                             <Badge className={c.httpOnly ? "threat-low" : "threat-high"}>HttpOnly</Badge>
                             <Badge className={c.sameSite !== "missing" ? "threat-low" : "threat-medium"}>
@@ -351,6 +545,39 @@ export default function WebSecurity() {
                           </div>
                         </div>
 
+                        <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                          <span>Domain: <span className="font-mono">{c.domain || "host-only"}</span></span>
+                          <span>Path: <span className="font-mono">{c.path || "default"}</span></span>
+                          <span>
+                            Lifetime:{" "}
+                            <span className="font-mono">
+                              {c.lifetimeSeconds === null
+                                ? "browser session"
+                                : c.lifetimeSeconds <= 0
+                                ? "expired (deletion)"
+                                : `${Math.round(c.lifetimeSeconds / 86400)} days`}
+                            </span>
+                          </span>
+                          <span>
+                            Prefix:{" "}
+                            <span className={`font-mono ${c.prefixValid ? "" : "text-destructive"}`}>
+                              {c.prefix ? `${c.prefix}${c.prefixValid ? "" : " (invalid)"}` : "none"}
+                            </span>
+                            {c.partitioned && " • Partitioned"}
+                          </span>
+                        </div>
+
+                        {c.issues.length > 0 && (
+                          <ul className="space-y-1 text-xs text-muted-foreground">
+                            {c.issues.map((i) => (
+                              <li key={i} className="flex items-start gap-2">
+                                <AlertTriangle className="w-3 h-3 text-warning mt-0.5" />
+                                <span>{i}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
                         <div className="p-3 rounded-lg bg-muted/50">
                           <code className="text-sm font-mono text-primary break-all">{c.raw}</code>
                         </div>
@@ -372,11 +599,50 @@ export default function WebSecurity() {
                 HTTP Exposure (Live)
               </CardTitle>
               <CardDescription>
-                Based on server OPTIONS response (Allow header).
+                OPTIONS/CORS preflight, allowed methods and safe well-known path checks (status only).
               </CardDescription>
             </CardHeader>
 
             <CardContent>
+              {result && result.exposureFindings.length > 0 && (
+                <div className="space-y-2 mb-6">
+                  {result.exposureFindings.map((f, idx) => (
+                    <div key={idx} className="flex items-start gap-2 p-3 rounded-lg bg-muted/30">
+                      <Badge className={getStatusColor(f.severity)}>{f.severity.toUpperCase()}</Badge>
+                      <div>
+                        <p className="text-sm font-medium">{f.title}</p>
+                        <p className="text-xs text-muted-foreground">{f.detail}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {result?.probe && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6 text-sm">
+                  <div className="p-3 rounded-lg bg-muted/30">
+                    <p className="text-xs text-muted-foreground mb-1">CORS preflight</p>
+                    {result.probe.options ? (
+                      <p className="font-mono text-xs break-all">
+                        {result.probe.options.statusCode} • ACAO: {result.probe.options.cors.allowOrigin || "—"}
+                        {result.probe.options.cors.allowCredentials ? " • credentials" : ""}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">OPTIONS request failed.</p>
+                    )}
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/30 space-y-1">
+                    <p className="text-xs text-muted-foreground mb-1">Well-known paths</p>
+                    {result.probe.paths.map((p) => (
+                      <div key={p.path} className="flex items-center justify-between text-xs">
+                        <span className="font-mono">{p.path}</span>
+                        <Badge variant="outline" className="font-mono">{p.statusCode ?? "ERR"}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {!result ? (
                 <div className="text-sm text-muted-foreground">Run a scan to view allowed methods.</div>
               ) : result.allowedMethods.length === 0 ? (
@@ -399,6 +665,49 @@ export default function WebSecurity() {
                 </div>
               )}
 
+              {result && (
+                <Card variant="glass" className="mt-6">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <ArrowRight className="w-4 h-4 text-primary" />
+                      <p className="font-medium">Redirect Chain</p>
+                      {result.redirectLimitReached && (
+                        <Badge className="threat-medium">LIMIT REACHED</Badge>
+                      )}
+                    </div>
+
+                    {(result.redirectChain || []).map((hop, idx) => (
+                      <div key={idx} className="p-3 rounded-lg bg-muted/30 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="outline" className="font-mono">#{idx + 1}</Badge>
+                          <Badge
+                            className={
+                              hop.statusCode >= 400 ? "threat-high" : hop.statusCode >= 300 ? "threat-info" : "threat-low"
+                            }
+                          >
+                            {hop.statusCode}
+                          </Badge>
+                          {hop.flags.includes("downgrade") && <Badge className="threat-high">HTTPS → HTTP</Badge>}
+                          {hop.flags.includes("cross-domain") && <Badge className="threat-medium">CROSS-DOMAIN</Badge>}
+                          {hop.flags.includes("invalid-location") && <Badge className="threat-medium">INVALID LOCATION</Badge>}
+                          {hop.flags.includes("unsupported-scheme") && <Badge className="threat-medium">NON-HTTP LOCATION</Badge>}
+                          <span className="font-mono text-sm break-all">{hop.url}</span>
+                        </div>
+                        {hop.location && (
+                          <p className="text-xs text-muted-foreground break-all">
+                            Location: <span className="font-mono">{hop.location}</span>
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {Object.keys(hop.headers || {}).length} headers
+                          {hop.headers?.["strict-transport-security"] ? " • HSTS set" : ""}
+                        </p>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               {result && (
                 <Card variant="glass" className="mt-6">
                   <CardContent className="p-4">
@@ -417,8 +726,293 @@ export default function WebSecurity() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* TLS (REAL) */}
+        <TabsContent value="tls" className="space-y-4">
+          <Card variant="cyber">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="w-5 h-5 text-primary" />
+                TLS & Certificate (Live)
+              </CardTitle>
+              <CardDescription>
+                Negotiated protocol, cipher, key and certificate chain of the final response.
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+              {!result ? (
+                <div className="text-sm text-muted-foreground">Run a scan to view TLS details.</div>
+              ) : !result.tls ? (
+                <div className="text-sm text-muted-foreground">No TLS connection (target served over HTTP).</div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge className={result.tls.authorized ? "threat-low" : "threat-high"}>
+                      {result.tls.authorized ? "TRUSTED CHAIN" : result.tls.selfSigned ? "SELF-SIGNED" : "UNTRUSTED"}
+                    </Badge>
+                    <Badge className={result.tls.hostnameMatch ? "threat-low" : "threat-high"}>
+                      {result.tls.hostnameMatch ? "HOSTNAME MATCH" : "HOSTNAME MISMATCH"}
+                    </Badge>
+                    {result.tls.authorizationError && (
+                      <Badge variant="outline" className="font-mono">{result.tls.authorizationError}</Badge>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                    {[
+                      ["Protocol", result.tls.protocol || "—"],
+                      ["Cipher suite", result.tls.cipher?.standardName || result.tls.cipher?.name || "—"],
+                      [
+                        "Public key",
+                        `${result.tls.keyType}${result.tls.keySize ? ` ${result.tls.keySize} bits` : ""}${
+                          result.tls.curve ? ` (${result.tls.curve})` : ""
+                        }`,
+                      ],
+                      ["Signature", result.tls.signatureAlgorithm || "—"],
+                      ["Subject", result.tls.subject],
+                      ["Chain depth", String(result.tls.chainDepth)],
+                    ].map(([label, value]) => (
+                      <div key={label} className="p-3 rounded-lg bg-muted/30">
+                        <p className="text-xs text-muted-foreground">{label}</p>
+                        <p className="font-mono break-all">{value}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="p-3 rounded-lg bg-muted/30">
+                    <p className="text-xs text-muted-foreground mb-2">Subject Alternative Names</p>
+                    <div className="flex flex-wrap gap-2">
+                      {result.tls.san.length ? (
+                        result.tls.san.map((n) => (
+                          <Badge key={n} variant="outline" className="font-mono text-xs">{n}</Badge>
+                        ))
+                      ) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">Presented chain</p>
+                    {result.tls.chain.map((c, idx) => (
+                      <div key={idx} className="flex items-center justify-between p-3 rounded-lg bg-muted/30 text-sm">
+                        <span className="font-mono break-all">
+                          {idx}. {c.subject} ← {c.issuer}
+                        </span>
+                        <span className="text-xs text-muted-foreground">{c.validTo}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* DNS (REAL) */}
+        <TabsContent value="dns" className="space-y-4">
+          <Card variant="cyber">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Globe className="w-5 h-5 text-accent" />
+                DNS & Email Auth (Live)
+              </CardTitle>
+              <CardDescription>
+                Records for the final host and its zone, CAA vs. certificate issuer, DNSSEC, SPF and DMARC.
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+              {!result ? (
+                <div className="text-sm text-muted-foreground">Run a scan to view DNS records.</div>
+              ) : (
+                <div className="space-y-4">
+                  {/* Findings */}
+                  {result.dnsAnalysis.findings.length ? (
+                    <div className="space-y-2">
+                      {result.dnsAnalysis.findings.map((f, idx) => (
+                        <div key={idx} className="flex items-start gap-2 p-3 rounded-lg bg-muted/30">
+                          <Badge className={getStatusColor(f.severity)}>{f.severity.toUpperCase()}</Badge>
+                          <div>
+                            <p className="text-sm font-medium">{f.title}</p>
+                            <p className="text-xs text-muted-foreground break-all">{f.detail}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <CheckCircle className="w-4 h-4 text-success" />
+                      No DNS issues detected.
+                    </div>
+                  )}
+
+                  {/* Summary */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                    <div className="p-3 rounded-lg bg-muted/30">
+                      <p className="text-xs text-muted-foreground">DNSSEC</p>
+                      <p className="font-mono">
+                        {!result.dns.dnssec
+                          ? "Unknown"
+                          : result.dns.dnssec.signed
+                          ? result.dns.dnssec.validated ? "Signed • validated" : "Signed"
+                          : "Not signed"}
+                      </p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted/30">
+                      <p className="text-xs text-muted-foreground">
+                        CAA{result.dns.caaName ? ` (${result.dns.caaName})` : ""}
+                      </p>
+                      <p className="font-mono">
+                        {result.dnsAnalysis.caa.status}
+                        {result.dnsAnalysis.caa.allowed.length ? ` • ${result.dnsAnalysis.caa.allowed.join(", ")}` : ""}
+                      </p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted/30">
+                      <p className="text-xs text-muted-foreground">SPF</p>
+                      <p className="font-mono break-all">
+                        {result.dnsAnalysis.spf ? `${result.dnsAnalysis.spf.all} • ${result.dnsAnalysis.spf.record}` : "Not published"}
+                      </p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted/30">
+                      <p className="text-xs text-muted-foreground">DMARC</p>
+                      <p className="font-mono break-all">
+                        {result.dnsAnalysis.dmarc
+                          ? `p=${result.dnsAnalysis.dmarc.policy} • pct=${result.dnsAnalysis.dmarc.pct}${
+                              result.dnsAnalysis.dmarc.rua.length ? ` • rua=${result.dnsAnalysis.dmarc.rua.join(",")}` : ""
+                            }`
+                          : "Not published"}
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Records */}
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[
+                        ...result.dns.a.map((v) => ["A", result.dns.name, v]),
+                        ...result.dns.aaaa.map((v) => ["AAAA", result.dns.name, v]),
+                        ...result.dns.cname.map((v) => ["CNAME", result.dns.name, v]),
+                        ...result.dns.mx.map((m) => ["MX", result.dns.zone, `${m.priority} ${m.exchange}`]),
+                        ...result.dns.ns.map((v) => ["NS", result.dns.zone, v]),
+                        ...result.dns.txt.map((v) => ["TXT", result.dns.zone, v]),
+                        ...result.dns.caa.map((c) => ["CAA", result.dns.caaName || result.dns.zone, `${c.critical} ${c.tag} "${c.value}"`]),
+                        ...(result.dns.soa
+                          ? [["SOA", result.dns.zone, `${result.dns.soa.nsname} ${result.dns.soa.hostmaster} ${result.dns.soa.serial}`]]
+                          : []),
+                      ].map(([type, name, value], idx) => (
+                        <TableRow key={idx}>
+                          <TableCell className="font-mono text-xs">{type}</TableCell>
+                          <TableCell className="font-mono text-xs">{name}</TableCell>
+                          <TableCell className="font-mono text-xs break-all">{value}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Technology (REAL) */}
+        <TabsContent value="tech" className="space-y-4">
+          <Card variant="cyber">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="w-5 h-5 text-primary" />
+                Technology Fingerprint (Live)
+              </CardTitle>
+              <CardDescription>
+                Servers, frameworks, CDNs and WAFs matched from headers, cookie names, generator tags and script paths.
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+              {!result ? (
+                <div className="text-sm text-muted-foreground">Run a scan to fingerprint the site.</div>
+              ) : !result.technologies?.length ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <CheckCircle className="w-4 h-4 text-success" />
+                  No known technology signatures matched.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {result.vulnerabilities.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Known vulnerabilities (offline feed)</p>
+                      {result.vulnerabilities.map((v) => (
+                        <div key={`${v.product}-${v.cve}`} className="flex items-start gap-2 p-3 rounded-lg bg-muted/30">
+                          <Badge className={getStatusColor(v.severity)}>{v.severity.toUpperCase()}</Badge>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium">
+                              <a href={cveUrl(v.cve)} target="_blank" rel="noreferrer" className="font-mono underline">
+                                {v.cve}
+                              </a>{" "}
+                              • {v.product} {v.version} • CVSS {v.cvss.toFixed(1)}
+                              {!v.exact && <span className="text-xs text-muted-foreground"> (possible match)</span>}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{v.summary}</p>
+                            <p className="text-xs mt-1">
+                              {v.fixedIn ? `Fixed in ${v.fixedIn}.` : "Upgrade to a supported release."}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {result.technologyFindings
+                    .filter((f) => f.penalty > 0)
+                    .map((f, idx) => (
+                      <div key={idx} className="flex items-start gap-2 p-3 rounded-lg bg-muted/30">
+                        <Badge className={getStatusColor(f.severity)}>{f.severity.toUpperCase()}</Badge>
+                        <div>
+                          <p className="text-sm font-medium">{f.title}</p>
+                          <p className="text-xs text-muted-foreground font-mono break-all">{f.detail}</p>
+                        </div>
+                      </div>
+                    ))}
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Technology</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Evidence</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.technologies.map((t) => (
+                        <TableRow key={t.name}>
+                          <TableCell className="font-medium">{t.name}</TableCell>
+                          <TableCell className="text-xs">{t.category}</TableCell>
+                          <TableCell className="font-mono text-xs">{t.version || "—"}</TableCell>
+                          <TableCell className="font-mono text-xs break-all">{t.evidence}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
+      {compareTarget && (
+        <ScanDiffView kind="web" target={compareTarget} onClose={() => setCompareTarget(null)} />
+      )}
+
       {/* History */}
       {history.length > 0 && (
         <Card variant="glass" className="border-primary/20">
@@ -429,7 +1023,7 @@ export default function WebSecurity() {
                   <Globe className="w-5 h-5 text-primary" />
                   History
                 </CardTitle>
-                <CardDescription>Last {history.length} scans</CardDescription>
+                <CardDescription>Latest scan of {history.length} targets</CardDescription>
               </div>
 
               <Button
@@ -461,19 +1055,27 @@ export default function WebSecurity() {
                     {new Date(h.scannedAt).toLocaleString()}
                   </p>
                 </div>
-                <Badge
-                  className={
-                    h.score >= 90
-                      ? "threat-low"
-                      : h.score >= 75
-                      ? "threat-medium"
-                      : h.score >= 60
-                      ? "threat-high"
-                      : "threat-critical"
-                  }
-                >
-                  {h.grade} • {h.score}
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {listScans("web", targetKey("web", h)).length >= 2 && (
+                    <Button variant="ghost" size="sm" onClick={() => setCompareTarget(targetKey("web", h))}>
+                      <GitCompare className="w-4 h-4 mr-2" />
+                      Compare
+                    </Button>
+                  )}
+                  <Badge
+                    className={
+                      h.score >= 90
+                        ? "threat-low"
+                        : h.score >= 75
+                        ? "threat-medium"
+                        : h.score >= 60
+                        ? "threat-high"
+                        : "threat-critical"
+                    }
+                  >
+                    {h.grade} • {h.score}
+                  </Badge>
+                </div>
               </div>
             ))}
           </CardContent>